@@ -0,0 +1,74 @@
+// ==================== Types ====================
+
+interface CachedResponse {
+  status: number
+  contentType: string
+  body: Buffer
+}
+
+interface CacheEntry {
+  response: CachedResponse
+  expiresAt: number
+}
+
+// ==================== Main Class ====================
+
+/**
+ * 内存响应缓存
+ * 按 URL 缓存上游响应，超出容量时淘汰最久未使用的条目
+ */
+class ResponseCache {
+  private entries = new Map<string, CacheEntry>()
+  private maxEntries: number
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries
+  }
+
+  /**
+   * 读取缓存
+   * @returns 命中且未过期时返回响应，否则返回 null
+   */
+  get(key: string): CachedResponse | null {
+    const entry = this.entries.get(key)
+
+    // Happy Path: 未命中
+    if (!entry) {
+      return null
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+
+    // 重新插入，使 Map 的遍历顺序保持为最近使用顺序
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.response
+  }
+
+  /**
+   * 写入缓存
+   * @param ttl - 缓存时间（毫秒）
+   */
+  set(key: string, response: CachedResponse, ttl: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { response, expiresAt: Date.now() + ttl })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+// ==================== Exports ====================
+
+export type { CachedResponse }
+export { ResponseCache }
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { getClientAddress } from './clientAddress.js'
+
+const SOCKET = '10.0.0.2' // 反向代理连接到本服务的地址
+
+describe('getClientAddress', () => {
+  it('ignores X-Forwarded-For when no proxy is trusted', () => {
+    expect(getClientAddress('203.0.113.7', SOCKET, 0)).toBe(SOCKET)
+  })
+
+  it('takes the address the trusted proxy appended', () => {
+    expect(getClientAddress('203.0.113.7', SOCKET, 1)).toBe('203.0.113.7')
+  })
+
+  it('ignores addresses forged by the client', () => {
+    // 客户端发送 "X-Forwarded-For: 1.2.3.4"，nginx 在末尾追加真实地址
+    expect(getClientAddress('1.2.3.4, 203.0.113.7', SOCKET, 1)).toBe('203.0.113.7')
+    expect(getClientAddress('1.2.3.4, 5.6.7.8,203.0.113.7', SOCKET, 1)).toBe('203.0.113.7')
+  })
+
+  it('gives every forged address the same client ID', () => {
+    const ids = ['1.1.1.1', '2.2.2.2', '3.3.3.3'].map((forged) =>
+      getClientAddress(`${forged}, 203.0.113.7`, SOCKET, 1)
+    )
+
+    expect(new Set(ids)).toEqual(new Set(['203.0.113.7']))
+  })
+
+  it('counts trusted hops from the right', () => {
+    // 客户端 → CDN（追加客户端地址）→ nginx（追加 CDN 地址）→ 本服务
+    expect(getClientAddress('1.2.3.4, 203.0.113.7, 198.51.100.1', SOCKET, 2)).toBe('203.0.113.7')
+  })
+
+  it('reads repeated headers in order', () => {
+    expect(getClientAddress(['1.2.3.4', '203.0.113.7'], SOCKET, 1)).toBe('203.0.113.7')
+  })
+
+  it('falls back to the leftmost address when there are fewer entries than hops', () => {
+    expect(getClientAddress('203.0.113.7', SOCKET, 2)).toBe('203.0.113.7')
+  })
+
+  it('falls back to the socket address without a usable header', () => {
+    expect(getClientAddress(undefined, SOCKET, 1)).toBe(SOCKET)
+    expect(getClientAddress(' , ', SOCKET, 1)).toBe(SOCKET)
+    expect(getClientAddress(undefined, undefined, 1)).toBe('unknown')
+  })
+})
@@ -0,0 +1,34 @@
+// ==================== Main Functions ====================
+
+/**
+ * 获取限速使用的客户端地址
+ * 反向代理（如 nginx 的 $proxy_add_x_forwarded_for）会把它看到的来源地址追加到 X-Forwarded-For 末尾，
+ * 客户端自己发送的内容都在左边，可以任意伪造；因此从右往左数，跳过受信任代理追加的地址，
+ * 取最外层受信任代理看到的地址
+ * @param forwardedFor - X-Forwarded-For 请求头（可能出现多次）
+ * @param remoteAddress - 连接的来源地址
+ * @param trustedProxies - 受信任的反向代理层数，为 0 时忽略 X-Forwarded-For
+ */
+function getClientAddress(
+  forwardedFor: string | string[] | undefined,
+  remoteAddress: string | undefined,
+  trustedProxies: number
+): string {
+  const addresses = [forwardedFor ?? []]
+    .flat()
+    .flatMap((header) => header.split(','))
+    .map((address) => address.trim())
+    .filter(Boolean)
+
+  // Happy Path: 不信任代理，或请求没有经过代理
+  if (trustedProxies <= 0 || addresses.length === 0) {
+    return remoteAddress || 'unknown'
+  }
+
+  // 地址数少于代理层数时说明请求没有经过全部代理，取最左边（由受信任代理写入）的地址
+  return addresses[Math.max(0, addresses.length - trustedProxies)]
+}
+
+// ==================== Exports ====================
+
+export { getClientAddress }
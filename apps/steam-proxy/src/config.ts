@@ -0,0 +1,57 @@
+// ==================== Types ====================
+
+interface ProxyConfig {
+  port: number
+  allowedOrigins: string[] | null // null 表示允许所有来源
+  rateLimitPerMinute: number // 每个客户端 IP
+  upstreamRequestsPerSecond: number // 所有客户端共享
+  cacheMaxEntries: number
+  upstreamTimeoutMs: number
+  trustedProxies: number // 受信任的反向代理层数，为 0 时不读取 X-Forwarded-For
+}
+
+// ==================== Helper Functions ====================
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * 读取受信任的反向代理层数
+ * TRUST_PROXY=true 表示一层，也可以直接填写层数（如 CDN + nginx 为 2）
+ */
+function readTrustedProxies(): number {
+  const value = process.env.TRUST_PROXY?.trim()
+
+  if (value === 'true') {
+    return 1
+  }
+
+  const hops = Number(value)
+  return Number.isInteger(hops) && hops > 0 ? hops : 0
+}
+
+/**
+ * 从环境变量读取代理配置
+ */
+function loadConfig(): ProxyConfig {
+  const origins = process.env.ALLOWED_ORIGINS?.split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+
+  return {
+    port: readNumber('PORT', 8787),
+    allowedOrigins: origins && origins.length > 0 ? origins : null,
+    rateLimitPerMinute: readNumber('RATE_LIMIT_PER_MINUTE', 120),
+    upstreamRequestsPerSecond: readNumber('UPSTREAM_REQUESTS_PER_SECOND', 5),
+    cacheMaxEntries: readNumber('CACHE_MAX_ENTRIES', 2000),
+    upstreamTimeoutMs: readNumber('UPSTREAM_TIMEOUT_MS', 10000),
+    trustedProxies: readTrustedProxies(),
+  }
+}
+
+// ==================== Exports ====================
+
+export type { ProxyConfig }
+export { loadConfig }
@@ -0,0 +1,221 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { loadConfig } from './config.js'
+import { getClientAddress } from './clientAddress.js'
+import { ResponseCache, type CachedResponse } from './cache.js'
+import { ClientRateLimiter, TokenBucket } from './rateLimiter.js'
+import { matchEndpoint } from './whitelist.js'
+
+// ==================== Constants ====================
+
+const PROXY_PATH = '/proxy'
+const HEALTH_PATH = '/health'
+const PRUNE_INTERVAL_MS = 60 * 1000
+const USER_AGENT = 'game-gallery-steam-proxy/1.0'
+// 上游重定向最多跟随的次数，每一跳都要重新校验白名单
+const MAX_REDIRECTS = 3
+
+// ==================== State ====================
+
+const config = loadConfig()
+const cache = new ResponseCache(config.cacheMaxEntries)
+const clientLimiter = new ClientRateLimiter(config.rateLimitPerMinute)
+// 所有客户端共享的上游速率，避免代理自身被 Steam 限流
+const upstreamBucket = new TokenBucket(
+  config.upstreamRequestsPerSecond,
+  config.upstreamRequestsPerSecond
+)
+// 同一 URL 正在请求时，后来的请求复用同一个 Promise
+const inFlight = new Map<string, Promise<CachedResponse>>()
+
+// ==================== Helper Functions ====================
+
+/**
+ * 限速使用的客户端标识
+ * X-Forwarded-For 的左侧可由客户端伪造，只有开启 TRUST_PROXY（部署在反向代理之后）时才按代理层数读取
+ */
+function getClientId(req: IncomingMessage): string {
+  return getClientAddress(
+    req.headers['x-forwarded-for'],
+    req.socket.remoteAddress,
+    config.trustedProxies
+  )
+}
+
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+  const origin = req.headers.origin
+
+  if (!config.allowedOrigins) {
+    res.setHeader('Access-Control-Allow-Origin', '*')
+  } else if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin)
+    res.setHeader('Vary', 'Origin')
+  }
+
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Accept')
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * 请求 Steam 上游接口
+ * 先经过全局令牌桶，超时后中止
+ * 重定向手动跟随，目标不在白名单中时拒绝，避免借重定向访问任意地址
+ */
+async function fetchUpstream(target: URL): Promise<CachedResponse> {
+  await upstreamBucket.take()
+
+  const signal = AbortSignal.timeout(config.upstreamTimeoutMs)
+  let url = target
+  let response: Response
+
+  for (let redirects = 0; ; redirects++) {
+    response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT, Accept: 'application/json, text/xml, */*' },
+      redirect: 'manual',
+      signal,
+    })
+
+    const location = response.headers.get('location')
+
+    // Happy Path: 不是重定向
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break
+    }
+
+    const next = new URL(location, url)
+    if (redirects >= MAX_REDIRECTS || !matchEndpoint(next)) {
+      throw new Error(`Redirect to ${next.toString()} is not allowed`)
+    }
+    url = next
+  }
+
+  return {
+    status: response.status,
+    contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+    body: Buffer.from(await response.arrayBuffer()),
+  }
+}
+
+function fetchDeduplicated(target: URL): Promise<CachedResponse> {
+  const key = target.toString()
+  const pending = inFlight.get(key)
+
+  // Happy Path: 同一 URL 正在请求
+  if (pending) {
+    return pending
+  }
+
+  const request = fetchUpstream(target).finally(() => {
+    inFlight.delete(key)
+  })
+  inFlight.set(key, request)
+  return request
+}
+
+// ==================== Request Handlers ====================
+
+/**
+ * 代理请求：GET /proxy?url=<encoded Steam URL>
+ * 与公共 CORS 代理的格式一致，前端可以直接替换
+ */
+async function handleProxy(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  const rawTarget = url.searchParams.get('url')
+
+  // Happy Path: 缺少目标 URL
+  if (!rawTarget) {
+    sendJson(res, 400, { error: 'missing_url' })
+    return
+  }
+
+  let target: URL
+  try {
+    target = new URL(rawTarget)
+  } catch {
+    sendJson(res, 400, { error: 'invalid_url' })
+    return
+  }
+
+  const endpoint = matchEndpoint(target)
+
+  // Happy Path: 不在白名单中
+  if (!endpoint) {
+    sendJson(res, 403, { error: 'endpoint_not_allowed' })
+    return
+  }
+
+  const cacheKey = target.toString()
+  const cached = endpoint.cacheTtl > 0 ? cache.get(cacheKey) : null
+  if (cached) {
+    res.writeHead(cached.status, { 'Content-Type': cached.contentType, 'X-Cache': 'HIT' })
+    res.end(cached.body)
+    return
+  }
+
+  // 缓存命中不计入限速，只限制真正需要请求上游的请求
+  const retryAfterMs = clientLimiter.check(getClientId(req))
+  if (retryAfterMs > 0) {
+    res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000))
+    sendJson(res, 429, { error: 'rate_limited' })
+    return
+  }
+
+  try {
+    const upstream = await fetchDeduplicated(target)
+
+    if (upstream.status === 200 && endpoint.cacheTtl > 0) {
+      cache.set(cacheKey, upstream, endpoint.cacheTtl)
+    }
+
+    res.writeHead(upstream.status, { 'Content-Type': upstream.contentType, 'X-Cache': 'MISS' })
+    res.end(upstream.body)
+  } catch (error) {
+    console.error(`[SteamProxy] Upstream error for ${endpoint.name}:`, error)
+    sendJson(res, 502, { error: 'upstream_failed' })
+  }
+}
+
+function handleHealth(res: ServerResponse): void {
+  sendJson(res, 200, { status: 'ok', cacheEntries: cache.size, inFlight: inFlight.size })
+}
+
+// ==================== Server ====================
+
+const server = createServer(async (req, res) => {
+  setCorsHeaders(req, res)
+
+  // Happy Path: CORS 预检
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204)
+    res.end()
+    return
+  }
+
+  // Happy Path: 只支持 GET
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: 'method_not_allowed' })
+    return
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost')
+
+  switch (url.pathname) {
+    case PROXY_PATH:
+      await handleProxy(req, res, url)
+      return
+    case HEALTH_PATH:
+      handleHealth(res)
+      return
+    default:
+      sendJson(res, 404, { error: 'not_found' })
+  }
+})
+
+setInterval(() => clientLimiter.prune(), PRUNE_INTERVAL_MS).unref()
+
+server.listen(config.port, () => {
+  console.log(`[SteamProxy] Listening on http://localhost:${config.port}${PROXY_PATH}?url=`)
+})
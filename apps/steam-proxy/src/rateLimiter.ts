@@ -0,0 +1,110 @@
+// ==================== Constants ====================
+
+// 超过该时间没有请求的客户端令牌桶会被清理
+const CLIENT_IDLE_MS = 10 * 60 * 1000
+
+// ==================== Main Class ====================
+
+/**
+ * 令牌桶
+ * 容量为 capacity，每秒补充 refillPerSecond 个令牌
+ */
+class TokenBucket {
+  private tokens: number
+  private lastRefill = Date.now()
+  private capacity: number
+  private refillPerSecond: number
+
+  constructor(capacity: number, refillPerSecond: number) {
+    this.capacity = capacity
+    this.refillPerSecond = refillPerSecond
+    this.tokens = capacity
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond
+    )
+    this.lastRefill = now
+  }
+
+  /**
+   * 尝试取出一个令牌
+   * @returns 成功时返回 0，令牌不足时返回需要等待的毫秒数
+   */
+  tryTake(): number {
+    this.refill()
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1
+      return 0
+    }
+
+    return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000)
+  }
+
+  /**
+   * 取出一个令牌，令牌不足时预支并等待（先到先得）
+   */
+  async take(): Promise<void> {
+    this.refill()
+    this.tokens -= 1
+
+    // Happy Path: 令牌充足
+    if (this.tokens >= 0) {
+      return
+    }
+
+    const waitMs = (-this.tokens / this.refillPerSecond) * 1000
+    await new Promise((resolve) => setTimeout(resolve, waitMs))
+  }
+
+  get lastUsedAt(): number {
+    return this.lastRefill
+  }
+}
+
+/**
+ * 按客户端限速
+ * 每个客户端 IP 一个令牌桶，超出时直接拒绝（由客户端自行退避）
+ */
+class ClientRateLimiter {
+  private buckets = new Map<string, TokenBucket>()
+  private perMinute: number
+
+  constructor(perMinute: number) {
+    this.perMinute = perMinute
+  }
+
+  /**
+   * 检查客户端是否可以继续请求
+   * @returns 允许时返回 0，被限速时返回建议的重试等待毫秒数
+   */
+  check(clientId: string): number {
+    let bucket = this.buckets.get(clientId)
+    if (!bucket) {
+      bucket = new TokenBucket(this.perMinute, this.perMinute / 60)
+      this.buckets.set(clientId, bucket)
+    }
+
+    return bucket.tryTake()
+  }
+
+  /**
+   * 清理长时间没有请求的客户端
+   */
+  prune(): void {
+    const threshold = Date.now() - CLIENT_IDLE_MS
+    for (const [clientId, bucket] of this.buckets) {
+      if (bucket.lastUsedAt < threshold) {
+        this.buckets.delete(clientId)
+      }
+    }
+  }
+}
+
+// ==================== Exports ====================
+
+export { TokenBucket, ClientRateLimiter }
@@ -0,0 +1,81 @@
+// ==================== Types ====================
+
+/**
+ * 允许代理的 Steam 接口
+ * 只放行 SteamService 实际使用的接口，其余请求一律拒绝，避免被当作开放代理
+ */
+interface SteamEndpoint {
+  name: string
+  host: string
+  path: RegExp
+  cacheTtl: number // 缓存时间（毫秒），为 0 时不缓存
+}
+
+// ==================== Constants ====================
+
+const MINUTE = 60 * 1000
+
+const STEAM_ENDPOINTS: SteamEndpoint[] = [
+  {
+    name: 'storesearch',
+    host: 'store.steampowered.com',
+    path: /^\/api\/storesearch\/?$/,
+    cacheTtl: 10 * MINUTE,
+  },
+  {
+    name: 'appdetails',
+    host: 'store.steampowered.com',
+    path: /^\/api\/appdetails\/?$/,
+    cacheTtl: 30 * MINUTE,
+  },
+  {
+    name: 'appreviews',
+    host: 'store.steampowered.com',
+    path: /^\/appreviews\/\d+\/?$/,
+    cacheTtl: 60 * MINUTE,
+  },
+  {
+    name: 'store-items',
+    host: 'api.steampowered.com',
+    path: /^\/IStoreBrowseService\/GetItems\/v1\/?$/,
+    cacheTtl: 60 * MINUTE,
+  },
+  // 以下为个人资料导入使用的接口，内容随用户操作变化，不缓存
+  {
+    name: 'wishlist',
+    host: 'api.steampowered.com',
+    path: /^\/IWishlistService\/GetWishlist\/v1\/?$/,
+    cacheTtl: 0,
+  },
+  {
+    name: 'community-profile',
+    host: 'steamcommunity.com',
+    path: /^\/(id\/[^/]+|profiles\/\d{17})(\/games)?\/?$/,
+    cacheTtl: 0,
+  },
+]
+
+// ==================== Helper Functions ====================
+
+/**
+ * 查找目标 URL 对应的 Steam 接口
+ * @param target - 要代理的完整 URL
+ * @returns 在白名单中时返回接口信息，否则返回 null
+ */
+function matchEndpoint(target: URL): SteamEndpoint | null {
+  // Happy Path: 只允许 HTTPS
+  if (target.protocol !== 'https:') {
+    return null
+  }
+
+  return (
+    STEAM_ENDPOINTS.find(
+      (endpoint) => endpoint.host === target.hostname && endpoint.path.test(target.pathname)
+    ) ?? null
+  )
+}
+
+// ==================== Exports ====================
+
+export type { SteamEndpoint }
+export { STEAM_ENDPOINTS, matchEndpoint }
@@ -1,27 +1,74 @@
-import { useState, useEffect, lazy, Suspense, useRef, useCallback } from 'react'
+import { useState, useEffect, useMemo, lazy, Suspense, useRef, useCallback } from 'react'
 import classNames from 'classnames'
 import { GameItem } from '../components/GameItem'
 import { SearchBar, type SearchResult } from '../components/SearchBar'
-import type { Game } from '../types'
+import type { Game, PlayJournal, UpdateUserGameRequest } from '../types'
 import { AnimatePresence, motion } from 'framer-motion'
-import { SettingsIcon, Loader2, Play, Bookmark, CheckCircle, Library, Sparkles } from 'lucide-react'
+import {
+  SettingsIcon,
+  Loader2,
+  Play,
+  Bookmark,
+  CheckCircle,
+  Tag,
+  Library,
+  Sparkles,
+  SlidersHorizontal,
+  ListChecks,
+  Download,
+  ArrowDownUp,
+  CalendarDays,
+  BarChart3,
+  type LucideIcon,
+} from 'lucide-react'
 import { gameService } from '../services/game'
 import { userGameService } from '../services/userGame'
 import { steamService } from '../services/steam'
-import type { GameStatus } from '../types'
+import { steamImportService } from '../services/steamImport'
+import { localStore, type OutboxMutation } from '../services/localStore'
+import { outboxService } from '../services/outbox'
+import { libraryService } from '../services/library'
+import { OAUTH_PROVIDER_NAMES, isAuthenticated } from '../services/auth'
+import type { GameStatus, OAuthCallbackResult, Shelf } from '../types'
+import { DEFAULT_SHELF_ID } from '../utils/shelves'
+import { createEmptyJournal, recordTransition } from '../utils/playJournal'
+import { compareGameOrder, getSortOrderBetween, planSortOrder } from '../utils/sortOrder'
+import { runBatch, type BatchProgress } from '../utils/batch'
+import { downloadFile } from '../utils/download'
 import {
-  mergeGameData,
-  toCreateGameRequest,
-  extractAppIdFromSteamUrl,
-} from '../utils/gameDataMapper'
+  collectGenres,
+  countActiveFilters,
+  filterGames,
+  isFilterActive,
+  sortGames,
+} from '../utils/libraryFilter'
+import { getRecentSlip } from '../utils/releaseCalendar'
+import { mergeGameData, extractAppIdFromSteamUrl } from '../utils/gameDataMapper'
 import styles from './index.module.scss'
 
 // 导入自定义 hooks
+import { useI18n } from '../hooks/useI18n'
 import { useToast } from '../hooks/useToast'
+import { useCommandHistory } from '../hooks/useCommandHistory'
 import { useHighlight } from '../hooks/useHighlight'
 import { useGamesGrouping } from '../hooks/useGamesGrouping'
 import { useGameSearch } from '../hooks/useGameSearch'
 import { useGameRefresh } from '../hooks/useGameRefresh'
+import { useOutbox } from '../hooks/useOutbox'
+import { useShelves } from '../hooks/useShelves'
+import { useAuth } from '../hooks/useAuth'
+import { usePriceTracking } from '../hooks/usePriceTracking'
+import { useReleaseTracking } from '../hooks/useReleaseTracking'
+import { useGitHubSync } from '../hooks/useGitHubSync'
+import { useLibraryView } from '../hooks/useLibraryView'
+import { useBatchSelection } from '../hooks/useBatchSelection'
+import { SyncStatus } from '../components/SyncStatus'
+import { PriceAlerts } from '../components/PriceAlerts'
+import { FilterPanel } from '../components/FilterPanel'
+import { SortableGameList } from '../components/SortableGameList'
+import { BatchActionBar, type BatchAction } from '../components/BatchActionBar'
+import { ReLoginPrompt } from '../components/ReLoginPrompt'
+import { ProfileSwitcher } from '../components/ProfileSwitcher'
 
 // 懒加载重组件（命名导出转换为默认导出）
 const MiniGames = lazy(() =>
@@ -30,40 +77,100 @@ const MiniGames = lazy(() =>
 const SteamSearch = lazy(() =>
   import('../components/SteamSearch').then((module) => ({ default: module.SteamSearch }))
 )
+const SteamImport = lazy(() =>
+  import('../components/SteamImport').then((module) => ({ default: module.SteamImport }))
+)
+const LibraryTransfer = lazy(() =>
+  import('../components/LibraryTransfer').then((module) => ({ default: module.LibraryTransfer }))
+)
+const ReleaseCalendar = lazy(() =>
+  import('../components/ReleaseCalendar').then((module) => ({ default: module.ReleaseCalendar }))
+)
+const LibraryStats = lazy(() =>
+  import('../components/LibraryStats').then((module) => ({ default: module.LibraryStats }))
+)
 const Settings = lazy(() =>
   import('../components/Settings').then((module) => ({ default: module.Settings }))
 )
 
+// 默认书架的图标，自定义书架统一使用标签图标
+const SHELF_ICONS: Record<GameStatus, LucideIcon> = {
+  playing: Play,
+  queueing: Bookmark,
+  completion: CheckCircle,
+}
+
 function App() {
   // 状态管理
   const [games, setGames] = useState<Game[]>([])
   const [searchTerm, setSearchTerm] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [showSteamSearch, setShowSteamSearch] = useState(false)
+  const [showSteamImport, setShowSteamImport] = useState(false)
+  const [showLibraryTransfer, setShowLibraryTransfer] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
-  const [mainTab, setMainTab] = useState<'steamgames' | 'playground'>('steamgames')
-  const [activeTab, setActiveTab] = useState<'playing' | 'queueing' | 'completion'>('playing')
-
-  // 分页状态
-  const [playingPage, setPlayingPage] = useState(1)
-  const [queueingPage, setQueueingPage] = useState(1)
-  const [completionPage, setCompletionPage] = useState(1)
-  const [hasMorePlaying, setHasMorePlaying] = useState(false)
-  const [hasMoreQueueing, setHasMoreQueueing] = useState(false)
-  const [hasMoreCompletion, setHasMoreCompletion] = useState(false)
+  const [mainTab, setMainTab] = useState<'steamgames' | 'calendar' | 'stats' | 'playground'>(
+    'steamgames'
+  )
+  const [activeTab, setActiveTab] = useState<GameStatus>('playing')
+
+  // 分页状态（按书架 ID 记录）
+  const [pagination, setPagination] = useState<
+    Record<GameStatus, { page: number; hasMore: boolean }>
+  >({})
   const [isLoadingMore, setIsLoadingMore] = useState(false)
 
   // 使用自定义 hooks
-  const { toast, showToast } = useToast()
+  const { t } = useI18n()
+  const { toast, showToast, hideToast } = useToast()
+  const history = useCommandHistory(showToast)
   const { highlightId, setHighlightId } = useHighlight()
-  const groupedGames = useGamesGrouping(games)
+  const { shelves, reloadShelves, saveShelves } = useShelves()
+  const groupedGames = useGamesGrouping(games, shelves)
+  const { filter, sort, setFilter, setSort, resetFilter } = useLibraryView()
+  // 从收藏的链接打开时，筛选条件不为空则默认展开筛选面板
+  const [showFilters, setShowFilters] = useState(() => isFilterActive(filter))
+
+  // 当前视图中每个书架可见的游戏（筛选 + 排序）
+  const visibleGames = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(groupedGames).map(([status, list]) => [
+          status,
+          sortGames(filterGames(list, filter), sort),
+        ])
+      ),
+    [groupedGames, filter, sort]
+  )
+  const availableGenres = useMemo(() => collectGenres(games), [games])
+  const hasActiveFilter = isFilterActive(filter)
+  // 只有在完整的默认顺序下才能拖动排序，否则拖动结果与实际保存的顺序不一致
+  const canReorder = sort.field === 'manual' && !hasActiveFilter
   const searchResults = useGameSearch(games, searchTerm)
+  const { isOnline, pendingCount, conflicts, discardConflict, retryConflict } = useOutbox()
+
+  // 多选和批量操作
+  const activeGames = visibleGames[activeTab] ?? []
+  const { isSelecting, selectedIds, setSelecting, toggleSelect, selectAll, clearSelection } =
+    useBatchSelection(activeGames.map((g) => g.id))
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null)
+  const [batchFailures, setBatchFailures] = useState<{ name: string; error: string }[]>([])
 
   // IntersectionObserver ref
   const observerTarget = useRef<HTMLDivElement>(null)
 
   // 定时刷新游戏信息
   useGameRefresh(games, setGames)
+  const {
+    histories: priceHistories,
+    alerts: priceAlerts,
+    dismissAlert,
+  } = usePriceTracking(games, setGames)
+  const releaseHistories = useReleaseTracking(games)
+  const recentSlipCount = useMemo(
+    () => games.filter((game) => getRecentSlip(releaseHistories[game.id])).length,
+    [games, releaseHistories]
+  )
 
   // 加载指定状态的游戏
   const loadGamesByStatus = async (status: GameStatus, page: number = 1) => {
@@ -71,41 +178,101 @@ function App() {
       status,
       page,
       page_size: 20,
+      sort_by: 'sort_order',
     })
 
     // Happy Path: 获取失败或未登录
     if (!result) {
-      return { games: [], hasMore: false }
+      return { games: [], hasMore: false, ok: false }
     }
 
     // 转换为前端格式
     const games = mergeGameData(result.data, null)
-    return { games, hasMore: result.pagination.has_next }
+    return { games, hasMore: result.pagination.has_next, ok: true }
+  }
+
+  // 从服务器加载所有书架的第一页，后端不可达时保留当前（缓存）数据
+  const loadLibrary = async (shelfList: Shelf[] = shelves) => {
+    // Happy Path: 未登录，清空游戏库
+    if (!isAuthenticated()) {
+      setGames([])
+      return
+    }
+
+    // 先回放离线变更，避免服务器数据覆盖本地修改
+    await outboxService.flush()
+
+    const results = await Promise.all(shelfList.map((shelf) => loadGamesByStatus(shelf.id, 1)))
+
+    // Happy Path: 后端不可达
+    if (results.every((result) => !result.ok)) {
+      return
+    }
+
+    const allGames = results.flatMap((result) => result.games)
+
+    setGames(await outboxService.applyPending(allGames))
+    setPagination(
+      Object.fromEntries(
+        shelfList.map((shelf, index) => [shelf.id, { page: 1, hasMore: results[index].hasMore }])
+      )
+    )
   }
 
-  // 初始化：加载所有状态的第一页
+  // 初始化：先渲染本地镜像，再加载服务器数据
   useEffect(() => {
     const loadAllGames = async () => {
       setIsLoading(true)
 
-      const [playingResult, queueingResult, completionResult] = await Promise.all([
-        loadGamesByStatus('playing', 1),
-        loadGamesByStatus('queueing', 1),
-        loadGamesByStatus('completion', 1),
-      ])
-
-      const allGames = [...playingResult.games, ...queueingResult.games, ...completionResult.games]
+      const cachedGames = await localStore.getGames()
+      if (cachedGames.length > 0) {
+        setGames(await outboxService.applyPending(cachedGames))
+        setIsLoading(false)
+      }
 
-      setGames(allGames)
-      setHasMorePlaying(playingResult.hasMore)
-      setHasMoreQueueing(queueingResult.hasMore)
-      setHasMoreCompletion(completionResult.hasMore)
+      const loadedShelves = isAuthenticated() ? await reloadShelves() : shelves
+      await loadLibrary(loadedShelves)
       setIsLoading(false)
     }
 
     loadAllGames()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // 首屏加载完成后，将游戏库镜像到本地
+  useEffect(() => {
+    if (isLoading) {
+      return
+    }
+
+    localStore.saveGames(games)
+  }, [games, isLoading])
+
+  // 开启 GitHub 同步时，游戏库变化提交到 games.json，文件的外部修改写回后重新加载
+  useGitHubSync(games, !isLoading, loadLibrary)
+
+  // 从 Steam / GitHub 登录返回后提示结果，登录成功时加载该账号的游戏库
+  const handleOAuthCallback = async (result: OAuthCallbackResult) => {
+    const provider = OAUTH_PROVIDER_NAMES[result.provider]
+
+    if (!result.user) {
+      showToast(
+        t(result.intent === 'link' ? 'account.linkFailed' : 'login.oauthFailed', { provider })
+      )
+      return
+    }
+
+    if (result.intent === 'link') {
+      showToast(t('account.linked', { provider }))
+      return
+    }
+
+    showToast(t('login.oauthSignedIn', { provider, username: result.user.username }))
+    await loadLibrary(await reloadShelves())
+  }
+
+  useAuth({ onOAuthCallback: handleOAuthCallback })
+
   // 以下 useEffect 已被提取到自定义 hooks 中：
   // - highlightId 自动清除 → useHighlight
   // - toast 自动清除 → useToast
@@ -143,7 +310,7 @@ function App() {
     // Happy Path: 游戏已存在
     const existing = games.find((g) => g.name.toLowerCase() === name.toLowerCase())
     if (existing) {
-      showToast(`"${name}" 已经在队列中！`)
+      showToast(t('app.alreadyInLibrary', { name }))
       setHighlightId(existing.id)
       return
     }
@@ -151,96 +318,45 @@ function App() {
     // 从 steamUrl 中提取 appId
     const appId = extractAppIdFromSteamUrl(steamUrl)
     if (!appId) {
-      showToast('无效的 Steam URL')
+      showToast(t('app.invalidSteamUrl'))
       return
     }
 
-    // 1. 尝试直接使用 app_id 添加到用户库
-    const addResult = await userGameService.addUserGame({
-      app_id: appId,
-      status: 'queueing',
-      is_pinned: false,
+    // 新游戏排在默认书架未置顶游戏的最前面
+    const firstUnpinned = groupedGames[DEFAULT_SHELF_ID]?.find((g) => !g.isPinned)
+    const sortOrder = getSortOrderBetween(undefined, firstUnpinned?.sortOrder) ?? 0
+
+    // 加入用户库（后端还没有该游戏时先创建）
+    const result = await steamImportService.addSteamApp({
+      appId,
+      name,
+      status: DEFAULT_SHELF_ID,
+      sortOrder,
+      steamUrl,
+      coverImage,
+      positivePercentage,
+      totalReviews,
+      releaseDate,
+      comingSoon,
+      isEarlyAccess,
     })
 
-    let gameId: string
-
-    // 2. 如果游戏不存在数据库，先创建游戏
-    if (addResult && 'error' in addResult && addResult.error === 'game_not_found') {
-      const createGameParams = toCreateGameRequest({
-        appId,
-        name,
-        steamUrl,
-        coverImage,
-        type: 'game',
-        positivePercentage,
-        totalReviews,
-        releaseDate,
-        comingSoon,
-        isEarlyAccess,
-      })
-
-      const createdGame = await gameService.createGame(createGameParams)
-
-      // Happy Path: 创建游戏失败
-      if (!createdGame) {
-        showToast('创建游戏失败')
-        return
-      }
-
-      // 3. 创建成功后，再添加到用户库
-      const addResult2 = await userGameService.addUserGame({
-        app_id: appId,
-        status: 'queueing',
-        is_pinned: false,
-      })
-
-      if (!addResult2 || 'error' in addResult2) {
-        showToast('添加游戏到库失败')
-        return
-      }
-
-      gameId = createdGame.id
-    } else if (!addResult || 'error' in addResult) {
-      // Happy Path: 添加失败
-      showToast('添加游戏失败')
+    // Happy Path: 添加失败
+    if ('error' in result) {
+      showToast(result.message)
       return
-    } else {
-      gameId = addResult.game_id
     }
 
-    // 4. 获取完整的游戏信息
-    const backendGame = await gameService.getGame(gameId)
-
-    // Happy Path: 获取游戏信息失败
-    if (!backendGame) {
-      showToast('获取游戏信息失败')
-      return
-    }
-
-    // 更新本地状态
-    const newGame: Game = {
-      id: backendGame.id,
-      name: backendGame.name,
-      status: 'queueing',
-      isPinned: false,
-      addedAt: backendGame.created_at,
-      lastUpdated: backendGame.updated_at,
-      steamUrl: backendGame.steam_url,
-      coverImage: backendGame.capsule_image,
-      positivePercentage: positivePercentage,
-      totalReviews: totalReviews,
-      chinesePositivePercentage: undefined,
-      chineseTotalReviews: undefined,
-      releaseDate: backendGame.release_date ?? backendGame.release_date_text,
-      comingSoon: comingSoon ?? backendGame.categories?.includes('Coming Soon'),
-      isEarlyAccess: isEarlyAccess ?? backendGame.categories?.includes('Early Access'),
-      genres: backendGame.genres?.map((name) => ({ id: name, description: name })),
-    }
+    const newGame = result.game
 
     setGames([newGame, ...games])
-    showToast(`从 Steam 添加了 "${name}"`)
+    showToast(t('app.addedFromSteam', { name }))
     setHighlightId(newGame.id)
 
+    // 记录加入游戏库的时间，作为游玩日志的第一条状态变更
+    await outboxService.enqueueJournal(newGame, newGame.journal!)
+    await flushMutations()
+
     // 如果没有好评率或发布日期数据，立即拉取
     const needsAdditionalInfo =
       positivePercentage === undefined ||
@@ -309,6 +425,29 @@ function App() {
     )
   }
 
+  // 从 Steam 资料导入的游戏每入库一个回调一次
+  const handleGameImported = async (game: Game) => {
+    setGames((prevGames) =>
+      prevGames.some((g) => g.id === game.id) ? prevGames : [game, ...prevGames]
+    )
+
+    await outboxService.enqueueJournal(game, game.journal!)
+    await flushMutations()
+  }
+
+  // 文件导入已经直接写入后端，这里只合并到本地状态
+  const handleGamesImported = (importedGames: Game[]) => {
+    const importedById = new Map(importedGames.map((g) => [g.id, g]))
+
+    setGames((prevGames) => {
+      const existingIds = new Set(prevGames.map((g) => g.id))
+      return [
+        ...importedGames.filter((g) => !existingIds.has(g.id)),
+        ...prevGames.map((g) => importedById.get(g.id) ?? g),
+      ]
+    })
+  }
+
   const handleUpdateGame = async (id: string, updates: Partial<Game>) => {
     // Happy Path: 游戏不存在
     const game = games.find((g) => g.id === id)
@@ -316,24 +455,26 @@ function App() {
       return
     }
 
-    // 只有状态或置顶字段发生变化时才调用更新接口
-    if (!updates.status && updates.isPinned === undefined) {
+    // 只有状态、置顶或目标价格发生变化时才调用更新接口
+    if (!updates.status && updates.isPinned === undefined && updates.targetPrice === undefined) {
       return
     }
 
-    // 更新用户游戏状态
-    const result = await userGameService.updateUserGame(id, {
-      status: updates.status,
-      is_pinned: updates.isPinned,
-    })
-
-    // Happy Path: 更新失败
-    if (!result) {
-      showToast('更新游戏失败')
-      return
+    const request: UpdateUserGameRequest = {}
+    if (updates.status) request.status = updates.status
+    if (updates.isPinned !== undefined) request.is_pinned = updates.isPinned
+    if (updates.targetPrice !== undefined) {
+      request.target_price = updates.targetPrice
+      request.target_currency = updates.targetCurrency ?? null
     }
 
-    // 更新本地状态
+    // 状态变化时自动记录到游玩日志（开始游玩、完成等日期由此得出）
+    const journal =
+      updates.status && updates.status !== game.status
+        ? recordTransition(game.journal, game.status, updates.status)
+        : null
+
+    // 先更新本地状态，再通过 outbox 同步（离线时排队等待网络恢复）
     setGames((prevGames) =>
       prevGames.map((g) =>
         g.id === id
@@ -341,32 +482,137 @@ function App() {
               ...g,
               ...(updates.status && { status: updates.status }),
               ...(updates.isPinned !== undefined && { isPinned: updates.isPinned }),
+              ...(updates.targetPrice !== undefined && {
+                targetPrice: updates.targetPrice,
+                targetCurrency: updates.targetCurrency ?? null,
+              }),
+              ...(journal && { journal }),
               lastUpdated: new Date().toISOString(),
             }
           : g
       )
     )
+
+    await outboxService.enqueueUpdate(game, request)
+    if (journal) {
+      await outboxService.enqueueJournal(game, journal)
+    }
+    await flushMutations()
+
+    // 书架变化可以撤销，撤销时连同游玩日志一起恢复
+    if (updates.status && journal) {
+      const nextStatus = updates.status
+      const shelfName = shelves.find((s) => s.id === nextStatus)?.name ?? nextStatus
+
+      history.push({
+        label: t('app.movedTo', { name: game.name, shelf: shelfName }),
+        undo: () =>
+          commitGameChanges(game, {
+            status: game.status,
+            journal: game.journal ?? createEmptyJournal(),
+          }),
+        redo: () => commitGameChanges(game, { status: nextStatus, journal }),
+      })
+    }
   }
 
-  const handleDeleteGame = async (id: string) => {
+  // 写入书架、置顶、排序或日志变化（撤销 / 重做共用）：先更新本地状态，再通过 outbox 同步
+  const commitGameChanges = async (
+    game: Game,
+    changes: Partial<Pick<Game, 'status' | 'isPinned' | 'sortOrder' | 'journal'>>
+  ): Promise<boolean> => {
+    setGames((prevGames) =>
+      prevGames.map((g) =>
+        g.id === game.id ? { ...g, ...changes, lastUpdated: new Date().toISOString() } : g
+      )
+    )
+
+    const request: UpdateUserGameRequest = {}
+    if (changes.status !== undefined) request.status = changes.status
+    if (changes.isPinned !== undefined) request.is_pinned = changes.isPinned
+    if (changes.sortOrder !== undefined) request.sort_order = changes.sortOrder
+
+    if (Object.keys(request).length > 0) {
+      await outboxService.enqueueUpdate(game, request)
+    }
+    if (changes.journal) {
+      await outboxService.enqueueJournal(game, changes.journal)
+    }
+    await flushMutations()
+    return true
+  }
+
+  // 从用户库移除游戏（删除和重做删除共用）
+  const removeGame = async (game: Game): Promise<boolean> => {
+    setGames((prevGames) => prevGames.filter((g) => g.id !== game.id))
+
+    await outboxService.enqueueRemove(game)
+    await flushMutations()
+    return true
+  }
+
+  // 撤销删除：移除尚未同步时直接取消，否则以原来的书架、置顶和排序重新加入用户库
+  const restoreGame = async (game: Game): Promise<boolean> => {
+    if (!(await outboxService.cancelRemove(game.id))) {
+      const result = await userGameService.addUserGame({
+        game_id: game.id,
+        status: game.status,
+        is_pinned: game.isPinned ?? false,
+        sort_order: game.sortOrder ?? 0,
+      })
+
+      // Happy Path: 重新加入失败
+      if (!result || 'error' in result) {
+        return false
+      }
+
+      // 游玩日志和目标价格随用户库记录一起被删除，需要单独恢复
+      if (game.journal) {
+        await outboxService.enqueueJournal(game, game.journal)
+      }
+      if (game.targetPrice !== undefined && game.targetPrice !== null) {
+        await outboxService.enqueueUpdate(game, {
+          target_price: game.targetPrice,
+          target_currency: game.targetCurrency ?? null,
+        })
+      }
+      await flushMutations()
+    }
+
+    setGames((prevGames) =>
+      prevGames.some((g) => g.id === game.id) ? prevGames : [...prevGames, game]
+    )
+    return true
+  }
+
+  const handleUpdateJournal = async (id: string, journal: PlayJournal) => {
     // Happy Path: 游戏不存在
     const game = games.find((g) => g.id === id)
     if (!game) {
       return
     }
 
-    // 删除游戏
-    const success = await gameService.deleteGame(id)
+    setGames((prevGames) => prevGames.map((g) => (g.id === id ? { ...g, journal } : g)))
 
-    // Happy Path: 删除失败
-    if (!success) {
-      showToast('删除游戏失败')
+    await outboxService.enqueueJournal(game, journal)
+    await flushMutations()
+  }
+
+  const handleDeleteGame = async (id: string) => {
+    // Happy Path: 游戏不存在
+    const game = games.find((g) => g.id === id)
+    if (!game) {
       return
     }
 
-    // 更新本地状态
-    setGames((prevGames) => prevGames.filter((g) => g.id !== id))
-    showToast(`移除了 "${game.name}"`)
+    // 更新本地状态，从用户库移除的请求进入 outbox
+    await removeGame(game)
+
+    history.push({
+      label: t('app.removed', { name: game.name }),
+      undo: () => restoreGame(game),
+      redo: () => removeGame(game),
+    })
   }
 
   const handlePinGame = async (id: string) => {
@@ -376,17 +622,260 @@ function App() {
       return
     }
 
-    // 注意：后端暂未实现置顶功能的独立接口
     const newPinnedState = !game.isPinned
 
-    showToast('置顶功能暂未实现，请联系后端开发')
+    await commitGameChanges(game, { isPinned: newPinnedState })
+
+    history.push({
+      label: t(newPinnedState ? 'app.pinned' : 'app.unpinned', { name: game.name }),
+      undo: () => commitGameChanges(game, { isPinned: !newPinnedState }),
+      redo: () => commitGameChanges(game, { isPinned: newPinnedState }),
+    })
+  }
+
+  // 拖动排序：只写入被移动游戏的新权重，权重空隙耗尽时才批量重新分配
+  const handleReorderGames = async (ordered: Game[], movedId: string) => {
+    // Happy Path: 游戏不存在
+    const moved = ordered.find((g) => g.id === movedId)
+    if (!moved) {
+      return
+    }
+
+    // 置顶和未置顶的游戏分别排序，跨分组拖动时吸附到同组内的对应位置
+    const isSameGroup = (g: Game) => !!g.isPinned === !!moved.isPinned
+    let source = ordered
+    let plan = planSortOrder(ordered.filter(isSameGroup), movedId)
+
+    // 重新分配必须覆盖整个书架：书架还有未加载的游戏时读取完整书架，
+    // 未加载的游戏排在已加载的游戏之后，保持它们原来的相对顺序
+    if (plan?.kind === 'reindex' && pagination[moved.status]?.hasMore) {
+      const shelf = await libraryService.getFullLibrary(games, moved.status)
+
+      // Happy Path: 无法读取完整书架
+      if (!shelf) {
+        showToast(t('app.reorderFailed'))
+        return
+      }
+
+      const loadedIds = new Set(ordered.map((g) => g.id))
+      const unloaded = shelf.filter((g) => !loadedIds.has(g.id)).sort(compareGameOrder)
+      source = [...ordered, ...unloaded]
+      plan = planSortOrder(source.filter(isSameGroup), movedId)
+    }
+
+    // Happy Path: 无需写入
+    if (!plan) {
+      return
+    }
+
+    const items =
+      plan.kind === 'single' ? [{ gameId: plan.gameId, sortOrder: plan.sortOrder }] : plan.items
+    // 拖动前的权重，用于撤销
+    const previousItems = items.map((item) => ({
+      gameId: item.gameId,
+      sortOrder: source.find((g) => g.id === item.gameId)?.sortOrder ?? 0,
+    }))
+
+    await writeSortOrders(items, source)
+
+    history.push({
+      label: t('app.reordered', { name: moved.name }),
+      undo: () => writeSortOrders(previousItems, source),
+      redo: () => writeSortOrders(items, source),
+    })
+  }
+
+  // 写入排序权重（拖动排序和撤销 / 重做共用）
+  const writeSortOrders = async (
+    items: { gameId: string; sortOrder: number }[],
+    source: Game[]
+  ): Promise<boolean> => {
+    const sortOrders = new Map(items.map((item) => [item.gameId, item.sortOrder]))
 
-    // 临时方案：仅在前端更新状态（页面刷新后会丢失）
     setGames((prevGames) =>
-      prevGames.map((g) =>
-        g.id === id ? { ...g, isPinned: newPinnedState, lastUpdated: new Date().toISOString() } : g
-      )
+      prevGames.map((g) => (sortOrders.has(g.id) ? { ...g, sortOrder: sortOrders.get(g.id) } : g))
     )
+
+    // 批量重新分配：在线且没有排队中的变更时一次请求写入，
+    // 否则逐条进入 outbox，保证与之前排队的排序变更按顺序回放
+    if (items.length > 1 && pendingCount === 0 && (await userGameService.updateSortOrders(items))) {
+      return true
+    }
+
+    for (const item of items) {
+      const game = source.find((g) => g.id === item.gameId)
+      if (game) {
+        await outboxService.enqueueUpdate(game, { sort_order: item.sortOrder })
+      }
+    }
+    await flushMutations()
+    return true
+  }
+
+  // 批量操作：在线时以有限并发直接请求，逐条报告失败并恢复失败项；
+  // 离线或已有排队变更时逐条进入 outbox，保证回放顺序
+  const handleBatchAction = async (action: BatchAction) => {
+    const targets = activeGames.filter(
+      (g) =>
+        selectedIds.has(g.id) &&
+        (action.kind !== 'pin' || !!g.isPinned !== action.isPinned) &&
+        (action.kind !== 'move' || g.status !== action.status)
+    )
+
+    // Happy Path: 没有需要修改的游戏
+    if (targets.length === 0) {
+      showToast(t('app.batchNoChanges'))
+      return
+    }
+
+    const now = new Date().toISOString()
+    const targetIds = new Set(targets.map((g) => g.id))
+    const request: UpdateUserGameRequest =
+      action.kind === 'move'
+        ? { status: action.status }
+        : action.kind === 'pin'
+          ? { is_pinned: action.isPinned }
+          : {}
+    // 状态变化同样记录到游玩日志
+    const journals = new Map(
+      action.kind === 'move'
+        ? targets.map((g) => [g.id, recordTransition(g.journal, g.status, action.status)])
+        : []
+    )
+
+    // 先更新本地状态
+    setGames((prevGames) =>
+      action.kind === 'remove'
+        ? prevGames.filter((g) => !targetIds.has(g.id))
+        : prevGames.map((g) =>
+            targetIds.has(g.id)
+              ? {
+                  ...g,
+                  ...(action.kind === 'move' && {
+                    status: action.status,
+                    journal: journals.get(g.id),
+                  }),
+                  ...(action.kind === 'pin' && { isPinned: action.isPinned }),
+                  lastUpdated: now,
+                }
+              : g
+          )
+    )
+    setBatchFailures([])
+
+    if (!isOnline || pendingCount > 0) {
+      for (const game of targets) {
+        if (action.kind === 'remove') {
+          await outboxService.enqueueRemove(game)
+          continue
+        }
+
+        await outboxService.enqueueUpdate(game, request)
+        const journal = journals.get(game.id)
+        if (journal) {
+          await outboxService.enqueueJournal(game, journal)
+        }
+      }
+      await flushMutations()
+      return
+    }
+
+    setBatchProgress({ completed: 0, total: targets.length })
+
+    const result = await runBatch(
+      targets,
+      async (game) => {
+        if (action.kind === 'remove') {
+          return userGameService.removeUserGame(game.id)
+        }
+
+        const updated = await userGameService.updateUserGame(game.id, request)
+        const journal = journals.get(game.id)
+        if (updated && journal) {
+          await outboxService.enqueueJournal(game, journal)
+        }
+        return updated !== null
+      },
+      { onProgress: setBatchProgress }
+    )
+
+    setBatchProgress(null)
+
+    // 失败的游戏恢复到操作前的状态
+    if (result.failed.length > 0) {
+      const originals = new Map(result.failed.map(({ item }) => [item.id, item]))
+      setGames((prevGames) => [
+        ...prevGames.map((g) => originals.get(g.id) ?? g),
+        ...[...originals.values()].filter((g) => !prevGames.some((p) => p.id === g.id)),
+      ])
+      setBatchFailures(result.failed.map(({ item, error }) => ({ name: item.name, error })))
+    }
+
+    if (journals.size > 0) {
+      await flushMutations()
+    }
+
+    showToast(
+      result.failed.length > 0
+        ? t('app.batchDoneWithFailures', {
+            count: result.succeeded.length,
+            failed: result.failed.length,
+          })
+        : t('app.batchDone', { count: result.succeeded.length })
+    )
+  }
+
+  // 导出选中的游戏为 JSON 文件
+  const handleBatchExport = () => {
+    const selected = activeGames.filter((g) => selectedIds.has(g.id))
+    const date = new Date().toISOString().slice(0, 10)
+
+    downloadFile(
+      `game-gallery-${activeTab}-${date}.json`,
+      JSON.stringify({ exportedAt: new Date().toISOString(), games: selected }, null, 2),
+      'application/json'
+    )
+    showToast(t('app.exported', { count: selected.length }))
+  }
+
+  const handleSelectCalendarGame = (game: Game) => {
+    setMainTab('steamgames')
+    setActiveTab(game.status)
+    // 等待切换 tab 后再滚动到游戏
+    setTimeout(() => setHighlightId(game.id), 100)
+  }
+
+  const handleSelectPriceAlert = (game: Game) => {
+    setActiveTab(game.status)
+    // 等待切换 tab 后再滚动到游戏
+    setTimeout(() => setHighlightId(game.id), 100)
+  }
+
+  // 回放 outbox，离线或登录失效时提示用户修改已排队
+  const flushMutations = async () => {
+    const result = await outboxService.flush()
+
+    if (result.unauthorized) {
+      showToast(t('app.sessionExpiredQueued'))
+    } else if (result.offline) {
+      showToast(t('app.offlineQueued'))
+    }
+  }
+
+  const handleRetryConflict = async (conflict: OutboxMutation) => {
+    await retryConflict(conflict.id!)
+  }
+
+  const handleDiscardConflict = async (conflict: OutboxMutation) => {
+    await discardConflict(conflict.id!)
+
+    // 服务器端已删除的游戏直接移出本地列表，其余情况重新加载以恢复服务器状态
+    if (conflict.conflict?.reason === 'deleted_on_server') {
+      setGames((prevGames) => prevGames.filter((g) => g.id !== conflict.gameId))
+      return
+    }
+
+    await loadLibrary()
   }
 
   const handleSearch = (term: string) => {
@@ -402,22 +891,40 @@ function App() {
   const handleSettingsClose = async () => {
     setShowSettings(false)
 
-    // 重新加载游戏数据（如果用户刚登录）
-    const [playingResult, queueingResult, completionResult] = await Promise.all([
-      loadGamesByStatus('playing', 1),
-      loadGamesByStatus('queueing', 1),
-      loadGamesByStatus('completion', 1),
-    ])
+    // 重新加载书架和游戏数据（如果用户刚登录）
+    const loadedShelves = isAuthenticated() ? await reloadShelves() : shelves
+    await loadLibrary(loadedShelves)
+  }
 
-    const allGames = [...playingResult.games, ...queueingResult.games, ...completionResult.games]
+  const handleSaveShelves = async (nextShelves: Shelf[]) => {
+    const success = await saveShelves(nextShelves)
 
-    setGames(allGames)
-    setPlayingPage(1)
-    setQueueingPage(1)
-    setCompletionPage(1)
-    setHasMorePlaying(playingResult.hasMore)
-    setHasMoreQueueing(queueingResult.hasMore)
-    setHasMoreCompletion(completionResult.hasMore)
+    // 当前所在书架被删除时，切换到第一个书架
+    if (!nextShelves.some((s) => s.id === activeTab) && nextShelves.length > 0) {
+      setActiveTab(nextShelves[0].id)
+    }
+
+    // 新书架还没有分页数据，补充加载第一页
+    const newShelves = nextShelves.filter((s) => !pagination[s.id])
+    if (newShelves.length > 0) {
+      const results = await Promise.all(newShelves.map((s) => loadGamesByStatus(s.id, 1)))
+      setGames((prevGames) => [
+        ...prevGames,
+        ...results.flatMap((r) => r.games).filter((g) => !prevGames.some((p) => p.id === g.id)),
+      ])
+      setPagination((prev) => ({
+        ...prev,
+        ...Object.fromEntries(
+          newShelves.map((s, index) => [s.id, { page: 1, hasMore: results[index].hasMore }])
+        ),
+      }))
+    }
+
+    if (!success) {
+      showToast(t('app.shelvesSyncFailed'))
+    }
+
+    return success
   }
 
   // 加载更多游戏
@@ -428,57 +935,36 @@ function App() {
         return
       }
 
-      let currentPage: number
-      let setPage: (page: number) => void
-      let setHasMore: (hasMore: boolean) => void
-      let hasMore: boolean
-
-      if (status === 'playing') {
-        currentPage = playingPage
-        setPage = setPlayingPage
-        setHasMore = setHasMorePlaying
-        hasMore = hasMorePlaying
-      } else if (status === 'queueing') {
-        currentPage = queueingPage
-        setPage = setQueueingPage
-        setHasMore = setHasMoreQueueing
-        hasMore = hasMoreQueueing
-      } else {
-        currentPage = completionPage
-        setPage = setCompletionPage
-        setHasMore = setHasMoreCompletion
-        hasMore = hasMoreCompletion
-      }
+      const current = pagination[status]
 
       // 如果没有更多数据，不加载
-      if (!hasMore) {
+      if (!current || !current.hasMore) {
         return
       }
 
       setIsLoadingMore(true)
 
       try {
-        const nextPage = currentPage + 1
+        const nextPage = current.page + 1
         const result = await loadGamesByStatus(status, nextPage)
-
-        setGames((prevGames) => [...prevGames, ...result.games])
-        setPage(nextPage)
-        setHasMore(result.hasMore)
+        const nextGames = await outboxService.applyPending(result.games)
+
+        // 排序调整后服务器分页边界可能移动，跳过已加载的游戏
+        setGames((prevGames) => {
+          const loadedIds = new Set(prevGames.map((g) => g.id))
+          return [...prevGames, ...nextGames.filter((g) => !loadedIds.has(g.id))]
+        })
+        setPagination((prev) => ({
+          ...prev,
+          [status]: { page: nextPage, hasMore: result.hasMore },
+        }))
       } catch (error) {
         console.error('加载更多游戏失败:', error)
       } finally {
         setIsLoadingMore(false)
       }
     },
-    [
-      isLoadingMore,
-      playingPage,
-      queueingPage,
-      completionPage,
-      hasMorePlaying,
-      hasMoreQueueing,
-      hasMoreCompletion,
-    ]
+    [isLoadingMore, pagination]
   )
 
   // IntersectionObserver 监听滚动到底部
@@ -512,9 +998,15 @@ function App() {
             value={searchTerm}
             onSearch={handleSearch}
             results={searchResults}
+            shelves={shelves}
             onResultClick={handleSearchResultClick}
           />
-          <button onClick={() => setShowSettings(true)} className={styles.btnSettings} title="设置">
+          <ProfileSwitcher />
+          <button
+            onClick={() => setShowSettings(true)}
+            className={styles.btnSettings}
+            title={t('app.settings')}
+          >
             <SettingsIcon size={18} />
           </button>
         </div>
@@ -529,7 +1021,29 @@ function App() {
           })}
         >
           <Library size={20} />
-          Steam Games
+          {t('app.tabs.steamGames')}
+        </button>
+        <button
+          onClick={() => setMainTab('calendar')}
+          className={classNames(styles.mainTabBtn, {
+            [styles.mainTabActive]: mainTab === 'calendar',
+          })}
+          title={
+            recentSlipCount > 0 ? t('calendar.recentSlips', { count: recentSlipCount }) : undefined
+          }
+        >
+          <CalendarDays size={20} />
+          {t('app.tabs.calendar')}
+          {recentSlipCount > 0 && <span className={styles.tabBadge}>{recentSlipCount}</span>}
+        </button>
+        <button
+          onClick={() => setMainTab('stats')}
+          className={classNames(styles.mainTabBtn, {
+            [styles.mainTabActive]: mainTab === 'stats',
+          })}
+        >
+          <BarChart3 size={20} />
+          {t('app.tabs.stats')}
         </button>
         <button
           onClick={() => setMainTab('playground')}
@@ -538,7 +1052,7 @@ function App() {
           })}
         >
           <Sparkles size={20} />
-          Playground
+          {t('app.tabs.playground')}
         </button>
       </div>
 
@@ -548,7 +1062,7 @@ function App() {
             fallback={
               <div className={styles.loadingContainer}>
                 <Loader2 className={`${styles.loaderIcon} animate-spin`} size={32} />
-                <div className={styles.mt1}>加载中...</div>
+                <div className={styles.mt1}>{t('common.loading')}</div>
               </div>
             }
           >
@@ -557,83 +1071,174 @@ function App() {
         ) : isLoading ? (
           <div className={styles.loadingContainer}>
             <Loader2 className={`${styles.loaderIcon} animate-spin`} size={32} />
-            <div className={styles.mt1}>加载中...</div>
+            <div className={styles.mt1}>{t('common.loading')}</div>
           </div>
+        ) : mainTab === 'calendar' ? (
+          <Suspense fallback={<div />}>
+            <ReleaseCalendar
+              games={games}
+              shelves={shelves}
+              releaseHistories={releaseHistories}
+              onSelectGame={handleSelectCalendarGame}
+              onShowToast={showToast}
+            />
+          </Suspense>
+        ) : mainTab === 'stats' ? (
+          <Suspense fallback={<div />}>
+            <LibraryStats games={games} shelves={shelves} onShowToast={showToast} />
+          </Suspense>
         ) : (
           <div>
+            <SyncStatus
+              isOnline={isOnline}
+              pendingCount={pendingCount}
+              conflicts={conflicts}
+              onRetry={handleRetryConflict}
+              onDiscard={handleDiscardConflict}
+            />
+
+            <PriceAlerts
+              alerts={priceAlerts}
+              onSelect={handleSelectPriceAlert}
+              onDismiss={dismissAlert}
+            />
+
             {/* Tab Navigation with Add Button */}
             <div className={styles.tabNavRow}>
               <div className={styles.tabNav}>
+                {shelves.map((shelf) => {
+                  const ShelfIcon = SHELF_ICONS[shelf.id] ?? Tag
+                  const isActive = activeTab === shelf.id
+                  const total = groupedGames[shelf.id]?.length ?? 0
+                  // 有筛选条件时显示 "符合条件数/总数"
+                  const count = hasActiveFilter
+                    ? `${visibleGames[shelf.id]?.length ?? 0}/${total}`
+                    : total
+
+                  return (
+                    <button
+                      key={shelf.id}
+                      data-status={shelf.id}
+                      onClick={() => setActiveTab(shelf.id)}
+                      className={classNames(styles.tabBtn, { [styles.active]: isActive })}
+                      style={isActive ? { background: shelf.color } : undefined}
+                    >
+                      <ShelfIcon size={16} />
+                      {shelf.name} ({count})
+                    </button>
+                  )
+                })}
+              </div>
+              <div className={styles.tabNavActions}>
                 <button
-                  data-status="playing"
-                  onClick={() => setActiveTab('playing')}
-                  className={classNames(styles.tabBtn, {
-                    [styles.active]: activeTab === 'playing',
-                    [styles.activePlaying]: activeTab === 'playing',
-                  })}
+                  onClick={() => setSelecting(!isSelecting)}
+                  className={classNames(styles.btnFilter, { [styles.active]: isSelecting })}
+                  title={t('app.multiSelect')}
+                  disabled={batchProgress !== null}
                 >
-                  <Play size={16} />
-                  Playing ({groupedGames.playing.length})
+                  <ListChecks size={16} />
+                  {t('app.multiSelect')}
                 </button>
                 <button
-                  data-status="queueing"
-                  onClick={() => setActiveTab('queueing')}
-                  className={classNames(styles.tabBtn, {
-                    [styles.active]: activeTab === 'queueing',
-                    [styles.activeQueueing]: activeTab === 'queueing',
+                  onClick={() => setShowFilters(!showFilters)}
+                  className={classNames(styles.btnFilter, {
+                    [styles.active]: showFilters || hasActiveFilter,
                   })}
+                  title={t('app.filterTitle')}
                 >
-                  <Bookmark size={16} />
-                  Queueing ({groupedGames.queueing.length})
+                  <SlidersHorizontal size={16} />
+                  {t('app.filter')}
+                  {hasActiveFilter && (
+                    <span className={styles.filterCount}>{countActiveFilters(filter)}</span>
+                  )}
                 </button>
                 <button
-                  data-status="completion"
-                  onClick={() => setActiveTab('completion')}
-                  className={classNames(styles.tabBtn, {
-                    [styles.active]: activeTab === 'completion',
-                    [styles.activeCompletion]: activeTab === 'completion',
-                  })}
+                  onClick={() => setShowSteamImport(true)}
+                  className={styles.btnFilter}
+                  title={t('app.importTitle')}
                 >
-                  <CheckCircle size={16} />
-                  Completion ({groupedGames.completion.length})
+                  <Download size={16} />
+                  {t('app.import')}
+                </button>
+                <button
+                  onClick={() => setShowLibraryTransfer(true)}
+                  className={styles.btnFilter}
+                  title={t('app.transferTitle')}
+                >
+                  <ArrowDownUp size={16} />
+                  {t('app.transfer')}
+                </button>
+                <button onClick={() => setShowSteamSearch(true)} className={styles.btnSteam}>
+                  {t('app.addFromSteam')}
                 </button>
               </div>
-              <button onClick={() => setShowSteamSearch(true)} className={styles.btnSteam}>
-                从 Steam 添加
-              </button>
             </div>
 
+            {showFilters && (
+              <FilterPanel
+                filter={filter}
+                sort={sort}
+                genres={availableGenres}
+                resultCount={visibleGames[activeTab]?.length ?? 0}
+                onFilterChange={setFilter}
+                onSortChange={setSort}
+                onReset={resetFilter}
+              />
+            )}
+
+            {isSelecting && (
+              <BatchActionBar
+                selectedCount={selectedIds.size}
+                totalCount={activeGames.length}
+                shelves={shelves}
+                currentShelfId={activeTab}
+                progress={batchProgress}
+                failures={batchFailures}
+                onAction={handleBatchAction}
+                onExport={handleBatchExport}
+                onSelectAll={selectAll}
+                onClearSelection={clearSelection}
+                onDismissFailures={() => setBatchFailures([])}
+                onExit={() => {
+                  setSelecting(false)
+                  setBatchFailures([])
+                }}
+              />
+            )}
+
             {/* Game List */}
             <div className={styles.gameList}>
               <AnimatePresence mode="wait">
-                {groupedGames[activeTab].length > 0 ? (
+                {activeGames.length > 0 ? (
                   <>
-                    {groupedGames[activeTab].map((game) => (
-                      <motion.div
-                        key={game.id}
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        exit={{ opacity: 0, scale: 0.95 }}
-                        transition={{ duration: 0.3 }}
-                        className={styles.gameItemWrapper}
-                      >
+                    <SortableGameList
+                      games={activeGames}
+                      disabled={!canReorder || isSelecting}
+                      onReorder={handleReorderGames}
+                      renderItem={(game) => (
                         <GameItem
                           game={game}
+                          shelves={shelves}
                           onUpdate={handleUpdateGame}
                           onDelete={handleDeleteGame}
                           onPin={handlePinGame}
+                          onUpdateJournal={handleUpdateJournal}
+                          priceHistory={priceHistories[game.id]}
                           isHighlighted={highlightId === game.id}
                           onShowToast={showToast}
+                          isSelecting={isSelecting}
+                          isSelected={selectedIds.has(game.id)}
+                          onToggleSelect={toggleSelect}
                         />
-                      </motion.div>
-                    ))}
+                      )}
+                    />
                     {/* 加载触发器 */}
                     <div ref={observerTarget} className={styles.loadMoreTrigger} />
                     {/* 加载状态提示 */}
                     {isLoadingMore && (
                       <div className={styles.loadingMore}>
                         <Loader2 className="animate-spin" size={24} />
-                        <span>加载中...</span>
+                        <span>{t('common.loading')}</span>
                       </div>
                     )}
                   </>
@@ -645,7 +1250,9 @@ function App() {
                     exit={{ opacity: 0 }}
                     className={styles.emptyState}
                   >
-                    该状态下暂无游戏
+                    {hasActiveFilter && (groupedGames[activeTab]?.length ?? 0) > 0
+                      ? t('app.noMatchingGames')
+                      : t('app.emptyShelf')}
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -679,12 +1286,46 @@ function App() {
         </Suspense>
       )}
 
+      {showSteamImport && (
+        <Suspense fallback={<div />}>
+          <SteamImport
+            games={games}
+            shelves={shelves}
+            onGameAdded={handleGameImported}
+            onClose={() => setShowSteamImport(false)}
+          />
+        </Suspense>
+      )}
+
+      {showLibraryTransfer && (
+        <Suspense fallback={<div />}>
+          <LibraryTransfer
+            games={games}
+            shelves={shelves}
+            onGamesImported={handleGamesImported}
+            onShowToast={showToast}
+            onClose={() => setShowLibraryTransfer(false)}
+          />
+        </Suspense>
+      )}
+
       {showSettings && (
         <Suspense fallback={<div />}>
-          <Settings onClose={handleSettingsClose} />
+          <Settings
+            onClose={handleSettingsClose}
+            games={games}
+            shelves={shelves}
+            gameCounts={Object.fromEntries(
+              Object.entries(groupedGames).map(([id, list]) => [id, list.length])
+            )}
+            onSaveShelves={handleSaveShelves}
+          />
         </Suspense>
       )}
 
+      {/* 覆盖在当前界面之上，重新登录后不丢失浏览状态 */}
+      <ReLoginPrompt />
+
       <AnimatePresence>
         {toast && (
           <motion.div
@@ -693,7 +1334,18 @@ function App() {
             exit={{ opacity: 0, y: 20 }}
             className={styles.toast}
           >
-            {toast}
+            {toast.message}
+            {toast.action && (
+              <button
+                className={styles.toastAction}
+                onClick={() => {
+                  hideToast()
+                  toast.action!.onClick()
+                }}
+              >
+                {toast.action.label}
+              </button>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
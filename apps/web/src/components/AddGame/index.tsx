@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
 import { Plus } from 'lucide-react'
+import { useI18n } from '../../hooks/useI18n'
 import styles from './index.module.scss'
 
 interface AddGameProps {
@@ -7,6 +8,7 @@ interface AddGameProps {
 }
 
 export const AddGame: React.FC<AddGameProps> = ({ onAdd }) => {
+  const { t } = useI18n()
   const [name, setName] = useState('')
   const [steamUrl, setSteamUrl] = useState('')
 
@@ -25,20 +27,20 @@ export const AddGame: React.FC<AddGameProps> = ({ onAdd }) => {
         <input
           type="text"
           className={styles.inputPrimary}
-          placeholder="Enter game name to add..."
+          placeholder={t('addGame.namePlaceholder')}
           value={name}
           onChange={(e) => setName(e.target.value)}
         />
         <input
           type="text"
           className={styles.inputPrimary}
-          placeholder="Steam URL (可选)"
+          placeholder={t('addGame.steamUrlPlaceholder')}
           value={steamUrl}
           onChange={(e) => setSteamUrl(e.target.value)}
         />
         <button type="submit" className={styles.btnAdd}>
           <Plus size={20} style={{ marginRight: '0.5rem', verticalAlign: 'middle' }} />
-          Add Game
+          {t('addGame.submit')}
         </button>
       </form>
     </div>
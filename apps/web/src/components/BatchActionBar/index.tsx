@@ -0,0 +1,173 @@
+import React, { useState } from 'react'
+import classNames from 'classnames'
+import { CheckSquare, Download, Loader2, Pin, PinOff, Trash2, X, XCircle } from 'lucide-react'
+import type { GameStatus, Shelf } from '../../types'
+import type { BatchProgress } from '../../utils/batch'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+export type BatchAction =
+  | { kind: 'move'; status: GameStatus }
+  | { kind: 'pin'; isPinned: boolean }
+  | { kind: 'remove' }
+
+interface BatchActionBarProps {
+  selectedCount: number
+  totalCount: number
+  shelves: Shelf[]
+  currentShelfId: GameStatus
+  progress: BatchProgress | null // 批量操作进行中时不为 null
+  failures: { name: string; error: string }[]
+  onAction: (action: BatchAction) => void
+  onExport: () => void
+  onSelectAll: () => void
+  onClearSelection: () => void
+  onDismissFailures: () => void
+  onExit: () => void
+}
+
+export const BatchActionBar: React.FC<BatchActionBarProps> = ({
+  selectedCount,
+  totalCount,
+  shelves,
+  currentShelfId,
+  progress,
+  failures,
+  onAction,
+  onExport,
+  onSelectAll,
+  onClearSelection,
+  onDismissFailures,
+  onExit,
+}) => {
+  const { t } = useI18n()
+  const [targetShelfId, setTargetShelfId] = useState('')
+
+  const isRunning = progress !== null
+  const isDisabled = selectedCount === 0 || isRunning
+  const targetShelves = shelves.filter((s) => s.id !== currentShelfId)
+
+  const handleMove = (status: GameStatus) => {
+    setTargetShelfId('')
+    if (status) {
+      onAction({ kind: 'move', status })
+    }
+  }
+
+  const handleRemove = () => {
+    if (window.confirm(t('batch.confirmRemove', { count: selectedCount }))) {
+      onAction({ kind: 'remove' })
+    }
+  }
+
+  return (
+    <div className={styles.batchActionBar}>
+      <div className={styles.toolbar}>
+        <span className={styles.selectionCount}>
+          {t('batch.selected', { selected: selectedCount, total: totalCount })}
+        </span>
+
+        <button
+          onClick={selectedCount === totalCount ? onClearSelection : onSelectAll}
+          className={styles.btnAction}
+          disabled={isRunning || totalCount === 0}
+        >
+          <CheckSquare size={14} />
+          {selectedCount === totalCount && totalCount > 0
+            ? t('batch.deselectAll')
+            : t('batch.selectAll')}
+        </button>
+
+        <select
+          value={targetShelfId}
+          onChange={(e) => handleMove(e.target.value)}
+          className={styles.shelfSelect}
+          disabled={isDisabled}
+        >
+          <option value="">{t('batch.moveTo')}</option>
+          {targetShelves.map((shelf) => (
+            <option key={shelf.id} value={shelf.id}>
+              {shelf.name}
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => onAction({ kind: 'pin', isPinned: true })}
+          className={styles.btnAction}
+          disabled={isDisabled}
+        >
+          <Pin size={14} />
+          {t('batch.pin')}
+        </button>
+        <button
+          onClick={() => onAction({ kind: 'pin', isPinned: false })}
+          className={styles.btnAction}
+          disabled={isDisabled}
+        >
+          <PinOff size={14} />
+          {t('batch.unpin')}
+        </button>
+        <button onClick={onExport} className={styles.btnAction} disabled={isDisabled}>
+          <Download size={14} />
+          {t('batch.export')}
+        </button>
+        <button
+          onClick={handleRemove}
+          className={classNames(styles.btnAction, styles.danger)}
+          disabled={isDisabled}
+        >
+          <Trash2 size={14} />
+          {t('batch.remove')}
+        </button>
+
+        <button
+          onClick={onExit}
+          className={styles.btnExit}
+          disabled={isRunning}
+          title={t('batch.exit')}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {progress && (
+        <div className={styles.progress}>
+          <Loader2 size={14} className="animate-spin" />
+          <div className={styles.progressTrack}>
+            <div
+              className={styles.progressFill}
+              style={{ width: `${(progress.completed / Math.max(progress.total, 1)) * 100}%` }}
+            />
+          </div>
+          <span>
+            {progress.completed}/{progress.total}
+          </span>
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <div className={styles.failures}>
+          <div className={styles.failuresHeader}>
+            <XCircle size={14} />
+            <span>{t('batch.failures', { count: failures.length })}</span>
+            <button
+              onClick={onDismissFailures}
+              className={styles.btnDismiss}
+              title={t('common.close')}
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <ul className={styles.failureList}>
+            {failures.map((failure, index) => (
+              <li key={index}>
+                {t('batch.failureItem', { name: failure.name, error: failure.error })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+import React from 'react'
+import classNames from 'classnames'
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, RotateCcw } from 'lucide-react'
+import {
+  PLATFORMS,
+  type LibraryFilter,
+  type LibrarySort,
+  type LibrarySortField,
+  type NumberRange,
+  type Platform,
+  type PriceFilter,
+  type TriState,
+} from '../../utils/libraryFilter'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../locales/zh-CN'
+import styles from './index.module.scss'
+
+interface FilterPanelProps {
+  filter: LibraryFilter
+  sort: LibrarySort
+  genres: string[]
+  resultCount: number
+  onFilterChange: (filter: LibraryFilter) => void
+  onSortChange: (sort: LibrarySort) => void
+  onReset: () => void
+}
+
+// ==================== Constants ====================
+
+const SORT_OPTIONS: { value: LibrarySortField; labelKey: MessageKey }[] = [
+  { value: 'manual', labelKey: 'filter.sortManual' },
+  { value: 'score', labelKey: 'filter.sortScore' },
+  { value: 'reviews', labelKey: 'filter.sortReviews' },
+  { value: 'release', labelKey: 'filter.sortRelease' },
+  { value: 'name', labelKey: 'filter.sortName' },
+]
+
+const TRI_STATE_OPTIONS: { value: TriState; labelKey: MessageKey }[] = [
+  { value: 'any', labelKey: 'filter.any' },
+  { value: 'only', labelKey: 'filter.only' },
+  { value: 'exclude', labelKey: 'filter.exclude' },
+]
+
+const PRICE_OPTIONS: { value: PriceFilter; labelKey: MessageKey }[] = [
+  { value: 'any', labelKey: 'filter.any' },
+  { value: 'free', labelKey: 'filter.free' },
+  { value: 'paid', labelKey: 'filter.paid' },
+]
+
+const PLATFORM_LABELS: Record<Platform, string> = {
+  windows: 'Windows',
+  mac: 'macOS',
+  linux: 'Linux',
+}
+
+// ==================== Helper Functions ====================
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toggleItem<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter((i) => i !== item) : [...items, item]
+}
+
+// ==================== Sub Components ====================
+
+interface RangeInputProps {
+  range: NumberRange
+  min?: number
+  max?: number
+  placeholder: [string, string]
+  onChange: (range: NumberRange) => void
+}
+
+const RangeInput: React.FC<RangeInputProps> = ({ range, min, max, placeholder, onChange }) => (
+  <div className={styles.rangeInput}>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      placeholder={placeholder[0]}
+      value={range.min ?? ''}
+      onChange={(e) => onChange({ ...range, min: toNumberOrNull(e.target.value) })}
+    />
+    <span className={styles.rangeSeparator}>–</span>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      placeholder={placeholder[1]}
+      value={range.max ?? ''}
+      onChange={(e) => onChange({ ...range, max: toNumberOrNull(e.target.value) })}
+    />
+  </div>
+)
+
+interface SegmentedProps<T extends string> {
+  options: { value: T; labelKey: MessageKey }[]
+  value: T
+  onChange: (value: T) => void
+}
+
+function Segmented<T extends string>({ options, value, onChange }: SegmentedProps<T>) {
+  const { t } = useI18n()
+
+  return (
+    <div className={styles.segmented}>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          className={classNames(styles.segment, { [styles.active]: option.value === value })}
+          onClick={() => onChange(option.value)}
+        >
+          {t(option.labelKey)}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+// ==================== Component ====================
+
+export const FilterPanel: React.FC<FilterPanelProps> = ({
+  filter,
+  sort,
+  genres,
+  resultCount,
+  onFilterChange,
+  onSortChange,
+  onReset,
+}) => {
+  const { t } = useI18n()
+  const update = (updates: Partial<LibraryFilter>) => onFilterChange({ ...filter, ...updates })
+
+  return (
+    <div className={styles.filterPanel}>
+      <div className={styles.row}>
+        <span className={styles.label}>{t('filter.sort')}</span>
+        <div className={styles.sortControls}>
+          <select
+            className={styles.select}
+            value={sort.field}
+            onChange={(e) => onSortChange({ ...sort, field: e.target.value as LibrarySortField })}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </option>
+            ))}
+          </select>
+          {sort.field !== 'manual' && (
+            <button
+              className={styles.directionBtn}
+              onClick={() =>
+                onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })
+              }
+              title={sort.direction === 'asc' ? t('filter.ascending') : t('filter.descending')}
+            >
+              {sort.direction === 'asc' ? (
+                <ArrowUpNarrowWide size={16} />
+              ) : (
+                <ArrowDownWideNarrow size={16} />
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {genres.length > 0 && (
+        <div className={styles.row}>
+          <span className={styles.label}>{t('filter.genres')}</span>
+          <div className={styles.chips}>
+            {genres.map((genre) => (
+              <button
+                key={genre}
+                className={classNames(styles.chip, {
+                  [styles.active]: filter.genres.includes(genre),
+                })}
+                onClick={() => update({ genres: toggleItem(filter.genres, genre) })}
+              >
+                {genre}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className={styles.grid}>
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.score')}</span>
+          <RangeInput
+            range={filter.score}
+            min={0}
+            max={100}
+            placeholder={['0', '100']}
+            onChange={(score) => update({ score })}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.chineseScore')}</span>
+          <RangeInput
+            range={filter.chineseScore}
+            min={0}
+            max={100}
+            placeholder={['0', '100']}
+            onChange={(chineseScore) => update({ chineseScore })}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.minReviews')}</span>
+          <input
+            type="number"
+            min={0}
+            className={styles.numberInput}
+            placeholder={t('filter.any')}
+            value={filter.minReviews ?? ''}
+            onChange={(e) => update({ minReviews: toNumberOrNull(e.target.value) })}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.releaseYear')}</span>
+          <RangeInput
+            range={filter.releaseYear}
+            placeholder={[t('filter.rangeFrom'), t('filter.rangeTo')]}
+            onChange={(releaseYear) => update({ releaseYear })}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.earlyAccess')}</span>
+          <Segmented
+            options={TRI_STATE_OPTIONS}
+            value={filter.earlyAccess}
+            onChange={(earlyAccess) => update({ earlyAccess })}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.comingSoon')}</span>
+          <Segmented
+            options={TRI_STATE_OPTIONS}
+            value={filter.comingSoon}
+            onChange={(comingSoon) => update({ comingSoon })}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.platforms')}</span>
+          <div className={styles.chips}>
+            {PLATFORMS.map((platform) => (
+              <button
+                key={platform}
+                className={classNames(styles.chip, {
+                  [styles.active]: filter.platforms.includes(platform),
+                })}
+                onClick={() => update({ platforms: toggleItem(filter.platforms, platform) })}
+              >
+                {PLATFORM_LABELS[platform]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={styles.field}>
+          <span className={styles.label}>{t('filter.price')}</span>
+          <Segmented
+            options={PRICE_OPTIONS}
+            value={filter.price}
+            onChange={(price) => update({ price })}
+          />
+        </div>
+      </div>
+
+      <div className={styles.footer}>
+        <span className={styles.resultCount}>
+          {t('filter.resultCount', { count: resultCount })}
+        </span>
+        <button className={styles.resetBtn} onClick={onReset}>
+          <RotateCcw size={14} />
+          {t('filter.reset')}
+        </button>
+      </div>
+    </div>
+  )
+}
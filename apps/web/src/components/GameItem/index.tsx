@@ -1,27 +1,46 @@
 import React, { useRef, useEffect, useState } from 'react'
 import classNames from 'classnames'
-import type { Game, GameStatus } from '../../types'
-import { Trash2, Loader2, Pin } from 'lucide-react'
+import type { Game, PlayJournal as PlayJournalData, PricePoint, Shelf } from '../../types'
+import { Trash2, Loader2, Pin, Timer, Square, ChevronDown, Bell, CheckSquare } from 'lucide-react'
 import { isGameReleased } from '../../utils/dateUtils'
+import { getNextShelf } from '../../utils/shelves'
+import { formatDuration, getTotalPlayMinutes, startTimer, stopTimer } from '../../utils/playJournal'
+import { formatPrice, getLowestPrice, isHistoricalLow } from '../../utils/price'
+import { useI18n } from '../../hooks/useI18n'
+import { PlayJournal } from '../PlayJournal'
 import styles from './index.module.scss'
 
 interface GameItemProps {
   game: Game
+  shelves: Shelf[]
   onUpdate: (id: string, updates: Partial<Game>) => Promise<void>
   onDelete: (id: string) => Promise<void>
   onPin: (id: string) => Promise<void>
+  onUpdateJournal: (id: string, journal: PlayJournalData) => Promise<void>
+  priceHistory?: PricePoint[]
   isHighlighted: boolean
   onShowToast?: (message: string) => void
+  // 多选模式：整张卡片用于切换选中，其他操作暂时隐藏
+  isSelecting?: boolean
+  isSelected?: boolean
+  onToggleSelect?: (id: string, extendRange: boolean) => void
 }
 
 export const GameItem: React.FC<GameItemProps> = ({
   game,
+  shelves,
   onUpdate,
   onDelete,
   onPin,
+  onUpdateJournal,
+  priceHistory = [],
   isHighlighted,
   onShowToast,
+  isSelecting = false,
+  isSelected = false,
+  onToggleSelect,
 }) => {
+  const { t, formatNumber } = useI18n()
   const itemRef = useRef<HTMLDivElement>(null)
   const [isEditingSteamUrl, setIsEditingSteamUrl] = useState(false)
   const [steamUrlInput, setSteamUrlInput] = useState(game.steamUrl || '')
@@ -30,36 +49,39 @@ export const GameItem: React.FC<GameItemProps> = ({
   const [isUpdating, setIsUpdating] = useState(false)
   const [isPinning, setIsPinning] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isJournalOpen, setIsJournalOpen] = useState(false)
+  const [isEditingTargetPrice, setIsEditingTargetPrice] = useState(false)
+  const [targetPriceInput, setTargetPriceInput] = useState('')
+  const [now, setNow] = useState(() => Date.now())
   const statusBtnRef = useRef<HTMLButtonElement>(null)
 
+  const activeSessionStartedAt = game.journal?.activeSessionStartedAt ?? null
+
   useEffect(() => {
     if (isHighlighted && itemRef.current) {
       itemRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' })
     }
   }, [isHighlighted])
 
-  const getNextStatus = (status: GameStatus): GameStatus => {
-    const statusFlow: Record<GameStatus, GameStatus> = {
-      queueing: 'playing',
-      playing: 'completion',
-      completion: 'queueing',
-    }
-    return statusFlow[status]
-  }
+  // 计时进行中时每秒刷新一次已用时间
+  useEffect(() => {
+    if (!activeSessionStartedAt) return
 
-  const getActionLabel = (nextStatus: GameStatus): string => {
-    const actions: Record<GameStatus, string> = {
-      playing: 'Start Playing',
-      completion: 'Mark Complete',
-      queueing: 'Queue',
-    }
-    return actions[nextStatus]
-  }
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [activeSessionStartedAt])
+
+  // 状态推进流由书架配置决定，流程终点没有下一步按钮
+  const nextShelf = getNextShelf(shelves, game.status)
+  const actionLabel = nextShelf
+    ? nextShelf.actionLabel || t('gameItem.moveTo', { shelf: nextShelf.name })
+    : ''
 
   const handleStatusClick = async () => {
-    if (isAnimating || isUpdating) return
+    if (isAnimating || isUpdating || !nextShelf) return
 
-    const nextStatus = getNextStatus(game.status)
+    const nextStatus = nextShelf.id
 
     // 进入 loading 状态
     setIsUpdating(true)
@@ -187,10 +209,64 @@ export const GameItem: React.FC<GameItemProps> = ({
       // 接口调用失败，恢复状态
       console.error('Failed to update game status:', error)
       setIsUpdating(false)
-      onShowToast?.('更新状态失败，请重试')
+      onShowToast?.(t('gameItem.updateStatusFailed'))
     }
   }
 
+  const handleTimerClick = () => {
+    const journal = activeSessionStartedAt ? stopTimer(game.journal) : startTimer(game.journal)
+
+    if (
+      activeSessionStartedAt &&
+      journal.sessions.length === (game.journal?.sessions.length ?? 0)
+    ) {
+      onShowToast?.(t('gameItem.sessionTooShort'))
+    }
+
+    onUpdateJournal(game.id, journal)
+  }
+
+  const formatElapsed = (startedAt: string): string => {
+    const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000))
+    const h = Math.floor(seconds / 3600)
+    const m = String(Math.floor((seconds % 3600) / 60)).padStart(2, '0')
+    const s = String(seconds % 60).padStart(2, '0')
+    return `${h}:${m}:${s}`
+  }
+
+  const totalPlayMinutes = getTotalPlayMinutes(game.journal)
+
+  const price = game.price
+  const lowestPrice = price ? getLowestPrice(priceHistory, price.currency) : null
+  const atHistoricalLow = price ? isHistoricalLow(price, priceHistory) : false
+
+  const handleTargetPriceEdit = () => {
+    setTargetPriceInput(
+      game.targetPrice !== undefined && game.targetPrice !== null
+        ? (game.targetPrice / 100).toString()
+        : ''
+    )
+    setIsEditingTargetPrice(true)
+  }
+
+  const handleTargetPriceSave = () => {
+    const trimmed = targetPriceInput.trim()
+    const value = Number(trimmed)
+
+    // Happy Path: 输入无效
+    if (trimmed && (!Number.isFinite(value) || value < 0)) {
+      onShowToast?.(t('gameItem.invalidTargetPrice'))
+      return
+    }
+
+    // 输入为空表示取消目标价格；界面以元为单位，保存为分，并记录当前价格的货币
+    onUpdate(game.id, {
+      targetPrice: trimmed ? Math.round(value * 100) : null,
+      targetCurrency: trimmed && price ? price.currency : null,
+    })
+    setIsEditingTargetPrice(false)
+  }
+
   const handleSteamUrlSave = () => {
     if (steamUrlInput.trim()) {
       onUpdate(game.id, { steamUrl: steamUrlInput.trim() })
@@ -236,14 +312,14 @@ export const GameItem: React.FC<GameItemProps> = ({
       if (!blurred) {
         // Steam客户端未安装，打开网页版
         window.open(webUrl, '_blank', 'noopener,noreferrer')
-        onShowToast?.('未检测到Steam客户端，建议安装以获得更好体验')
+        onShowToast?.(t('gameItem.steamClientMissing'))
       }
     }, 2000)
   }
 
   const handleCoverClick = () => {
     if (!game.steamUrl) {
-      onShowToast?.('该游戏尚未设置Steam链接')
+      onShowToast?.(t('gameItem.noSteamUrl'))
       return
     }
 
@@ -265,7 +341,7 @@ export const GameItem: React.FC<GameItemProps> = ({
   const handleDeleteClick = async () => {
     if (isDeleting) return
 
-    if (!window.confirm(`确定要删除 "${game.name}"?`)) {
+    if (!window.confirm(t('gameItem.confirmDelete', { name: game.name }))) {
       return
     }
 
@@ -284,31 +360,47 @@ export const GameItem: React.FC<GameItemProps> = ({
         [styles.playing]: game.status === 'playing',
         [styles.highlight]: isHighlighted,
         [styles.pinned]: game.isPinned,
+        [styles.selected]: isSelected,
       })}
       id={`game-${game.id}`}
     >
-      {game.status === 'queueing' && (
+      {isSelecting && (
+        <button
+          className={styles.selectOverlay}
+          onClick={(e) => onToggleSelect?.(game.id, e.shiftKey)}
+          aria-pressed={isSelected}
+          title={isSelected ? t('gameItem.deselect') : t('gameItem.select')}
+        >
+          <span className={styles.selectCheckbox}>
+            {isSelected ? <CheckSquare size={20} /> : <Square size={20} />}
+          </span>
+        </button>
+      )}
+
+      {!isSelecting && game.status === 'queueing' && (
         <button
           onClick={handlePinClick}
           className={classNames(styles.pinBtnAbsolute, {
             [styles.active]: game.isPinned,
             [styles.loading]: isPinning,
           })}
-          title={game.isPinned ? '取消置顶' : '置顶游戏'}
+          title={game.isPinned ? t('gameItem.unpin') : t('gameItem.pin')}
           disabled={isPinning}
         >
           {isPinning ? <Loader2 size={16} className={styles.spinner} /> : <Pin size={16} />}
         </button>
       )}
 
-      <button
-        onClick={handleDeleteClick}
-        className={classNames(styles.deleteBtnAbsolute, { [styles.loading]: isDeleting })}
-        title="删除游戏"
-        disabled={isDeleting}
-      >
-        {isDeleting ? <Loader2 size={16} className={styles.spinner} /> : <Trash2 size={16} />}
-      </button>
+      {!isSelecting && (
+        <button
+          onClick={handleDeleteClick}
+          className={classNames(styles.deleteBtnAbsolute, { [styles.loading]: isDeleting })}
+          title={t('gameItem.delete')}
+          disabled={isDeleting}
+        >
+          {isDeleting ? <Loader2 size={16} className={styles.spinner} /> : <Trash2 size={16} />}
+        </button>
+      )}
 
       <div className={styles.gameWrapper}>
         <div className={styles.gameCoverContainer} onClick={handleCoverClick}>
@@ -325,7 +417,9 @@ export const GameItem: React.FC<GameItemProps> = ({
           ) : (
             <div className={styles.gameCoverPlaceholder}>{game.name.charAt(0).toUpperCase()}</div>
           )}
-          {game.isEarlyAccess && <div className={styles.earlyAccessBadge}>抢先体验</div>}
+          {game.isEarlyAccess && (
+            <div className={styles.earlyAccessBadge}>{t('gameItem.earlyAccess')}</div>
+          )}
         </div>
         <div className={styles.gameContent}>
           <div className={styles.gameHeader}>
@@ -340,7 +434,7 @@ export const GameItem: React.FC<GameItemProps> = ({
                 <div className={styles.metaRow}>
                   {!isGameReleased(game.comingSoon ?? null, game.releaseDate ?? null) ? (
                     <span className={styles.metaRating}>
-                      <span className={styles.unreleased}>尚未发售</span>
+                      <span className={styles.unreleased}>{t('gameItem.unreleased')}</span>
                     </span>
                   ) : game.positivePercentage !== undefined &&
                     game.positivePercentage !== null &&
@@ -356,48 +450,134 @@ export const GameItem: React.FC<GameItemProps> = ({
                           [styles.low]: game.positivePercentage < 60,
                         })}
                       >
-                        {game.positivePercentage}% 好评
+                        {t('steam.positive', { percent: game.positivePercentage })}
                       </span>
                       <span className={styles.reviewCount}>
-                        {game.totalReviews?.toLocaleString()} 条评论
+                        {t('steam.reviews', {
+                          count: game.totalReviews,
+                          total: formatNumber(game.totalReviews),
+                        })}
                       </span>
                     </span>
                   ) : (
-                    <span className={styles.metaRatingLoading}>加载好评率中...</span>
+                    <span className={styles.metaRatingLoading}>{t('steam.loadingRating')}</span>
                   )}
                 </div>
                 {game.releaseDate && (
                   <div className={styles.releaseInfo}>
                     {!isGameReleased(game.comingSoon ?? null, game.releaseDate ?? null) ? (
-                      <span className={styles.comingSoon}>预计发售: {game.releaseDate}</span>
+                      <span className={styles.comingSoon}>
+                        {t('gameItem.expectedRelease', { date: game.releaseDate })}
+                      </span>
                     ) : (
-                      <span className={styles.releaseDate}>发布于 {game.releaseDate}</span>
+                      <span className={styles.releaseDate}>
+                        {t('gameItem.releasedOn', { date: game.releaseDate })}
+                      </span>
                     )}
                   </div>
                 )}
+                {game.isFree ? (
+                  <div className={styles.priceRow}>
+                    <span className={styles.priceFinal}>{t('gameItem.free')}</span>
+                  </div>
+                ) : (
+                  price && (
+                    <div className={styles.priceRow}>
+                      {price.discountPercent > 0 && (
+                        <>
+                          <span className={styles.discountBadge}>-{price.discountPercent}%</span>
+                          <span className={styles.priceInitial}>
+                            {formatPrice(price.initial, price.currency)}
+                          </span>
+                        </>
+                      )}
+                      <span className={styles.priceFinal}>
+                        {formatPrice(price.final, price.currency)}
+                      </span>
+                      {atHistoricalLow ? (
+                        <span className={styles.historicalLow}>{t('gameItem.historicalLow')}</span>
+                      ) : (
+                        lowestPrice !== null &&
+                        lowestPrice < price.final && (
+                          <span className={styles.lowestHint}>
+                            {t('gameItem.lowestPrice', {
+                              price: formatPrice(lowestPrice, price.currency),
+                            })}
+                          </span>
+                        )
+                      )}
+                      {game.status === 'queueing' && !isEditingTargetPrice && (
+                        <button
+                          className={classNames(styles.targetPriceBtn, {
+                            [styles.active]:
+                              game.targetPrice !== undefined && game.targetPrice !== null,
+                          })}
+                          onClick={handleTargetPriceEdit}
+                          title={t('gameItem.targetPriceTitle')}
+                        >
+                          <Bell size={12} />
+                          {game.targetPrice !== undefined && game.targetPrice !== null
+                            ? t('gameItem.targetPrice', {
+                                price: formatPrice(
+                                  game.targetPrice,
+                                  game.targetCurrency ?? price.currency
+                                ),
+                              })
+                            : t('gameItem.priceAlert')}
+                        </button>
+                      )}
+                      {isEditingTargetPrice && (
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          className={styles.targetPriceInput}
+                          placeholder={t('gameItem.targetPricePlaceholder')}
+                          value={targetPriceInput}
+                          onChange={(e) => setTargetPriceInput(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleTargetPriceSave()
+                            if (e.key === 'Escape') setIsEditingTargetPrice(false)
+                          }}
+                          onBlur={handleTargetPriceSave}
+                          autoFocus
+                        />
+                      )}
+                    </div>
+                  )
+                )}
               </div>
             </div>
             <div className={styles.gameActions}>
               <button
-                ref={statusBtnRef}
-                className={classNames(
-                  styles.gameStatusBtn,
-                  styles[`status-${getNextStatus(game.status)}`],
-                  { [styles.loading]: isUpdating }
-                )}
-                onClick={handleStatusClick}
-                title={getActionLabel(getNextStatus(game.status))}
-                disabled={isAnimating || isUpdating}
+                className={classNames(styles.timerBtn, {
+                  [styles.active]: activeSessionStartedAt,
+                })}
+                onClick={handleTimerClick}
+                title={activeSessionStartedAt ? t('gameItem.stopTimer') : t('gameItem.startTimer')}
               >
-                {isUpdating ? (
-                  <>
-                    <Loader2 size={16} className={styles.spinner} />
-                    <span>Updating...</span>
-                  </>
-                ) : (
-                  getActionLabel(getNextStatus(game.status))
-                )}
+                {activeSessionStartedAt ? <Square size={14} /> : <Timer size={14} />}
+                {activeSessionStartedAt && <span>{formatElapsed(activeSessionStartedAt)}</span>}
               </button>
+              {nextShelf && (
+                <button
+                  ref={statusBtnRef}
+                  className={classNames(styles.gameStatusBtn, { [styles.loading]: isUpdating })}
+                  style={{ '--shelf-color': nextShelf.color } as React.CSSProperties}
+                  onClick={handleStatusClick}
+                  title={actionLabel}
+                  disabled={isAnimating || isUpdating}
+                >
+                  {isUpdating ? (
+                    <>
+                      <Loader2 size={16} className={styles.spinner} />
+                      <span>{t('gameItem.updating')}</span>
+                    </>
+                  ) : (
+                    actionLabel
+                  )}
+                </button>
+              )}
             </div>
           </div>
 
@@ -406,7 +586,7 @@ export const GameItem: React.FC<GameItemProps> = ({
               <input
                 type="text"
                 className={styles.inputPrimary}
-                placeholder="Enter Steam URL..."
+                placeholder={t('gameItem.steamUrlPlaceholder')}
                 value={steamUrlInput}
                 onChange={(e) => setSteamUrlInput(e.target.value)}
                 onKeyDown={(e) => {
@@ -416,15 +596,34 @@ export const GameItem: React.FC<GameItemProps> = ({
                 autoFocus
               />
               <button onClick={handleSteamUrlSave} className={styles.btnSave}>
-                Save
+                {t('common.save')}
               </button>
               <button onClick={handleSteamUrlCancel} className={styles.btnCancel}>
-                Cancel
+                {t('common.cancel')}
               </button>
             </div>
           )}
+
+          <button
+            className={classNames(styles.journalToggle, { [styles.open]: isJournalOpen })}
+            onClick={() => setIsJournalOpen(!isJournalOpen)}
+          >
+            <span>
+              {t('gameItem.journal')}
+              {totalPlayMinutes > 0 && ` · ${formatDuration(totalPlayMinutes)}`}
+              {game.journal?.rating != null && ` · ${game.journal.rating}/10`}
+            </span>
+            <ChevronDown size={14} className={styles.journalToggleIcon} />
+          </button>
         </div>
       </div>
+
+      {isJournalOpen && (
+        <PlayJournal
+          journal={game.journal}
+          onChange={(journal) => onUpdateJournal(game.id, journal)}
+        />
+      )}
     </div>
   )
 }
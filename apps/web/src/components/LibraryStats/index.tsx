@@ -0,0 +1,364 @@
+import React, { useMemo, useState } from 'react'
+import classNames from 'classnames'
+import { AlertTriangle, FileSpreadsheet, Loader2 } from 'lucide-react'
+import type { Game, Shelf } from '../../types'
+import {
+  ALL_TIME,
+  computeLibraryStats,
+  getRecentDateRange,
+  statsToCsvRows,
+  type StatsDateRange,
+  type StatsTimelinePoint,
+} from '../../utils/libraryStats'
+import { toCsv } from '../../utils/csv'
+import { downloadFile } from '../../utils/download'
+import { useFullLibrary } from '../../hooks/useFullLibrary'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+interface LibraryStatsProps {
+  games: Game[]
+  shelves: Shelf[]
+  onShowToast: (message: string) => void
+}
+
+type RangePreset = 'all' | '30d' | '90d' | '1y' | 'custom'
+
+interface BarItem {
+  key: string
+  label: string
+  value: number
+  color?: string
+}
+
+// ==================== Constants ====================
+
+const RANGE_PRESETS: { id: RangePreset; days: number | null }[] = [
+  { id: 'all', days: null },
+  { id: '30d', days: 30 },
+  { id: '90d', days: 90 },
+  { id: '1y', days: 365 },
+  { id: 'custom', days: null },
+]
+
+// 类型分布最多显示的类型数，其余合并为"其他"
+const MAX_GENRES = 10
+
+// 时间线图表的尺寸（SVG 坐标）
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 160
+const CHART_PADDING = 24
+
+// ==================== Charts ====================
+
+const BarList: React.FC<{ items: BarItem[] }> = ({ items }) => {
+  const max = Math.max(1, ...items.map((item) => item.value))
+
+  return (
+    <div className={styles.barList}>
+      {items.map((item) => (
+        <div key={item.key} className={styles.barRow}>
+          <span className={styles.barLabel} title={item.label}>
+            {item.label}
+          </span>
+          <div className={styles.barTrack}>
+            <div
+              className={styles.barFill}
+              style={{ width: `${(item.value / max) * 100}%`, background: item.color }}
+            />
+          </div>
+          <span className={styles.barValue}>{item.value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * 按月的柱状图（新增 / 完成）和折线图（待玩队列规模）
+ */
+const TimelineChart: React.FC<{
+  points: StatsTimelinePoint[]
+  formatMonth: (month: string) => string
+  labels: { addedCompleted: string; added: string; completed: string; queued: string }
+}> = ({ points, formatMonth, labels }) => {
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2
+  const slot = plotWidth / points.length
+  const barWidth = Math.max(1, slot / 3)
+  const maxCount = Math.max(1, ...points.map((p) => Math.max(p.added, p.completed)))
+  const maxQueued = Math.max(1, ...points.map((p) => p.queued))
+  // 月份较多时只显示部分标签，避免重叠
+  const labelStep = Math.ceil(points.length / 12)
+
+  const toY = (value: number, max: number) => CHART_PADDING + plotHeight * (1 - value / max)
+  const linePath = points
+    .map(
+      (p, i) =>
+        `${i === 0 ? 'M' : 'L'}${CHART_PADDING + slot * (i + 0.5)},${toY(p.queued, maxQueued)}`
+    )
+    .join(' ')
+
+  const renderLabels = () =>
+    points.map((p, i) =>
+      i % labelStep === 0 ? (
+        <text
+          key={p.month}
+          x={CHART_PADDING + slot * (i + 0.5)}
+          y={CHART_HEIGHT - 6}
+          className={styles.axisLabel}
+        >
+          {formatMonth(p.month)}
+        </text>
+      ) : null
+    )
+
+  return (
+    <>
+      <h4 className={styles.chartTitle}>{labels.addedCompleted}</h4>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={styles.chart}>
+        <text x={CHART_PADDING} y={14} className={styles.axisLabel}>
+          {maxCount}
+        </text>
+        {points.map((p, i) => {
+          const x = CHART_PADDING + slot * i + (slot - barWidth * 2) / 2
+          return (
+            <g key={p.month}>
+              <title>{`${formatMonth(p.month)}: ${labels.added} ${p.added} / ${labels.completed} ${p.completed}`}</title>
+              <rect
+                x={x}
+                y={toY(p.added, maxCount)}
+                width={barWidth}
+                height={plotHeight * (p.added / maxCount)}
+                className={styles.barAdded}
+              />
+              <rect
+                x={x + barWidth}
+                y={toY(p.completed, maxCount)}
+                width={barWidth}
+                height={plotHeight * (p.completed / maxCount)}
+                className={styles.barCompleted}
+              />
+            </g>
+          )
+        })}
+        {renderLabels()}
+      </svg>
+      <div className={styles.legend}>
+        <span className={classNames(styles.legendItem, styles.added)}>{labels.added}</span>
+        <span className={classNames(styles.legendItem, styles.completed)}>{labels.completed}</span>
+      </div>
+
+      <h4 className={styles.chartTitle}>{labels.queued}</h4>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={styles.chart}>
+        <text x={CHART_PADDING} y={14} className={styles.axisLabel}>
+          {maxQueued}
+        </text>
+        <path d={linePath} className={styles.line} />
+        {points.map((p, i) => (
+          <circle
+            key={p.month}
+            cx={CHART_PADDING + slot * (i + 0.5)}
+            cy={toY(p.queued, maxQueued)}
+            r={3}
+            className={styles.point}
+          >
+            <title>{`${formatMonth(p.month)}: ${labels.queued} ${p.queued}`}</title>
+          </circle>
+        ))}
+        {renderLabels()}
+      </svg>
+    </>
+  )
+}
+
+// ==================== Main Component ====================
+
+export const LibraryStats: React.FC<LibraryStatsProps> = ({
+  games: loadedGames,
+  shelves,
+  onShowToast,
+}) => {
+  const { t, formatDate, formatNumber } = useI18n()
+  // 统计基于完整游戏库，列表中只加载了每个书架的前几页
+  const { games, isLoading, isComplete } = useFullLibrary(loadedGames)
+  const [preset, setPreset] = useState<RangePreset>('all')
+  const [customRange, setCustomRange] = useState<StatsDateRange>(ALL_TIME)
+
+  const range = useMemo((): StatsDateRange => {
+    if (preset === 'custom') return customRange
+    const days = RANGE_PRESETS.find((p) => p.id === preset)?.days ?? null
+    return days === null ? ALL_TIME : getRecentDateRange(days)
+  }, [preset, customRange])
+
+  const stats = useMemo(() => computeLibraryStats(games, shelves, range), [games, shelves, range])
+  const shelfById = new Map(shelves.map((s) => [s.id, s]))
+
+  const statusItems: BarItem[] = stats.statusCounts.map(({ status, count }) => ({
+    key: status,
+    label: shelfById.get(status)?.name ?? status,
+    value: count,
+    color: shelfById.get(status)?.color,
+  }))
+
+  const otherGenreCount = stats.genreCounts
+    .slice(MAX_GENRES)
+    .reduce((sum, { count }) => sum + count, 0)
+  const genreItems: BarItem[] = [
+    ...stats.genreCounts
+      .slice(0, MAX_GENRES)
+      .map(({ genre, count }) => ({ key: genre, label: genre, value: count })),
+    ...(otherGenreCount > 0
+      ? [{ key: 'other', label: t('stats.otherGenres'), value: otherGenreCount }]
+      : []),
+  ]
+
+  const formatMonth = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number)
+    return formatDate(new Date(year, monthIndex - 1, 1), { year: '2-digit', month: 'short' })
+  }
+
+  const formatDays = (days: number | null) =>
+    days === null ? '—' : t('stats.days', { count: Math.round(days) })
+
+  const handleExport = () => {
+    const shelfNames = new Map(shelves.map((s) => [s.id, s.name]))
+    const date = new Date().toISOString().slice(0, 10)
+
+    downloadFile(
+      `game-gallery-stats-${date}.csv`,
+      toCsv(statsToCsvRows(stats, range, shelfNames)),
+      'text/csv'
+    )
+    onShowToast(t('stats.exported'))
+  }
+
+  // Happy Path: 完整游戏库尚未读取完
+  if (isLoading) {
+    return (
+      <div className={styles.libraryStats}>
+        <div className={styles.libraryNotice}>
+          <Loader2 size={16} className="animate-spin" />
+          {t('common.loadingLibrary')}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.libraryStats}>
+      {!isComplete && (
+        <div className={styles.libraryNotice}>
+          <AlertTriangle size={16} />
+          {t('common.libraryIncomplete')}
+        </div>
+      )}
+
+      <div className={styles.toolbar}>
+        <div className={styles.presets}>
+          {RANGE_PRESETS.map(({ id }) => (
+            <button
+              key={id}
+              className={classNames(styles.toolbarBtn, { [styles.active]: preset === id })}
+              onClick={() => setPreset(id)}
+            >
+              {t(`stats.range.${id}`)}
+            </button>
+          ))}
+        </div>
+
+        {preset === 'custom' && (
+          <div className={styles.customRange}>
+            <label>
+              {t('stats.from')}
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={customRange.from ?? ''}
+                max={customRange.to ?? undefined}
+                onChange={(e) => setCustomRange({ ...customRange, from: e.target.value || null })}
+              />
+            </label>
+            <label>
+              {t('stats.to')}
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={customRange.to ?? ''}
+                min={customRange.from ?? undefined}
+                onChange={(e) => setCustomRange({ ...customRange, to: e.target.value || null })}
+              />
+            </label>
+          </div>
+        )}
+
+        <button className={classNames(styles.toolbarBtn, styles.btnExport)} onClick={handleExport}>
+          <FileSpreadsheet size={16} />
+          {t('stats.exportCsv')}
+        </button>
+      </div>
+
+      <div className={styles.cards}>
+        <div className={styles.card}>
+          <span className={styles.cardValue}>{formatNumber(stats.totalGames)}</span>
+          <span className={styles.cardLabel}>{t('stats.totalGames')}</span>
+        </div>
+        <div className={styles.card}>
+          <span className={styles.cardValue}>{formatNumber(stats.completedGames)}</span>
+          <span className={styles.cardLabel}>{t('stats.completedGames')}</span>
+        </div>
+        <div className={styles.card}>
+          <span className={styles.cardValue}>
+            {stats.averageCompletedScore === null
+              ? '—'
+              : `${formatNumber(stats.averageCompletedScore, { maximumFractionDigits: 1 })}%`}
+          </span>
+          <span className={styles.cardLabel}>{t('stats.averageScore')}</span>
+        </div>
+        <div className={styles.card}>
+          <span className={styles.cardValue}>{formatDays(stats.medianDaysToComplete)}</span>
+          <span className={styles.cardLabel}>
+            {t('stats.medianDays')}
+            {stats.averageDaysToComplete !== null &&
+              ` · ${t('stats.averageDays', { days: formatDays(stats.averageDaysToComplete) })}`}
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.panels}>
+        <section className={styles.panel}>
+          <h3 className={styles.panelTitle}>{t('stats.byStatus')}</h3>
+          <BarList items={statusItems} />
+        </section>
+
+        <section className={styles.panel}>
+          <h3 className={styles.panelTitle}>{t('stats.byGenre')}</h3>
+          {genreItems.length > 0 ? (
+            <BarList items={genreItems} />
+          ) : (
+            <p className={styles.hint}>{t('stats.noGenres')}</p>
+          )}
+        </section>
+      </div>
+
+      <section className={styles.panel}>
+        <h3 className={styles.panelTitle}>{t('stats.timeline')}</h3>
+        {stats.timeline.length > 0 ? (
+          <TimelineChart
+            points={stats.timeline}
+            formatMonth={formatMonth}
+            labels={{
+              addedCompleted: t('stats.addedCompleted'),
+              added: t('stats.added'),
+              completed: t('stats.completed'),
+              queued: t('stats.queueSize'),
+            }}
+          />
+        ) : (
+          <p className={styles.hint}>{t('stats.empty')}</p>
+        )}
+        <p className={styles.hint}>{t('stats.historyHint')}</p>
+      </section>
+    </div>
+  )
+}
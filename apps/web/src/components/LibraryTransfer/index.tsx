@@ -0,0 +1,358 @@
+import React, { useRef } from 'react'
+import classNames from 'classnames'
+import {
+  CheckSquare,
+  FileJson,
+  FileSpreadsheet,
+  FileText,
+  Loader2,
+  Square,
+  Upload,
+  X,
+} from 'lucide-react'
+import type { Game, Shelf } from '../../types'
+import { useFullLibrary } from '../../hooks/useFullLibrary'
+import { useLibraryImport } from '../../hooks/useLibraryImport'
+import {
+  createLibraryExport,
+  libraryToCsvRows,
+  libraryToMarkdown,
+  type LibraryExportFormat,
+} from '../../utils/libraryExport'
+import type { ImportAction, ImportIssue, ImportPreviewItem } from '../../utils/libraryImport'
+import { toCsv } from '../../utils/csv'
+import { downloadFile } from '../../utils/download'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../locales/zh-CN'
+import styles from './index.module.scss'
+
+interface LibraryTransferProps {
+  games: Game[]
+  shelves: Shelf[]
+  onGamesImported: (games: Game[]) => void
+  onShowToast: (message: string) => void
+  onClose: () => void
+}
+
+// ==================== Constants ====================
+
+const EXPORT_FORMATS: { id: LibraryExportFormat; icon: typeof FileJson; label: MessageKey }[] = [
+  { id: 'json', icon: FileJson, label: 'transfer.exportJson' },
+  { id: 'csv', icon: FileSpreadsheet, label: 'transfer.exportCsv' },
+  { id: 'markdown', icon: FileText, label: 'transfer.exportMarkdown' },
+]
+
+const ACTIONS: ImportAction[] = ['add', 'update', 'conflict', 'unchanged']
+
+// ==================== Main Component ====================
+
+export const LibraryTransfer: React.FC<LibraryTransferProps> = ({
+  games,
+  shelves,
+  onGamesImported,
+  onShowToast,
+  onClose,
+}) => {
+  const { t } = useI18n()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // 导出和导入对比都需要完整游戏库，列表中只加载了每个书架的前几页
+  const library = useFullLibrary(games)
+
+  const {
+    phase,
+    error,
+    fileName,
+    recordCount,
+    preview,
+    selectedIndexes,
+    progress,
+    result,
+    loadFile,
+    toggleItem,
+    setAllSelected,
+    apply,
+    reset,
+  } = useLibraryImport(library.games, shelves, onGamesImported)
+
+  const shelfNames = new Map(shelves.map((s) => [s.id, s.name]))
+  const selectableCount = preview?.items.filter((item) => item.applyAs).length ?? 0
+  const actionCounts = Object.fromEntries(
+    ACTIONS.map((action) => [
+      action,
+      preview?.items.filter((item) => item.action === action).length ?? 0,
+    ])
+  )
+
+  const handleExport = (format: LibraryExportFormat) => {
+    const { games } = library
+    const date = new Date().toISOString().slice(0, 10)
+    const filename = `game-gallery-library-${date}`
+
+    if (format === 'json') {
+      downloadFile(
+        `${filename}.json`,
+        JSON.stringify(createLibraryExport(games, shelves), null, 2),
+        'application/json'
+      )
+    } else if (format === 'csv') {
+      downloadFile(`${filename}.csv`, toCsv(libraryToCsvRows(games, shelves)), 'text/csv')
+    } else {
+      downloadFile(`${filename}.md`, libraryToMarkdown(games, shelves), 'text/markdown')
+    }
+
+    onShowToast(t('transfer.exported', { count: games.length }))
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // 清空以便再次选择同一个文件
+    e.target.value = ''
+    if (file) {
+      loadFile(file)
+    }
+  }
+
+  const describeIssue = (issue: ImportIssue) =>
+    t(`transfer.issue.${issue.reason}`, {
+      index: issue.index,
+      name: issue.name ?? '',
+      field: issue.field ?? '',
+    })
+
+  const describeItem = (item: ImportPreviewItem): string => {
+    if (item.conflict === 'appIdMismatch') {
+      return t('transfer.conflict.appIdMismatch')
+    }
+
+    const parts = item.changes.map((change) => {
+      if (change === 'status') {
+        return t('transfer.change.status', { shelf: shelfNames.get(item.status) ?? item.status })
+      }
+      if (change === 'isPinned') {
+        return t(item.record.isPinned ? 'transfer.change.pinned' : 'transfer.change.unpinned')
+      }
+      return t(`transfer.change.${change}`)
+    })
+
+    if (item.conflict === 'unknownShelf') {
+      parts.unshift(
+        t('transfer.conflict.unknownShelf', {
+          shelf: item.record.status ?? '',
+          target: shelfNames.get(item.status) ?? item.status,
+        })
+      )
+    }
+
+    return parts.join(' · ')
+  }
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <button onClick={onClose} className={styles.closeBtn} title={t('transfer.close')}>
+          <X size={24} />
+        </button>
+
+        <h2 className={styles.title}>{t('transfer.title')}</h2>
+
+        <div className={styles.body}>
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>{t('transfer.exportSection')}</h3>
+            {!library.isLoading && !library.isComplete && (
+              <div className={styles.errorBox}>{t('transfer.libraryUnavailable')}</div>
+            )}
+            <p className={styles.hint}>
+              {library.isLoading ? (
+                <>
+                  <Loader2 size={14} className="animate-spin" /> {t('common.loadingLibrary')}
+                </>
+              ) : (
+                t('transfer.exportHint', { count: library.games.length })
+              )}
+            </p>
+            <div className={styles.row}>
+              {EXPORT_FORMATS.map(({ id, icon: Icon, label }) => (
+                <button
+                  key={id}
+                  onClick={() => handleExport(id)}
+                  className={styles.btnSecondary}
+                  disabled={!library.isComplete || library.games.length === 0}
+                >
+                  <Icon size={16} />
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className={styles.section}>
+            <h3 className={styles.sectionTitle}>{t('transfer.importSection')}</h3>
+
+            {error && <div className={styles.errorBox}>{error}</div>}
+
+            {phase === 'select' && (
+              <>
+                <p className={styles.hint}>{t('transfer.importHint')}</p>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,.csv,application/json,text/csv"
+                  className={styles.fileInput}
+                  onChange={handleFileChange}
+                />
+                <div className={styles.row}>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className={styles.btnSecondary}
+                    disabled={!library.isComplete}
+                  >
+                    <Upload size={16} />
+                    {t('transfer.chooseFile')}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {phase === 'preview' && preview && (
+              <>
+                <div className={styles.summary}>
+                  {t('transfer.fileSummary', { file: fileName ?? '', count: recordCount })}
+                  {' · '}
+                  {t('transfer.summary', actionCounts)}
+                </div>
+
+                {preview.issues.length > 0 && (
+                  <details className={styles.issues}>
+                    <summary>{t('transfer.issues', { count: preview.issues.length })}</summary>
+                    <ul>
+                      {preview.issues.map((issue, i) => (
+                        <li key={i}>{describeIssue(issue)}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+
+                <div className={styles.row}>
+                  <button
+                    onClick={() => setAllSelected(selectedIndexes.size < selectableCount)}
+                    className={styles.btnSecondary}
+                    disabled={selectableCount === 0}
+                  >
+                    <CheckSquare size={14} />
+                    {selectedIndexes.size < selectableCount
+                      ? t('batch.selectAll')
+                      : t('batch.deselectAll')}
+                  </button>
+                  <span className={styles.summary}>
+                    {selectableCount > 0
+                      ? t('transfer.selected', { count: selectedIndexes.size })
+                      : t('transfer.noChanges')}
+                  </span>
+                </div>
+
+                <ul className={styles.itemList}>
+                  {preview.items.map((item) => {
+                    const isSelected = selectedIndexes.has(item.record.index)
+                    const detail = describeItem(item)
+
+                    return (
+                      <li
+                        key={item.record.index}
+                        className={classNames(styles.item, {
+                          [styles.unchanged]: item.action === 'unchanged',
+                        })}
+                      >
+                        <button
+                          onClick={() => toggleItem(item.record.index)}
+                          className={styles.itemToggle}
+                          disabled={!item.applyAs}
+                        >
+                          {isSelected ? <CheckSquare size={16} /> : <Square size={16} />}
+                          <span className={styles.itemName}>{item.record.name}</span>
+                        </button>
+                        <span className={classNames(styles.badge, styles[item.action])}>
+                          {t(`transfer.action.${item.action}`)}
+                        </span>
+                        {detail && (
+                          <span className={styles.meta} title={detail}>
+                            {detail}
+                          </span>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+
+                <div className={styles.footer}>
+                  <button onClick={reset} className={styles.btnSecondary}>
+                    {t('transfer.back')}
+                  </button>
+                  <button
+                    onClick={apply}
+                    className={styles.btnPrimary}
+                    disabled={selectedIndexes.size === 0}
+                  >
+                    {t('transfer.apply', { count: selectedIndexes.size })}
+                  </button>
+                </div>
+              </>
+            )}
+
+            {(phase === 'applying' || phase === 'finished') && progress && (
+              <>
+                <div className={styles.summary}>
+                  {phase === 'applying' ? (
+                    <>
+                      <Loader2 size={14} className="animate-spin" />
+                      {t('transfer.applying', {
+                        processed: progress.completed,
+                        total: progress.total,
+                      })}
+                    </>
+                  ) : (
+                    result &&
+                    t('transfer.finished', {
+                      added: result.added,
+                      updated: result.updated,
+                      failed: result.failures.length,
+                    })
+                  )}
+                </div>
+
+                <div className={styles.progressTrack}>
+                  <div
+                    className={styles.progressFill}
+                    style={{
+                      width: `${(progress.completed / Math.max(progress.total, 1)) * 100}%`,
+                    }}
+                  />
+                </div>
+
+                {result && result.failures.length > 0 && (
+                  <ul className={styles.failureList}>
+                    {result.failures.map(({ item, error: message }) => (
+                      <li key={item.record.index}>
+                        {t('batch.failureItem', { name: item.record.name, error: message })}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {phase === 'finished' && (
+                  <div className={styles.footer}>
+                    <button onClick={reset} className={styles.btnSecondary}>
+                      {t('transfer.back')}
+                    </button>
+                    <button onClick={onClose} className={styles.btnPrimary}>
+                      {t('transfer.done')}
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
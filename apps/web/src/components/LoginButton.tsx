@@ -1,14 +1,24 @@
 /**
  * 登录表单组件
- * 提供用户名密码登录功能
+ * 提供用户名密码登录和第三方登录（Steam、GitHub）功能
  * 支持紧凑模式（横向）和完整模式（纵向）
  */
 
 import { useState } from 'react'
 import { useAuth } from '@/hooks/useAuth'
-import { Loader2, LogIn, LogOut } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { OAUTH_PROVIDER_NAMES, isOAuthAvailable } from '@/services/auth'
+import type { OAuthProvider } from '@/types'
+import { Gamepad2, Github, Loader2, LogIn, LogOut, type LucideIcon } from 'lucide-react'
 import styles from './LoginButton.module.scss'
 
+// ==================== Constants ====================
+
+const OAUTH_PROVIDERS: { id: OAuthProvider; icon: LucideIcon }[] = [
+  { id: 'steam', icon: Gamepad2 },
+  { id: 'github', icon: Github },
+]
+
 // ==================== Types ====================
 
 interface LoginButtonProps {
@@ -19,7 +29,8 @@ interface LoginButtonProps {
 // ==================== Component ====================
 
 function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}) {
-  const { isAuthenticated, user, isLoading, login, logout } = useAuth()
+  const { isAuthenticated, user, isLoading, login, logout, startOAuth, oauthResult } = useAuth()
+  const { t } = useI18n()
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState<string | null>(null)
@@ -30,7 +41,7 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
     setError(null)
 
     if (!username.trim() || !password.trim()) {
-      setError('请输入用户名和密码')
+      setError(t('login.missingCredentials'))
       return
     }
 
@@ -39,7 +50,7 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
     const success = await login(username, password)
 
     if (!success) {
-      setError('登录失败：用户名或密码错误')
+      setError(t('login.failed'))
       setIsSubmitting(false)
       return
     }
@@ -57,7 +68,7 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
     return (
       <div className={styles.loginContainer}>
         <button className={styles.loading} disabled>
-          加载中...
+          {t('common.loading')}
         </button>
       </div>
     )
@@ -71,12 +82,12 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
             <div className={styles.userInfoFull}>
               <div className={styles.usernameFull}>
                 <LogIn size={18} />
-                已登录：{user.username}
+                {t('login.loggedInAs', { username: user.username })}
               </div>
             </div>
             <button onClick={logout} className={styles.btnLogoutFull}>
               <LogOut size={18} />
-              退出登录
+              {t('login.logoutFull')}
             </button>
           </div>
         </div>
@@ -86,26 +97,35 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
     return (
       <div className={styles.loginContainer}>
         <div className={styles.userInfo}>
-          <span className={styles.username}>欢迎，{user.username}</span>
+          <span className={styles.username}>{t('login.welcome', { username: user.username })}</span>
         </div>
         <button onClick={logout} className={styles.btnLogout}>
-          登出
+          {t('login.logout')}
         </button>
       </div>
     )
   }
 
   if (mode === 'full') {
+    const oauthProviders = OAUTH_PROVIDERS.filter((provider) => isOAuthAvailable(provider.id))
+    const failedProvider =
+      oauthResult?.intent === 'login' && !oauthResult.user ? oauthResult.provider : null
+
     return (
       <div className={styles.fullMode}>
         <form onSubmit={handleSubmit} className={styles.loginFormFull}>
           {error && <div className={styles.errorBoxFull}>{error}</div>}
+          {!error && failedProvider && (
+            <div className={styles.errorBoxFull}>
+              {t('login.oauthFailed', { provider: OAUTH_PROVIDER_NAMES[failedProvider] })}
+            </div>
+          )}
 
           <div className={styles.inputGroup}>
-            <label className={styles.label}>用户名</label>
+            <label className={styles.label}>{t('login.username')}</label>
             <input
               type="text"
-              placeholder="请输入用户名"
+              placeholder={t('login.usernamePlaceholder')}
               value={username}
               onChange={(e) => setUsername(e.target.value)}
               disabled={isSubmitting}
@@ -115,10 +135,10 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
           </div>
 
           <div className={styles.inputGroup}>
-            <label className={styles.label}>密码</label>
+            <label className={styles.label}>{t('login.password')}</label>
             <input
               type="password"
-              placeholder="请输入密码"
+              placeholder={t('login.passwordPlaceholder')}
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               disabled={isSubmitting}
@@ -130,16 +150,36 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
             {isSubmitting ? (
               <>
                 <Loader2 className="animate-spin" size={18} />
-                登录中...
+                {t('login.submitting')}
               </>
             ) : (
               <>
                 <LogIn size={18} />
-                登录
+                {t('login.submit')}
               </>
             )}
           </button>
         </form>
+
+        {oauthProviders.length > 0 && (
+          <>
+            <div className={styles.oauthDivider}>{t('login.or')}</div>
+            <div className={styles.oauthButtons}>
+              {oauthProviders.map(({ id, icon: Icon }) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => startOAuth(id)}
+                  disabled={isSubmitting}
+                  className={styles[`btnOAuth_${id}`]}
+                >
+                  <Icon size={18} />
+                  {t('login.withProvider', { provider: OAUTH_PROVIDER_NAMES[id] })}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
       </div>
     )
   }
@@ -151,7 +191,7 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
 
         <input
           type="text"
-          placeholder="用户名"
+          placeholder={t('login.username')}
           value={username}
           onChange={(e) => setUsername(e.target.value)}
           disabled={isSubmitting}
@@ -160,7 +200,7 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
 
         <input
           type="password"
-          placeholder="密码"
+          placeholder={t('login.password')}
           value={password}
           onChange={(e) => setPassword(e.target.value)}
           disabled={isSubmitting}
@@ -168,7 +208,7 @@ function LoginButton({ mode = 'compact', onLoginSuccess }: LoginButtonProps = {}
         />
 
         <button type="submit" disabled={isSubmitting} className={styles.btnLogin}>
-          {isSubmitting ? '登录中...' : '登录'}
+          {isSubmitting ? t('login.submitting') : t('login.submit')}
         </button>
       </form>
     </div>
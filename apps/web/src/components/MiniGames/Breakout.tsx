@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../locales/zh-CN'
 import styles from './Breakout.module.scss'
 
 // 游戏常量
@@ -31,14 +33,14 @@ interface Ball {
 }
 
 interface Level {
-  name: string
+  nameKey: MessageKey
   brickPattern: number[][] // 砖块的耐久度
   ballSpeed: number
 }
 
 const LEVELS: Level[] = [
   {
-    name: '第一关：入门',
+    nameKey: 'breakout.level1',
     brickPattern: [
       [1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
       [1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
@@ -50,7 +52,7 @@ const LEVELS: Level[] = [
     ballSpeed: 3,
   },
   {
-    name: '第二关：进阶',
+    nameKey: 'breakout.level2',
     brickPattern: [
       [3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
       [2, 2, 2, 2, 2, 2, 2, 2, 2, 2],
@@ -62,7 +64,7 @@ const LEVELS: Level[] = [
     ballSpeed: 4,
   },
   {
-    name: '第三关：挑战',
+    nameKey: 'breakout.level3',
     brickPattern: [
       [3, 0, 3, 0, 3, 3, 0, 3, 0, 3],
       [2, 2, 2, 2, 2, 2, 2, 2, 2, 2],
@@ -82,6 +84,7 @@ const BRICK_COLORS = {
 }
 
 export const Breakout: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [currentLevel, setCurrentLevel] = useState(0)
   const [score, setScore] = useState(0)
@@ -424,17 +427,17 @@ export const Breakout: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>打砖块：{level.name}</h2>
+          <h2>{t('breakout.title', { level: t(level.nameKey) })}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.statsBar}>
-          <div className={styles.stat}>得分: {score}</div>
-          <div className={styles.stat}>生命: {lives}</div>
+          <div className={styles.stat}>{t('miniGames.score', { score })}</div>
+          <div className={styles.stat}>{t('miniGames.lives', { lives })}</div>
           <div className={styles.stat}>
-            关卡: {currentLevel + 1}/{LEVELS.length}
+            {t('miniGames.levelProgress', { level: currentLevel + 1, total: LEVELS.length })}
           </div>
         </div>
 
@@ -452,10 +455,10 @@ export const Breakout: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'ready' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>准备开始</h3>
-                <p>按空格键或触摸屏幕开始</p>
-                <p className={styles.hint}>方向键/鼠标/触摸移动挡板</p>
-                <p className={styles.hint}>P 暂停游戏</p>
+                <h3>{t('miniGames.ready')}</h3>
+                <p>{t('breakout.startHint')}</p>
+                <p className={styles.hint}>{t('breakout.controls')}</p>
+                <p className={styles.hint}>{t('breakout.pauseHint')}</p>
               </div>
             </div>
           )}
@@ -463,8 +466,8 @@ export const Breakout: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'paused' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>游戏暂停</h3>
-                <p>按 P 键继续</p>
+                <h3>{t('miniGames.paused')}</h3>
+                <p>{t('breakout.resumeHint')}</p>
               </div>
             </div>
           )}
@@ -472,17 +475,17 @@ export const Breakout: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'won' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>关卡完成！</h3>
-                <p>得分: {score}</p>
+                <h3>{t('miniGames.levelComplete')}</h3>
+                <p>{t('miniGames.score', { score })}</p>
                 {currentLevel < LEVELS.length - 1 ? (
                   <button onClick={nextLevel} className={styles.btn}>
-                    下一关
+                    {t('miniGames.nextLevel')}
                   </button>
                 ) : (
                   <>
-                    <p className={styles.congrats}>恭喜通关所有关卡</p>
+                    <p className={styles.congrats}>{t('breakout.allCleared')}</p>
                     <button onClick={restartGame} className={styles.btn}>
-                      重新挑战
+                      {t('miniGames.restartAll')}
                     </button>
                   </>
                 )}
@@ -493,10 +496,10 @@ export const Breakout: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'lost' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>游戏结束</h3>
-                <p>最终得分: {score}</p>
+                <h3>{t('miniGames.gameOver')}</h3>
+                <p>{t('miniGames.finalScore', { score })}</p>
                 <button onClick={restartGame} className={styles.btn}>
-                  重新开始
+                  {t('miniGames.restart')}
                 </button>
               </div>
             </div>
@@ -504,9 +507,9 @@ export const Breakout: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         </div>
 
         <div className={styles.instructions}>
-          <p>使用方向键/鼠标/触摸移动挡板</p>
-          <p>打碎所有砖块通关</p>
-          <p>P 键暂停游戏</p>
+          <p>{t('breakout.controlsFull')}</p>
+          <p>{t('breakout.goal')}</p>
+          <p>{t('breakout.pauseKey')}</p>
         </div>
       </div>
     </div>
@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import { storage } from '../../utils/storage'
 import styles from './FlappyBird.module.scss'
 
 // 游戏常量
@@ -24,11 +26,12 @@ interface Pipe {
 }
 
 export const FlappyBird: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [gameStatus, setGameStatus] = useState<'ready' | 'playing' | 'over'>('ready')
   const [score, setScore] = useState(0)
   const [bestScore, setBestScore] = useState(() => {
-    const saved = localStorage.getItem('flappybird-best-score')
+    const saved = storage.getItem('flappybird-best-score')
     return saved ? parseInt(saved) : 0
   })
 
@@ -250,7 +253,7 @@ export const FlappyBird: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         setGameStatus('over')
         if (currentScore > bestScore) {
           setBestScore(currentScore)
-          localStorage.setItem('flappybird-best-score', currentScore.toString())
+          storage.setItem('flappybird-best-score', currentScore.toString())
         }
         return
       }
@@ -305,15 +308,15 @@ export const FlappyBird: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>Flappy Bird</h2>
+          <h2>{t('miniGames.flappy.name')}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.statsBar}>
-          <div className={styles.stat}>得分: {score}</div>
-          <div className={styles.stat}>最高: {bestScore}</div>
+          <div className={styles.stat}>{t('miniGames.score', { score })}</div>
+          <div className={styles.stat}>{t('miniGames.best', { score: bestScore })}</div>
         </div>
 
         <div className={styles.gameBoard}>
@@ -329,11 +332,11 @@ export const FlappyBird: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'ready' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>🐦 准备起飞</h3>
-                <p>触摸/点击屏幕或按空格键开始</p>
+                <h3>{t('flappy.ready')}</h3>
+                <p>{t('flappy.startHint')}</p>
                 <div className={styles.hintBox}>
-                  <p className={styles.hint}>💡 持续触摸/点击保持飞行高度</p>
-                  <p className={styles.hint}>💡 通过绿色管道间隙得分</p>
+                  <p className={styles.hint}>{t('flappy.hintHold')}</p>
+                  <p className={styles.hint}>{t('flappy.hintScore')}</p>
                 </div>
               </div>
             </div>
@@ -342,18 +345,20 @@ export const FlappyBird: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'over' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>游戏结束</h3>
+                <h3>{t('miniGames.gameOver')}</h3>
                 <div className={styles.scoreBox}>
                   <p className={styles.finalScore}>
-                    本次得分: <strong>{score}</strong>
+                    {t('miniGames.thisScore')} <strong>{score}</strong>
                   </p>
                   <p className={styles.bestScoreText}>
-                    最高分: <strong>{bestScore}</strong>
+                    {t('miniGames.bestScore')} <strong>{bestScore}</strong>
                   </p>
                 </div>
-                {score === bestScore && score > 0 && <p className={styles.congrats}>🎉 新纪录！</p>}
+                {score === bestScore && score > 0 && (
+                  <p className={styles.congrats}>{t('flappy.newRecord')}</p>
+                )}
                 <button onClick={restart} className={styles.btn}>
-                  再来一次
+                  {t('miniGames.playAgain')}
                 </button>
               </div>
             </div>
@@ -361,8 +366,8 @@ export const FlappyBird: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         </div>
 
         <div className={styles.instructions}>
-          <p>🎮 触摸/点击屏幕或按空格键控制小鸟飞行</p>
-          <p>🏆 通过管道间隙获得分数，挑战更高纪录</p>
+          <p>{t('flappy.controls')}</p>
+          <p>{t('flappy.goal')}</p>
         </div>
       </div>
     </div>
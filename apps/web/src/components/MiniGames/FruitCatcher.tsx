@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import { storage } from '../../utils/storage'
 import styles from './FruitCatcher.module.scss'
 
 // 游戏常量
@@ -47,13 +49,14 @@ const SPECIAL_ITEMS = [
 ]
 
 export const FruitCatcher: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [gameStatus, setGameStatus] = useState<'ready' | 'playing' | 'over'>('ready')
   const [score, setScore] = useState(0)
   const [lives, setLives] = useState(3)
   const [combo, setCombo] = useState(0)
   const [bestScore, setBestScore] = useState(() => {
-    const saved = localStorage.getItem('fruitcatcher-best-score')
+    const saved = storage.getItem('fruitcatcher-best-score')
     return saved ? parseInt(saved) : 0
   })
 
@@ -381,7 +384,7 @@ export const FruitCatcher: React.FC<{ onClose: () => void }> = ({ onClose }) =>
                 setGameStatus('over')
                 if (score > bestScore) {
                   setBestScore(score)
-                  localStorage.setItem('fruitcatcher-best-score', score.toString())
+                  storage.setItem('fruitcatcher-best-score', score.toString())
                 }
               }
               return newLives
@@ -525,14 +528,14 @@ export const FruitCatcher: React.FC<{ onClose: () => void }> = ({ onClose }) =>
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>接水果</h2>
+          <h2>{t('miniGames.fruit.name')}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.statsBar}>
-          <div className={styles.stat}>得分: {score}</div>
+          <div className={styles.stat}>{t('miniGames.score', { score })}</div>
           <div className={styles.stat}>
             <div className={styles.lives}>
               {Array.from({ length: 3 }).map((_, i) =>
@@ -569,13 +572,13 @@ export const FruitCatcher: React.FC<{ onClose: () => void }> = ({ onClose }) =>
               )}
             </div>
           </div>
-          <div className={styles.stat}>最高: {bestScore}</div>
-          {combo > 0 && <div className={styles.stat}>连击: {combo}x</div>}
+          <div className={styles.stat}>{t('miniGames.best', { score: bestScore })}</div>
+          {combo > 0 && <div className={styles.stat}>{t('miniGames.combo', { count: combo })}</div>}
         </div>
 
         <div className={styles.buffsBar}>
-          {doubleScoreActive && <div className={styles.buff}>✨ 双倍得分</div>}
-          {freezeActive && <div className={styles.buff}>❄️ 时间减速</div>}
+          {doubleScoreActive && <div className={styles.buff}>{t('fruit.doubleScore')}</div>}
+          {freezeActive && <div className={styles.buff}>{t('fruit.slowTime')}</div>}
         </div>
 
         <div className={styles.gameBoard}>
@@ -589,12 +592,12 @@ export const FruitCatcher: React.FC<{ onClose: () => void }> = ({ onClose }) =>
           {gameStatus === 'ready' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>准备开始</h3>
-                <p>使用方向键/鼠标/触摸移动篮子</p>
-                <p className={styles.hint}>接住水果得分，躲避炸弹💣</p>
-                <p className={styles.hint}>⭐黄金水果 ❄️时间减速 ✨双倍得分</p>
+                <h3>{t('miniGames.ready')}</h3>
+                <p>{t('fruit.controls')}</p>
+                <p className={styles.hint}>{t('fruit.goal')}</p>
+                <p className={styles.hint}>{t('fruit.items')}</p>
                 <button onClick={startGame} className={styles.btn}>
-                  开始游戏
+                  {t('miniGames.start')}
                 </button>
               </div>
             </div>
@@ -603,18 +606,20 @@ export const FruitCatcher: React.FC<{ onClose: () => void }> = ({ onClose }) =>
           {gameStatus === 'over' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>游戏结束</h3>
+                <h3>{t('miniGames.gameOver')}</h3>
                 <div className={styles.scoreBox}>
                   <p className={styles.finalScore}>
-                    本次得分: <strong>{score}</strong>
+                    {t('miniGames.thisScore')} <strong>{score}</strong>
                   </p>
                   <p className={styles.bestScoreText}>
-                    最高分: <strong>{bestScore}</strong>
+                    {t('miniGames.bestScore')} <strong>{bestScore}</strong>
                   </p>
                 </div>
-                {score === bestScore && score > 0 && <p className={styles.congrats}>新纪录</p>}
+                {score === bestScore && score > 0 && (
+                  <p className={styles.congrats}>{t('miniGames.newRecord')}</p>
+                )}
                 <button onClick={startGame} className={styles.btn}>
-                  再来一次
+                  {t('miniGames.playAgain')}
                 </button>
               </div>
             </div>
@@ -622,8 +627,8 @@ export const FruitCatcher: React.FC<{ onClose: () => void }> = ({ onClose }) =>
         </div>
 
         <div className={styles.instructions}>
-          <p>方向键/鼠标/触摸移动篮子 | 接住水果得分，躲避炸弹💣</p>
-          <p>特殊道具: ⭐+50分 | ❄️减速 | ✨双倍 | 连续接住累积连击奖励</p>
+          <p>{t('fruit.instructions')}</p>
+          <p>{t('fruit.itemsInstructions')}</p>
         </div>
       </div>
     </div>
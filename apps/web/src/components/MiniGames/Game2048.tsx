@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useI18n } from '../../hooks/useI18n'
 import styles from './Game2048.module.scss'
 
 type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
@@ -7,6 +8,7 @@ type Board = number[][]
 const GRID_SIZE = 4
 
 export const Game2048: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const [board, setBoard] = useState<Board>(() => initializeBoard())
   const [score, setScore] = useState(0)
   const [gameOver, setGameOver] = useState(false)
@@ -356,9 +358,9 @@ export const Game2048: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         </div>
 
         <div className={styles.scoreBoard}>
-          <div className={styles.score}>得分: {score}</div>
+          <div className={styles.score}>{t('miniGames.score', { score })}</div>
           <button onClick={handleRestart} className={styles.restartBtn}>
-            重新开始
+            {t('miniGames.restart')}
           </button>
         </div>
 
@@ -405,9 +407,9 @@ export const Game2048: React.FC<{ onClose: () => void }> = ({ onClose }) => {
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
                 <h3>2048</h3>
-                <p>使用方向键或滑动屏幕移动方块</p>
-                <p>相同数字的方块会合并</p>
-                <p>按空格键或触摸屏幕开始游戏</p>
+                <p>{t('game2048.startHint')}</p>
+                <p>{t('game2048.mergeHint')}</p>
+                <p>{t('miniGames.spaceToStart')}</p>
               </div>
             </div>
           )}
@@ -415,10 +417,10 @@ export const Game2048: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameWon && !gameOver && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>你赢了！</h3>
-                <p>达到了 2048！</p>
+                <h3>{t('game2048.won')}</h3>
+                <p>{t('game2048.reached')}</p>
                 <button onClick={() => setGameWon(false)} className={styles.continueBtn}>
-                  继续游戏
+                  {t('game2048.continue')}
                 </button>
               </div>
             </div>
@@ -427,10 +429,10 @@ export const Game2048: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameOver && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>游戏结束</h3>
-                <p>最终得分: {score}</p>
+                <h3>{t('miniGames.gameOver')}</h3>
+                <p>{t('miniGames.finalScore', { score })}</p>
                 <button onClick={handleRestart} className={styles.restartBtn}>
-                  重新开始
+                  {t('miniGames.restart')}
                 </button>
               </div>
             </div>
@@ -439,8 +441,8 @@ export const Game2048: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
         <div className={styles.controls}>
           <div className={styles.instructions}>
-            <p>🎮 方向键/滑动: 移动方块</p>
-            <p>⏸️ 空格键: 开始游戏</p>
+            <p>{t('game2048.controls')}</p>
+            <p>{t('game2048.startKey')}</p>
           </div>
         </div>
       </div>
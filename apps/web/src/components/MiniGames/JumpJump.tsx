@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
 import Matter from 'matter-js'
+import { useI18n } from '../../hooks/useI18n'
+import { storage } from '../../utils/storage'
 import styles from './JumpJump.module.scss'
 
 // 游戏常量
@@ -27,12 +29,13 @@ interface Player {
 }
 
 export const JumpJump: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [gameStatus, setGameStatus] = useState<'ready' | 'playing' | 'over'>('ready')
   const [score, setScore] = useState(0)
   const [combo, setCombo] = useState(0)
   const [bestScore, setBestScore] = useState(() => {
-    const saved = localStorage.getItem('jumpjump-best-score')
+    const saved = storage.getItem('jumpjump-best-score')
     return saved ? parseInt(saved) : 0
   })
 
@@ -404,7 +407,7 @@ export const JumpJump: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           setGameStatus('over')
           if (score > bestScore) {
             setBestScore(score)
-            localStorage.setItem('jumpjump-best-score', score.toString())
+            storage.setItem('jumpjump-best-score', score.toString())
           }
           return
         }
@@ -532,16 +535,16 @@ export const JumpJump: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>跳一跳</h2>
+          <h2>{t('miniGames.jump.name')}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.statsBar}>
-          <div className={styles.stat}>得分: {score}</div>
-          <div className={styles.stat}>最高: {bestScore}</div>
-          {combo > 1 && <div className={styles.statCombo}>{combo}x 连击</div>}
+          <div className={styles.stat}>{t('miniGames.score', { score })}</div>
+          <div className={styles.stat}>{t('miniGames.best', { score: bestScore })}</div>
+          {combo > 1 && <div className={styles.statCombo}>{t('jump.combo', { count: combo })}</div>}
         </div>
 
         <div className={styles.gameBoard}>
@@ -555,11 +558,11 @@ export const JumpJump: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'ready' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>准备开始</h3>
-                <p>长按空格或屏幕蓄力，松开跳跃</p>
-                <p className={styles.hint}>落在中心区域获得连击</p>
+                <h3>{t('miniGames.ready')}</h3>
+                <p>{t('jump.controls')}</p>
+                <p className={styles.hint}>{t('jump.comboHint')}</p>
                 <button onClick={startGame} className={styles.btn}>
-                  开始游戏
+                  {t('miniGames.start')}
                 </button>
               </div>
             </div>
@@ -568,18 +571,20 @@ export const JumpJump: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'over' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>游戏结束</h3>
+                <h3>{t('miniGames.gameOver')}</h3>
                 <div className={styles.scoreBox}>
                   <p className={styles.finalScore}>
-                    本次得分: <strong>{score}</strong>
+                    {t('miniGames.thisScore')} <strong>{score}</strong>
                   </p>
                   <p className={styles.bestScoreText}>
-                    最高分: <strong>{bestScore}</strong>
+                    {t('miniGames.bestScore')} <strong>{bestScore}</strong>
                   </p>
                 </div>
-                {score === bestScore && score > 0 && <p className={styles.congrats}>新纪录</p>}
+                {score === bestScore && score > 0 && (
+                  <p className={styles.congrats}>{t('miniGames.newRecord')}</p>
+                )}
                 <button onClick={startGame} className={styles.btn}>
-                  再来一次
+                  {t('miniGames.playAgain')}
                 </button>
               </div>
             </div>
@@ -587,8 +592,8 @@ export const JumpJump: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         </div>
 
         <div className={styles.instructions}>
-          <p>长按空格或屏幕蓄力，松开跳跃</p>
-          <p>落在中心获得连击加分</p>
+          <p>{t('jump.controls')}</p>
+          <p>{t('jump.comboBonus')}</p>
         </div>
       </div>
     </div>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react'
+import { useI18n } from '../../hooks/useI18n'
 import styles from './Match3.module.scss'
 
 // 游戏常量
@@ -21,6 +22,7 @@ interface Position {
 }
 
 export const Match3: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const [tiles, setTiles] = useState<Tile[]>([])
   const [selectedTile, setSelectedTile] = useState<Tile | null>(null)
   const [gameStatus, setGameStatus] = useState<'ready' | 'playing' | 'won' | 'lost'>('ready')
@@ -252,18 +254,20 @@ export const Match3: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>连连看</h2>
+          <h2>{t('miniGames.match3.name')}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.statsBar}>
-          <div className={styles.stat}>剩余: {GRID_ROWS * GRID_COLS - matchedCount} 对</div>
-          <div className={styles.stat}>时间: {formatTime(timeLeft)}</div>
+          <div className={styles.stat}>
+            {t('match3.remaining', { count: GRID_ROWS * GRID_COLS - matchedCount })}
+          </div>
+          <div className={styles.stat}>{t('match3.time', { time: formatTime(timeLeft) })}</div>
           {gameStatus === 'playing' && (
             <button onClick={showHint} className={styles.hintBtn}>
-              💡 提示
+              {t('match3.hint')}
             </button>
           )}
         </div>
@@ -306,11 +310,11 @@ export const Match3: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'ready' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>准备开始</h3>
-                <p>找到相同的图案并连接消除</p>
-                <p className={styles.hint}>连线最多只能拐两个弯</p>
+                <h3>{t('miniGames.ready')}</h3>
+                <p>{t('match3.goal')}</p>
+                <p className={styles.hint}>{t('match3.turnRule')}</p>
                 <button onClick={startGame} className={styles.btn}>
-                  开始游戏
+                  {t('miniGames.start')}
                 </button>
               </div>
             </div>
@@ -319,10 +323,10 @@ export const Match3: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'won' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>恭喜通关</h3>
-                <p>用时: {formatTime(TIME_LIMIT - timeLeft)}</p>
+                <h3>{t('match3.won')}</h3>
+                <p>{t('match3.elapsed', { time: formatTime(TIME_LIMIT - timeLeft) })}</p>
                 <button onClick={startGame} className={styles.btn}>
-                  再玩一次
+                  {t('miniGames.playAgainShort')}
                 </button>
               </div>
             </div>
@@ -331,10 +335,10 @@ export const Match3: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameStatus === 'lost' && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>时间到</h3>
-                <p>已消除: {matchedCount} 对</p>
+                <h3>{t('match3.timeUp')}</h3>
+                <p>{t('match3.cleared', { count: matchedCount })}</p>
                 <button onClick={startGame} className={styles.btn}>
-                  重新开始
+                  {t('miniGames.restart')}
                 </button>
               </div>
             </div>
@@ -342,8 +346,8 @@ export const Match3: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         </div>
 
         <div className={styles.instructions}>
-          <p>点击两个相同的图案进行消除</p>
-          <p>连线最多只能拐两个弯</p>
+          <p>{t('match3.instructions')}</p>
+          <p>{t('match3.turnRule')}</p>
         </div>
       </div>
     </div>
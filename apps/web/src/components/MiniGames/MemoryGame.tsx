@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react'
+import { useI18n } from '../../hooks/useI18n'
 import styles from './MemoryGame.module.scss'
 
 interface Card {
@@ -11,6 +12,7 @@ interface Card {
 const EMOJIS = ['🎮', '🎯', '🎲', '🎸', '🎨', '🎭', '🎪', '🎬']
 
 export const MemoryGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const [cards, setCards] = useState<Card[]>([])
   const [flippedCards, setFlippedCards] = useState<number[]>([])
   const [moves, setMoves] = useState(0)
@@ -100,19 +102,19 @@ export const MemoryGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>记忆翻牌</h2>
+          <h2>{t('miniGames.memory.name')}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.scoreBoard}>
-          <div className={styles.score}>步数: {moves}</div>
+          <div className={styles.score}>{t('miniGames.moves', { count: moves })}</div>
           <div className={styles.score}>
-            配对: {matchedPairs}/{EMOJIS.length}
+            {t('memory.pairs', { matched: matchedPairs, total: EMOJIS.length })}
           </div>
           <button onClick={initializeGame} className={styles.restartBtn}>
-            重新开始
+            {t('miniGames.restart')}
           </button>
         </div>
 
@@ -136,19 +138,19 @@ export const MemoryGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         {gameWon && (
           <div className={styles.messageOverlay}>
             <div className={styles.message}>
-              <h3>恭喜通关！</h3>
-              <p>总步数: {moves}</p>
-              <p>完美配对需要: {EMOJIS.length} 步</p>
+              <h3>{t('memory.won')}</h3>
+              <p>{t('memory.totalMoves', { count: moves })}</p>
+              <p>{t('memory.perfectMoves', { count: EMOJIS.length })}</p>
               <button onClick={initializeGame} className={styles.restartBtn}>
-                再玩一次
+                {t('miniGames.playAgainShort')}
               </button>
             </div>
           </div>
         )}
 
         <div className={styles.instructions}>
-          <p>🎯 点击翻牌，找出所有配对</p>
-          <p>💡 记住卡片位置，用最少步数完成</p>
+          <p>{t('memory.goal')}</p>
+          <p>{t('memory.tip')}</p>
         </div>
       </div>
     </div>
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useI18n } from '../../hooks/useI18n'
 import styles from './SnakeGame.module.scss'
 
 type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'
@@ -9,6 +10,7 @@ const CELL_SIZE = 20
 const INITIAL_SPEED = 150
 
 export const SnakeGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const [snake, setSnake] = useState<Position[]>([{ x: 10, y: 10 }])
   const [food, setFood] = useState<Position>({ x: 15, y: 15 })
   const [direction, setDirection] = useState<Direction>('RIGHT')
@@ -214,17 +216,17 @@ export const SnakeGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>贪吃蛇</h2>
+          <h2>{t('miniGames.snake.name')}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.scoreBoard}>
-          <div className={styles.score}>得分: {score}</div>
+          <div className={styles.score}>{t('miniGames.score', { score })}</div>
           {gameStarted && !gameOver && (
             <button onClick={() => setIsPaused(!isPaused)} className={styles.pauseBtn}>
-              {isPaused ? '继续' : '暂停'}
+              {isPaused ? t('miniGames.resume') : t('miniGames.pause')}
             </button>
           )}
         </div>
@@ -266,9 +268,9 @@ export const SnakeGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {!gameStarted && (
             <div className={styles.overlay}>
               <div className={styles.message}>
-                <h3>贪吃蛇</h3>
-                <p>使用方向键或滑动屏幕控制蛇的移动</p>
-                <p>按空格键或触摸屏幕开始游戏</p>
+                <h3>{t('miniGames.snake.name')}</h3>
+                <p>{t('snake.startHint')}</p>
+                <p>{t('miniGames.spaceToStart')}</p>
               </div>
             </div>
           )}
@@ -276,8 +278,8 @@ export const SnakeGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {isPaused && (
             <div className={styles.overlay}>
               <div className={styles.message}>
-                <h3>游戏暂停</h3>
-                <p>按空格键继续</p>
+                <h3>{t('miniGames.paused')}</h3>
+                <p>{t('snake.resumeHint')}</p>
               </div>
             </div>
           )}
@@ -285,10 +287,10 @@ export const SnakeGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {gameOver && (
             <div className={styles.overlay}>
               <div className={styles.message}>
-                <h3>游戏结束</h3>
-                <p>最终得分: {score}</p>
+                <h3>{t('miniGames.gameOver')}</h3>
+                <p>{t('miniGames.finalScore', { score })}</p>
                 <button onClick={resetGame} className={styles.restartBtn}>
-                  重新开始
+                  {t('miniGames.restart')}
                 </button>
               </div>
             </div>
@@ -297,8 +299,8 @@ export const SnakeGame: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
         <div className={styles.controls}>
           <div className={styles.instructions}>
-            <p>🎮 方向键/滑动: 控制方向</p>
-            <p>⏸️ 空格键: 暂停/继续</p>
+            <p>{t('snake.controls')}</p>
+            <p>{t('snake.pauseKey')}</p>
           </div>
         </div>
       </div>
@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../locales/zh-CN'
 import styles from './Sokoban.module.scss'
 
 // 游戏常量
@@ -22,9 +24,9 @@ interface GameState {
 }
 
 // 关卡数据
-const LEVELS = [
+const LEVELS: { nameKey: MessageKey; grid: number[][]; playerStart: Position }[] = [
   {
-    name: '入门',
+    nameKey: 'sokoban.levelBeginner',
     grid: [
       [1, 1, 1, 1, 1, 1, 1, 1],
       [1, 0, 0, 0, 0, 0, 0, 1],
@@ -38,7 +40,7 @@ const LEVELS = [
     playerStart: { x: 3, y: 5 },
   },
   {
-    name: '初级',
+    nameKey: 'sokoban.levelEasy',
     grid: [
       [1, 1, 1, 1, 1, 1, 1, 1],
       [1, 0, 0, 0, 0, 0, 0, 1],
@@ -52,7 +54,7 @@ const LEVELS = [
     playerStart: { x: 3, y: 6 },
   },
   {
-    name: '中级',
+    nameKey: 'sokoban.levelMedium',
     grid: [
       [1, 1, 1, 1, 1, 1, 1, 1],
       [1, 0, 0, 0, 0, 0, 0, 1],
@@ -66,7 +68,7 @@ const LEVELS = [
     playerStart: { x: 3, y: 6 },
   },
   {
-    name: '高级',
+    nameKey: 'sokoban.levelHard',
     grid: [
       [1, 1, 1, 1, 1, 1, 1, 1],
       [1, 0, 0, 0, 0, 0, 0, 1],
@@ -82,6 +84,7 @@ const LEVELS = [
 ]
 
 export const Sokoban: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const [currentLevel, setCurrentLevel] = useState(0)
   const [gameState, setGameState] = useState<GameState | null>(null)
   const [history, setHistory] = useState<GameState[]>([])
@@ -311,16 +314,18 @@ export const Sokoban: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>推箱子</h2>
+          <h2>{t('miniGames.sokoban.name')}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
         </div>
 
         <div className={styles.statsBar}>
-          <div className={styles.stat}>关卡: {LEVELS[currentLevel].name}</div>
-          <div className={styles.stat}>步数: {gameState.moves}</div>
-          <div className={styles.stat}>推动: {gameState.pushes}</div>
+          <div className={styles.stat}>
+            {t('miniGames.level', { name: t(LEVELS[currentLevel].nameKey) })}
+          </div>
+          <div className={styles.stat}>{t('miniGames.moves', { count: gameState.moves })}</div>
+          <div className={styles.stat}>{t('sokoban.pushes', { count: gameState.pushes })}</div>
         </div>
 
         <div className={styles.gameBoard}>
@@ -337,22 +342,22 @@ export const Sokoban: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           {isComplete && (
             <div className={styles.messageOverlay}>
               <div className={styles.message}>
-                <h3>关卡完成！🎉</h3>
+                <h3>{t('sokoban.complete')}</h3>
                 <div className={styles.scoreBox}>
-                  <p>步数: {gameState.moves}</p>
-                  <p>推动次数: {gameState.pushes}</p>
+                  <p>{t('miniGames.moves', { count: gameState.moves })}</p>
+                  <p>{t('sokoban.totalPushes', { count: gameState.pushes })}</p>
                 </div>
                 <div className={styles.btnGroup}>
                   <button onClick={resetLevel} className={styles.btn}>
-                    重玩
+                    {t('sokoban.replay')}
                   </button>
                   {currentLevel < LEVELS.length - 1 ? (
                     <button onClick={nextLevel} className={styles.btn}>
-                      下一关
+                      {t('miniGames.nextLevel')}
                     </button>
                   ) : (
                     <button onClick={() => setCurrentLevel(0)} className={styles.btn}>
-                      重新开始
+                      {t('miniGames.restart')}
                     </button>
                   )}
                 </div>
@@ -363,10 +368,10 @@ export const Sokoban: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
         <div className={styles.controls}>
           <button onClick={undo} className={styles.controlBtn} disabled={history.length <= 1}>
-            ↶ 撤销
+            {t('sokoban.undo')}
           </button>
           <button onClick={resetLevel} className={styles.controlBtn}>
-            🔄 重置
+            {t('sokoban.reset')}
           </button>
           <div className={styles.levelSelector}>
             {LEVELS.map((_, index) => (
@@ -382,8 +387,8 @@ export const Sokoban: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         </div>
 
         <div className={styles.instructions}>
-          <p>方向键或WASD移动 | 推动所有箱子📦到目标点🎯</p>
-          <p>Ctrl+Z撤销 | R重置关卡</p>
+          <p>{t('sokoban.controls')}</p>
+          <p>{t('sokoban.shortcuts')}</p>
         </div>
       </div>
     </div>
@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../locales/zh-CN'
 import styles from './TowerDefense.module.scss'
 
 // 游戏常量
@@ -40,15 +42,26 @@ interface Tower {
 
 interface Level {
   id: number
-  name: string
+  nameKey: MessageKey
   path: Position[]
   waves: { type: Enemy['type']; count: number; interval: number }[][]
 }
 
 // 塔类型配置
-const TOWER_TYPES = {
+const TOWER_TYPES: Record<
+  Tower['type'],
+  {
+    nameKey: MessageKey
+    damage: number
+    range: number
+    fireRate: number
+    cost: number
+    emoji: string
+    color: string
+  }
+> = {
   basic: {
-    name: '基础塔',
+    nameKey: 'towerDefense.basicTower',
     damage: 10,
     range: 2.5,
     fireRate: 500,
@@ -57,7 +70,7 @@ const TOWER_TYPES = {
     color: '#3b82f6',
   },
   sniper: {
-    name: '狙击塔',
+    nameKey: 'towerDefense.sniperTower',
     damage: 50,
     range: 5,
     fireRate: 1500,
@@ -111,7 +124,7 @@ function generateContinuousPath(waypoints: Position[]): Position[] {
 const LEVELS: Level[] = [
   {
     id: 1,
-    name: '第一关：入门',
+    nameKey: 'towerDefense.level1',
     path: generateContinuousPath([
       { x: 0, y: 6 },
       { x: 5, y: 6 },
@@ -128,7 +141,7 @@ const LEVELS: Level[] = [
   },
   {
     id: 2,
-    name: '第二关：加速',
+    nameKey: 'towerDefense.level2',
     path: generateContinuousPath([
       { x: 0, y: 3 },
       { x: 8, y: 3 },
@@ -149,7 +162,7 @@ const LEVELS: Level[] = [
   },
   {
     id: 3,
-    name: '第三关：混战',
+    nameKey: 'towerDefense.level3',
     path: generateContinuousPath([
       { x: 19, y: 6 },
       { x: 12, y: 6 },
@@ -172,6 +185,7 @@ const LEVELS: Level[] = [
 ]
 
 export const TowerDefense: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n()
   const [currentLevel, setCurrentLevel] = useState(0)
   const [gold, setGold] = useState(INITIAL_GOLD)
   const [lives, setLives] = useState(INITIAL_LIVES)
@@ -454,7 +468,7 @@ export const TowerDefense: React.FC<{ onClose: () => void }> = ({ onClose }) =>
     <div className={styles.overlay}>
       <div className={styles.gameContainer}>
         <div className={styles.header}>
-          <h2>塔防：{level.name}</h2>
+          <h2>{t('towerDefense.title', { level: t(level.nameKey) })}</h2>
           <button onClick={onClose} className={styles.closeBtn}>
             ✕
           </button>
@@ -464,7 +478,7 @@ export const TowerDefense: React.FC<{ onClose: () => void }> = ({ onClose }) =>
           <div className={styles.stat}>💰 {gold}</div>
           <div className={styles.stat}>❤️ {lives}</div>
           <div className={styles.stat}>
-            波次: {currentWave}/{level.waves.length}
+            {t('towerDefense.wave', { current: currentWave, total: level.waves.length })}
           </div>
         </div>
 
@@ -479,7 +493,7 @@ export const TowerDefense: React.FC<{ onClose: () => void }> = ({ onClose }) =>
               disabled={gold < config.cost}
             >
               <span className={styles.towerEmoji}>{config.emoji}</span>
-              <span className={styles.towerName}>{config.name}</span>
+              <span className={styles.towerName}>{t(config.nameKey)}</span>
               <span className={styles.towerCost}>{config.cost}💰</span>
             </button>
           ))}
@@ -541,25 +555,25 @@ export const TowerDefense: React.FC<{ onClose: () => void }> = ({ onClose }) =>
         <div className={styles.controls}>
           {currentWave < level.waves.length && !isSpawning && (
             <button onClick={spawnWave} className={styles.waveBtn}>
-              开始第 {currentWave + 1} 波
+              {t('towerDefense.startWave', { wave: currentWave + 1 })}
             </button>
           )}
-          {isSpawning && <div className={styles.spawning}>敌人来袭...</div>}
+          {isSpawning && <div className={styles.spawning}>{t('towerDefense.spawning')}</div>}
         </div>
 
         {gameStatus === 'won' && (
           <div className={styles.messageOverlay}>
             <div className={styles.message}>
-              <h3>关卡完成！</h3>
-              <p>剩余生命: {lives}</p>
-              <p>剩余金币: {gold}</p>
+              <h3>{t('miniGames.levelComplete')}</h3>
+              <p>{t('towerDefense.livesLeft', { count: lives })}</p>
+              <p>{t('towerDefense.goldLeft', { count: gold })}</p>
               {currentLevel < LEVELS.length - 1 ? (
                 <button onClick={nextLevel} className={styles.btn}>
-                  下一关
+                  {t('miniGames.nextLevel')}
                 </button>
               ) : (
                 <>
-                  <p className={styles.congrats}>🎉 恭喜通关所有关卡！</p>
+                  <p className={styles.congrats}>{t('towerDefense.allCleared')}</p>
                   <button
                     onClick={() => {
                       setCurrentLevel(0)
@@ -567,7 +581,7 @@ export const TowerDefense: React.FC<{ onClose: () => void }> = ({ onClose }) =>
                     }}
                     className={styles.btn}
                   >
-                    重新挑战
+                    {t('miniGames.restartAll')}
                   </button>
                 </>
               )}
@@ -578,10 +592,10 @@ export const TowerDefense: React.FC<{ onClose: () => void }> = ({ onClose }) =>
         {gameStatus === 'lost' && (
           <div className={styles.messageOverlay}>
             <div className={styles.message}>
-              <h3>游戏失败</h3>
-              <p>防线被攻破了</p>
+              <h3>{t('towerDefense.lost')}</h3>
+              <p>{t('towerDefense.breached')}</p>
               <button onClick={resetGame} className={styles.btn}>
-                重试
+                {t('towerDefense.retry')}
               </button>
             </div>
           </div>
@@ -0,0 +1,86 @@
+/**
+ * 小游戏注册表
+ * 小游戏页面和全局搜索共用，新增小游戏时只需在这里登记（并在 MiniGames 中渲染对应组件）
+ * 不引用游戏组件本身，避免搜索功能把懒加载的小游戏打包进主包
+ */
+
+import type { MessageKey } from '../../locales/zh-CN'
+
+// ==================== Types ====================
+
+interface MiniGame {
+  id: string
+  nameKey: MessageKey
+  descriptionKey: MessageKey
+  color: string
+}
+
+// ==================== Constants ====================
+
+const MINI_GAMES: MiniGame[] = [
+  {
+    id: 'snake',
+    nameKey: 'miniGames.snake.name',
+    descriptionKey: 'miniGames.snake.description',
+    color: 'linear-gradient(135deg, #4ade80 0%, #22c55e 100%)',
+  },
+  {
+    id: '2048',
+    nameKey: 'miniGames.game2048.name',
+    descriptionKey: 'miniGames.game2048.description',
+    color: 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
+  },
+  {
+    id: 'memory',
+    nameKey: 'miniGames.memory.name',
+    descriptionKey: 'miniGames.memory.description',
+    color: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+  },
+  {
+    id: 'tower',
+    nameKey: 'miniGames.tower.name',
+    descriptionKey: 'miniGames.tower.description',
+    color: 'linear-gradient(135deg, #1e293b 0%, #334155 100%)',
+  },
+  {
+    id: 'breakout',
+    nameKey: 'miniGames.breakout.name',
+    descriptionKey: 'miniGames.breakout.description',
+    color: 'linear-gradient(135deg, #4f46e5 0%, #7c3aed 100%)',
+  },
+  {
+    id: 'flappy',
+    nameKey: 'miniGames.flappy.name',
+    descriptionKey: 'miniGames.flappy.description',
+    color: 'linear-gradient(135deg, #06b6d4 0%, #0891b2 100%)',
+  },
+  {
+    id: 'match3',
+    nameKey: 'miniGames.match3.name',
+    descriptionKey: 'miniGames.match3.description',
+    color: 'linear-gradient(135deg, #ec4899 0%, #d946ef 100%)',
+  },
+  {
+    id: 'jump',
+    nameKey: 'miniGames.jump.name',
+    descriptionKey: 'miniGames.jump.description',
+    color: 'linear-gradient(135deg, #8b5cf6 0%, #6366f1 100%)',
+  },
+  {
+    id: 'fruit',
+    nameKey: 'miniGames.fruit.name',
+    descriptionKey: 'miniGames.fruit.description',
+    color: 'linear-gradient(135deg, #f43f5e 0%, #e11d48 100%)',
+  },
+  {
+    id: 'sokoban',
+    nameKey: 'miniGames.sokoban.name',
+    descriptionKey: 'miniGames.sokoban.description',
+    color: 'linear-gradient(135deg, #14b8a6 0%, #0d9488 100%)',
+  },
+]
+
+// ==================== Exports ====================
+
+export type { MiniGame }
+export { MINI_GAMES }
@@ -0,0 +1,228 @@
+import React, { useState } from 'react'
+import classNames from 'classnames'
+import { Plus, Trash2 } from 'lucide-react'
+import type { PlayJournal as PlayJournalData } from '../../types'
+import {
+  addSession,
+  createEmptyJournal,
+  formatDuration,
+  getFirstTransitionAt,
+  getLastTransitionAt,
+  getTotalPlayMinutes,
+} from '../../utils/playJournal'
+import { useI18n } from '../../hooks/useI18n'
+import { i18nService } from '../../services/i18n'
+import styles from './index.module.scss'
+
+interface PlayJournalProps {
+  journal: PlayJournalData | undefined
+  onChange: (journal: PlayJournalData) => void
+}
+
+// ==================== Constants ====================
+
+const RATINGS = Array.from({ length: 10 }, (_, i) => i + 1)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ==================== Helper Functions ====================
+
+function formatDate(iso: string | null): string {
+  return iso ? i18nService.formatDate(iso) : '—'
+}
+
+function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// ==================== Component ====================
+
+export const PlayJournal: React.FC<PlayJournalProps> = ({ journal, onChange }) => {
+  const { t } = useI18n()
+  const current = journal ?? createEmptyJournal()
+  const [notes, setNotes] = useState(current.notes)
+  const [sessionDate, setSessionDate] = useState(toDateInputValue(new Date()))
+  const [sessionHours, setSessionHours] = useState('')
+  const [sessionMinutes, setSessionMinutes] = useState('')
+  const [sessionNote, setSessionNote] = useState('')
+
+  const totalMinutes = getTotalPlayMinutes(current)
+  const startedAt = getFirstTransitionAt(current, 'playing')
+  const completedAt = getLastTransitionAt(current, 'completion')
+  const daysToComplete =
+    startedAt && completedAt && completedAt > startedAt
+      ? Math.max(
+          1,
+          Math.round((new Date(completedAt).getTime() - new Date(startedAt).getTime()) / DAY_MS)
+        )
+      : null
+
+  const handleRatingClick = (value: number) => {
+    // 再次点击当前评分则清除
+    onChange({ ...current, rating: current.rating === value ? null : value })
+  }
+
+  const handleNotesBlur = () => {
+    if (notes !== current.notes) {
+      onChange({ ...current, notes })
+    }
+  }
+
+  const handleAddSession = () => {
+    const durationMinutes =
+      (parseInt(sessionHours, 10) || 0) * 60 + (parseInt(sessionMinutes, 10) || 0)
+
+    // Happy Path: 时长无效
+    if (durationMinutes <= 0 || !sessionDate) {
+      return
+    }
+
+    // 手动记录只精确到日期，开始时间取当天零点
+    const sessionStart = new Date(`${sessionDate}T00:00:00`)
+    const sessionEnd = new Date(sessionStart.getTime() + durationMinutes * 60000)
+    const note = sessionNote.trim()
+
+    onChange(
+      addSession(current, {
+        startedAt: sessionStart.toISOString(),
+        endedAt: sessionEnd.toISOString(),
+        durationMinutes,
+        ...(note ? { note } : {}),
+      })
+    )
+
+    setSessionHours('')
+    setSessionMinutes('')
+    setSessionNote('')
+  }
+
+  const handleRemoveSession = (id: string) => {
+    onChange({ ...current, sessions: current.sessions.filter((s) => s.id !== id) })
+  }
+
+  return (
+    <div className={styles.playJournal}>
+      <div className={styles.summary}>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>{t('playJournal.totalPlayed')}</span>
+          <span className={styles.summaryValue}>{formatDuration(totalMinutes)}</span>
+        </div>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>{t('playJournal.startedAt')}</span>
+          <span className={styles.summaryValue}>{formatDate(startedAt)}</span>
+        </div>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>{t('playJournal.completedAt')}</span>
+          <span className={styles.summaryValue}>
+            {formatDate(completedAt)}
+            {daysToComplete !== null && (
+              <span className={styles.summaryHint}>
+                {t('playJournal.daysToComplete', { count: daysToComplete })}
+              </span>
+            )}
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.section}>
+        <span className={styles.sectionLabel}>{t('playJournal.rating')}</span>
+        <div className={styles.ratingRow}>
+          {RATINGS.map((value) => (
+            <button
+              key={value}
+              className={classNames(styles.ratingBtn, {
+                [styles.active]: current.rating !== null && value <= current.rating,
+              })}
+              onClick={() => handleRatingClick(value)}
+              title={t('playJournal.ratingValue', { count: value })}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={styles.section}>
+        <span className={styles.sectionLabel}>{t('playJournal.notes')}</span>
+        <textarea
+          className={styles.notesInput}
+          placeholder={t('playJournal.notesPlaceholder')}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={handleNotesBlur}
+          rows={3}
+        />
+      </div>
+
+      <div className={styles.section}>
+        <span className={styles.sectionLabel}>{t('playJournal.sessions')}</span>
+        <div className={styles.sessionForm}>
+          <input
+            type="date"
+            className={styles.sessionInput}
+            value={sessionDate}
+            onChange={(e) => setSessionDate(e.target.value)}
+          />
+          <input
+            type="number"
+            min={0}
+            className={classNames(styles.sessionInput, styles.sessionNumber)}
+            placeholder={t('playJournal.hours')}
+            value={sessionHours}
+            onChange={(e) => setSessionHours(e.target.value)}
+          />
+          <input
+            type="number"
+            min={0}
+            max={59}
+            className={classNames(styles.sessionInput, styles.sessionNumber)}
+            placeholder={t('playJournal.minutes')}
+            value={sessionMinutes}
+            onChange={(e) => setSessionMinutes(e.target.value)}
+          />
+          <input
+            type="text"
+            className={classNames(styles.sessionInput, styles.sessionNote)}
+            placeholder={t('playJournal.notePlaceholder')}
+            value={sessionNote}
+            onChange={(e) => setSessionNote(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddSession()
+            }}
+          />
+          <button
+            className={styles.btnAdd}
+            onClick={handleAddSession}
+            title={t('playJournal.addSession')}
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+
+        {current.sessions.length === 0 ? (
+          <div className={styles.emptyHint}>{t('playJournal.empty')}</div>
+        ) : (
+          <ul className={styles.sessionList}>
+            {current.sessions.map((session) => (
+              <li key={session.id} className={styles.sessionRow}>
+                <span className={styles.sessionDate}>{formatDate(session.startedAt)}</span>
+                <span className={styles.sessionDuration}>
+                  {formatDuration(session.durationMinutes)}
+                </span>
+                {session.note && <span className={styles.sessionNoteText}>{session.note}</span>}
+                <button
+                  className={styles.btnRemove}
+                  onClick={() => handleRemoveSession(session.id)}
+                  title={t('playJournal.removeSession')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import React from 'react'
+import { BellRing, X } from 'lucide-react'
+import type { Game } from '../../types'
+import { formatPrice } from '../../utils/price'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+interface PriceAlertsProps {
+  alerts: Game[]
+  onSelect: (game: Game) => void
+  onDismiss: (game: Game) => void
+}
+
+export const PriceAlerts: React.FC<PriceAlertsProps> = ({ alerts, onSelect, onDismiss }) => {
+  const { t } = useI18n()
+
+  // Happy Path: 没有降价提醒
+  if (alerts.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={styles.priceAlerts}>
+      {alerts.map((game) => {
+        const price = game.price!
+
+        return (
+          <div key={game.id} className={styles.alertRow}>
+            <BellRing size={16} className={styles.alertIcon} />
+            <button className={styles.alertMessage} onClick={() => onSelect(game)}>
+              {t(
+                price.discountPercent > 0 ? 'priceAlerts.messageDiscount' : 'priceAlerts.message',
+                {
+                  name: game.name,
+                  price: formatPrice(price.final, price.currency),
+                  discount: price.discountPercent,
+                  target: formatPrice(game.targetPrice!, game.targetCurrency!),
+                }
+              )}
+            </button>
+            <button
+              onClick={() => onDismiss(game)}
+              className={styles.btnDismiss}
+              title={t('priceAlerts.dismiss')}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Check, ChevronDown, Plus, Trash2, UserRound } from 'lucide-react'
+import classNames from 'classnames'
+import { useI18n } from '../../hooks/useI18n'
+import { profileService, type Profile } from '../../services/profile'
+import styles from './index.module.scss'
+
+const EMPTY_FORM = { name: '', apiUrl: '' }
+
+/**
+ * 配置（profile）切换器
+ * 位于页头设置按钮旁，可切换、新建、删除本地配置；切换后重新加载页面
+ */
+export const ProfileSwitcher: React.FC = () => {
+  const { t } = useI18n()
+  const [isOpen, setIsOpen] = useState(false)
+  const [profiles, setProfiles] = useState<Profile[]>(() => profileService.getProfiles())
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const activeProfile = profileService.getActiveProfile()
+
+  // 点击外部关闭下拉菜单
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+        setShowForm(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const getName = (profile: Profile) => profile.name ?? t('profiles.default')
+
+  const handleToggle = () => {
+    // 打开时重新读取，其他标签页可能新建或删除了配置
+    if (!isOpen) {
+      setProfiles(profileService.getProfiles())
+    }
+    setIsOpen(!isOpen)
+    setShowForm(false)
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const profile = profileService.createProfile(form)
+    if (!profile) {
+      return
+    }
+
+    setForm(EMPTY_FORM)
+    setShowForm(false)
+    profileService.switchProfile(profile.id)
+  }
+
+  const handleDelete = async (profile: Profile) => {
+    if (!window.confirm(t('profiles.deleteConfirm', { name: getName(profile) }))) {
+      return
+    }
+
+    await profileService.deleteProfile(profile.id)
+    setProfiles(profileService.getProfiles())
+  }
+
+  return (
+    <div className={styles.profileSwitcher} ref={containerRef}>
+      <button
+        className={styles.trigger}
+        onClick={handleToggle}
+        title={t('profiles.switch')}
+        aria-expanded={isOpen}
+      >
+        <span className={styles.avatar} style={{ background: activeProfile.color }}>
+          <UserRound size={14} />
+        </span>
+        <span className={styles.triggerName}>{getName(activeProfile)}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className={styles.menu}>
+          <div className={styles.menuTitle}>{t('profiles.title')}</div>
+
+          <ul className={styles.profileList}>
+            {profiles.map((profile) => {
+              const isActive = profile.id === activeProfile.id
+              const apiUrl = profileService.getProfileApiUrl(profile.id)
+
+              return (
+                <li
+                  key={profile.id}
+                  className={classNames(styles.profileItem, { [styles.active]: isActive })}
+                >
+                  <button
+                    className={styles.profileButton}
+                    onClick={() => profileService.switchProfile(profile.id)}
+                    disabled={isActive}
+                  >
+                    <span className={styles.avatar} style={{ background: profile.color }}>
+                      <UserRound size={14} />
+                    </span>
+                    <span className={styles.profileInfo}>
+                      <span className={styles.profileName}>{getName(profile)}</span>
+                      {apiUrl && <span className={styles.profileMeta}>{apiUrl}</span>}
+                    </span>
+                    {isActive && <Check size={16} className={styles.checkIcon} />}
+                  </button>
+                  {!isActive && profile.name !== null && (
+                    <button
+                      className={styles.btnDelete}
+                      onClick={() => handleDelete(profile)}
+                      title={t('profiles.delete')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+
+          {showForm ? (
+            <form onSubmit={handleCreate} className={styles.createForm}>
+              <input
+                className={styles.input}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder={t('profiles.namePlaceholder')}
+                autoFocus
+              />
+              <input
+                className={styles.input}
+                type="url"
+                value={form.apiUrl}
+                onChange={(e) => setForm({ ...form, apiUrl: e.target.value })}
+                placeholder={t('profiles.apiUrlPlaceholder')}
+              />
+              <p className={styles.hint}>{t('profiles.createHint')}</p>
+              <div className={styles.formActions}>
+                <button
+                  type="button"
+                  className={styles.btnCancel}
+                  onClick={() => setShowForm(false)}
+                >
+                  {t('common.cancel')}
+                </button>
+                <button type="submit" className={styles.btnCreate} disabled={!form.name.trim()}>
+                  {t('profiles.createAndSwitch')}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button className={styles.btnAdd} onClick={() => setShowForm(true)}>
+              <Plus size={16} />
+              {t('profiles.add')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
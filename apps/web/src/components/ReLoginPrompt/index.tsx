@@ -0,0 +1,39 @@
+import React from 'react'
+import { X } from 'lucide-react'
+import LoginButton from '../LoginButton'
+import { useReauthentication } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+/**
+ * 重新登录提示
+ * Token 过期或被后端拒绝时覆盖在当前界面上，登录成功后之前失败的请求自动重试
+ */
+export const ReLoginPrompt: React.FC = () => {
+  const { t } = useI18n()
+  const { isPending, cancel } = useReauthentication()
+
+  // Happy Path: 不需要重新登录
+  if (!isPending) {
+    return null
+  }
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <button onClick={cancel} className={styles.closeBtn} title={t('reauth.later')}>
+          <X size={20} />
+        </button>
+
+        <h2 className={styles.title}>{t('reauth.title')}</h2>
+        <p className={styles.hint}>{t('reauth.hint')}</p>
+
+        <LoginButton mode="full" />
+
+        <button onClick={cancel} className={styles.btnLater}>
+          {t('reauth.later')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,350 @@
+import React, { useMemo, useState } from 'react'
+import classNames from 'classnames'
+import {
+  AlertTriangle,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  List,
+  TrendingDown,
+  TrendingUp,
+  History,
+  Loader2,
+} from 'lucide-react'
+import type { Game, ReleaseHistory, Shelf } from '../../types'
+import {
+  createReleaseCalendar,
+  getAgendaGroupKey,
+  getMonthGrid,
+  getRecentSlip,
+  getSlipDirection,
+  getUpcomingReleases,
+  isSameDay,
+  type SlipDirection,
+  type UpcomingRelease,
+} from '../../utils/releaseCalendar'
+import type { ReleaseDate } from '../../utils/dateUtils'
+import { downloadFile } from '../../utils/download'
+import { useFullLibrary } from '../../hooks/useFullLibrary'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+interface ReleaseCalendarProps {
+  games: Game[]
+  shelves: Shelf[]
+  releaseHistories: Record<string, ReleaseHistory>
+  onSelectGame: (game: Game) => void
+  onShowToast: (message: string) => void
+}
+
+type CalendarView = 'month' | 'agenda'
+
+const SLIP_ICONS = {
+  delayed: TrendingDown,
+  advanced: TrendingUp,
+  changed: History,
+} as const
+
+const SLIP_LABEL_KEYS = {
+  delayed: 'calendar.slipDelayed',
+  advanced: 'calendar.slipAdvanced',
+  changed: 'calendar.slipChanged',
+} as const
+
+export const ReleaseCalendar: React.FC<ReleaseCalendarProps> = ({
+  games: loadedGames,
+  shelves,
+  releaseHistories,
+  onSelectGame,
+  onShowToast,
+}) => {
+  const { t, formatDate } = useI18n()
+  // 日历和 .ics 导出基于完整游戏库，列表中只加载了每个书架的前几页
+  const { games, isLoading, isComplete } = useFullLibrary(loadedGames)
+  const [view, setView] = useState<CalendarView>('month')
+  const [shelfId, setShelfId] = useState<string>('all')
+  const [cursor, setCursor] = useState(() => {
+    const now = new Date()
+    return { year: now.getFullYear(), month: now.getMonth() + 1 }
+  })
+
+  const today = new Date()
+  const shelfById = new Map(shelves.map((s) => [s.id, s]))
+
+  const releases = useMemo(
+    () =>
+      getUpcomingReleases(
+        shelfId === 'all' ? games : games.filter((game) => game.status === shelfId)
+      ),
+    [games, shelfId]
+  )
+
+  const weeks = useMemo(() => getMonthGrid(cursor.year, cursor.month), [cursor])
+
+  // 当前月份中只知道月份、季度或年份的游戏
+  const undatedInMonth = useMemo(() => {
+    const monthStart = new Date(cursor.year, cursor.month - 1, 1)
+    const monthEnd = new Date(cursor.year, cursor.month, 0)
+    return releases.filter(
+      ({ release, range }) =>
+        release.precision !== 'day' && range && range.start <= monthEnd && range.end >= monthStart
+    )
+  }, [releases, cursor])
+
+  const agendaGroups = useMemo(() => {
+    const groups = new Map<string, UpcomingRelease[]>()
+    for (const item of releases) {
+      const key = getAgendaGroupKey(item.release)
+      groups.set(key, [...(groups.get(key) ?? []), item])
+    }
+    return [...groups.values()]
+  }, [releases])
+
+  const moveMonth = (offset: number) => {
+    setCursor(({ year, month }) => {
+      const date = new Date(year, month - 1 + offset, 1)
+      return { year: date.getFullYear(), month: date.getMonth() + 1 }
+    })
+  }
+
+  const goToToday = () => {
+    setCursor({ year: today.getFullYear(), month: today.getMonth() + 1 })
+  }
+
+  const handleExport = () => {
+    const datedCount = releases.filter((item) => item.range).length
+
+    // Happy Path: 没有可导出的日期
+    if (datedCount === 0) {
+      onShowToast(t('calendar.nothingToExport'))
+      return
+    }
+
+    downloadFile(
+      'game-gallery-releases.ics',
+      createReleaseCalendar(releases, t('calendar.icsName')),
+      'text/calendar'
+    )
+    onShowToast(t('calendar.exported', { count: datedCount }))
+  }
+
+  const getGroupLabel = (release: ReleaseDate): string => {
+    switch (release.precision) {
+      case 'day':
+      case 'month':
+        return formatDate(new Date(release.year!, release.month! - 1, 1), {
+          year: 'numeric',
+          month: 'long',
+        })
+      case 'quarter':
+        return t('calendar.quarter', { year: release.year!, quarter: release.quarter! })
+      case 'year':
+        return t('calendar.year', { year: release.year! })
+      default:
+        return t('calendar.tba')
+    }
+  }
+
+  const renderSlipBadge = (game: Game) => {
+    const slip = getRecentSlip(releaseHistories[game.id])
+
+    // Happy Path: 最近没有变化
+    if (!slip) {
+      return null
+    }
+
+    const direction: SlipDirection = getSlipDirection(slip)
+    const SlipIcon = SLIP_ICONS[direction]
+
+    return (
+      <span
+        className={classNames(styles.slipBadge, styles[direction])}
+        title={t('calendar.slipFrom', { date: slip.from })}
+      >
+        <SlipIcon size={12} />
+        {t(SLIP_LABEL_KEYS[direction])}
+      </span>
+    )
+  }
+
+  const renderChip = ({ game }: UpcomingRelease) => {
+    const slip = getRecentSlip(releaseHistories[game.id])
+
+    return (
+      <button
+        key={game.id}
+        className={classNames(styles.chip, { [styles.slipped]: slip !== null })}
+        style={{ borderLeftColor: shelfById.get(game.status)?.color }}
+        onClick={() => onSelectGame(game)}
+        title={
+          slip
+            ? `${game.releaseDate} · ${t('calendar.slipFrom', { date: slip.from })}`
+            : game.releaseDate
+        }
+      >
+        {game.name}
+      </button>
+    )
+  }
+
+  // Happy Path: 完整游戏库尚未读取完
+  if (isLoading) {
+    return (
+      <div className={styles.releaseCalendar}>
+        <div className={styles.libraryNotice}>
+          <Loader2 size={16} className="animate-spin" />
+          {t('common.loadingLibrary')}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.releaseCalendar}>
+      {!isComplete && (
+        <div className={styles.libraryNotice}>
+          <AlertTriangle size={16} />
+          {t('common.libraryIncomplete')}
+        </div>
+      )}
+
+      <div className={styles.toolbar}>
+        <div className={styles.viewToggle}>
+          <button
+            className={classNames(styles.toolbarBtn, { [styles.active]: view === 'month' })}
+            onClick={() => setView('month')}
+          >
+            <CalendarDays size={16} />
+            {t('calendar.viewMonth')}
+          </button>
+          <button
+            className={classNames(styles.toolbarBtn, { [styles.active]: view === 'agenda' })}
+            onClick={() => setView('agenda')}
+          >
+            <List size={16} />
+            {t('calendar.viewAgenda')}
+          </button>
+        </div>
+
+        {view === 'month' && (
+          <div className={styles.monthNav}>
+            <button
+              className={styles.iconBtn}
+              onClick={() => moveMonth(-1)}
+              title={t('calendar.prevMonth')}
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span className={styles.monthLabel}>
+              {formatDate(new Date(cursor.year, cursor.month - 1, 1), {
+                year: 'numeric',
+                month: 'long',
+              })}
+            </span>
+            <button
+              className={styles.iconBtn}
+              onClick={() => moveMonth(1)}
+              title={t('calendar.nextMonth')}
+            >
+              <ChevronRight size={16} />
+            </button>
+            <button className={styles.toolbarBtn} onClick={goToToday}>
+              {t('calendar.today')}
+            </button>
+          </div>
+        )}
+
+        <div className={styles.toolbarActions}>
+          <select
+            className={styles.select}
+            value={shelfId}
+            onChange={(e) => setShelfId(e.target.value)}
+          >
+            <option value="all">{t('calendar.allShelves')}</option>
+            {shelves.map((shelf) => (
+              <option key={shelf.id} value={shelf.id}>
+                {shelf.name}
+              </option>
+            ))}
+          </select>
+          <button
+            className={styles.toolbarBtn}
+            onClick={handleExport}
+            title={t('calendar.exportTitle')}
+            disabled={!isComplete}
+          >
+            <Download size={16} />
+            {t('calendar.export')}
+          </button>
+        </div>
+      </div>
+
+      {view === 'month' ? (
+        <>
+          <div className={styles.monthGrid}>
+            {weeks[0].map((date) => (
+              <div key={`weekday-${date.getDay()}`} className={styles.weekday}>
+                {formatDate(date, { weekday: 'short' })}
+              </div>
+            ))}
+            {weeks.flat().map((date) => (
+              <div
+                key={date.toISOString()}
+                className={classNames(styles.dayCell, {
+                  [styles.outside]: date.getMonth() !== cursor.month - 1,
+                  [styles.today]: isSameDay(date, today),
+                })}
+              >
+                <span className={styles.dayNumber}>{date.getDate()}</span>
+                {releases
+                  .filter(
+                    ({ release, range }) =>
+                      release.precision === 'day' && range && isSameDay(range.start, date)
+                  )
+                  .map(renderChip)}
+              </div>
+            ))}
+          </div>
+
+          {undatedInMonth.length > 0 && (
+            <div className={styles.undated}>
+              <span className={styles.undatedLabel}>{t('calendar.undated')}</span>
+              {undatedInMonth.map(renderChip)}
+            </div>
+          )}
+        </>
+      ) : releases.length > 0 ? (
+        <div className={styles.agenda}>
+          {agendaGroups.map((group) => (
+            <section key={getAgendaGroupKey(group[0].release)} className={styles.agendaGroup}>
+              <h3 className={styles.agendaTitle}>{getGroupLabel(group[0].release)}</h3>
+              {group.map(({ game }) => (
+                <button
+                  key={game.id}
+                  className={styles.agendaRow}
+                  onClick={() => onSelectGame(game)}
+                >
+                  <span className={styles.agendaDate}>{game.releaseDate ?? t('calendar.tba')}</span>
+                  {game.coverImage && (
+                    <img src={game.coverImage} alt="" className={styles.agendaCover} />
+                  )}
+                  <span className={styles.agendaName}>{game.name}</span>
+                  {renderSlipBadge(game)}
+                  <span
+                    className={styles.agendaShelf}
+                    style={{ color: shelfById.get(game.status)?.color }}
+                  >
+                    {shelfById.get(game.status)?.name ?? game.status}
+                  </span>
+                </button>
+              ))}
+            </section>
+          ))}
+        </div>
+      ) : (
+        <div className={styles.emptyState}>{t('calendar.empty')}</div>
+      )}
+    </div>
+  )
+}
@@ -1,28 +1,80 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { Search } from 'lucide-react'
+import type { GameStatus, Shelf } from '../../types'
+import { useI18n } from '../../hooks/useI18n'
 import styles from './index.module.scss'
 
 export interface SearchResult {
   id: string
   name: string
   type: 'steam-game' | 'mini-game'
-  status?: 'playing' | 'queueing' | 'completion'
+  status?: GameStatus
   mainTab: 'steamgames' | 'playground'
+  highlights?: number[] // 名称中命中的字符下标
+  // 通过名称以外的字段（开发商、类型等）命中时，显示该字段
+  matchedField?: {
+    label: string
+    text: string
+    highlights: number[]
+  }
 }
 
 interface SearchBarProps {
   onSearch: (term: string) => void
   value: string
   results?: SearchResult[]
+  shelves?: Shelf[]
   onResultClick?: (result: SearchResult) => void
 }
 
+/**
+ * 高亮显示命中的字符
+ */
+const HighlightedText: React.FC<{ text: string; highlights?: number[] }> = ({
+  text,
+  highlights = [],
+}) => {
+  // Happy Path: 没有需要高亮的字符
+  if (highlights.length === 0) {
+    return <>{text}</>
+  }
+
+  // 将连续命中的字符合并为一段
+  const highlightSet = new Set(highlights)
+  const segments: { text: string; highlighted: boolean }[] = []
+  for (const [index, char] of text.split('').entries()) {
+    const highlighted = highlightSet.has(index)
+    const last = segments[segments.length - 1]
+    if (last && last.highlighted === highlighted) {
+      last.text += char
+    } else {
+      segments.push({ text: char, highlighted })
+    }
+  }
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className={styles.highlight}>
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
+
 export const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
   value,
   results = [],
+  shelves = [],
   onResultClick,
 }) => {
+  const { t } = useI18n()
   const [showResults, setShowResults] = useState(false)
   const containerRef = useRef<HTMLDivElement>(null)
 
@@ -54,7 +106,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
       <input
         type="text"
         className={styles.searchInput}
-        placeholder="Search games..."
+        placeholder={t('searchBar.placeholder')}
         value={value}
         onChange={(e) => handleInputChange(e.target.value)}
         onFocus={() => value && setShowResults(true)}
@@ -67,18 +119,32 @@ export const SearchBar: React.FC<SearchBarProps> = ({
               className={styles.searchResultItem}
               onClick={() => handleResultClick(result)}
             >
-              <div className={styles.resultName}>{result.name}</div>
+              <div className={styles.resultName}>
+                <HighlightedText text={result.name} highlights={result.highlights} />
+              </div>
+              {result.matchedField && (
+                <div className={styles.resultMatch}>
+                  {t('searchBar.matchedField', { field: result.matchedField.label })}
+                  <HighlightedText
+                    text={result.matchedField.text}
+                    highlights={result.matchedField.highlights}
+                  />
+                </div>
+              )}
               <div className={styles.resultMeta}>
                 {result.type === 'steam-game' ? (
                   <>
                     <span className={styles.badge}>Steam</span>
                     {result.status && (
-                      <span className={`${styles.statusBadge} ${styles[result.status]}`}>
-                        {result.status === 'playing'
-                          ? 'Playing'
-                          : result.status === 'queueing'
-                            ? 'Queueing'
-                            : 'Completion'}
+                      <span
+                        className={styles.statusBadge}
+                        style={
+                          {
+                            '--shelf-color': shelves.find((s) => s.id === result.status)?.color,
+                          } as React.CSSProperties
+                        }
+                      >
+                        {shelves.find((s) => s.id === result.status)?.name ?? result.status}
                       </span>
                     )}
                   </>
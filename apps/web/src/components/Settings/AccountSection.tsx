@@ -0,0 +1,473 @@
+import React, { useState } from 'react'
+import {
+  CheckCircle,
+  ExternalLink,
+  Gamepad2,
+  Github,
+  Link2,
+  Loader2,
+  Trash2,
+  Unlink,
+  UserPlus,
+} from 'lucide-react'
+import LoginButton from '../LoginButton'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { OAUTH_PROVIDER_NAMES, isOAuthAvailable } from '../../services/auth'
+import { libraryService } from '../../services/library'
+import { STEAM_COMMUNITY_BASE } from '../../constants/api'
+import {
+  PASSWORD_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+  USERNAME_MIN_LENGTH,
+  validatePasswordChange,
+  validateRegistration,
+  type CredentialsError,
+} from '../../utils/credentials'
+import { createLibraryExport } from '../../utils/libraryExport'
+import { downloadFile } from '../../utils/download'
+import type { Game, OAuthProvider, Shelf } from '../../types'
+import styles from './index.module.scss'
+
+const EMPTY_FORM = { username: '', password: '', newPassword: '', confirm: '', deleteConfirm: '' }
+
+interface AccountSectionProps {
+  games: Game[]
+  shelves: Shelf[]
+}
+
+/**
+ * 账号管理
+ * 未登录时可登录或注册，登录后可关联 Steam / GitHub、修改密码、删除账号（删除前可下载游戏库导出）
+ */
+export const AccountSection: React.FC<AccountSectionProps> = ({ games, shelves }) => {
+  const { t } = useI18n()
+  const {
+    isAuthenticated,
+    user,
+    register,
+    changePassword,
+    deleteAccount,
+    startOAuth,
+    unlinkIdentity,
+  } = useAuth()
+
+  const [mode, setMode] = useState<'login' | 'register'>('login')
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [showDelete, setShowDelete] = useState(false)
+  const [exportBeforeDelete, setExportBeforeDelete] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [unlinking, setUnlinking] = useState<OAuthProvider | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const updateForm = (updates: Partial<typeof form>) => {
+    setForm((prev) => ({ ...prev, ...updates }))
+    setError(null)
+    setSuccess(null)
+  }
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setError(null)
+  }
+
+  // 仅通过第三方登录的账号没有密码，删除时改为输入用户名确认
+  const hasPassword = user?.has_password !== false
+  const canDelete = hasPassword
+    ? form.deleteConfirm !== ''
+    : form.deleteConfirm.trim() === user?.username
+
+  const formatValidationError = (code: CredentialsError) =>
+    t(`account.error.${code}`, {
+      min: code === 'usernameLength' ? USERNAME_MIN_LENGTH : PASSWORD_MIN_LENGTH,
+      max: USERNAME_MAX_LENGTH,
+    })
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = validateRegistration(form.username, form.password, form.confirm)
+    if (invalid) {
+      setError(formatValidationError(invalid))
+      return
+    }
+
+    setIsSubmitting(true)
+    const ok = await register(form.username, form.password)
+    setIsSubmitting(false)
+
+    if (!ok) {
+      setError(t('account.registerFailed'))
+      return
+    }
+
+    resetForm()
+    setMode('login')
+    setSuccess(t('account.registered'))
+  }
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = validatePasswordChange(form.password, form.newPassword, form.confirm)
+    if (invalid) {
+      setError(formatValidationError(invalid))
+      return
+    }
+
+    setIsSubmitting(true)
+    const ok = await changePassword(form.password, form.newPassword)
+    setIsSubmitting(false)
+
+    if (!ok) {
+      setError(t('account.changePasswordFailed'))
+      return
+    }
+
+    resetForm()
+    setSuccess(t('account.passwordChanged'))
+  }
+
+  const handleDeleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsSubmitting(true)
+
+    // 删除前先下载完整游戏库，删除失败时导出文件也不受影响
+    if (exportBeforeDelete) {
+      const library = await libraryService.getFullLibrary(games)
+
+      // Happy Path: 无法读取完整游戏库，不在没有完整备份时删除账号
+      if (!library) {
+        setIsSubmitting(false)
+        setError(t('account.exportFailed'))
+        return
+      }
+
+      const date = new Date().toISOString().slice(0, 10)
+      downloadFile(
+        `game-gallery-library-${date}.json`,
+        JSON.stringify(createLibraryExport(library, shelves), null, 2),
+        'application/json'
+      )
+    }
+
+    const ok = await deleteAccount(
+      hasPassword
+        ? { password: form.deleteConfirm }
+        : { confirm_username: form.deleteConfirm.trim() }
+    )
+    setIsSubmitting(false)
+
+    if (!ok) {
+      setError(t(hasPassword ? 'account.deleteFailed' : 'account.deleteFailedNoPassword'))
+      return
+    }
+
+    resetForm()
+    setShowDelete(false)
+    setSuccess(t('account.deleted'))
+  }
+
+  const handleUnlink = async (provider: OAuthProvider) => {
+    setUnlinking(provider)
+    setError(null)
+    setSuccess(null)
+
+    const ok = await unlinkIdentity(provider)
+
+    setUnlinking(null)
+    if (!ok) {
+      setError(t('account.unlinkFailed'))
+    }
+  }
+
+  const identities: {
+    provider: OAuthProvider
+    icon: typeof Github
+    value: string | null | undefined
+    href: string | null
+  }[] = [
+    {
+      provider: 'steam',
+      icon: Gamepad2,
+      value: user?.steam_id,
+      href: user?.steam_id ? `${STEAM_COMMUNITY_BASE}/profiles/${user.steam_id}` : null,
+    },
+    {
+      provider: 'github',
+      icon: Github,
+      value: user?.github_login,
+      href: user?.github_login ? `https://github.com/${user.github_login}` : null,
+    },
+  ]
+
+  const feedback = (
+    <>
+      {error && <div className={styles.errorBox}>{error}</div>}
+      {success && (
+        <div className={styles.successBox}>
+          <CheckCircle size={16} />
+          {success}
+        </div>
+      )}
+    </>
+  )
+
+  // Happy Path: 未登录，显示登录或注册表单
+  if (!isAuthenticated) {
+    return (
+      <>
+        {feedback}
+
+        {mode === 'login' ? (
+          <LoginButton mode="full" />
+        ) : (
+          <form onSubmit={handleRegister} className={styles.accountForm}>
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>{t('login.username')}</label>
+              <input
+                className={styles.inputPrimary}
+                value={form.username}
+                autoComplete="username"
+                onChange={(e) => updateForm({ username: e.target.value })}
+              />
+              <p className={styles.helpText}>
+                {t('account.usernameHint', {
+                  min: USERNAME_MIN_LENGTH,
+                  max: USERNAME_MAX_LENGTH,
+                })}
+              </p>
+            </div>
+
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>{t('login.password')}</label>
+              <input
+                type="password"
+                className={styles.inputPrimary}
+                value={form.password}
+                autoComplete="new-password"
+                onChange={(e) => updateForm({ password: e.target.value })}
+              />
+              <p className={styles.helpText}>
+                {t('account.passwordHint', { min: PASSWORD_MIN_LENGTH })}
+              </p>
+            </div>
+
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>{t('account.confirmPassword')}</label>
+              <input
+                type="password"
+                className={styles.inputPrimary}
+                value={form.confirm}
+                autoComplete="new-password"
+                onChange={(e) => updateForm({ confirm: e.target.value })}
+              />
+            </div>
+
+            <div className={styles.actions}>
+              <button type="submit" className={styles.btnSave} disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 size={16} className="animate-spin" />
+                ) : (
+                  <UserPlus size={16} />
+                )}
+                {t('account.register')}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <button
+          className={styles.linkButton}
+          onClick={() => {
+            resetForm()
+            setSuccess(null)
+            setMode(mode === 'login' ? 'register' : 'login')
+          }}
+        >
+          {mode === 'login' ? t('account.toRegister') : t('account.toLogin')}
+        </button>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <LoginButton mode="full" />
+
+      {feedback}
+
+      <h4 className={styles.subsectionTitle}>{t('account.linkedAccounts')}</h4>
+      <ul className={styles.identityList}>
+        {identities.map(({ provider, icon: Icon, value, href }) => (
+          <li key={provider} className={styles.identityItem}>
+            <Icon size={18} />
+            <div className={styles.identityInfo}>
+              <span className={styles.identityName}>{OAUTH_PROVIDER_NAMES[provider]}</span>
+              {value && href ? (
+                <a href={href} target="_blank" rel="noopener noreferrer">
+                  {provider === 'steam' ? t('account.steamId', { id: value }) : `@${value}`}
+                  <ExternalLink size={12} />
+                </a>
+              ) : (
+                <span>{t('account.notLinked')}</span>
+              )}
+            </div>
+            {value ? (
+              <button
+                className={styles.btnRevoke}
+                onClick={() => handleUnlink(provider)}
+                disabled={unlinking !== null}
+              >
+                {unlinking === provider ? (
+                  <Loader2 size={14} className="animate-spin" />
+                ) : (
+                  <Unlink size={14} />
+                )}
+                {t('account.unlink')}
+              </button>
+            ) : (
+              <button
+                className={styles.btnLink}
+                onClick={() => startOAuth(provider, 'link')}
+                disabled={!isOAuthAvailable(provider)}
+                title={isOAuthAvailable(provider) ? undefined : t('account.providerUnavailable')}
+              >
+                <Link2 size={14} />
+                {t('account.link')}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <h4 className={styles.subsectionTitle}>{t('account.changePassword')}</h4>
+      <form onSubmit={handleChangePassword} className={styles.accountForm}>
+        <div className={styles.inputGroup}>
+          <label className={styles.label}>{t('account.currentPassword')}</label>
+          <input
+            type="password"
+            className={styles.inputPrimary}
+            value={form.password}
+            autoComplete="current-password"
+            onChange={(e) => updateForm({ password: e.target.value })}
+          />
+        </div>
+
+        <div className={styles.inputGroup}>
+          <label className={styles.label}>{t('account.newPassword')}</label>
+          <input
+            type="password"
+            className={styles.inputPrimary}
+            value={form.newPassword}
+            autoComplete="new-password"
+            onChange={(e) => updateForm({ newPassword: e.target.value })}
+          />
+          <p className={styles.helpText}>
+            {t('account.passwordHint', { min: PASSWORD_MIN_LENGTH })}
+          </p>
+        </div>
+
+        <div className={styles.inputGroup}>
+          <label className={styles.label}>{t('account.confirmPassword')}</label>
+          <input
+            type="password"
+            className={styles.inputPrimary}
+            value={form.confirm}
+            autoComplete="new-password"
+            onChange={(e) => updateForm({ confirm: e.target.value })}
+          />
+        </div>
+
+        <div className={styles.actions}>
+          <button
+            type="submit"
+            className={styles.btnSave}
+            disabled={isSubmitting || !form.password || !form.newPassword}
+          >
+            {isSubmitting && <Loader2 size={16} className="animate-spin" />}
+            {t('account.changePassword')}
+          </button>
+        </div>
+      </form>
+
+      <h4 className={styles.subsectionTitle}>{t('account.deleteAccount')}</h4>
+      {showDelete ? (
+        <form onSubmit={handleDeleteAccount} className={styles.dangerZone}>
+          <p>{t('account.deleteWarning')}</p>
+
+          {hasPassword ? (
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>{t('account.currentPassword')}</label>
+              <input
+                type="password"
+                className={styles.inputPrimary}
+                value={form.deleteConfirm}
+                autoComplete="current-password"
+                onChange={(e) => updateForm({ deleteConfirm: e.target.value })}
+              />
+            </div>
+          ) : (
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>
+                {t('account.deleteTypeUsername', { username: user?.username ?? '' })}
+              </label>
+              <input
+                className={styles.inputPrimary}
+                value={form.deleteConfirm}
+                autoComplete="off"
+                onChange={(e) => updateForm({ deleteConfirm: e.target.value })}
+              />
+              <p className={styles.helpText}>{t('account.deleteNoPasswordHint')}</p>
+            </div>
+          )}
+
+          <label className={styles.checkboxRow}>
+            <input
+              type="checkbox"
+              checked={exportBeforeDelete}
+              onChange={(e) => setExportBeforeDelete(e.target.checked)}
+            />
+            {t('account.exportBeforeDelete', { count: games.length })}
+          </label>
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.btnTest}
+              onClick={() => {
+                resetForm()
+                setShowDelete(false)
+              }}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className={styles.btnDanger}
+              disabled={isSubmitting || !canDelete}
+            >
+              {isSubmitting ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+              {t('account.deleteConfirm')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className={styles.actions}>
+          <button
+            className={styles.btnDanger}
+            onClick={() => {
+              resetForm()
+              setShowDelete(true)
+            }}
+          >
+            <Trash2 size={16} />
+            {t('account.deleteAccount')}
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
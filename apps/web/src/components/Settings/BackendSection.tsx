@@ -0,0 +1,181 @@
+import React, { useState } from 'react'
+import { Loader2, RotateCcw } from 'lucide-react'
+import classNames from 'classnames'
+import { useI18n } from '../../hooks/useI18n'
+import { apiClient } from '../../services/apiClient'
+import {
+  configService,
+  detectPreset,
+  normalizeApiUrl,
+  type BackendPreset,
+  type ConnectionTestResult,
+} from '../../services/config'
+import { BACKEND_PRESETS } from '../../constants/api'
+import styles from './index.module.scss'
+
+const PRESETS: BackendPreset[] = ['production', 'local', 'custom']
+
+/**
+ * 后端地址设置
+ * 选择预设（生产环境、本地开发）或填写自定义地址，保存前可测试连接；保存后重新加载页面生效
+ */
+export const BackendSection: React.FC = () => {
+  const { t } = useI18n()
+  const currentUrl = apiClient.getBaseUrl()
+
+  const [preset, setPreset] = useState<BackendPreset>(
+    () => configService.getConfig()?.preset ?? detectPreset(currentUrl)
+  )
+  const [customUrl, setCustomUrl] = useState(() =>
+    detectPreset(currentUrl) === 'custom' ? currentUrl : ''
+  )
+  const [isTesting, setIsTesting] = useState(false)
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const selectedUrl = preset === 'custom' ? normalizeApiUrl(customUrl) : BACKEND_PRESETS[preset]
+
+  const updateSelection = (updates: { preset?: BackendPreset; customUrl?: string }) => {
+    if (updates.preset !== undefined) {
+      setPreset(updates.preset)
+    }
+    if (updates.customUrl !== undefined) {
+      setCustomUrl(updates.customUrl)
+    }
+    setTestResult(null)
+    setError(null)
+  }
+
+  const handleTest = async () => {
+    // Happy Path: 地址无效
+    if (!selectedUrl) {
+      setError(t('backend.invalidUrl'))
+      return
+    }
+
+    setIsTesting(true)
+    setError(null)
+    setTestResult(null)
+
+    const result = await configService.testConnection(selectedUrl)
+
+    setIsTesting(false)
+    setTestResult(result)
+  }
+
+  const handleSave = () => {
+    // Happy Path: 地址无效
+    if (!selectedUrl || !configService.saveConfig({ preset, apiUrl: selectedUrl })) {
+      setError(t('backend.invalidUrl'))
+      return
+    }
+
+    window.location.reload()
+  }
+
+  const handleReset = () => {
+    configService.clearConfig()
+    window.location.reload()
+  }
+
+  return (
+    <>
+      <div className={styles.inputGroup}>
+        <label className={styles.label}>{t('backend.server')}</label>
+        <select
+          className={styles.inputPrimary}
+          value={preset}
+          onChange={(e) => updateSelection({ preset: e.target.value as BackendPreset })}
+        >
+          {PRESETS.map((id) => (
+            <option key={id} value={id}>
+              {id === 'custom'
+                ? t('backend.preset.custom')
+                : `${t(`backend.preset.${id}`)} (${BACKEND_PRESETS[id]})`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {preset === 'custom' && (
+        <div className={styles.inputGroup}>
+          <label className={styles.label}>{t('backend.customUrl')}</label>
+          <input
+            type="url"
+            className={styles.inputPrimary}
+            value={customUrl}
+            placeholder="https://api.example.com"
+            onChange={(e) => updateSelection({ customUrl: e.target.value })}
+          />
+        </div>
+      )}
+
+      <p className={styles.helpText}>{t('backend.current', { url: currentUrl })}</p>
+
+      {error && <div className={styles.errorBox}>{error}</div>}
+
+      {testResult && (
+        <div className={styles.infoBox}>
+          <div className={styles.infoRow}>
+            <span className={styles.infoLabel}>{t('backend.status')}</span>
+            <span
+              className={classNames(
+                styles.statusDot,
+                testResult.reachable ? styles.idle : styles.error
+              )}
+            />
+            <span className={styles.infoValue}>
+              {testResult.reachable ? t('backend.reachable') : t('backend.unreachable')}
+            </span>
+          </div>
+          {testResult.latencyMs !== null && (
+            <div className={styles.infoRow}>
+              <span className={styles.infoLabel}>{t('backend.latency')}</span>
+              <span className={styles.infoValue}>
+                {t('backend.latencyValue', { ms: testResult.latencyMs })}
+              </span>
+            </div>
+          )}
+          {testResult.reachable && (
+            <div className={styles.infoRow}>
+              <span className={styles.infoLabel}>{t('backend.version')}</span>
+              <span className={styles.infoValue}>
+                {testResult.version ?? t('backend.versionUnknown')}
+              </span>
+            </div>
+          )}
+          {testResult.auth && (
+            <div className={styles.infoRow}>
+              <span className={styles.infoLabel}>{t('backend.auth')}</span>
+              <span className={styles.infoValue}>{t(`backend.authStatus.${testResult.auth}`)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className={styles.actions}>
+        {configService.isConfigured() && (
+          <button onClick={handleReset} className={styles.btnTest} title={t('backend.resetHint')}>
+            <RotateCcw size={16} />
+            {t('backend.reset')}
+          </button>
+        )}
+        <button
+          onClick={handleTest}
+          className={styles.btnTest}
+          disabled={!selectedUrl || isTesting}
+        >
+          {isTesting && <Loader2 size={16} className="animate-spin" />}
+          {t('backend.test')}
+        </button>
+        <button
+          onClick={handleSave}
+          className={styles.btnSave}
+          disabled={!selectedUrl || selectedUrl === currentUrl}
+        >
+          {t('backend.save')}
+        </button>
+      </div>
+    </>
+  )
+}
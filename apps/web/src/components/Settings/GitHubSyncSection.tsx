@@ -0,0 +1,218 @@
+import React, { useState } from 'react'
+import classNames from 'classnames'
+import { CheckCircle, Loader2, RefreshCw } from 'lucide-react'
+import { githubService } from '../../services/github'
+import { githubSyncService } from '../../services/githubSync'
+import { useGitHubSyncStatus } from '../../hooks/useGitHubSync'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+/**
+ * GitHub games.json 同步设置
+ * 配置仓库和 Token，开启自动同步，查看同步状态
+ * 手动同步写回的变化在关闭设置后随游戏库重新加载
+ */
+export const GitHubSyncSection: React.FC = () => {
+  const { t, formatDate } = useI18n()
+  const status = useGitHubSyncStatus()
+
+  const [config, setConfig] = useState(() => {
+    const saved = githubService.getConfig()
+    return {
+      token: saved?.token ?? '',
+      owner: saved?.owner ?? '',
+      repo: saved?.repo ?? '',
+      path: githubService.getFilePath(),
+    }
+  })
+  const [isTesting, setIsTesting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const isComplete = !!config.token.trim() && !!config.owner.trim() && !!config.repo.trim()
+
+  const updateConfig = (updates: Partial<typeof config>) => {
+    setConfig((prev) => ({ ...prev, ...updates }))
+    setError(null)
+    setSuccess(null)
+  }
+
+  /**
+   * 保存配置，仓库或文件变化时清除同步记录
+   */
+  const saveConfig = () => {
+    const getTarget = () => {
+      const saved = githubService.getConfig()
+      return `${saved?.owner}/${saved?.repo}/${githubService.getFilePath()}`
+    }
+    const previousTarget = getTarget()
+
+    githubService.saveConfig({
+      token: config.token.trim(),
+      owner: config.owner.trim(),
+      repo: config.repo.trim(),
+      path: config.path.trim(),
+    })
+
+    if (getTarget() !== previousTarget) {
+      githubSyncService.resetBase()
+    }
+  }
+
+  const handleTest = async () => {
+    setIsTesting(true)
+    setError(null)
+    setSuccess(null)
+
+    saveConfig()
+    const ok = await githubService.testConnection()
+
+    setIsTesting(false)
+    if (ok) {
+      setSuccess(t('githubSync.testSucceeded'))
+    } else {
+      setError(t('githubSync.testFailed'))
+    }
+  }
+
+  const handleSave = () => {
+    saveConfig()
+    setError(null)
+    setSuccess(t('githubSync.saved'))
+  }
+
+  const stateLabel = status.enabled
+    ? t(`githubSync.state.${status.state}`)
+    : t('githubSync.state.disabled')
+
+  return (
+    <>
+      <div className={styles.inputGroup}>
+        <label className={styles.label}>{t('githubSync.token')}</label>
+        <input
+          type="password"
+          className={styles.inputPrimary}
+          value={config.token}
+          placeholder="ghp_..."
+          onChange={(e) => updateConfig({ token: e.target.value })}
+        />
+      </div>
+
+      <div className={styles.inputGroup}>
+        <label className={styles.label}>{t('githubSync.repository')}</label>
+        <div className={styles.inputRow}>
+          <input
+            className={styles.inputPrimary}
+            value={config.owner}
+            placeholder="owner"
+            onChange={(e) => updateConfig({ owner: e.target.value })}
+          />
+          <input
+            className={styles.inputPrimary}
+            value={config.repo}
+            placeholder="repo"
+            onChange={(e) => updateConfig({ repo: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className={styles.inputGroup}>
+        <label className={styles.label}>{t('githubSync.path')}</label>
+        <input
+          className={styles.inputPrimary}
+          value={config.path}
+          placeholder="games.json"
+          onChange={(e) => updateConfig({ path: e.target.value })}
+        />
+      </div>
+
+      {error && <div className={styles.errorBox}>{error}</div>}
+      {success && (
+        <div className={styles.successBox}>
+          <CheckCircle size={16} />
+          {success}
+        </div>
+      )}
+
+      <div className={styles.actions}>
+        <button onClick={handleTest} className={styles.btnTest} disabled={!isComplete || isTesting}>
+          {isTesting && <Loader2 size={16} className="animate-spin" />}
+          {t('githubSync.test')}
+        </button>
+        <button onClick={handleSave} className={styles.btnSave} disabled={!isComplete}>
+          {t('githubSync.save')}
+        </button>
+      </div>
+
+      <label className={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={status.enabled}
+          disabled={!githubService.isConfigured()}
+          onChange={(e) => githubSyncService.setEnabled(e.target.checked)}
+        />
+        {t('githubSync.enable')}
+      </label>
+
+      <div className={styles.infoBox}>
+        <div className={styles.infoRow}>
+          <span className={styles.infoLabel}>{t('githubSync.status')}</span>
+          <span className={classNames(styles.statusDot, status.enabled && styles[status.state])} />
+          <span className={styles.infoValue}>{stateLabel}</span>
+        </div>
+        <div className={styles.infoRow}>
+          <span className={styles.infoLabel}>{t('githubSync.lastSynced')}</span>
+          <span className={styles.infoValue}>
+            {status.lastSyncedAt
+              ? formatDate(status.lastSyncedAt, { dateStyle: 'medium', timeStyle: 'short' })
+              : t('githubSync.never')}
+          </span>
+        </div>
+        {status.lastResult && (
+          <div className={styles.infoRow}>
+            <span className={styles.infoLabel}>{t('githubSync.lastResult')}</span>
+            <span className={styles.infoValue}>
+              {t('githubSync.result', {
+                pushed: status.lastResult.pushed
+                  ? t('githubSync.pushed')
+                  : t('githubSync.notPushed'),
+                pulled: status.lastResult.pulled,
+                conflicts: status.lastResult.conflicts,
+                failed: status.lastResult.failed,
+              })}
+            </span>
+          </div>
+        )}
+        {status.error && (
+          <div className={styles.infoRow}>
+            <span className={styles.infoLabel}>{t('githubSync.error')}</span>
+            <span className={styles.infoValue}>{status.error}</span>
+          </div>
+        )}
+      </div>
+
+      <div className={styles.actions}>
+        <button
+          onClick={() => githubSyncService.sync()}
+          className={styles.btnTest}
+          disabled={!status.enabled || !githubService.isConfigured() || status.state === 'syncing'}
+        >
+          <RefreshCw
+            size={16}
+            className={classNames(status.state === 'syncing' && 'animate-spin')}
+          />
+          {t('githubSync.syncNow')}
+        </button>
+      </div>
+
+      <div className={styles.instructions}>
+        <strong>{t('githubSync.instructionsTitle')}</strong>
+        <ul>
+          <li>{t('githubSync.instructionToken')}</li>
+          <li>{t('githubSync.instructionMerge')}</li>
+          <li>{t('githubSync.instructionPrice')}</li>
+        </ul>
+      </div>
+    </>
+  )
+}
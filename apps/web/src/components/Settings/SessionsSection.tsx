@@ -0,0 +1,122 @@
+import React, { useState } from 'react'
+import { Loader2, LogOut, Monitor, RefreshCw } from 'lucide-react'
+import { useAuthSessions } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+// ==================== Helper Functions ====================
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/node|undici/i, 'Node.js'],
+]
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+]
+
+/**
+ * 从 User-Agent 中提取浏览器和系统名称，如 "Chrome · Windows"
+ */
+function describeUserAgent(userAgent: string | null | undefined): string | null {
+  if (!userAgent) {
+    return null
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+
+  return [browser, platform].filter(Boolean).join(' · ') || null
+}
+
+// ==================== Component ====================
+
+/**
+ * 登录设备管理
+ * 列出当前账号的所有登录会话，可注销其他设备（当前设备请使用退出登录）
+ */
+export const SessionsSection: React.FC = () => {
+  const { t, formatDate } = useI18n()
+  const { sessions, isLoading, error, refresh, revoke } = useAuthSessions()
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [revokeFailed, setRevokeFailed] = useState(false)
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId)
+    setRevokeFailed(false)
+
+    const ok = await revoke(sessionId)
+
+    setRevokingId(null)
+    setRevokeFailed(!ok)
+  }
+
+  const formatTime = (value: string) =>
+    formatDate(value, { dateStyle: 'medium', timeStyle: 'short' })
+
+  return (
+    <>
+      {(error || revokeFailed) && (
+        <div className={styles.errorBox}>
+          {error ? t('sessions.loadFailed') : t('sessions.revokeFailed')}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className={styles.helpText}>{t('common.loading')}</p>
+      ) : (
+        <ul className={styles.sessionList}>
+          {sessions.map((session) => (
+            <li key={session.id} className={styles.sessionItem}>
+              <Monitor size={18} />
+              <div className={styles.sessionInfo}>
+                <span className={styles.sessionDevice}>
+                  {describeUserAgent(session.user_agent) ?? t('sessions.unknownDevice')}
+                  {session.current && (
+                    <span className={styles.sessionCurrent}>{t('sessions.current')}</span>
+                  )}
+                </span>
+                <span className={styles.sessionMeta}>
+                  {t('sessions.lastActive', { time: formatTime(session.last_active_at) })}
+                  {session.ip && ` · ${session.ip}`}
+                </span>
+                <span className={styles.sessionMeta}>
+                  {t('sessions.signedIn', { time: formatTime(session.created_at) })}
+                </span>
+              </div>
+              {!session.current && (
+                <button
+                  className={styles.btnRevoke}
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={revokingId !== null}
+                  title={t('sessions.revoke')}
+                >
+                  {revokingId === session.id ? (
+                    <Loader2 size={14} className="animate-spin" />
+                  ) : (
+                    <LogOut size={14} />
+                  )}
+                  {t('sessions.revoke')}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.actions}>
+        <button onClick={refresh} className={styles.btnTest} disabled={isLoading}>
+          <RefreshCw size={16} />
+          {t('sessions.refresh')}
+        </button>
+      </div>
+    </>
+  )
+}
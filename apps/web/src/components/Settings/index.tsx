@@ -1,13 +1,40 @@
 import React from 'react'
 import { X } from 'lucide-react'
-import LoginButton from '../LoginButton'
+import { ShelfManager } from '../ShelfManager'
+import { AccountSection } from './AccountSection'
+import { BackendSection } from './BackendSection'
+import { GitHubSyncSection } from './GitHubSyncSection'
+import { SessionsSection } from './SessionsSection'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import {
+  LOCALES,
+  STEAM_COUNTRIES,
+  STEAM_LANGUAGES,
+  i18nService,
+  type Locale,
+} from '../../services/i18n'
+import type { Game, GameStatus, Shelf } from '../../types'
 import styles from './index.module.scss'
 
 interface SettingsProps {
   onClose: () => void
+  games: Game[] // 删除账号前导出游戏库
+  shelves: Shelf[]
+  gameCounts: Record<GameStatus, number>
+  onSaveShelves: (shelves: Shelf[]) => Promise<boolean>
 }
 
-export const Settings: React.FC<SettingsProps> = ({ onClose }) => {
+export const Settings: React.FC<SettingsProps> = ({
+  onClose,
+  games,
+  shelves,
+  gameCounts,
+  onSaveShelves,
+}) => {
+  const { t, settings, updateSettings } = useI18n()
+  const { isAuthenticated } = useAuth()
+
   return (
     <div className={styles.overlay} onClick={onClose}>
       <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
@@ -15,13 +42,101 @@ export const Settings: React.FC<SettingsProps> = ({ onClose }) => {
           <X size={24} />
         </button>
 
-        <h2 className={styles.title}>设置</h2>
+        <h2 className={styles.title}>{t('settings.title')}</h2>
 
         <div className={styles.form}>
-          {/* 账号登录部分 */}
+          {/* 后端地址部分：预设、自定义地址、连接测试 */}
+          <div className={styles.section}>
+            <h3 className={styles.sectionTitle}>{t('settings.backend')}</h3>
+            <BackendSection />
+          </div>
+
+          <div className={styles.divider} />
+
+          {/* 账号部分：登录、注册、修改密码、删除账号 */}
+          <div className={styles.section}>
+            <h3 className={styles.sectionTitle}>{t('settings.account')}</h3>
+            <AccountSection games={games} shelves={shelves} />
+          </div>
+
+          {/* 登录设备部分 */}
+          {isAuthenticated && (
+            <>
+              <div className={styles.divider} />
+              <div className={styles.section}>
+                <h3 className={styles.sectionTitle}>{t('settings.sessions')}</h3>
+                <SessionsSection />
+              </div>
+            </>
+          )}
+
+          <div className={styles.divider} />
+
+          {/* 书架管理部分 */}
+          <div className={styles.section}>
+            <h3 className={styles.sectionTitle}>{t('settings.shelves')}</h3>
+            <ShelfManager shelves={shelves} gameCounts={gameCounts} onSave={onSaveShelves} />
+          </div>
+
+          <div className={styles.divider} />
+
+          {/* 语言和地区部分 */}
+          <div className={styles.section}>
+            <h3 className={styles.sectionTitle}>{t('settings.language')}</h3>
+
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>{t('settings.uiLanguage')}</label>
+              <select
+                className={styles.inputPrimary}
+                value={settings.locale}
+                onChange={(e) => updateSettings({ locale: e.target.value as Locale })}
+              >
+                {LOCALES.map((locale) => (
+                  <option key={locale.id} value={locale.id}>
+                    {locale.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>{t('settings.steamLanguage')}</label>
+              <select
+                className={styles.inputPrimary}
+                value={settings.steamLanguage}
+                onChange={(e) => updateSettings({ steamLanguage: e.target.value })}
+              >
+                {STEAM_LANGUAGES.map((language) => (
+                  <option key={language.id} value={language.id}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className={styles.inputGroup}>
+              <label className={styles.label}>{t('settings.steamCountry')}</label>
+              <select
+                className={styles.inputPrimary}
+                value={settings.steamCountry}
+                onChange={(e) => updateSettings({ steamCountry: e.target.value })}
+              >
+                {STEAM_COUNTRIES.map((country) => (
+                  <option key={country} value={country}>
+                    {i18nService.getRegionName(country)}
+                  </option>
+                ))}
+              </select>
+              <p className={styles.helpText}>{t('settings.steamRegionHint')}</p>
+            </div>
+          </div>
+
+          <div className={styles.divider} />
+
+          {/* GitHub 同步部分 */}
           <div className={styles.section}>
-            <h3 className={styles.sectionTitle}>账号管理</h3>
-            <LoginButton mode="full" />
+            <h3 className={styles.sectionTitle}>{t('settings.githubSync')}</h3>
+            <GitHubSyncSection />
           </div>
         </div>
       </div>
@@ -0,0 +1,173 @@
+import React, { useState } from 'react'
+import { ArrowUp, ArrowDown, Trash2, Plus, Loader2 } from 'lucide-react'
+import type { GameStatus, Shelf } from '../../types'
+import { createShelfId } from '../../utils/shelves'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+interface ShelfManagerProps {
+  shelves: Shelf[]
+  gameCounts: Record<GameStatus, number>
+  onSave: (shelves: Shelf[]) => Promise<boolean>
+}
+
+export const ShelfManager: React.FC<ShelfManagerProps> = ({ shelves, gameCounts, onSave }) => {
+  const { t } = useI18n()
+  const [draft, setDraft] = useState<Shelf[]>(shelves)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const updateShelf = (id: string, updates: Partial<Shelf>) => {
+    setDraft((prev) => prev.map((s) => (s.id === id ? { ...s, ...updates } : s)))
+  }
+
+  const moveShelf = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= draft.length) return
+
+    const next = [...draft]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setDraft(next)
+  }
+
+  const removeShelf = (id: string) => {
+    // 指向被删除书架的推进流改为终点
+    setDraft((prev) =>
+      prev
+        .filter((s) => s.id !== id)
+        .map((s) => (s.nextShelfId === id ? { ...s, nextShelfId: null } : s))
+    )
+  }
+
+  const addShelf = () => {
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: createShelfId(),
+        name: t('shelfManager.newShelf'),
+        color: '#a855f7',
+        order: prev.length,
+        nextShelfId: null,
+        actionLabel: '',
+      },
+    ])
+  }
+
+  const handleSave = async () => {
+    setError(null)
+
+    // Happy Path: 书架名称为空
+    if (draft.some((s) => !s.name.trim())) {
+      setError(t('shelfManager.emptyName'))
+      return
+    }
+
+    // Happy Path: 书架名称重复
+    const names = draft.map((s) => s.name.trim().toLowerCase())
+    if (new Set(names).size !== names.length) {
+      setError(t('shelfManager.duplicateName'))
+      return
+    }
+
+    setIsSaving(true)
+    await onSave(draft.map((s, index) => ({ ...s, name: s.name.trim(), order: index })))
+    setIsSaving(false)
+  }
+
+  return (
+    <div className={styles.shelfManager}>
+      {draft.map((shelf, index) => {
+        const count = gameCounts[shelf.id] ?? 0
+        const canDelete = !shelf.isDefault && count === 0
+
+        return (
+          <div key={shelf.id} className={styles.shelfRow}>
+            <input
+              type="color"
+              value={shelf.color}
+              onChange={(e) => updateShelf(shelf.id, { color: e.target.value })}
+              className={styles.colorInput}
+              title={t('shelfManager.color')}
+            />
+            <input
+              type="text"
+              value={shelf.name}
+              onChange={(e) => updateShelf(shelf.id, { name: e.target.value })}
+              className={styles.nameInput}
+              placeholder={t('shelfManager.name')}
+            />
+            <input
+              type="text"
+              value={shelf.actionLabel}
+              onChange={(e) => updateShelf(shelf.id, { actionLabel: e.target.value })}
+              className={styles.labelInput}
+              placeholder={t('gameItem.moveTo', { shelf: shelf.name })}
+              title={t('shelfManager.actionLabel')}
+            />
+            <select
+              value={shelf.nextShelfId ?? ''}
+              onChange={(e) => updateShelf(shelf.id, { nextShelfId: e.target.value || null })}
+              className={styles.nextSelect}
+              title={t('shelfManager.nextShelf')}
+            >
+              <option value="">{t('shelfManager.endOfFlow')}</option>
+              {draft
+                .filter((s) => s.id !== shelf.id)
+                .map((s) => (
+                  <option key={s.id} value={s.id}>
+                    → {s.name}
+                  </option>
+                ))}
+            </select>
+            <span className={styles.count}>{count}</span>
+            <div className={styles.rowActions}>
+              <button
+                onClick={() => moveShelf(index, -1)}
+                disabled={index === 0}
+                className={styles.iconBtn}
+                title={t('shelfManager.moveUp')}
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => moveShelf(index, 1)}
+                disabled={index === draft.length - 1}
+                className={styles.iconBtn}
+                title={t('shelfManager.moveDown')}
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                onClick={() => removeShelf(shelf.id)}
+                disabled={!canDelete}
+                className={styles.iconBtn}
+                title={
+                  shelf.isDefault
+                    ? t('shelfManager.cannotDeleteDefault')
+                    : count > 0
+                      ? t('shelfManager.cannotDeleteNonEmpty')
+                      : t('shelfManager.delete')
+                }
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        )
+      })}
+
+      {error && <div className={styles.error}>{error}</div>}
+
+      <div className={styles.footer}>
+        <button onClick={addShelf} className={styles.btnAdd}>
+          <Plus size={16} />
+          {t('shelfManager.add')}
+        </button>
+        <button onClick={handleSave} disabled={isSaving} className={styles.btnSave}>
+          {isSaving ? <Loader2 size={16} className={styles.spinner} /> : null}
+          {t('common.save')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import React, { useState } from 'react'
+import classNames from 'classnames'
+import { Reorder, useDragControls } from 'framer-motion'
+import { GripVertical } from 'lucide-react'
+import type { Game } from '../../types'
+import { moveItem } from '../../utils/sortOrder'
+import { useI18n } from '../../hooks/useI18n'
+import styles from './index.module.scss'
+
+interface SortableGameListProps {
+  games: Game[]
+  disabled?: boolean // 禁用时不显示拖动手柄（例如列表经过筛选或按其他字段排序）
+  onReorder: (ordered: Game[], movedId: string) => void
+  renderItem: (game: Game) => React.ReactNode
+}
+
+interface SortableGameRowProps {
+  game: Game
+  index: number
+  total: number
+  disabled: boolean
+  isDragging: boolean
+  onDragStart: () => void
+  onDragEnd: () => void
+  onMove: (offset: number) => void
+  children: React.ReactNode
+}
+
+const SortableGameRow: React.FC<SortableGameRowProps> = ({
+  game,
+  index,
+  total,
+  disabled,
+  isDragging,
+  onDragStart,
+  onDragEnd,
+  onMove,
+  children,
+}) => {
+  // 只允许通过拖动手柄开始拖动，避免和卡片内的点击、滚动冲突
+  const dragControls = useDragControls()
+  const { t } = useI18n()
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === 'ArrowUp' && index > 0) {
+      e.preventDefault()
+      onMove(-1)
+    }
+    if (e.key === 'ArrowDown' && index < total - 1) {
+      e.preventDefault()
+      onMove(1)
+    }
+  }
+
+  return (
+    <Reorder.Item
+      as="div"
+      value={game}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      transition={{ duration: 0.3 }}
+      className={classNames(styles.sortableRow, { [styles.dragging]: isDragging })}
+    >
+      {!disabled && (
+        <button
+          className={styles.dragHandle}
+          onPointerDown={(e) => dragControls.start(e)}
+          onKeyDown={handleKeyDown}
+          title={t('sortableList.dragHandle')}
+          aria-label={t('sortableList.dragHandleLabel', {
+            name: game.name,
+            position: index + 1,
+            total,
+          })}
+        >
+          <GripVertical size={16} />
+        </button>
+      )}
+      {children}
+    </Reorder.Item>
+  )
+}
+
+/**
+ * 可拖动排序的游戏列表
+ * 支持鼠标、触摸拖动（拖动手柄）和键盘（聚焦手柄后按上下方向键）
+ * 拖动过程中只调整本地顺序，松开后才通过 onReorder 提交一次
+ */
+export const SortableGameList: React.FC<SortableGameListProps> = ({
+  games,
+  disabled = false,
+  onReorder,
+  renderItem,
+}) => {
+  const [draft, setDraft] = useState<Game[]>(games)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+
+  // 拖动过程中使用本地顺序，其余时间跟随外部数据
+  const items = draggingId ? draft : games
+
+  const handleDragStart = (game: Game) => {
+    setDraft(games)
+    setDraggingId(game.id)
+  }
+
+  const handleDragEnd = (game: Game) => {
+    setDraggingId(null)
+
+    // Happy Path: 顺序没有变化
+    if (draft.every((g, i) => g.id === games[i]?.id)) {
+      return
+    }
+
+    onReorder(draft, game.id)
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    onReorder(moveItem(games, index, index + offset), games[index].id)
+  }
+
+  return (
+    <Reorder.Group as="div" axis="y" values={items} onReorder={setDraft}>
+      {items.map((game, index) => (
+        <SortableGameRow
+          key={game.id}
+          game={game}
+          index={index}
+          total={items.length}
+          disabled={disabled}
+          isDragging={draggingId === game.id}
+          onDragStart={() => handleDragStart(game)}
+          onDragEnd={() => handleDragEnd(game)}
+          onMove={(offset) => handleMove(index, offset)}
+        >
+          {renderItem(game)}
+        </SortableGameRow>
+      ))}
+    </Reorder.Group>
+  )
+}
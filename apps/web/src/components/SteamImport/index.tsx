@@ -0,0 +1,323 @@
+import React, { useState } from 'react'
+import classNames from 'classnames'
+import { CheckSquare, Loader2, Pause, Play, RotateCcw, Square, X } from 'lucide-react'
+import type { Game, Shelf } from '../../types'
+import { useSteamImport } from '../../hooks/useSteamImport'
+import { getImportProgress, type ImportSource } from '../../utils/steamImport'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../locales/zh-CN'
+import { i18nService } from '../../services/i18n'
+import { getCurrentUser } from '../../services/auth'
+import styles from './index.module.scss'
+
+interface SteamImportProps {
+  games: Game[]
+  shelves: Shelf[]
+  onGameAdded: (game: Game) => Promise<void>
+  onClose: () => void
+}
+
+const SOURCE_LABELS: Record<ImportSource, MessageKey> = {
+  owned: 'steamImport.sourceOwned',
+  wishlist: 'steamImport.sourceWishlist',
+}
+
+// 游玩时长显示为小时，保留一位小数
+function formatPlaytime(minutes: number | null): string | null {
+  if (!minutes) return null
+  return i18nService.t('steamImport.playtime', {
+    hours: i18nService.formatNumber(minutes / 60, { maximumFractionDigits: 1 }),
+  })
+}
+
+export const SteamImport: React.FC<SteamImportProps> = ({
+  games,
+  shelves,
+  onGameAdded,
+  onClose,
+}) => {
+  const { t } = useI18n()
+  // 已关联 Steam 账号时默认导入自己的资料
+  const [profileInput, setProfileInput] = useState(() => getCurrentUser()?.steam_id ?? '')
+  const [sources, setSources] = useState<Record<ImportSource, boolean>>({
+    owned: true,
+    wishlist: true,
+  })
+
+  const {
+    phase,
+    error,
+    candidates,
+    selectedAppIds,
+    targetShelves,
+    job,
+    loadProfile,
+    toggleCandidate,
+    setAllSelected,
+    setTargetShelf,
+    startImport,
+    pause,
+    resume,
+    retryFailed,
+    discardJob,
+  } = useSteamImport(games, onGameAdded)
+
+  const shelfNames = new Map(shelves.map((s) => [s.id, s.name]))
+  const newCandidates = candidates.filter((c) => !c.existing)
+  const existingCount = candidates.length - newCandidates.length
+  const selectedSources = new Set(
+    newCandidates.filter((c) => selectedAppIds.has(c.appId)).map((c) => c.source)
+  )
+  const progress = job ? getImportProgress(job) : null
+  const processed = progress ? progress.total - progress.pending : 0
+
+  const handleLoad = () => {
+    // Happy Path: 没有输入或没有选择来源
+    if (!profileInput.trim() || (!sources.owned && !sources.wishlist)) {
+      return
+    }
+
+    loadProfile(profileInput, sources)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleLoad()
+    } else if (e.key === 'Escape') {
+      onClose()
+    }
+  }
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <button onClick={onClose} className={styles.closeBtn} title={t('steamImport.close')}>
+          <X size={24} />
+        </button>
+
+        <h2 className={styles.title}>{t('steamImport.title')}</h2>
+
+        {error && <div className={styles.errorBox}>{error}</div>}
+
+        {(phase === 'input' || phase === 'loading') && (
+          <div className={styles.section}>
+            <input
+              type="text"
+              className={styles.input}
+              placeholder={t('steamImport.placeholder')}
+              value={profileInput}
+              onChange={(e) => setProfileInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              disabled={phase === 'loading'}
+              autoFocus
+            />
+
+            <div className={styles.row}>
+              {(Object.keys(SOURCE_LABELS) as ImportSource[]).map((source) => (
+                <label key={source} className={styles.checkbox}>
+                  <input
+                    type="checkbox"
+                    checked={sources[source]}
+                    onChange={(e) => setSources({ ...sources, [source]: e.target.checked })}
+                    disabled={phase === 'loading'}
+                  />
+                  {t(SOURCE_LABELS[source])}
+                </label>
+              ))}
+
+              <button
+                onClick={handleLoad}
+                className={styles.btnPrimary}
+                disabled={
+                  phase === 'loading' ||
+                  !profileInput.trim() ||
+                  (!sources.owned && !sources.wishlist)
+                }
+              >
+                {phase === 'loading' && <Loader2 size={16} className="animate-spin" />}
+                {t('steamImport.load')}
+              </button>
+            </div>
+
+            <p className={styles.hint}>{t('steamImport.privacyHint')}</p>
+          </div>
+        )}
+
+        {phase === 'review' && (
+          <div className={styles.section}>
+            <div className={styles.summary}>
+              {t('steamImport.summary', {
+                count: candidates.length,
+                newCount: newCandidates.length,
+              })}
+              {existingCount > 0 && t('steamImport.summaryExisting', { count: existingCount })}
+            </div>
+
+            <div className={styles.row}>
+              {(Object.keys(SOURCE_LABELS) as ImportSource[]).map((source) => (
+                <label key={source} className={styles.shelfField}>
+                  {t('steamImport.importTo', { source: t(SOURCE_LABELS[source]) })}
+                  <select
+                    value={targetShelves[source]}
+                    onChange={(e) => setTargetShelf(source, e.target.value)}
+                    className={styles.select}
+                    disabled={!selectedSources.has(source)}
+                  >
+                    {shelves.map((shelf) => (
+                      <option key={shelf.id} value={shelf.id}>
+                        {shelf.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className={styles.row}>
+              <button
+                onClick={() => setAllSelected(selectedAppIds.size < newCandidates.length)}
+                className={styles.btnSecondary}
+                disabled={newCandidates.length === 0}
+              >
+                <CheckSquare size={14} />
+                {selectedAppIds.size < newCandidates.length
+                  ? t('batch.selectAll')
+                  : t('batch.deselectAll')}
+              </button>
+              <span className={styles.summary}>
+                {t('steamImport.selected', { count: selectedAppIds.size })}
+              </span>
+            </div>
+
+            <ul className={styles.candidateList}>
+              {candidates.map((candidate) => {
+                const isSelected = selectedAppIds.has(candidate.appId)
+                const playtime = formatPlaytime(candidate.playtimeMinutes)
+
+                return (
+                  <li
+                    key={candidate.appId}
+                    className={classNames(styles.candidate, {
+                      [styles.existing]: candidate.existing,
+                    })}
+                  >
+                    <button
+                      onClick={() => toggleCandidate(candidate.appId)}
+                      className={styles.candidateToggle}
+                      disabled={candidate.existing !== null}
+                    >
+                      {isSelected ? <CheckSquare size={16} /> : <Square size={16} />}
+                      <span className={styles.candidateName}>{candidate.name}</span>
+                    </button>
+                    <span className={classNames(styles.badge, styles[candidate.source])}>
+                      {t(SOURCE_LABELS[candidate.source])}
+                    </span>
+                    {playtime && <span className={styles.meta}>{playtime}</span>}
+                    {candidate.existing && (
+                      <span className={styles.meta}>
+                        {t('steamImport.alreadyOnShelf', {
+                          shelf:
+                            shelfNames.get(candidate.existing.status) ?? candidate.existing.status,
+                        })}
+                      </span>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+
+            <div className={styles.footer}>
+              <button onClick={discardJob} className={styles.btnSecondary}>
+                {t('steamImport.restart')}
+              </button>
+              <button
+                onClick={startImport}
+                className={styles.btnPrimary}
+                disabled={selectedAppIds.size === 0}
+              >
+                {t('steamImport.start', { count: selectedAppIds.size })}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {(phase === 'importing' || phase === 'paused' || phase === 'finished') &&
+          job &&
+          progress && (
+            <div className={styles.section}>
+              <div className={styles.summary}>
+                {phase === 'importing' &&
+                  t('steamImport.importing', { processed, total: progress.total })}
+                {phase === 'paused' &&
+                  t('steamImport.paused', { processed, total: progress.total })}
+                {phase === 'finished' &&
+                  t('steamImport.finished', {
+                    done: progress.done,
+                    skipped: progress.skipped,
+                    failed: progress.failed,
+                  })}
+              </div>
+
+              <div className={styles.progressTrack}>
+                <div
+                  className={styles.progressFill}
+                  style={{ width: `${(processed / Math.max(progress.total, 1)) * 100}%` }}
+                />
+              </div>
+
+              {progress.failed > 0 && (
+                <ul className={styles.failureList}>
+                  {job.items
+                    .filter((item) => item.state === 'failed')
+                    .map((item) => (
+                      <li key={item.appId}>
+                        {t('batch.failureItem', { name: item.name, error: item.error ?? '' })}
+                      </li>
+                    ))}
+                </ul>
+              )}
+
+              <div className={styles.footer}>
+                {phase === 'importing' && (
+                  <button onClick={pause} className={styles.btnSecondary}>
+                    <Pause size={14} />
+                    {t('steamImport.pause')}
+                  </button>
+                )}
+                {phase === 'paused' && (
+                  <>
+                    <button onClick={discardJob} className={styles.btnSecondary}>
+                      {t('steamImport.discard')}
+                    </button>
+                    <button onClick={resume} className={styles.btnPrimary}>
+                      <Play size={14} />
+                      {t('steamImport.resume')}
+                    </button>
+                  </>
+                )}
+                {phase === 'finished' && (
+                  <>
+                    {progress.failed > 0 && (
+                      <button onClick={retryFailed} className={styles.btnSecondary}>
+                        <RotateCcw size={14} />
+                        {t('steamImport.retryFailed')}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => {
+                        discardJob()
+                        onClose()
+                      }}
+                      className={styles.btnPrimary}
+                    >
+                      {t('steamImport.done')}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+      </div>
+    </div>
+  )
+}
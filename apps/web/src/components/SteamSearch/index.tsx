@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { Plus, X, Loader2 } from 'lucide-react'
 import classNames from 'classnames'
 import { steamService, type SteamGame } from '../../services/steam'
+import { useI18n } from '../../hooks/useI18n'
 import styles from './index.module.scss'
 
 interface SteamSearchProps {
@@ -20,6 +21,7 @@ interface SteamSearchProps {
 }
 
 export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose }) => {
+  const { t, formatNumber } = useI18n()
   const [query, setQuery] = useState('')
   const [results, setResults] = useState<SteamGame[]>([])
   const [isSearching, setIsSearching] = useState(false)
@@ -69,7 +71,7 @@ export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose })
       const games = await steamService.search({ query })
 
       if (games === null) {
-        setError('搜索失败，请重试')
+        setError(t('steamSearch.searchFailed'))
         setIsSearching(false)
         return
       }
@@ -88,7 +90,7 @@ export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose })
       clearTimeout(timer)
       setIsSearching(false)
     }
-  }, [query])
+  }, [query, t])
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
@@ -115,7 +117,7 @@ export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose })
       onClose()
     } catch (err) {
       console.error('Failed to add game:', err)
-      setError('添加游戏失败，请重试')
+      setError(t('steamSearch.addFailed'))
     } finally {
       setAddingGameId(null)
     }
@@ -128,14 +130,14 @@ export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose })
           <X size={24} />
         </button>
 
-        <h2 className={styles.title}>从 Steam 搜索游戏</h2>
+        <h2 className={styles.title}>{t('steamSearch.title')}</h2>
 
         <div className={styles.searchWrapper}>
           <div className={styles.inputWrapper}>
             <input
               type="text"
               className={styles.inputPrimary}
-              placeholder="输入游戏名称开始搜索..."
+              placeholder={t('steamSearch.placeholder')}
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               onKeyDown={handleKeyDown}
@@ -150,10 +152,10 @@ export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose })
           {query && (
             <div className={styles.searchStatus}>
               {isSearching
-                ? '正在搜索...'
+                ? t('steamSearch.searching')
                 : results.length > 0
-                  ? `找到 ${results.length} 个结果`
-                  : '没有找到结果'}
+                  ? t('steamSearch.resultCount', { count: results.length })
+                  : t('steamSearch.noResults')}
             </div>
           )}
         </div>
@@ -188,14 +190,17 @@ export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose })
                             [styles.low]: game.positivePercentage < 60,
                           })}
                         >
-                          {game.positivePercentage}% 好评
+                          {t('steam.positive', { percent: game.positivePercentage })}
                         </span>
                         <span className={styles.reviewCount}>
-                          {game.totalReviews.toLocaleString()} 条评论
+                          {t('steam.reviews', {
+                            count: game.totalReviews,
+                            total: formatNumber(game.totalReviews),
+                          })}
                         </span>
                       </div>
                     ) : (
-                      <div className={styles.metaRatingLoading}>加载好评率中...</div>
+                      <div className={styles.metaRatingLoading}>{t('steam.loadingRating')}</div>
                     )}
                     {game.tags.length > 0 && (
                       <div className={styles.metaTags}>{game.tags.join(', ')}</div>
@@ -212,12 +217,12 @@ export const SteamSearch: React.FC<SteamSearchProps> = ({ onAddGame, onClose })
                   {addingGameId === game.id ? (
                     <>
                       <Loader2 size={16} className="animate-spin" />
-                      添加中...
+                      {t('steamSearch.adding')}
                     </>
                   ) : (
                     <>
                       <Plus size={16} />
-                      添加
+                      {t('steamSearch.add')}
                     </>
                   )}
                 </button>
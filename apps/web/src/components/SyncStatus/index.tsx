@@ -0,0 +1,100 @@
+import React from 'react'
+import { CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react'
+import type { OutboxMutation } from '../../services/localStore'
+import { useI18n } from '../../hooks/useI18n'
+import { i18nService } from '../../services/i18n'
+import styles from './index.module.scss'
+
+interface SyncStatusProps {
+  isOnline: boolean
+  pendingCount: number
+  conflicts: OutboxMutation[]
+  onRetry: (conflict: OutboxMutation) => void
+  onDiscard: (conflict: OutboxMutation) => void
+}
+
+/**
+ * 描述一条离线变更的内容
+ */
+const describeMutation = (mutation: OutboxMutation): string => {
+  if (mutation.kind === 'remove') {
+    return i18nService.t('syncStatus.remove')
+  }
+
+  if (mutation.kind === 'journal') {
+    return i18nService.t('syncStatus.journal')
+  }
+
+  const parts: string[] = []
+  if (mutation.updates?.status) {
+    parts.push(i18nService.t('syncStatus.status', { status: mutation.updates.status }))
+  }
+  if (mutation.updates?.is_pinned !== undefined) {
+    parts.push(i18nService.t(mutation.updates.is_pinned ? 'syncStatus.pin' : 'syncStatus.unpin'))
+  }
+  if (mutation.updates?.sort_order !== undefined) {
+    parts.push(i18nService.t('syncStatus.order'))
+  }
+  if (mutation.updates?.target_price !== undefined) {
+    parts.push(i18nService.t('syncStatus.targetPrice'))
+  }
+  return parts.join(i18nService.t('common.listSeparator'))
+}
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  isOnline,
+  pendingCount,
+  conflicts,
+  onRetry,
+  onDiscard,
+}) => {
+  const { t } = useI18n()
+
+  // Happy Path: 在线且没有待处理的变更
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={styles.syncStatus}>
+      {(!isOnline || pendingCount > 0) && (
+        <div className={styles.pendingRow}>
+          {isOnline ? <RefreshCw size={16} className={styles.spinner} /> : <CloudOff size={16} />}
+          <span>
+            {isOnline ? t('syncStatus.syncing') : t('syncStatus.offline')}
+            {pendingCount > 0 && ` · ${t('syncStatus.pending', { count: pendingCount })}`}
+          </span>
+        </div>
+      )}
+
+      {conflicts.map((conflict) => (
+        <div key={conflict.id} className={styles.conflictRow}>
+          <AlertTriangle size={16} className={styles.conflictIcon} />
+          <span className={styles.conflictMessage}>
+            {conflict.conflict?.reason === 'deleted_on_server'
+              ? t('syncStatus.deletedOnServer', {
+                  name: conflict.gameName,
+                  changes: describeMutation(conflict),
+                })
+              : t('syncStatus.rejected', {
+                  name: conflict.gameName,
+                  changes: describeMutation(conflict),
+                })}
+          </span>
+          {conflict.conflict?.reason === 'rejected' && (
+            <button onClick={() => onRetry(conflict)} className={styles.btnRetry}>
+              {t('syncStatus.retry')}
+            </button>
+          )}
+          <button
+            onClick={() => onDiscard(conflict)}
+            className={styles.btnDiscard}
+            title={t('syncStatus.discard')}
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
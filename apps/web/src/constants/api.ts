@@ -4,8 +4,8 @@
  * Steam Store 搜索 API
  * 用于搜索 Steam 商店中的游戏
  * @param term - 搜索关键词（需要 URL 编码）
- * @param l - 语言代码（如 schinese 表示简体中文）
- * @param cc - 国家/地区代码（如 CN 表示中国）
+ * @param l - 语言代码（如 schinese 表示简体中文，取自语言设置）
+ * @param cc - 国家/地区代码（如 CN 表示中国，取自语言设置）
  * @returns 返回游戏搜索结果列表，包含游戏基本信息
  */
 export const STEAM_SEARCH_API = 'https://store.steampowered.com/api/storesearch/'
@@ -33,12 +33,56 @@ export const STEAM_APP_DETAILS_API = 'https://store.steampowered.com/api/appdeta
  */
 export const STEAM_REVIEWS_API_BASE = 'https://store.steampowered.com/appreviews'
 
+/**
+ * Steam 社区地址
+ * 用于读取公开资料的已拥有游戏列表和解析自定义 URL
+ * @example
+ * GET /profiles/{steamId64}/games?tab=all&xml=1 - 已拥有的游戏（XML，需资料和游戏详情公开）
+ * GET /id/{vanity}?xml=1 - 自定义 URL 对应的资料（XML，包含 steamID64）
+ */
+export const STEAM_COMMUNITY_BASE = 'https://steamcommunity.com'
+
+/**
+ * Steam 愿望单 API
+ * 用于获取公开愿望单中的游戏 ID（不包含游戏名称）
+ * @param steamid - SteamID64
+ * @returns 返回 { response: { items: [{ appid, priority, date_added }] } }
+ */
+export const STEAM_WISHLIST_API = 'https://api.steampowered.com/IWishlistService/GetWishlist/v1/'
+
+/**
+ * Steam 商店批量查询 API
+ * 用于按游戏 ID 批量获取名称
+ * @param input_json - { ids: [{ appid }], context: { language, country_code } }（需要 URL 编码）
+ * @returns 返回 { response: { store_items: [{ appid, name }] } }
+ */
+export const STEAM_STORE_ITEMS_API = 'https://api.steampowered.com/IStoreBrowseService/GetItems/v1/'
+
+/**
+ * Steam OpenID 2.0 登录地址
+ * 浏览器跳转到该地址登录 Steam，完成后带着 openid.* 参数回到 openid.return_to
+ * @note 返回参数的签名由后端通过 check_authentication 校验，前端只负责跳转和转发参数
+ * @returns openid.claimed_id 为 https://steamcommunity.com/openid/id/{steamId64}
+ */
+export const STEAM_OPENID_LOGIN_URL = 'https://steamcommunity.com/openid/login'
+
 // ==================== CORS 代理 ====================
 
 /**
- * CORS 代理列表
+ * 自托管 Steam 代理（apps/steam-proxy）
+ * 配置 VITE_STEAM_PROXY_URL 后优先使用，不可用时回退到下面的公共代理
+ * @example VITE_STEAM_PROXY_URL=http://localhost:8787
+ * @note 请求格式与公共代理一致：`${STEAM_PROXY_URL}${encodeURIComponent(url)}`
+ * @note Node（tsx）中没有 import.meta.env，此时不使用自托管代理
+ */
+export const STEAM_PROXY_URL = import.meta.env?.VITE_STEAM_PROXY_URL
+  ? `${import.meta.env.VITE_STEAM_PROXY_URL.replace(/\/+$/, '')}/proxy?url=`
+  : null
+
+/**
+ * 公共 CORS 代理列表
  * 用于解决浏览器跨域请求 Steam API 的问题
- * @note 按优先级排序，请求失败时自动切换到下一个代理
+ * @note 运行时按各代理最近的成功率和延迟重新排序（见 services/steamFetch），请求失败时自动切换到下一个代理
  * @note 代理服务可能不稳定，建议定期检查可用性
  */
 export const CORS_PROXIES = [
@@ -47,9 +91,18 @@ export const CORS_PROXIES = [
   'https://api.codetabs.com/v1/proxy?quest=',
 ]
 
-// ==================== GitHub API (仅用于数据迁移) ====================
+// ==================== GitHub API (数据迁移和 games.json 同步) ====================
 
 export const GITHUB_API_BASE = 'https://api.github.com'
+
+/**
+ * GitHub OAuth 授权页面
+ * @param client_id - OAuth App 的 Client ID（VITE_GITHUB_CLIENT_ID）
+ * @param redirect_uri - 授权后返回的地址，需位于 OAuth App 配置的回调地址下
+ * @param state - 防 CSRF 的随机值，原样带回
+ * @returns 授权后返回 redirect_uri?code=...&state=...，code 由后端换取 access token
+ */
+export const GITHUB_OAUTH_AUTHORIZE_URL = 'https://github.com/login/oauth/authorize'
 export const GITHUB_USER_API = `${GITHUB_API_BASE}/user`
 export const getGitHubRepoApiUrl = (owner: string, repo: string) =>
   `${GITHUB_API_BASE}/repos/${owner}/${repo}`
@@ -59,10 +112,27 @@ export const getGitHubFileApiUrl = (owner: string, repo: string, path: string) =
 // ==================== Backend API ====================
 
 /**
- * 后端 API 基础地址
- * 使用 Bearer Token 认证，无需代理，直接访问后端
+ * 后端地址预设
+ * 浏览器中可在设置里选择预设或填写自定义地址（见 services/config），未设置时使用 VITE_API_URL
  */
-export const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://degenerates.site'
+export const BACKEND_PRESETS = {
+  production: 'https://degenerates.site',
+  local: 'http://localhost:8080',
+} as const
+
+/**
+ * 后端接口路径
+ * 以下均为相对后端地址的路径，由 services/apiClient 拼接运行时的后端地址并添加 Bearer Token
+ * 后端地址在入口处注入（浏览器取设置中的地址，CLI 取环境变量），无需代理，直接访问后端
+ */
+
+/**
+ * 健康检查接口（公开接口，无需认证）
+ * 用于设置中的连接测试
+ * @method GET
+ * @returns 返回 { status: "ok", version: "1.4.0" }
+ */
+export const HEALTH_API = '/api/health'
 
 // ==================== Auth API ====================
 
@@ -79,7 +149,7 @@ export const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://degenerates
  * Body: { "username": "admin", "password": "password" }
  * Response: { "data": { "token": "...", "user": { "id": "...", "username": "..." } } }
  */
-export const AUTH_LOGIN_API = `${API_BASE_URL}/api/auth/login/password`
+export const AUTH_LOGIN_API = '/api/auth/login/password'
 
 /**
  * 用户登出接口
@@ -89,7 +159,64 @@ export const AUTH_LOGIN_API = `${API_BASE_URL}/api/auth/login/password`
  * @returns 返回成功消息
  * @note 调用后客户端应删除本地存储的 token
  */
-export const AUTH_LOGOUT_API = `${API_BASE_URL}/api/auth/logout`
+export const AUTH_LOGOUT_API = '/api/auth/logout'
+
+/**
+ * 用户注册接口
+ * 创建账号并直接登录
+ * @method POST
+ * @param username - 用户名（3-32 位字母、数字、下划线或连字符）
+ * @param password - 密码（至少 8 位，同时包含字母和数字）
+ * @returns 与密码登录相同，返回用户信息和 session token
+ * @note 用户名已存在时返回 409
+ * @example
+ * POST /api/auth/register
+ * Body: { "username": "player1", "password": "password1" }
+ * Response: { "data": { "token": "...", "user": { "id": "...", "username": "player1" } } }
+ */
+export const AUTH_REGISTER_API = '/api/auth/register'
+
+/**
+ * 修改密码接口
+ * @method PUT
+ * @requires Authorization header with Bearer token
+ * @param current_password - 当前密码
+ * @param new_password - 新密码
+ * @returns 返回成功消息
+ * @note 当前密码错误时返回 400（不是 401，避免触发重新登录）
+ * @note 修改成功后其他设备的 session 全部失效，当前 session 保留
+ */
+export const AUTH_PASSWORD_API = '/api/auth/password'
+
+/**
+ * 当前用户的登录会话列表
+ * @method GET
+ * @requires Authorization header with Bearer token
+ * @returns 返回 { data: [{ id, created_at, last_active_at, expires_at, user_agent, ip, current }] }
+ */
+export const AUTH_SESSIONS_API = '/api/auth/sessions'
+
+/**
+ * 注销单个登录会话 API 地址
+ * @param sessionId - 会话 ID
+ * @returns 完整的 API 地址
+ * @note DELETE - 注销后该会话的 token 立即失效
+ */
+export const getAuthSessionApiUrl = (sessionId: string) => `/api/auth/sessions/${sessionId}`
+
+/**
+ * 第三方登录回调接口 API 地址
+ * 前端把第三方返回的参数转发给后端校验，校验通过后登录关联的账号（首次使用时创建账号）
+ * @param provider - steam | github
+ * @method POST
+ * @returns 与密码登录相同，返回用户信息和 session token
+ * @example
+ * POST /api/auth/steam/callback
+ * Body: { "params": { "openid.mode": "id_res", "openid.sig": "...", ... }, "return_to": "https://..." }
+ * POST /api/auth/github/callback
+ * Body: { "code": "...", "redirect_uri": "https://..." }
+ */
+export const getAuthOAuthCallbackApiUrl = (provider: string) => `/api/auth/${provider}/callback`
 
 // ==================== Game API ====================
 
@@ -105,14 +232,14 @@ export const AUTH_LOGOUT_API = `${API_BASE_URL}/api/auth/logout`
  * @param is_free - 是否免费
  * @returns 返回游戏列表和分页信息
  */
-export const GAMES_API = `${API_BASE_URL}/api/games`
+export const GAMES_API = '/api/games'
 
 /**
  * 获取单个游戏详情 API 地址（公开接口，无需认证）
  * @param gameId - 游戏 ID (UUID)
  * @returns 完整的 API 地址
  */
-export const getGameApiUrl = (gameId: string) => `${API_BASE_URL}/api/games/${gameId}`
+export const getGameApiUrl = (gameId: string) => `/api/games/${gameId}`
 
 /**
  * 搜索游戏（公开接口，无需认证）
@@ -122,7 +249,7 @@ export const getGameApiUrl = (gameId: string) => `${API_BASE_URL}/api/games/${ga
  * @param page_size - 每页数量，默认 20
  * @returns 返回匹配的游戏列表和分页信息
  */
-export const GAMES_SEARCH_API = `${API_BASE_URL}/api/games/search`
+export const GAMES_SEARCH_API = '/api/games/search'
 
 // ==================== User Game API ====================
 
@@ -130,9 +257,20 @@ export const GAMES_SEARCH_API = `${API_BASE_URL}/api/games/search`
  * 获取当前用户的游戏库（需认证，使用 Cookie）
  * 用于获取用户的所有游戏及其状态（playing/queueing/completion）和置顶信息
  * @requires Session Token (自动通过 Cookie 携带)
+ * @param sort_by - 排序字段：sort_order（置顶优先，再按手动排序权重升序）, added_at
  * @returns 返回用户游戏列表,包含游戏状态和置顶标记
  */
-export const USER_GAMES_API = `${API_BASE_URL}/api/users/me/games`
+export const USER_GAMES_API = '/api/users/me/games'
+
+/**
+ * 批量更新用户游戏排序权重（需认证）
+ * 只在排序权重需要重新分配时使用，单个游戏拖动排序走 /status 接口
+ * @method PATCH
+ * @example
+ * PATCH /api/users/me/games/sort-order
+ * Body: { "items": [{ "game_id": "uuid", "sort_order": 1024 }] }
+ */
+export const USER_GAMES_SORT_ORDER_API = '/api/users/me/games/sort-order'
 
 /**
  * 获取/删除用户单个游戏关系 API 地址（需认证）
@@ -140,7 +278,7 @@ export const USER_GAMES_API = `${API_BASE_URL}/api/users/me/games`
  * @returns 完整的 API 地址
  * @note DELETE - 从用户库中移除游戏
  */
-export const getUserGameApiUrl = (gameId: string) => `${API_BASE_URL}/api/users/me/games/${gameId}`
+export const getUserGameApiUrl = (gameId: string) => `/api/users/me/games/${gameId}`
 
 /**
  * 更新用户游戏状态 API 地址（需认证）
@@ -148,5 +286,45 @@ export const getUserGameApiUrl = (gameId: string) => `${API_BASE_URL}/api/users/
  * @returns 完整的 API 地址
  * @note PATCH - 更新游戏状态
  */
-export const getUserGameStatusApiUrl = (gameId: string) =>
-  `${API_BASE_URL}/api/users/me/games/${gameId}/status`
+export const getUserGameStatusApiUrl = (gameId: string) => `/api/users/me/games/${gameId}/status`
+
+/**
+ * 用户游戏游玩日志 API 地址（需认证）
+ * 游玩会话、状态变更时间、个人评分和笔记随用户游戏关系一起存储
+ * @param gameId - 游戏 ID (UUID)
+ * @returns 完整的 API 地址
+ * @note PUT - 整体替换游玩日志
+ */
+export const getUserGameJournalApiUrl = (gameId: string) => `/api/users/me/games/${gameId}/journal`
+
+/**
+ * 当前用户的书架配置（需认证）
+ * 书架 ID 即用户游戏的 status 字段，默认书架为 playing / queueing / completion
+ * @method GET - 获取书架列表（未自定义时返回空列表）
+ * @method PUT - 整体保存书架列表（名称、顺序、颜色、状态推进流）
+ * @example
+ * PUT /api/users/me/shelves
+ * Body: { "shelves": [{ "id": "wishlist", "name": "Wishlist", "color": "#a855f7", "sort_order": 3, ... }] }
+ */
+export const USER_SHELVES_API = '/api/users/me/shelves'
+
+/**
+ * 当前用户账号
+ * @method DELETE - 删除账号及其游戏库、书架和全部会话，不可恢复
+ * @requires Authorization header with Bearer token
+ * @example
+ * DELETE /api/users/me
+ * Body: { "password": "password1" }
+ * @note 密码错误时返回 400（不是 401，避免触发重新登录）
+ */
+export const USER_ACCOUNT_API = '/api/users/me'
+
+/**
+ * 当前用户关联的第三方账号 API 地址（需认证）
+ * @param provider - steam | github
+ * @method PUT - 关联，Body 与第三方登录回调接口相同
+ * @method DELETE - 取消关联
+ * @returns 返回更新后的用户信息 { data: User }
+ * @note 该第三方账号已关联其他用户时返回 409
+ */
+export const getUserIdentityApiUrl = (provider: string) => `/api/users/me/identities/${provider}`
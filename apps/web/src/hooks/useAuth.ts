@@ -3,14 +3,33 @@
  * 提供认证状态管理和操作方法
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import {
   login as loginService,
+  register as registerService,
   logout as logoutService,
+  changePassword as changePasswordService,
+  deleteAccount as deleteAccountService,
+  getSessions,
+  revokeSession,
+  subscribeAuthChange,
+  handleOAuthCallback,
+  startOAuth,
+  unlinkIdentity as unlinkIdentityService,
   isAuthenticated,
   getCurrentUser as getCurrentUserService,
+  cancelReauthentication,
+  isReauthenticationPending,
+  subscribeReauthentication,
 } from '@/services/auth'
-import type { User } from '@/types'
+import type {
+  AuthSession,
+  DeleteAccountRequest,
+  OAuthCallbackResult,
+  OAuthIntent,
+  OAuthProvider,
+  User,
+} from '@/types'
 
 // ==================== Types ====================
 
@@ -19,16 +38,41 @@ interface UseAuthResult {
   user: User | null
   isLoading: boolean
   login: (username: string, password: string) => Promise<boolean>
+  register: (username: string, password: string) => Promise<boolean>
   logout: () => Promise<void>
+  changePassword: (currentPassword: string, newPassword: string) => Promise<boolean>
+  deleteAccount: (confirmation: DeleteAccountRequest) => Promise<boolean>
+  startOAuth: (provider: OAuthProvider, intent?: OAuthIntent) => boolean // 跳转到第三方登录
+  unlinkIdentity: (provider: OAuthProvider) => Promise<boolean>
+  oauthResult: OAuthCallbackResult | null // 本次页面加载处理的第三方登录回调
   refreshUser: () => void
 }
 
+interface UseAuthOptions {
+  onOAuthCallback?: (result: OAuthCallbackResult) => void // 第三方登录或关联完成（包括失败）
+}
+
+interface UseAuthSessionsResult {
+  sessions: AuthSession[]
+  isLoading: boolean
+  error: boolean // 最近一次加载是否失败
+  refresh: () => Promise<void>
+  revoke: (sessionId: string) => Promise<boolean>
+}
+
 // ==================== Hook ====================
 
-function useAuth(): UseAuthResult {
+function useAuth(options: UseAuthOptions = {}): UseAuthResult {
   const [isLoading, setIsLoading] = useState(true)
   const [user, setUser] = useState<User | null>(null)
   const [authenticated, setAuthenticated] = useState(false)
+  const [oauthResult, setOAuthResult] = useState<OAuthCallbackResult | null>(null)
+
+  // 保存最新的回调，避免回调变化时重复处理
+  const onOAuthCallbackRef = useRef(options.onOAuthCallback)
+  useEffect(() => {
+    onOAuthCallbackRef.current = options.onOAuthCallback
+  })
 
   /**
    * 刷新用户信息
@@ -47,6 +91,24 @@ function useAuth(): UseAuthResult {
     setIsLoading(false)
   }, [refreshUser])
 
+  /**
+   * 其他组件登录、登出或 Token 失效时同步认证状态
+   */
+  useEffect(() => subscribeAuthChange(refreshUser), [refreshUser])
+
+  /**
+   * 处理第三方登录回调（从 Steam / GitHub 返回时）
+   * 登录成功后的状态由 subscribeAuthChange 同步
+   */
+  useEffect(() => {
+    handleOAuthCallback().then((result) => {
+      if (result) {
+        setOAuthResult(result)
+        onOAuthCallbackRef.current?.(result)
+      }
+    })
+  }, [])
+
   /**
    * 登录 - 使用用户名和密码
    * Session Token 会通过 Cookie 自动管理
@@ -67,6 +129,25 @@ function useAuth(): UseAuthResult {
     return true
   }, [])
 
+  /**
+   * 注册 - 成功后直接登录
+   */
+  const register = useCallback(async (username: string, password: string): Promise<boolean> => {
+    setIsLoading(true)
+
+    const user = await registerService({ username, password })
+
+    if (!user) {
+      setIsLoading(false)
+      return false
+    }
+
+    setUser(user)
+    setAuthenticated(true)
+    setIsLoading(false)
+    return true
+  }, [])
+
   /**
    * 登出
    */
@@ -80,18 +161,105 @@ function useAuth(): UseAuthResult {
     setIsLoading(false)
   }, [])
 
+  /**
+   * 修改密码（不影响登录状态）
+   */
+  const changePassword = useCallback(
+    (currentPassword: string, newPassword: string) =>
+      changePasswordService({ current_password: currentPassword, new_password: newPassword }),
+    []
+  )
+
+  /**
+   * 删除账号 - 成功后退出登录
+   */
+  const deleteAccount = useCallback(
+    async (confirmation: DeleteAccountRequest): Promise<boolean> => {
+      const success = await deleteAccountService(confirmation)
+
+      if (success) {
+        setUser(null)
+        setAuthenticated(false)
+      }
+      return success
+    },
+    []
+  )
+
+  /**
+   * 取消关联第三方账号
+   */
+  const unlinkIdentity = useCallback(
+    async (provider: OAuthProvider) => (await unlinkIdentityService(provider)) !== null,
+    []
+  )
+
   return {
     isAuthenticated: authenticated,
     user,
     isLoading,
     login,
+    register,
     logout,
+    changePassword,
+    deleteAccount,
+    startOAuth,
+    unlinkIdentity,
+    oauthResult,
     refreshUser,
   }
 }
 
+/**
+ * 登录会话 Hook
+ * 挂载时加载当前用户的会话列表，注销成功后从列表中移除
+ */
+function useAuthSessions(): UseAuthSessionsResult {
+  const [sessions, setSessions] = useState<AuthSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState(false)
+
+  const applySessions = useCallback((result: AuthSession[] | null) => {
+    setSessions(result ?? [])
+    setError(!result)
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    getSessions().then(applySessions)
+  }, [applySessions])
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    applySessions(await getSessions())
+  }, [applySessions])
+
+  const revoke = useCallback(async (sessionId: string): Promise<boolean> => {
+    const success = await revokeSession(sessionId)
+
+    if (success) {
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId))
+    }
+    return success
+  }, [])
+
+  return { sessions, isLoading, error, refresh, revoke }
+}
+
+/**
+ * 重新登录状态 Hook
+ * Token 被后端拒绝后，等待用户重新登录期间 isPending 为 true
+ */
+function useReauthentication(): { isPending: boolean; cancel: () => void } {
+  const [isPending, setIsPending] = useState(isReauthenticationPending)
+
+  useEffect(() => subscribeReauthentication(setIsPending), [])
+
+  return { isPending, cancel: cancelReauthentication }
+}
+
 // ==================== Exports ====================
 
-export type { UseAuthResult }
+export type { UseAuthResult, UseAuthOptions, UseAuthSessionsResult }
 
-export { useAuth }
+export { useAuth, useAuthSessions, useReauthentication }
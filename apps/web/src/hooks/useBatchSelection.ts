@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react'
+
+/**
+ * 多选管理 Hook
+ *
+ * 功能：
+ * - 进入 / 退出多选模式
+ * - 单击切换选中，Shift + 单击选中与上次点击之间的整段
+ * - 全选当前列表、清空选择
+ * - 列表变化（切换书架、筛选）时移除不在列表中的选中项
+ * @param visibleIds - 当前列表中的游戏 ID（按显示顺序）
+ */
+function useBatchSelection(visibleIds: string[]): {
+  isSelecting: boolean
+  selectedIds: Set<string>
+  setSelecting: (selecting: boolean) => void
+  toggleSelect: (id: string, extendRange: boolean) => void
+  selectAll: () => void
+  clearSelection: () => void
+} {
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  const [anchorId, setAnchorId] = useState<string | null>(null)
+
+  const visibleKey = visibleIds.join(',')
+
+  // 移除已不在列表中的选中项
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const next = new Set([...prev].filter((id) => visibleIds.includes(id)))
+      return next.size === prev.size ? prev : next
+    })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visibleKey])
+
+  const setSelecting = (selecting: boolean) => {
+    setIsSelecting(selecting)
+    if (!selecting) {
+      setSelectedIds(new Set())
+      setAnchorId(null)
+    }
+  }
+
+  const toggleSelect = (id: string, extendRange: boolean) => {
+    const anchorIndex = anchorId ? visibleIds.indexOf(anchorId) : -1
+    const index = visibleIds.indexOf(id)
+
+    // 范围选择：以上次点击的游戏为起点，整段设置为起点的选中状态
+    if (extendRange && anchorIndex !== -1 && index !== -1) {
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+      const shouldSelect = selectedIds.has(anchorId!)
+      const next = new Set(selectedIds)
+      for (const rangeId of visibleIds.slice(from, to + 1)) {
+        if (shouldSelect) {
+          next.add(rangeId)
+        } else {
+          next.delete(rangeId)
+        }
+      }
+      setSelectedIds(next)
+      return
+    }
+
+    const next = new Set(selectedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setSelectedIds(next)
+    setAnchorId(id)
+  }
+
+  const selectAll = () => setSelectedIds(new Set(visibleIds))
+  const clearSelection = () => {
+    setSelectedIds(new Set())
+    setAnchorId(null)
+  }
+
+  return { isSelecting, selectedIds, setSelecting, toggleSelect, selectAll, clearSelection }
+}
+
+// ==================== Exports ====================
+
+export { useBatchSelection }
@@ -0,0 +1,155 @@
+import { useState, useEffect, useRef } from 'react'
+import type { ToastAction } from './useToast'
+import { useI18n } from './useI18n'
+
+// ==================== Types ====================
+
+/**
+ * 可撤销的操作
+ * undo / redo 负责本地状态和补偿请求，返回 false 表示执行失败（历史记录保持不变）
+ */
+interface Command {
+  label: string // 如 `移除 "Hades"`，用于提示
+  undo: () => Promise<boolean>
+  redo: () => Promise<boolean>
+}
+
+// ==================== Constants ====================
+
+const MAX_HISTORY = 50
+
+// ==================== Helper Functions ====================
+
+// 输入框内的 Ctrl+Z 保留给浏览器的文本撤销
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  )
+}
+
+/**
+ * 操作历史（撤销 / 重做）Hook
+ *
+ * 功能：
+ * - 记录可撤销的操作，并弹出带"撤销"按钮的提示
+ * - Ctrl+Z 撤销，Ctrl+Shift+Z / Ctrl+Y 重做（macOS 上为 Cmd）
+ * - 同一时间只执行一个撤销 / 重做，失败时保留历史记录并提示
+ * @param showToast - 提示函数（来自 useToast）
+ */
+function useCommandHistory(showToast: (message: string, action?: ToastAction) => void): {
+  push: (command: Command) => void
+  undo: () => Promise<void>
+  redo: () => Promise<void>
+  canUndo: boolean
+  canRedo: boolean
+} {
+  // 历史记录保存在 ref 中，提示按钮和快捷键的回调即使来自旧的渲染也能读到最新记录
+  const { t } = useI18n()
+  const undoStack = useRef<Command[]>([])
+  const redoStack = useRef<Command[]>([])
+  const isRunning = useRef(false)
+  const [sizes, setSizes] = useState({ undo: 0, redo: 0 })
+
+  const syncSizes = () => {
+    setSizes({ undo: undoStack.current.length, redo: redoStack.current.length })
+  }
+
+  const push = (command: Command) => {
+    undoStack.current = [...undoStack.current, command].slice(-MAX_HISTORY)
+    redoStack.current = []
+    syncSizes()
+    showToast(command.label, { label: t('history.undo'), onClick: undo })
+  }
+
+  const undo = async () => {
+    const command = undoStack.current[undoStack.current.length - 1]
+
+    // Happy Path: 没有可撤销的操作，或上一个撤销尚未完成
+    if (!command || isRunning.current) {
+      return
+    }
+
+    isRunning.current = true
+    try {
+      if (!(await command.undo())) {
+        showToast(t('history.undoFailed', { label: command.label }))
+        return
+      }
+
+      undoStack.current = undoStack.current.slice(0, -1)
+      redoStack.current = [...redoStack.current, command]
+      syncSizes()
+      showToast(t('history.undone', { label: command.label }), {
+        label: t('history.redo'),
+        onClick: redo,
+      })
+    } finally {
+      isRunning.current = false
+    }
+  }
+
+  const redo = async () => {
+    const command = redoStack.current[redoStack.current.length - 1]
+
+    // Happy Path: 没有可重做的操作，或上一个撤销尚未完成
+    if (!command || isRunning.current) {
+      return
+    }
+
+    isRunning.current = true
+    try {
+      if (!(await command.redo())) {
+        showToast(t('history.redoFailed', { label: command.label }))
+        return
+      }
+
+      redoStack.current = redoStack.current.slice(0, -1)
+      undoStack.current = [...undoStack.current, command]
+      syncSizes()
+      showToast(command.label, { label: t('history.undo'), onClick: undo })
+    } finally {
+      isRunning.current = false
+    }
+  }
+
+  // 快捷键只注册一次，通过 ref 调用最新的 undo / redo（其中的 showToast 可能随渲染变化）
+  const handlersRef = useRef({ undo, redo })
+  useEffect(() => {
+    handlersRef.current = { undo, redo }
+  })
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Happy Path: 不是 Ctrl/Cmd 组合键，或焦点在输入框中
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) {
+        return
+      }
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        handlersRef.current.undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        handlersRef.current.redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  return {
+    push,
+    undo,
+    redo,
+    canUndo: sizes.undo > 0,
+    canRedo: sizes.redo > 0,
+  }
+}
+
+// ==================== Exports ====================
+
+export type { Command }
+export { useCommandHistory }
@@ -0,0 +1,80 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { Game } from '../types'
+import { libraryService } from '../services/library'
+
+// ==================== Types ====================
+
+interface FullLibraryState {
+  games: Game[] // 完整游戏库；加载失败时为已加载的游戏
+  isLoading: boolean
+  isComplete: boolean // 为 false 时 games 只包含已加载的部分
+}
+
+/**
+ * 完整游戏库 Hook
+ *
+ * 功能：
+ * - 挂载时逐页读取所有书架的游戏（列表中只加载了每个书架的前几页）
+ * - 已加载的游戏增删时重新读取，字段变化（状态、置顶等）直接叠加本地版本
+ * - 后端不可达时退回已加载的游戏，并标记为不完整
+ * @param loadedGames - 当前已加载的游戏
+ */
+function useFullLibrary(loadedGames: Game[]): FullLibraryState {
+  const [fetched, setFetched] = useState<Game[] | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  const loadedRef = useRef(loadedGames)
+  useEffect(() => {
+    loadedRef.current = loadedGames
+  })
+
+  // 只在游戏增删时重新读取，刷新价格、评论等字段变化不触发请求
+  const loadedIdsKey = useMemo(
+    () =>
+      loadedGames
+        .map((game) => game.id)
+        .sort()
+        .join(','),
+    [loadedGames]
+  )
+
+  useEffect(() => {
+    let cancelled = false
+
+    libraryService.getFullLibrary(loadedRef.current).then((games) => {
+      if (cancelled) {
+        return
+      }
+
+      setFailed(games === null)
+      if (games) {
+        setFetched(games)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [loadedIdsKey])
+
+  const games = useMemo(() => {
+    // Happy Path: 尚未读取或读取失败
+    if (!fetched) {
+      return loadedGames
+    }
+
+    const loadedById = new Map(loadedGames.map((game) => [game.id, game]))
+    return fetched.map((game) => loadedById.get(game.id) ?? game)
+  }, [fetched, loadedGames])
+
+  return {
+    games,
+    isLoading: fetched === null && !failed,
+    isComplete: fetched !== null && !failed,
+  }
+}
+
+// ==================== Exports ====================
+
+export type { FullLibraryState }
+export { useFullLibrary }
@@ -12,7 +12,7 @@ import { extractAppIdFromSteamUrl } from '../utils/gameDataMapper'
  * - 后端有定时任务每 2 小时刷新一次，前端不再定期刷新已有数据的游戏
  * - 从 Steam API 获取游戏的好评率、发布日期、发售状态(comingSoon)、抢先体验状态
  * - 更新后保存到后端数据库（逐个调用 gameService.updateGame）
- * - 防止 API 限流（每个游戏之间延迟 1 秒）
+ * - 请求频率由 Steam 请求层统一限制，同一游戏的重复请求会命中缓存
  *
  * 刷新策略：
  * - 已有完整数据的游戏：不刷新（由后端定时任务维护）
@@ -171,9 +171,6 @@ function useGameRefresh(games: Game[], onGamesUpdate: Dispatch<SetStateAction<Ga
         } catch (err) {
           console.error(`刷新 ${game.name} 信息失败:`, err)
         }
-
-        // 添加延迟避免请求过快（防止 API 限流）
-        await new Promise((resolve) => setTimeout(resolve, 1000))
       }
 
       // 如果有游戏更新，更新本地状态
@@ -282,9 +279,6 @@ function useGameRefresh(games: Game[], onGamesUpdate: Dispatch<SetStateAction<Ga
         } catch (err) {
           console.error(`刷新新游戏 ${game.name} 失败:`, err)
         }
-
-        // 防止请求过快
-        await new Promise((resolve) => setTimeout(resolve, 1000))
       }
 
       if (updatedGames.length > 0) {
@@ -1,65 +1,143 @@
 import { useMemo } from 'react'
 import type { Game } from '../types'
 import type { SearchResult } from '../components/SearchBar'
+import { MINI_GAMES } from '../components/MiniGames/registry'
+import { useI18n } from './useI18n'
+import { i18nService } from '../services/i18n'
+import { createSearchText, matchText, normalizeQuery, type SearchText } from '../utils/fuzzySearch'
+
+// ==================== Types ====================
+
+interface SearchField {
+  label: string
+  target: SearchText
+  weight: number // 名称以外的字段命中时降低排名
+}
+
+interface SearchEntry {
+  result: SearchResult
+  fields: SearchField[]
+}
+
+// ==================== Constants ====================
+
+const MAX_RESULTS = 20
+
+const NAME_WEIGHT = 1
+const CREATOR_WEIGHT = 0.7
+const GENRE_WEIGHT = 0.5
+const DESCRIPTION_WEIGHT = 0.4
+
+// ==================== Helper Functions ====================
+
+function createField(label: string, text: string, weight: number): SearchField {
+  return { label, target: createSearchText(text), weight }
+}
+
+/**
+ * 构建搜索索引（拼音转换在这里完成，输入时不再重复计算）
+ * 字段名称和小游戏名称、简介使用当前语言，切换语言后需要重新构建
+ */
+function buildSearchIndex(games: Game[]): SearchEntry[] {
+  const steamEntries = games.map(
+    (game): SearchEntry => ({
+      result: {
+        id: game.id,
+        name: game.name,
+        type: 'steam-game',
+        status: game.status,
+        mainTab: 'steamgames',
+      },
+      fields: [
+        createField(i18nService.t('search.fieldName'), game.name, NAME_WEIGHT),
+        ...(game.developers ?? []).map((name) =>
+          createField(i18nService.t('search.fieldDeveloper'), name, CREATOR_WEIGHT)
+        ),
+        ...(game.publishers ?? []).map((name) =>
+          createField(i18nService.t('search.fieldPublisher'), name, CREATOR_WEIGHT)
+        ),
+        ...(game.genres ?? []).map((genre) =>
+          createField(i18nService.t('search.fieldGenre'), genre.description, GENRE_WEIGHT)
+        ),
+      ],
+    })
+  )
+
+  const miniGameEntries = MINI_GAMES.map(
+    (game): SearchEntry => ({
+      result: {
+        id: game.id,
+        name: i18nService.t(game.nameKey),
+        type: 'mini-game',
+        mainTab: 'playground',
+      },
+      fields: [
+        createField(i18nService.t('search.fieldName'), i18nService.t(game.nameKey), NAME_WEIGHT),
+        createField(
+          i18nService.t('search.fieldDescription'),
+          i18nService.t(game.descriptionKey),
+          DESCRIPTION_WEIGHT
+        ),
+      ],
+    })
+  )
+
+  return [...steamEntries, ...miniGameEntries]
+}
 
 /**
  * 游戏搜索 Hook
  *
  * 功能：
- * - 搜索 Steam 游戏（按名称）
- * - 搜索小游戏（按名称和描述）
- * - 返回统一的搜索结果格式
+ * - 搜索 Steam 游戏（名称、开发商、发行商、类型）和小游戏（名称、简介）
+ * - 支持拼音全拼、首字母、子序列和少量拼写错误
+ * - 按匹配程度排序，返回命中字符下标用于高亮
  */
 function useGameSearch(games: Game[], searchTerm: string): SearchResult[] {
+  const { locale } = useI18n()
+  // 切换语言时重建索引
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const index = useMemo(() => buildSearchIndex(games), [games, locale])
+
   return useMemo(() => {
-    if (!searchTerm) return []
-
-    const results: SearchResult[] = []
-    const lowerSearch = searchTerm.toLowerCase()
-
-    // 搜索 Steam 游戏
-    games.forEach((game) => {
-      if (game.name.toLowerCase().includes(lowerSearch)) {
-        results.push({
-          id: game.id,
-          name: game.name,
-          type: 'steam-game',
-          status: game.status,
-          mainTab: 'steamgames',
-        })
-      }
-    })
+    const query = normalizeQuery(searchTerm)
+    if (!query) return []
+
+    const scored: { result: SearchResult; score: number }[] = []
+
+    for (const entry of index) {
+      let best: { field: SearchField; score: number; indices: number[] } | null = null
 
-    // 搜索小游戏
-    const miniGames = [
-      { id: 'snake', name: '贪吃蛇', description: '经典贪吃蛇游戏，控制蛇吃食物并避免撞墙' },
-      { id: '2048', name: '2048', description: '滑动方块合并相同数字，挑战达到 2048' },
-      { id: 'memory', name: '记忆翻牌', description: '翻开卡片找出所有配对，挑战你的记忆力' },
-      { id: 'tower', name: '塔防', description: '建造防御塔抵御敌人，通过三个关卡' },
-      { id: 'breakout', name: '打砖块', description: '经典街机游戏，用挡板接球打碎砖块' },
-      { id: 'flappy', name: 'Flappy Bird', description: '点击屏幕控制小鸟飞行，躲避管道障碍' },
-      { id: 'match3', name: '连连看', description: '找到相同图案配对消除，挑战你的眼力' },
-      { id: 'jump', name: '跳一跳', description: '长按蓄力跳跃，落在中心获得连击加分' },
-      { id: 'fruit', name: '接水果', description: '控制篮子接住水果得分，躲避炸弹' },
-      { id: 'sokoban', name: '推箱子', description: '经典益智游戏，推动箱子到指定位置' },
-    ]
-
-    miniGames.forEach((game) => {
-      if (
-        game.name.toLowerCase().includes(lowerSearch) ||
-        game.description.toLowerCase().includes(lowerSearch)
-      ) {
-        results.push({
-          id: game.id,
-          name: game.name,
-          type: 'mini-game',
-          mainTab: 'playground',
-        })
+      for (const field of entry.fields) {
+        const match = matchText(field.target, query)
+        const score = match ? match.score * field.weight : 0
+        if (match && (!best || score > best.score)) {
+          best = { field, score, indices: match.indices }
+        }
       }
-    })
 
-    return results
-  }, [games, searchTerm])
+      if (!best) continue
+
+      // 名称（第一个字段）命中时直接高亮名称，其他字段命中时附带显示该字段
+      const isNameMatch = best.field === entry.fields[0]
+      scored.push({
+        score: best.score,
+        result: {
+          ...entry.result,
+          highlights: isNameMatch ? best.indices : undefined,
+          matchedField: isNameMatch
+            ? undefined
+            : { label: best.field.label, text: best.field.target.text, highlights: best.indices },
+        },
+      })
+    }
+
+    // 得分相同时保持原顺序（Steam 游戏在前）
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(({ result }) => result)
+  }, [index, searchTerm])
 }
 
 // ==================== Exports ====================
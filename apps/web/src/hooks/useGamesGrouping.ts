@@ -1,39 +1,34 @@
 import { useMemo } from 'react'
-import type { Game, GameStatus } from '../types'
+import type { Game, GameStatus, Shelf } from '../types'
+import { compareGameOrder } from '../utils/sortOrder'
 
 /**
  * 游戏分组和排序 Hook
  *
  * 功能：
- * - 按状态分组（playing, queueing, completion）
- * - 每组内按置顶状态和添加时间排序
+ * - 按书架分组（每个书架一组，即使为空）
+ * - 每组内按置顶状态、手动排序权重和添加时间排序
  *   - 置顶的游戏排在前面
- *   - 相同置顶状态的游戏按添加时间倒序排列（新添加的在前）
+ *   - 相同置顶状态的游戏按拖动排序保存的 sortOrder 升序排列
+ *   - sortOrder 相同（例如从未手动排序）时按添加时间倒序排列（新添加的在前）
  */
-function useGamesGrouping(games: Game[]): {
-  playing: Game[]
-  queueing: Game[]
-  completion: Game[]
-} {
+function useGamesGrouping(games: Game[], shelves: Shelf[]): Record<GameStatus, Game[]> {
   return useMemo(() => {
-    const sortByPinnedAndDate = (a: Game, b: Game) => {
-      // 置顶的游戏排在前面
-      if (a.isPinned && !b.isPinned) return -1
-      if (!a.isPinned && b.isPinned) return 1
-
-      // 相同置顶状态，按添加时间倒序（新添加的在前）
-      return new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime()
+    const groups: Record<GameStatus, Game[]> = {}
+    for (const shelf of shelves) {
+      groups[shelf.id] = []
     }
 
-    const filterAndSort = (status: GameStatus) =>
-      games.filter((g) => g.status === status).sort(sortByPinnedAndDate)
+    for (const game of games) {
+      groups[game.status]?.push(game)
+    }
 
-    return {
-      playing: filterAndSort('playing'),
-      queueing: filterAndSort('queueing'),
-      completion: filterAndSort('completion'),
+    for (const status of Object.keys(groups)) {
+      groups[status].sort(compareGameOrder)
     }
-  }, [games])
+
+    return groups
+  }, [games, shelves])
 }
 
 // ==================== Exports ====================
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react'
+import type { Game } from '../types'
+import { githubSyncService, type GitHubSyncStatus } from '../services/githubSync'
+
+// ==================== Constants ====================
+
+// 游戏库变化后等待多久再同步，合并连续的修改
+const SYNC_DEBOUNCE_MS = 10 * 1000
+// 定期拉取 games.json 的外部修改
+const SYNC_POLL_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * GitHub games.json 自动同步 Hook
+ *
+ * 功能：
+ * - 游戏库加载完成后，每次变化防抖同步一次
+ * - 每 5 分钟以及窗口重新获得焦点时同步一次，拉取文件的外部修改
+ * - 文件中的修改写回游戏库后通知重新加载
+ * @param games - 当前游戏库（用于检测变化）
+ * @param isReady - 游戏库是否已加载完成
+ * @param onLibraryChanged - 游戏库被同步修改后调用
+ */
+function useGitHubSync(games: Game[], isReady: boolean, onLibraryChanged: () => void): void {
+  const onLibraryChangedRef = useRef(onLibraryChanged)
+
+  useEffect(() => {
+    onLibraryChangedRef.current = onLibraryChanged
+  })
+
+  // 游戏库变化后防抖同步
+  useEffect(() => {
+    // Happy Path: 未加载完成或未开启同步
+    if (!isReady || !githubSyncService.isActive()) return
+
+    const timer = setTimeout(async () => {
+      const result = await githubSyncService.sync()
+      if (result && result.pulled > 0) {
+        onLibraryChangedRef.current()
+      }
+    }, SYNC_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [games, isReady])
+
+  // 定期同步和窗口获得焦点时同步
+  useEffect(() => {
+    if (!isReady) return
+
+    const sync = async () => {
+      // Happy Path: 未开启同步
+      if (!githubSyncService.isActive()) return
+
+      const result = await githubSyncService.sync()
+      if (result && result.pulled > 0) {
+        onLibraryChangedRef.current()
+      }
+    }
+
+    const interval = setInterval(sync, SYNC_POLL_INTERVAL_MS)
+    window.addEventListener('focus', sync)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('focus', sync)
+    }
+  }, [isReady])
+}
+
+/**
+ * GitHub 同步状态 Hook
+ * @returns 当前同步状态（随同步进度更新）
+ */
+function useGitHubSyncStatus(): GitHubSyncStatus {
+  const [status, setStatus] = useState(() => githubSyncService.getStatus())
+
+  useEffect(() => githubSyncService.subscribe(setStatus), [])
+
+  return status
+}
+
+// ==================== Exports ====================
+
+export { useGitHubSync, useGitHubSyncStatus }
@@ -0,0 +1,41 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { i18nService, type Locale, type LocaleSettings, type MessageParams } from '../services/i18n'
+import type { MessageKey } from '../locales/zh-CN'
+
+/**
+ * 国际化 Hook
+ *
+ * 功能：
+ * - 订阅语言设置，切换语言后使用该 Hook 的组件会重新渲染
+ * - 提供翻译和按语言格式化日期、数字的函数
+ */
+function useI18n(): {
+  locale: Locale
+  settings: LocaleSettings
+  t: (key: MessageKey, params?: MessageParams) => string
+  formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  updateSettings: (updates: Partial<LocaleSettings>) => void
+} {
+  const settings = useSyncExternalStore(
+    (listener) => i18nService.subscribe(listener),
+    () => i18nService.getSettings()
+  )
+
+  // 函数引用只在设置变化时更新，可以放心地作为 effect 依赖
+  return useMemo(
+    () => ({
+      locale: settings.locale,
+      settings,
+      t: (key, params) => i18nService.t(key, params),
+      formatDate: (value, options) => i18nService.formatDate(value, options),
+      formatNumber: (value, options) => i18nService.formatNumber(value, options),
+      updateSettings: (updates) => i18nService.updateSettings(updates),
+    }),
+    [settings]
+  )
+}
+
+// ==================== Exports ====================
+
+export { useI18n }
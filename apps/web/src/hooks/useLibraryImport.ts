@@ -0,0 +1,318 @@
+import { useState, useEffect, useRef } from 'react'
+import type { Game, PlayJournal, Shelf, UpdateUserGameRequest } from '../types'
+import { i18nService } from '../services/i18n'
+import { steamImportService } from '../services/steamImport'
+import { userGameService } from '../services/userGame'
+import { runBatch, type BatchFailure, type BatchProgress } from '../utils/batch'
+import { toBackendPlayJournal } from '../utils/gameDataMapper'
+import {
+  diffLibraryImport,
+  mergeImportedJournal,
+  parseLibraryFile,
+  planImportSortOrders,
+  type ImportPreview,
+  type ImportPreviewItem,
+} from '../utils/libraryImport'
+import { recordTransition } from '../utils/playJournal'
+
+// ==================== Types ====================
+
+/**
+ * 导入流程阶段
+ * - select: 选择文件
+ * - preview: 预览新增 / 更新 / 冲突，选择要导入的记录
+ * - applying: 正在写入
+ * - finished: 全部处理完成
+ */
+type LibraryImportPhase = 'select' | 'preview' | 'applying' | 'finished'
+
+interface LibraryImportResult {
+  added: number
+  updated: number
+  failures: BatchFailure<ImportPreviewItem>[]
+}
+
+// ==================== Constants ====================
+
+// 同时写入的游戏数，新增游戏可能需要先在后端创建，不宜过多
+const IMPORT_CONCURRENCY = 2
+
+// 影响游玩日志的变化
+const JOURNAL_CHANGES = new Set(['status', 'rating', 'notes', 'sessions'])
+
+/**
+ * 游戏库文件导入 Hook
+ *
+ * 功能：
+ * - 读取 JSON / CSV / games.json，按 schema 校验每条记录
+ * - 按 app_id 和名称与当前游戏库对比，预览新增、更新和冲突
+ * - 默认选中新增和更新，冲突需要手动选中
+ * - 通过 userGameService 写入（新增游戏后端不存在时先创建），单条失败不影响其他记录
+ * @param games - 当前游戏库
+ * @param shelves - 当前书架
+ * @param onGamesImported - 写入成功的游戏（新增或更新后的完整数据）
+ */
+function useLibraryImport(
+  games: Game[],
+  shelves: Shelf[],
+  onGamesImported: (games: Game[]) => void
+): {
+  phase: LibraryImportPhase
+  error: string | null
+  fileName: string | null
+  recordCount: number
+  preview: ImportPreview | null
+  selectedIndexes: Set<number>
+  progress: BatchProgress | null
+  result: LibraryImportResult | null
+  loadFile: (file: File) => Promise<void>
+  toggleItem: (index: number) => void
+  setAllSelected: (selected: boolean) => void
+  apply: () => Promise<void>
+  reset: () => void
+} {
+  const [phase, setPhase] = useState<LibraryImportPhase>('select')
+  const [error, setError] = useState<string | null>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [recordCount, setRecordCount] = useState(0)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(() => new Set())
+  const [progress, setProgress] = useState<BatchProgress | null>(null)
+  const [result, setResult] = useState<LibraryImportResult | null>(null)
+
+  const gamesRef = useRef(games)
+  const onGamesImportedRef = useRef(onGamesImported)
+
+  useEffect(() => {
+    gamesRef.current = games
+    onGamesImportedRef.current = onGamesImported
+  })
+
+  const loadFile = async (file: File) => {
+    setError(null)
+
+    let text: string
+    try {
+      text = await file.text()
+    } catch (err) {
+      console.error('[useLibraryImport] Failed to read file:', err)
+      setError(i18nService.t('transfer.readFailed'))
+      return
+    }
+
+    const parsed = parseLibraryFile(text, file.name)
+
+    // Happy Path: 无法识别的文件
+    if ('error' in parsed) {
+      setError(i18nService.t(`transfer.${parsed.error}`))
+      return
+    }
+
+    const diff = diffLibraryImport(parsed.records, gamesRef.current, shelves)
+    setFileName(file.name)
+    setRecordCount(parsed.records.length + parsed.issues.length)
+    setPreview({ items: diff.items, issues: [...parsed.issues, ...diff.issues] })
+    setSelectedIndexes(
+      new Set(
+        diff.items
+          .filter((item) => item.action === 'add' || item.action === 'update')
+          .map((item) => item.record.index)
+      )
+    )
+    setPhase('preview')
+  }
+
+  const toggleItem = (index: number) => {
+    const next = new Set(selectedIndexes)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    setSelectedIndexes(next)
+  }
+
+  const setAllSelected = (selected: boolean) => {
+    setSelectedIndexes(
+      selected && preview
+        ? new Set(preview.items.filter((i) => i.applyAs).map((i) => i.record.index))
+        : new Set<number>()
+    )
+  }
+
+  // 保存导入的游玩日志，失败时抛出异常（由 runBatch 记录）
+  const saveJournal = async (game: Game, journal: PlayJournal): Promise<Game> => {
+    const saved = await userGameService.updateJournal(game.id, toBackendPlayJournal(journal))
+
+    // Happy Path: 保存失败
+    if (!saved) {
+      throw new Error(i18nService.t('transfer.journalFailed'))
+    }
+
+    return { ...game, journal }
+  }
+
+  const apply = async () => {
+    // Happy Path: 没有预览或没有选择
+    if (!preview || phase !== 'preview') {
+      return
+    }
+
+    const items = preview.items.filter(
+      (item) => item.applyAs && selectedIndexes.has(item.record.index)
+    )
+    const sortOrders = planImportSortOrders(
+      items.filter((item) => item.applyAs === 'add'),
+      gamesRef.current
+    )
+    // 已经写入的游戏（即使后续步骤失败也需要更新到本地）
+    const imported = new Map<string, Game>()
+
+    const addGame = async ({ record, status }: ImportPreviewItem) => {
+      const added = await steamImportService.addSteamApp({
+        appId: record.appId!,
+        name: record.name,
+        status,
+        sortOrder: sortOrders.get(record.index)!,
+        steamUrl: record.steamUrl,
+        coverImage: record.coverImage,
+        positivePercentage: record.positivePercentage,
+        totalReviews: record.totalReviews,
+        releaseDate: record.releaseDate,
+        comingSoon: record.comingSoon,
+        isEarlyAccess: record.isEarlyAccess,
+      })
+
+      // Happy Path: 添加失败
+      if ('error' in added) {
+        throw new Error(added.message)
+      }
+
+      let game = added.game
+      imported.set(game.id, game)
+
+      const isPinned = record.isPinned ?? false
+      const targetPrice = record.targetPrice ?? null
+      const targetCurrency = targetPrice !== null ? (record.targetCurrency ?? null) : null
+      if (isPinned || targetPrice !== null) {
+        const updated = await userGameService.updateUserGame(game.id, {
+          is_pinned: isPinned,
+          target_price: targetPrice,
+          target_currency: targetCurrency,
+        })
+
+        // Happy Path: 置顶或目标价格保存失败
+        if (!updated) {
+          throw new Error(i18nService.t('transfer.updateFailed'))
+        }
+
+        game = { ...game, isPinned, targetPrice, targetCurrency }
+        imported.set(game.id, game)
+      }
+
+      imported.set(
+        game.id,
+        await saveJournal(game, mergeImportedJournal(game.journal, record, true))
+      )
+    }
+
+    const updateGame = async ({ record, existing, status, changes }: ImportPreviewItem) => {
+      let game: Game = { ...existing!, lastUpdated: new Date().toISOString() }
+      const request: UpdateUserGameRequest = {}
+      if (changes.includes('status')) request.status = status
+      if (changes.includes('isPinned')) request.is_pinned = record.isPinned
+      if (changes.includes('targetPrice')) {
+        request.target_price =
+          record.targetPrice !== undefined ? record.targetPrice : (game.targetPrice ?? null)
+        request.target_currency =
+          record.targetCurrency !== undefined
+            ? record.targetCurrency
+            : (game.targetCurrency ?? null)
+      }
+
+      if (Object.keys(request).length > 0) {
+        const updated = await userGameService.updateUserGame(game.id, request)
+
+        // Happy Path: 更新失败
+        if (!updated) {
+          throw new Error(i18nService.t('transfer.updateFailed'))
+        }
+
+        game = {
+          ...game,
+          status,
+          isPinned: record.isPinned ?? game.isPinned,
+          ...(changes.includes('targetPrice') && {
+            targetPrice: request.target_price,
+            targetCurrency: request.target_currency,
+          }),
+        }
+        imported.set(game.id, game)
+      }
+
+      if (changes.some((change) => JOURNAL_CHANGES.has(change))) {
+        const merged = mergeImportedJournal(existing!.journal, record, false)
+        // 书架变化同样记录到游玩日志
+        const journal = changes.includes('status')
+          ? recordTransition(merged, existing!.status, status)
+          : merged
+        imported.set(game.id, await saveJournal(game, journal))
+      }
+    }
+
+    setPhase('applying')
+    setProgress({ completed: 0, total: items.length })
+
+    const batch = await runBatch(
+      items,
+      async (item) => {
+        await (item.applyAs === 'add' ? addGame(item) : updateGame(item))
+        return true
+      },
+      { concurrency: IMPORT_CONCURRENCY, onProgress: setProgress }
+    )
+
+    if (imported.size > 0) {
+      onGamesImportedRef.current([...imported.values()])
+    }
+
+    setResult({
+      added: batch.succeeded.filter((item) => item.applyAs === 'add').length,
+      updated: batch.succeeded.filter((item) => item.applyAs === 'update').length,
+      failures: batch.failed,
+    })
+    setPhase('finished')
+  }
+
+  const reset = () => {
+    setPhase('select')
+    setError(null)
+    setFileName(null)
+    setRecordCount(0)
+    setPreview(null)
+    setSelectedIndexes(new Set())
+    setProgress(null)
+    setResult(null)
+  }
+
+  return {
+    phase,
+    error,
+    fileName,
+    recordCount,
+    preview,
+    selectedIndexes,
+    progress,
+    result,
+    loadFile,
+    toggleItem,
+    setAllSelected,
+    apply,
+    reset,
+  }
+}
+
+// ==================== Exports ====================
+
+export type { LibraryImportPhase, LibraryImportResult }
+export { useLibraryImport }
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react'
+import {
+  DEFAULT_FILTER,
+  DEFAULT_SORT,
+  parseLibraryView,
+  serializeLibraryView,
+  type LibraryFilter,
+  type LibrarySort,
+} from '../utils/libraryFilter'
+
+/**
+ * 游戏库视图（筛选 + 排序）Hook
+ *
+ * 功能：
+ * - 从 URL 查询参数恢复筛选和排序条件，便于收藏某个视图
+ * - 条件变化时同步回 URL（replaceState，不产生新的历史记录）
+ * - 浏览器前进/后退时重新读取 URL
+ */
+function useLibraryView(): {
+  filter: LibraryFilter
+  sort: LibrarySort
+  setFilter: (filter: LibraryFilter) => void
+  setSort: (sort: LibrarySort) => void
+  resetFilter: () => void
+} {
+  const [view, setView] = useState(() => parseLibraryView(window.location.search))
+
+  // 同步到 URL
+  useEffect(() => {
+    const query = serializeLibraryView(window.location.search, view.filter, view.sort)
+
+    // Happy Path: URL 没有变化
+    if (query === window.location.search) return
+
+    window.history.replaceState(
+      window.history.state,
+      '',
+      `${window.location.pathname}${query}${window.location.hash}`
+    )
+  }, [view])
+
+  // 浏览器前进/后退
+  useEffect(() => {
+    const handlePopState = () => setView(parseLibraryView(window.location.search))
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const setFilter = (filter: LibraryFilter) => setView((prev) => ({ ...prev, filter }))
+  const setSort = (sort: LibrarySort) => setView((prev) => ({ ...prev, sort }))
+  const resetFilter = () => setView({ filter: DEFAULT_FILTER, sort: DEFAULT_SORT })
+
+  return { filter: view.filter, sort: view.sort, setFilter, setSort, resetFilter }
+}
+
+// ==================== Exports ====================
+
+export { useLibraryView }
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react'
+import { outboxService } from '../services/outbox'
+import type { OutboxMutation } from '../services/localStore'
+
+/**
+ * 离线变更队列 Hook
+ *
+ * 功能：
+ * - 跟踪浏览器在线状态
+ * - 暴露待同步数量和冲突列表
+ * - 网络恢复时自动回放 outbox
+ */
+function useOutbox(): {
+  isOnline: boolean
+  pendingCount: number
+  conflicts: OutboxMutation[]
+  flush: () => Promise<void>
+  discardConflict: (id: number) => Promise<void>
+  retryConflict: (id: number) => Promise<void>
+} {
+  const [isOnline, setIsOnline] = useState(() =>
+    typeof navigator === 'undefined' ? true : navigator.onLine
+  )
+  const [mutations, setMutations] = useState<OutboxMutation[]>([])
+
+  // 订阅 outbox 变化
+  useEffect(() => {
+    let cancelled = false
+
+    const reload = async () => {
+      const latest = await outboxService.getMutations()
+      if (!cancelled) {
+        setMutations(latest)
+      }
+    }
+
+    reload()
+    const unsubscribe = outboxService.subscribe(reload)
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  // 监听网络状态，恢复连接时回放
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      outboxService.flush()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  const flush = useCallback(async () => {
+    await outboxService.flush()
+  }, [])
+
+  const discardConflict = useCallback(async (id: number) => {
+    await outboxService.discard(id)
+  }, [])
+
+  const retryConflict = useCallback(async (id: number) => {
+    await outboxService.retry(id)
+  }, [])
+
+  return {
+    isOnline,
+    pendingCount: mutations.filter((m) => !m.conflict).length,
+    conflicts: mutations.filter((m) => !!m.conflict),
+    flush,
+    discardConflict,
+    retryConflict,
+  }
+}
+
+// ==================== Exports ====================
+
+export { useOutbox }
@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import type { Game, PricePoint } from '../types'
+import { steamService } from '../services/steam'
+import { localStore } from '../services/localStore'
+import { extractAppIdFromSteamUrl } from '../utils/gameDataMapper'
+import { appendPricePoint, isBelowTargetPrice, isPriceStale } from '../utils/price'
+import { storage } from '../utils/storage'
+
+// ==================== Constants ====================
+
+// 已关闭的降价提醒（游戏 ID → 关闭时的价格），价格继续下降时重新提醒
+const DISMISSED_ALERTS_KEY = 'dismissed_price_alerts'
+// 只有待玩书架中的游戏才会触发降价提醒
+const ALERT_SHELF_ID = 'queueing'
+
+// ==================== Helper Functions ====================
+
+function loadDismissedAlerts(): Record<string, number> {
+  try {
+    const stored = storage.getItem(DISMISSED_ALERTS_KEY)
+    return stored ? (JSON.parse(stored) as Record<string, number>) : {}
+  } catch (error) {
+    console.error('[usePriceTracking] Failed to load dismissed alerts:', error)
+    return {}
+  }
+}
+
+/**
+ * 价格追踪 Hook
+ *
+ * 功能：
+ * - 从 Steam appdetails 的 price_overview 获取当前价格（超过 6 小时未更新的游戏才会重新获取）
+ * - 每次获取都记录到本地价格历史（IndexedDB），用于判断史低
+ * - 当前价格取自本地价格历史的最后一条记录；价格与商店地区有关，不写入后端共享的游戏记录
+ * - 待玩游戏价格低于用户设置的目标价格时生成提醒
+ */
+function usePriceTracking(
+  games: Game[],
+  onGamesUpdate: Dispatch<SetStateAction<Game[]>>
+): {
+  histories: Record<string, PricePoint[]>
+  alerts: Game[]
+  dismissAlert: (game: Game) => void
+} {
+  const [histories, setHistories] = useState<Record<string, PricePoint[]> | null>(null)
+  const [dismissed, setDismissed] = useState<Record<string, number>>(loadDismissedAlerts)
+  const gamesRef = useRef(games)
+  const historiesRef = useRef(histories)
+  // 本次会话中已刷新过价格的游戏，在实际发起请求时才加入
+  const checkedGameIds = useRef(new Set<string>())
+  const historiesLoaded = histories !== null
+  const gameCount = games.length
+
+  useEffect(() => {
+    gamesRef.current = games
+  }, [games])
+
+  useEffect(() => {
+    historiesRef.current = histories
+  }, [histories])
+
+  // 加载本地价格历史
+  useEffect(() => {
+    localStore.getPriceHistories().then((list) => {
+      setHistories(Object.fromEntries(list.map((h) => [h.gameId, h.points])))
+    })
+  }, [])
+
+  // 用本地价格历史中的最新价格填充当前价格
+  useEffect(() => {
+    // Happy Path: 价格历史尚未加载
+    if (!histories) return
+
+    const needsPrice = (game: Game) => !game.price && !game.isFree && histories[game.id]?.length
+
+    // Happy Path: 没有需要填充的游戏
+    if (!games.some(needsPrice)) return
+
+    onGamesUpdate((prevGames) =>
+      prevGames.map((g) => {
+        if (!needsPrice(g)) return g
+        const { at: _at, ...price } = histories[g.id][histories[g.id].length - 1]
+        return { ...g, price }
+      })
+    )
+  }, [games, histories, onGamesUpdate])
+
+  // 刷新价格：价格历史加载完成后，以及游戏数量变化时
+  useEffect(() => {
+    // Happy Path: 价格历史尚未加载，或没有游戏
+    if (!historiesLoaded || gameCount === 0) return
+
+    const refreshPrices = async () => {
+      const gamesToCheck = gamesRef.current.filter(
+        (game) =>
+          !checkedGameIds.current.has(game.id) &&
+          game.steamUrl &&
+          !game.isFree &&
+          isPriceStale(historiesRef.current?.[game.id] ?? [])
+      )
+
+      for (const game of gamesToCheck) {
+        // Happy Path: 已由另一次刷新处理
+        if (checkedGameIds.current.has(game.id)) continue
+        checkedGameIds.current.add(game.id)
+
+        const appId = extractAppIdFromSteamUrl(game.steamUrl!)
+        if (!appId) continue
+
+        try {
+          const result = await steamService.getGamePrice({ appId })
+
+          // Happy Path: 获取失败
+          if (!result) {
+            console.warn(`Failed to fetch price for game ${appId}`)
+            continue
+          }
+
+          // 免费游戏或暂未定价
+          if (!result.price) {
+            onGamesUpdate((prevGames) =>
+              prevGames.map((g) => (g.id === game.id ? { ...g, isFree: result.isFree } : g))
+            )
+            continue
+          }
+
+          const price = result.price
+          const points = appendPricePoint(historiesRef.current?.[game.id] ?? [], price)
+          await localStore.savePriceHistory({ gameId: game.id, points })
+          setHistories((prev) => ({ ...prev, [game.id]: points }))
+
+          onGamesUpdate((prevGames) =>
+            prevGames.map((g) => (g.id === game.id ? { ...g, isFree: false, price } : g))
+          )
+        } catch (err) {
+          console.error(`刷新 ${game.name} 价格失败:`, err)
+        }
+      }
+    }
+
+    // 延迟 3 秒，错开 useGameRefresh 的首次刷新；被取消的游戏尚未标记，下次触发时仍会刷新
+    const timer = setTimeout(refreshPrices, 3000)
+    return () => clearTimeout(timer)
+  }, [historiesLoaded, gameCount, onGamesUpdate])
+
+  const alerts = useMemo(
+    () =>
+      games.filter(
+        (game) =>
+          game.status === ALERT_SHELF_ID &&
+          isBelowTargetPrice(game) &&
+          (dismissed[game.id] === undefined || game.price!.final < dismissed[game.id])
+      ),
+    [games, dismissed]
+  )
+
+  const dismissAlert = (game: Game) => {
+    // Happy Path: 没有价格
+    if (!game.price) return
+
+    const next = { ...dismissed, [game.id]: game.price.final }
+    setDismissed(next)
+    storage.setItem(DISMISSED_ALERTS_KEY, JSON.stringify(next))
+  }
+
+  return { histories: histories ?? {}, alerts, dismissAlert }
+}
+
+// ==================== Exports ====================
+
+export { usePriceTracking }
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react'
+import type { Game, ReleaseHistory } from '../types'
+import { localStore } from '../services/localStore'
+import { updateReleaseHistory } from '../utils/releaseCalendar'
+
+/**
+ * 发布日期追踪 Hook
+ *
+ * 功能：
+ * - 记录每个游戏最近一次看到的发布日期（IndexedDB）
+ * - 刷新或重新加载后日期发生变化时记录一次变化（延期/提前），用于在日历中高亮
+ */
+function useReleaseTracking(games: Game[]): Record<string, ReleaseHistory> {
+  const [histories, setHistories] = useState<Record<string, ReleaseHistory> | null>(null)
+
+  // 加载本地发布日期历史
+  useEffect(() => {
+    localStore.getReleaseHistories().then((list) => {
+      setHistories(Object.fromEntries(list.map((h) => [h.gameId, h])))
+    })
+  }, [])
+
+  // 游戏信息变化时对比发布日期
+  useEffect(() => {
+    // Happy Path: 历史尚未加载
+    if (!histories) return
+
+    const changed = games
+      .filter((game) => game.releaseDate)
+      .map((game) => ({
+        previous: histories[game.id],
+        next: updateReleaseHistory(histories[game.id], game.id, game.releaseDate!),
+      }))
+      .filter(({ previous, next }) => previous !== next)
+      .map(({ next }) => next)
+
+    if (changed.length === 0) return
+
+    const saveHistories = async () => {
+      await Promise.all(changed.map((history) => localStore.saveReleaseHistory(history)))
+      setHistories((prev) => ({
+        ...prev,
+        ...Object.fromEntries(changed.map((history) => [history.gameId, history])),
+      }))
+    }
+
+    saveHistories()
+  }, [games, histories])
+
+  return histories ?? {}
+}
+
+// ==================== Exports ====================
+
+export { useReleaseTracking }
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react'
+import type { Shelf } from '../types'
+import { shelfService } from '../services/shelf'
+import { withDefaultShelves } from '../utils/shelves'
+
+/**
+ * 书架管理 Hook
+ *
+ * 功能：
+ * - 首次渲染使用本地缓存的书架，避免等待网络
+ * - 从后端重新加载书架（登录后调用）
+ * - 保存书架（同时更新本地状态）
+ */
+function useShelves(): {
+  shelves: Shelf[]
+  reloadShelves: () => Promise<Shelf[]>
+  saveShelves: (shelves: Shelf[]) => Promise<boolean>
+} {
+  const [shelves, setShelves] = useState<Shelf[]>(() => shelfService.getCachedShelves())
+
+  const reloadShelves = useCallback(async () => {
+    const latest = await shelfService.getShelves()
+    setShelves(latest)
+    return latest
+  }, [])
+
+  const saveShelves = useCallback(async (next: Shelf[]) => {
+    setShelves(withDefaultShelves(next))
+    return shelfService.saveShelves(next)
+  }, [])
+
+  return { shelves, reloadShelves, saveShelves }
+}
+
+// ==================== Exports ====================
+
+export { useShelves }
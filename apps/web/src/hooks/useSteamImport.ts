@@ -0,0 +1,291 @@
+import { useState, useEffect, useRef } from 'react'
+import type { Game, GameStatus } from '../types'
+import { i18nService } from '../services/i18n'
+import { steamService } from '../services/steam'
+import { steamImportService } from '../services/steamImport'
+import { extractAppIdFromSteamUrl } from '../utils/gameDataMapper'
+import { DEFAULT_SHELF_ID } from '../utils/shelves'
+import {
+  createImportJob,
+  diffSteamLibrary,
+  type ImportCandidate,
+  type ImportJob,
+  type ImportJobItem,
+  type ImportSource,
+} from '../utils/steamImport'
+
+// ==================== Types ====================
+
+/**
+ * 导入流程阶段
+ * - input: 输入 Steam 资料
+ * - loading: 读取已拥有游戏和愿望单
+ * - review: 对比游戏库，选择要导入的游戏和目标书架
+ * - importing: 正在逐个导入
+ * - paused: 已暂停（或上次导入中断），可以继续
+ * - finished: 全部处理完成
+ */
+type ImportPhase = 'input' | 'loading' | 'review' | 'importing' | 'paused' | 'finished'
+
+// ==================== Constants ====================
+
+// 每个游戏之间的间隔，避免短时间内大量创建游戏
+const IMPORT_INTERVAL_MS = 1000
+
+/**
+ * Steam 资料导入 Hook
+ *
+ * 功能：
+ * - 解析 SteamID64 / 个人资料链接，读取已拥有游戏和愿望单
+ * - 按 app_id 与当前游戏库对比，只默认选中尚未入库的游戏
+ * - 按来源选择目标书架，逐个导入（限速），每个游戏处理后保存进度
+ * - 暂停、关闭或刷新页面后可以从中断处继续，失败的游戏可以重试
+ * @param games - 当前游戏库
+ * @param onGameAdded - 游戏成功入库后的回调
+ */
+function useSteamImport(
+  games: Game[],
+  onGameAdded: (game: Game) => Promise<void>
+): {
+  phase: ImportPhase
+  error: string | null
+  candidates: ImportCandidate[]
+  selectedAppIds: Set<number>
+  targetShelves: Record<ImportSource, GameStatus>
+  job: ImportJob | null
+  loadProfile: (input: string, sources: Record<ImportSource, boolean>) => Promise<void>
+  toggleCandidate: (appId: number) => void
+  setAllSelected: (selected: boolean) => void
+  setTargetShelf: (source: ImportSource, status: GameStatus) => void
+  startImport: () => void
+  pause: () => void
+  resume: () => void
+  retryFailed: () => void
+  discardJob: () => void
+} {
+  // 只恢复还有待导入游戏的任务
+  const [job, setJob] = useState<ImportJob | null>(() => {
+    const saved = steamImportService.loadJob()
+    return saved?.items.some((item) => item.state === 'pending') ? saved : null
+  })
+  const [phase, setPhase] = useState<ImportPhase>(() => (job ? 'paused' : 'input'))
+  const [error, setError] = useState<string | null>(null)
+  const [steamId, setSteamId] = useState<string | null>(null)
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([])
+  const [selectedAppIds, setSelectedAppIds] = useState<Set<number>>(() => new Set())
+  const [targetShelves, setTargetShelves] = useState<Record<ImportSource, GameStatus>>({
+    owned: DEFAULT_SHELF_ID,
+    wishlist: DEFAULT_SHELF_ID,
+  })
+
+  const isRunning = useRef(false)
+  const shouldStop = useRef(false)
+  const gamesRef = useRef(games)
+  const onGameAddedRef = useRef(onGameAdded)
+
+  useEffect(() => {
+    gamesRef.current = games
+    onGameAddedRef.current = onGameAdded
+  })
+
+  // 关闭导入窗口时停止，进度已保存，下次打开可以继续
+  useEffect(() => {
+    return () => {
+      shouldStop.current = true
+    }
+  }, [])
+
+  const loadProfile = async (input: string, sources: Record<ImportSource, boolean>) => {
+    setError(null)
+    setPhase('loading')
+
+    const resolvedId = await steamService.resolveSteamId({ input })
+
+    // Happy Path: 无法解析 Steam 资料
+    if (!resolvedId) {
+      setError(i18nService.t('steamImport.profileNotFound'))
+      setPhase('input')
+      return
+    }
+
+    const [owned, wishlist] = await Promise.all([
+      sources.owned ? steamService.getOwnedGames({ steamId: resolvedId }) : Promise.resolve([]),
+      sources.wishlist ? steamService.getWishlist({ steamId: resolvedId }) : Promise.resolve([]),
+    ])
+
+    // Happy Path: 都读取失败（通常是资料未公开）
+    if (owned === null && wishlist === null) {
+      setError(i18nService.t('steamImport.loadFailed'))
+      setPhase('input')
+      return
+    }
+
+    const nextCandidates = diffSteamLibrary(owned ?? [], wishlist ?? [], gamesRef.current)
+    setSteamId(resolvedId)
+    setCandidates(nextCandidates)
+    setSelectedAppIds(new Set(nextCandidates.filter((c) => !c.existing).map((c) => c.appId)))
+    setError(
+      owned === null
+        ? i18nService.t('steamImport.ownedFailed')
+        : wishlist === null
+          ? i18nService.t('steamImport.wishlistFailed')
+          : null
+    )
+    setPhase('review')
+  }
+
+  const toggleCandidate = (appId: number) => {
+    const next = new Set(selectedAppIds)
+    if (next.has(appId)) {
+      next.delete(appId)
+    } else {
+      next.add(appId)
+    }
+    setSelectedAppIds(next)
+  }
+
+  const setAllSelected = (selected: boolean) => {
+    setSelectedAppIds(
+      selected
+        ? new Set(candidates.filter((c) => !c.existing).map((c) => c.appId))
+        : new Set<number>()
+    )
+  }
+
+  const setTargetShelf = (source: ImportSource, status: GameStatus) => {
+    setTargetShelves((prev) => ({ ...prev, [source]: status }))
+  }
+
+  // 逐个处理待导入的游戏，每处理一个保存一次进度
+  const run = async (initialJob: ImportJob) => {
+    // Happy Path: 已经在运行
+    if (isRunning.current) {
+      return
+    }
+
+    isRunning.current = true
+    shouldStop.current = false
+    setPhase('importing')
+
+    let current = initialJob
+
+    try {
+      for (let i = 0; i < current.items.length; i++) {
+        if (shouldStop.current) {
+          setPhase('paused')
+          return
+        }
+
+        const item = current.items[i]
+        if (item.state !== 'pending') continue
+
+        // 上次中断前可能已经入库，按 app_id 跳过
+        const alreadyInLibrary = gamesRef.current.some(
+          (g) => g.steamUrl && extractAppIdFromSteamUrl(g.steamUrl) === item.appId
+        )
+
+        let nextItem: ImportJobItem = { ...item, state: 'skipped' }
+        if (!alreadyInLibrary) {
+          const result = await steamImportService.addSteamApp({
+            appId: item.appId,
+            name: item.name,
+            status: item.status,
+            sortOrder: item.sortOrder,
+          })
+
+          if ('error' in result) {
+            nextItem = { ...item, state: 'failed', error: result.message }
+          } else {
+            nextItem = { ...item, state: 'done' }
+            await onGameAddedRef.current(result.game)
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, IMPORT_INTERVAL_MS))
+        }
+
+        current = { ...current, items: current.items.map((it, j) => (j === i ? nextItem : it)) }
+        steamImportService.saveJob(current)
+        setJob(current)
+      }
+
+      setPhase('finished')
+    } finally {
+      isRunning.current = false
+    }
+  }
+
+  const startImport = () => {
+    // Happy Path: 没有选择游戏
+    if (!steamId || selectedAppIds.size === 0) {
+      return
+    }
+
+    const selected = candidates.filter((c) => !c.existing && selectedAppIds.has(c.appId))
+    const nextJob = createImportJob(steamId, selected, targetShelves, gamesRef.current)
+
+    steamImportService.saveJob(nextJob)
+    setJob(nextJob)
+    run(nextJob)
+  }
+
+  const pause = () => {
+    shouldStop.current = true
+  }
+
+  const resume = () => {
+    if (job) {
+      run(job)
+    }
+  }
+
+  const retryFailed = () => {
+    // Happy Path: 没有任务
+    if (!job) {
+      return
+    }
+
+    const nextJob: ImportJob = {
+      ...job,
+      items: job.items.map((item) =>
+        item.state === 'failed' ? { ...item, state: 'pending', error: undefined } : item
+      ),
+    }
+
+    steamImportService.saveJob(nextJob)
+    setJob(nextJob)
+    run(nextJob)
+  }
+
+  const discardJob = () => {
+    shouldStop.current = true
+    steamImportService.clearJob()
+    setJob(null)
+    setCandidates([])
+    setSelectedAppIds(new Set())
+    setError(null)
+    setPhase('input')
+  }
+
+  return {
+    phase,
+    error,
+    candidates,
+    selectedAppIds,
+    targetShelves,
+    job,
+    loadProfile,
+    toggleCandidate,
+    setAllSelected,
+    setTargetShelf,
+    startImport,
+    pause,
+    resume,
+    retryFailed,
+    discardJob,
+  }
+}
+
+// ==================== Exports ====================
+
+export type { ImportPhase }
+export { useSteamImport }
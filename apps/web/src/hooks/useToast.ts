@@ -1,32 +1,59 @@
 import { useState, useEffect } from 'react'
 
+// ==================== Types ====================
+
+interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
+interface Toast {
+  message: string
+  action?: ToastAction
+}
+
+// ==================== Constants ====================
+
+const TOAST_DURATION = 3000
+// 带操作按钮（如"撤销"）的提示停留更久，留出点击时间
+const ACTION_TOAST_DURATION = 6000
+
 /**
  * Toast 消息管理 Hook
  *
  * 功能：
- * - 显示提示消息
- * - 3 秒后自动清除
+ * - 显示提示消息，可附带一个操作按钮
+ * - 3 秒后自动清除（带操作按钮时 6 秒）
  */
 function useToast(): {
-  toast: string | null
-  showToast: (message: string) => void
+  toast: Toast | null
+  showToast: (message: string, action?: ToastAction) => void
+  hideToast: () => void
 } {
-  const [toast, setToast] = useState<string | null>(null)
+  const [toast, setToast] = useState<Toast | null>(null)
 
   useEffect(() => {
     if (toast) {
-      const timer = setTimeout(() => setToast(null), 3000)
+      const timer = setTimeout(
+        () => setToast(null),
+        toast.action ? ACTION_TOAST_DURATION : TOAST_DURATION
+      )
       return () => clearTimeout(timer)
     }
   }, [toast])
 
-  const showToast = (message: string) => {
-    setToast(message)
+  const showToast = (message: string, action?: ToastAction) => {
+    setToast({ message, action })
+  }
+
+  const hideToast = () => {
+    setToast(null)
   }
 
-  return { toast, showToast }
+  return { toast, showToast, hideToast }
 }
 
 // ==================== Exports ====================
 
+export type { Toast, ToastAction }
 export { useToast }
@@ -2,6 +2,25 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App/index.js'
+import { apiClient } from './services/apiClient'
+import { getToken, requestReauthentication } from './services/auth'
+import { configService } from './services/config'
+import { createAuthMockFetch } from './mocks/authApi'
+
+// 浏览器环境：后端地址优先取当前配置（profile）的设置，否则取构建变量
+// Token 取自登录信息，Token 失效时弹出登录框
+apiClient.configure({
+  baseUrl: configService.getApiUrl() || import.meta.env.VITE_API_URL,
+  getToken,
+  onUnauthorized: requestReauthentication,
+})
+
+// 开发环境可用本地 Mock 代替后端的账号接口（生产构建中会被移除）
+if (import.meta.env.DEV && import.meta.env.VITE_MOCK_AUTH === 'true') {
+  apiClient.configure({
+    fetch: createAuthMockFetch(apiClient.getBaseUrl(), (input, init) => fetch(input, init)),
+  })
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,708 @@
+import type { Messages, MessageKey } from './zh-CN'
+
+/**
+ * English messages
+ * `${key}_one` 为单数形式（count 为 1 时使用）
+ */
+const en: Messages & Partial<Record<`${MessageKey}_one`, string>> = {
+  // ==================== Common ====================
+  'common.loading': 'Loading...',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.listSeparator': ', ',
+  'common.requestFailed': 'Request failed',
+  'common.loadingLibrary': 'Loading your full library…',
+  'common.libraryIncomplete':
+    "Couldn't load your full library. Only the games loaded so far are included",
+
+  // ==================== App ====================
+  'app.settings': 'Settings',
+  'app.tabs.steamGames': 'Steam Games',
+  'app.tabs.playground': 'Playground',
+  'app.tabs.calendar': 'Releases',
+  'app.tabs.stats': 'Stats',
+  'app.multiSelect': 'Select',
+  'app.filter': 'Filter',
+  'app.filterTitle': 'Filter and sort',
+  'app.import': 'Import',
+  'app.importTitle': 'Import owned games and wishlist from a Steam profile',
+  'app.addFromSteam': 'Add from Steam',
+  'app.noMatchingGames': 'No games match the current filters',
+  'app.emptyShelf': 'No games on this shelf yet',
+  'app.alreadyInLibrary': '"{name}" is already in your library!',
+  'app.invalidSteamUrl': 'Invalid Steam URL',
+  'app.addedFromSteam': 'Added "{name}" from Steam',
+  'app.movedTo': 'Moved "{name}" to {shelf}',
+  'app.removed': 'Removed "{name}"',
+  'app.pinned': 'Pinned "{name}"',
+  'app.unpinned': 'Unpinned "{name}"',
+  'app.reordered': 'Reordered "{name}"',
+  'app.reorderFailed': 'Could not load the whole shelf, the new order was not saved',
+  'app.batchNoChanges': 'Nothing to change for the selected games',
+  'app.batchDone': 'Processed {count} games',
+  'app.batchDone_one': 'Processed 1 game',
+  'app.batchDoneWithFailures': 'Processed {count} games, {failed} failed',
+  'app.batchDoneWithFailures_one': 'Processed 1 game, {failed} failed',
+  'app.exported': 'Exported {count} games',
+  'app.exported_one': 'Exported 1 game',
+  'app.offlineQueued': 'You are offline. Changes will sync when the connection is back',
+  'app.sessionExpiredQueued': 'Your session has expired. Changes will sync after you sign in again',
+  'app.shelvesSyncFailed': 'Shelves were saved locally but failed to sync to the server',
+
+  // ==================== GameItem ====================
+  'gameItem.moveTo': 'Move to {shelf}',
+  'gameItem.updateStatusFailed': 'Failed to update status, please try again',
+  'gameItem.sessionTooShort': 'Session shorter than 1 minute was not recorded',
+  'gameItem.invalidTargetPrice': 'Please enter a valid target price',
+  'gameItem.steamClientMissing': 'Steam client not detected. Install it for a better experience',
+  'gameItem.noSteamUrl': 'This game has no Steam link yet',
+  'gameItem.confirmDelete': 'Delete "{name}"?',
+  'gameItem.select': 'Select (Shift + click to select a range)',
+  'gameItem.deselect': 'Deselect (Shift + click to select a range)',
+  'gameItem.pin': 'Pin game',
+  'gameItem.unpin': 'Unpin',
+  'gameItem.delete': 'Delete game',
+  'gameItem.earlyAccess': 'Early Access',
+  'gameItem.unreleased': 'Not yet released',
+  'steam.positive': '{percent}% positive',
+  'steam.reviews': '{total} reviews',
+  'steam.reviews_one': '{total} review',
+  'steam.loadingRating': 'Loading rating...',
+  'gameItem.expectedRelease': 'Expected: {date}',
+  'gameItem.releasedOn': 'Released {date}',
+  'gameItem.free': 'Free',
+  'gameItem.historicalLow': 'Historical low',
+  'gameItem.lowestPrice': 'Lowest {price}',
+  'gameItem.targetPriceTitle': 'Set a target price to get notified when the price drops below it',
+  'gameItem.targetPrice': 'Target {price}',
+  'gameItem.priceAlert': 'Price alert',
+  'gameItem.targetPricePlaceholder': 'Target price, leave empty to clear',
+  'gameItem.startTimer': 'Start timer',
+  'gameItem.stopTimer': 'Stop timer',
+  'gameItem.updating': 'Updating...',
+  'gameItem.steamUrlPlaceholder': 'Enter Steam URL...',
+  'gameItem.journal': 'Play journal',
+
+  // ==================== PlayJournal ====================
+  'playJournal.totalPlayed': 'Total played',
+  'playJournal.startedAt': 'Started',
+  'playJournal.completedAt': 'Completed',
+  'playJournal.daysToComplete': '({count} days)',
+  'playJournal.daysToComplete_one': '({count} day)',
+  'playJournal.rating': 'Rating',
+  'playJournal.ratingValue': '{count} points',
+  'playJournal.ratingValue_one': '{count} point',
+  'playJournal.notes': 'Notes',
+  'playJournal.notesPlaceholder': 'Write down your thoughts on this game...',
+  'playJournal.sessions': 'Sessions',
+  'playJournal.hours': 'Hours',
+  'playJournal.minutes': 'Minutes',
+  'playJournal.notePlaceholder': 'Note (optional)',
+  'playJournal.addSession': 'Add session',
+  'playJournal.empty': 'No sessions yet. Add one manually or use the timer',
+  'playJournal.removeSession': 'Remove session',
+
+  // ==================== Duration ====================
+  'duration.minutes': '{count} min',
+  'duration.hours': '{count} h',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+
+  // ==================== SteamSearch ====================
+  'steamSearch.searchFailed': 'Search failed, please try again',
+  'steamSearch.addFailed': 'Failed to add game, please try again',
+  'steamSearch.title': 'Search games on Steam',
+  'steamSearch.placeholder': 'Type a game name to search...',
+  'steamSearch.searching': 'Searching...',
+  'steamSearch.resultCount': '{count} results found',
+  'steamSearch.resultCount_one': '{count} result found',
+  'steamSearch.noResults': 'No results found',
+  'steamSearch.adding': 'Adding...',
+  'steamSearch.add': 'Add',
+
+  // ==================== LoginButton ====================
+  'login.missingCredentials': 'Please enter your username and password',
+  'login.failed': 'Login failed: incorrect username or password',
+  'login.loggedInAs': 'Signed in as {username}',
+  'login.logoutFull': 'Sign out',
+  'login.welcome': 'Welcome, {username}',
+  'login.logout': 'Sign out',
+  'login.username': 'Username',
+  'login.usernamePlaceholder': 'Enter your username',
+  'login.password': 'Password',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.submitting': 'Signing in...',
+  'login.submit': 'Sign in',
+  'login.or': 'or',
+  'login.withProvider': 'Sign in with {provider}',
+  'login.oauthFailed': '{provider} sign-in failed or was cancelled',
+  'login.oauthSignedIn': 'Signed in with {provider} as {username}',
+
+  // ==================== Settings ====================
+  'settings.title': 'Settings',
+  'settings.account': 'Account',
+  'settings.backend': 'Backend server',
+  'settings.shelves': 'Shelves',
+  'settings.language': 'Language & region',
+  'settings.sessions': 'Signed-in devices',
+  'settings.githubSync': 'GitHub sync',
+  'settings.uiLanguage': 'Interface language',
+  'settings.steamLanguage': 'Steam data language',
+  'settings.steamCountry': 'Steam store region',
+  'settings.steamRegionHint':
+    'Affects search results, game tags and price currency. Existing games update on their next refresh',
+
+  // ==================== FilterPanel ====================
+  'filter.sort': 'Sort',
+  'filter.sortManual': 'Manual order',
+  'filter.sortScore': 'Rating',
+  'filter.sortReviews': 'Reviews',
+  'filter.sortRelease': 'Release date',
+  'filter.sortName': 'Name',
+  'filter.ascending': 'Ascending',
+  'filter.descending': 'Descending',
+  'filter.any': 'Any',
+  'filter.only': 'Only',
+  'filter.exclude': 'Exclude',
+  'filter.free': 'Free',
+  'filter.paid': 'Paid',
+  'filter.genres': 'Genres',
+  'filter.score': 'Rating %',
+  'filter.chineseScore': 'Chinese rating %',
+  'filter.minReviews': 'Min. reviews',
+  'filter.releaseYear': 'Release year',
+  'filter.rangeFrom': 'From',
+  'filter.rangeTo': 'To',
+  'filter.earlyAccess': 'Early Access',
+  'filter.comingSoon': 'Unreleased',
+  'filter.platforms': 'Platforms',
+  'filter.price': 'Price',
+  'filter.resultCount': '{count} games on this shelf match',
+  'filter.resultCount_one': '{count} game on this shelf matches',
+  'filter.reset': 'Reset',
+
+  // ==================== BatchActionBar ====================
+  'batch.confirmRemove': 'Remove the {count} selected games?',
+  'batch.confirmRemove_one': 'Remove the selected game?',
+  'batch.selected': '{selected}/{total} selected',
+  'batch.selectAll': 'Select all',
+  'batch.deselectAll': 'Deselect all',
+  'batch.moveTo': 'Move to shelf...',
+  'batch.pin': 'Pin',
+  'batch.unpin': 'Unpin',
+  'batch.export': 'Export',
+  'batch.remove': 'Remove',
+  'batch.exit': 'Exit multi-select',
+  'batch.failures': '{count} games failed and were restored',
+  'batch.failures_one': '{count} game failed and was restored',
+  'batch.failureItem': '"{name}": {error}',
+
+  // ==================== SyncStatus ====================
+  'syncStatus.remove': 'remove',
+  'syncStatus.journal': 'play journal',
+  'syncStatus.status': 'status → {status}',
+  'syncStatus.pin': 'pin',
+  'syncStatus.unpin': 'unpin',
+  'syncStatus.order': 'order',
+  'syncStatus.targetPrice': 'target price',
+  'syncStatus.syncing': 'Syncing',
+  'syncStatus.offline': 'Offline',
+  'syncStatus.pending': '{count} changes pending',
+  'syncStatus.pending_one': '{count} change pending',
+  'syncStatus.deletedOnServer':
+    '"{name}" was deleted on the server, so the offline changes ({changes}) can\'t be applied',
+  'syncStatus.rejected': 'The server rejected the offline changes to "{name}" ({changes})',
+  'syncStatus.retry': 'Retry',
+  'syncStatus.discard': 'Discard',
+
+  // ==================== Components ====================
+  'shelfManager.newShelf': 'New shelf',
+  'shelfManager.emptyName': "Shelf names can't be empty",
+  'shelfManager.duplicateName': 'Shelf names must be unique',
+  'shelfManager.color': 'Shelf color',
+  'shelfManager.name': 'Shelf name',
+  'shelfManager.actionLabel': 'Button label for moving a game to this shelf',
+  'shelfManager.nextShelf': 'Next shelf in the status flow',
+  'shelfManager.endOfFlow': '(end)',
+  'shelfManager.moveUp': 'Move up',
+  'shelfManager.moveDown': 'Move down',
+  'shelfManager.cannotDeleteDefault': "Default shelves can't be deleted",
+  'shelfManager.cannotDeleteNonEmpty': 'Move the games off this shelf first',
+  'shelfManager.delete': 'Delete',
+  'shelfManager.add': 'Add shelf',
+  'priceAlerts.message': '"{name}" is now {price}, below your target of {target}',
+  'priceAlerts.messageDiscount':
+    '"{name}" is now {price} (-{discount}%), below your target of {target}',
+  'priceAlerts.dismiss': 'Dismiss alert',
+  'sortableList.dragHandle': 'Drag to reorder (or focus and use ↑ ↓)',
+  'sortableList.dragHandleLabel': 'Reorder "{name}", currently {position} of {total}',
+  'searchBar.placeholder': 'Search games...',
+  'searchBar.matchedField': '{field}: ',
+  'addGame.namePlaceholder': 'Enter game name to add...',
+  'addGame.steamUrlPlaceholder': 'Steam URL (optional)',
+  'addGame.submit': 'Add Game',
+
+  // ==================== SteamImport ====================
+  'steamImport.sourceOwned': 'Owned',
+  'steamImport.sourceWishlist': 'Wishlist',
+  'steamImport.playtime': '{hours} h',
+  'steamImport.close': 'Close (progress is saved)',
+  'steamImport.title': 'Import Steam library',
+  'steamImport.placeholder': 'SteamID64 or profile URL, e.g. https://steamcommunity.com/id/xxx',
+  'steamImport.load': 'Load',
+  'steamImport.privacyHint':
+    "Your profile, game details and wishlist must be public in Steam's privacy settings.",
+  'steamImport.summary': '{count} games, {newCount} not in your library',
+  'steamImport.summary_one': '{count} game, {newCount} not in your library',
+  'steamImport.summaryExisting': ', {count} already in your library',
+  'steamImport.importTo': 'Import {source} to',
+  'steamImport.selected': '{count} selected',
+  'steamImport.alreadyOnShelf': 'Already on "{shelf}"',
+  'steamImport.restart': 'Start over',
+  'steamImport.start': 'Import {count} games',
+  'steamImport.start_one': 'Import {count} game',
+  'steamImport.importing': 'Importing {processed}/{total}…',
+  'steamImport.paused': 'Paused, {processed}/{total} processed',
+  'steamImport.finished': 'Import finished: {done} imported, {skipped} skipped, {failed} failed',
+  'steamImport.pause': 'Pause',
+  'steamImport.discard': 'Discard remaining',
+  'steamImport.resume': 'Resume',
+  'steamImport.retryFailed': 'Retry failed games',
+  'steamImport.done': 'Done',
+  'steamImport.profileNotFound': 'Steam user not found. Check the SteamID64 or profile URL',
+  'steamImport.loadFailed':
+    'Loading failed. Make sure your profile, game details and wishlist are public',
+  'steamImport.ownedFailed': "Couldn't load owned games (game details may be private)",
+  'steamImport.wishlistFailed': "Couldn't load the wishlist (it may be private)",
+  'steamImport.createFailed': 'Failed to create game',
+  'steamImport.addToLibraryFailed': 'Failed to add game to library',
+  'steamImport.addFailed': 'Failed to add game',
+  'steamImport.fetchFailed': 'Failed to fetch game info',
+
+  // ==================== MiniGames ====================
+  'miniGames.snake.name': 'Snake',
+  'miniGames.snake.description': 'The classic snake game: eat food and avoid the walls',
+  'miniGames.game2048.name': '2048',
+  'miniGames.game2048.description': 'Slide tiles to merge equal numbers and reach 2048',
+  'miniGames.memory.name': 'Memory',
+  'miniGames.memory.description': 'Flip cards to find every pair and test your memory',
+  'miniGames.tower.name': 'Tower Defense',
+  'miniGames.tower.description': 'Build towers to hold off enemies across three levels',
+  'miniGames.breakout.name': 'Breakout',
+  'miniGames.breakout.description':
+    'The arcade classic: bounce the ball with the paddle to break bricks',
+  'miniGames.flappy.name': 'Flappy Bird',
+  'miniGames.flappy.description': 'Tap to keep the bird flying and dodge the pipes',
+  'miniGames.match3.name': 'Link Match',
+  'miniGames.match3.description': 'Find and pair matching tiles to clear them, test your eyesight',
+  'miniGames.jump.name': 'Jump Jump',
+  'miniGames.jump.description': 'Hold to charge a jump; land in the center for combo points',
+  'miniGames.fruit.name': 'Fruit Catcher',
+  'miniGames.fruit.description': 'Move the basket to catch fruit and avoid bombs',
+  'miniGames.sokoban.name': 'Sokoban',
+  'miniGames.sokoban.description': 'The classic puzzle: push the boxes onto the targets',
+  'miniGames.play': 'Play',
+
+  // ==================== Search & History ====================
+  'search.fieldName': 'Name',
+  'search.fieldDeveloper': 'Developer',
+  'search.fieldPublisher': 'Publisher',
+  'search.fieldGenre': 'Genre',
+  'search.fieldDescription': 'Description',
+  'history.undo': 'Undo',
+  'history.redo': 'Redo',
+  'history.undone': 'Undone: {label}',
+  'history.undoFailed': 'Undo failed: {label}',
+  'history.redoFailed': 'Redo failed: {label}',
+
+  // ==================== Mini games ====================
+  'miniGames.start': 'Start',
+  'miniGames.score': 'Score: {score}',
+  'miniGames.best': 'Best: {score}',
+  'miniGames.lives': 'Lives: {lives}',
+  'miniGames.levelProgress': 'Level: {level}/{total}',
+  'miniGames.level': 'Level: {name}',
+  'miniGames.moves': 'Moves: {count}',
+  'miniGames.ready': 'Get ready',
+  'miniGames.paused': 'Paused',
+  'miniGames.gameOver': 'Game over',
+  'miniGames.finalScore': 'Final score: {score}',
+  'miniGames.thisScore': 'Score:',
+  'miniGames.bestScore': 'Best:',
+  'miniGames.restart': 'Restart',
+  'miniGames.playAgain': 'Play again',
+  'miniGames.newRecord': 'New record',
+  'miniGames.levelComplete': 'Level complete!',
+  'miniGames.nextLevel': 'Next level',
+  'miniGames.restartAll': 'Start over',
+  'miniGames.pause': 'Pause',
+  'miniGames.resume': 'Resume',
+  'breakout.title': 'Breakout: {level}',
+  'breakout.level1': 'Level 1: Warm-up',
+  'breakout.level2': 'Level 2: Stepping up',
+  'breakout.level3': 'Level 3: Challenge',
+  'breakout.startHint': 'Press Space or tap the screen to start',
+  'breakout.controls': 'Move the paddle with the arrow keys, mouse or touch',
+  'breakout.pauseHint': 'P to pause',
+  'breakout.resumeHint': 'Press P to resume',
+  'breakout.allCleared': 'You cleared every level!',
+  'breakout.controlsFull': 'Use the arrow keys, mouse or touch to move the paddle',
+  'breakout.goal': 'Break every brick to clear the level',
+  'breakout.pauseKey': 'Press P to pause',
+
+  // ==================== Mini games: Flappy Bird & Fruit Catcher ====================
+  'miniGames.combo': 'Combo: {count}x',
+  'flappy.ready': '🐦 Ready for takeoff',
+  'flappy.startHint': 'Tap/click the screen or press Space to start',
+  'flappy.hintHold': '💡 Keep tapping/clicking to stay in the air',
+  'flappy.hintScore': '💡 Fly through the gaps in the green pipes to score',
+  'flappy.newRecord': '🎉 New record!',
+  'flappy.controls': '🎮 Tap/click the screen or press Space to flap',
+  'flappy.goal': '🏆 Score by passing through pipe gaps and chase a new record',
+  'fruit.doubleScore': '✨ Double score',
+  'fruit.slowTime': '❄️ Slow motion',
+  'fruit.controls': 'Move the basket with the arrow keys, mouse or touch',
+  'fruit.goal': 'Catch fruit to score, avoid the bombs💣',
+  'fruit.items': '⭐Golden fruit ❄️Slow motion ✨Double score',
+  'fruit.instructions': 'Arrow keys/mouse/touch to move the basket | Catch fruit, avoid bombs💣',
+  'fruit.itemsInstructions':
+    'Power-ups: ⭐+50 points | ❄️Slow | ✨Double | Consecutive catches build a combo bonus',
+
+  // ==================== Mini games: 2048, Jump Jump & Link Match ====================
+  'miniGames.playAgainShort': 'Play again',
+  'game2048.startHint': 'Use the arrow keys or swipe to move the tiles',
+  'game2048.mergeHint': 'Tiles with the same number merge',
+  'miniGames.spaceToStart': 'Press Space or tap the screen to start',
+  'game2048.won': 'You win!',
+  'game2048.reached': 'You reached 2048!',
+  'game2048.continue': 'Keep going',
+  'game2048.controls': '🎮 Arrow keys/swipe: move tiles',
+  'game2048.startKey': '⏸️ Space: start',
+  'jump.combo': '{count}x combo',
+  'jump.controls': 'Hold Space or the screen to charge, release to jump',
+  'jump.comboHint': 'Land in the center to build a combo',
+  'jump.comboBonus': 'Land in the center for combo bonus points',
+  'match3.remaining': 'Remaining: {count} pairs',
+  'match3.remaining_one': 'Remaining: {count} pair',
+  'match3.time': 'Time: {time}',
+  'match3.hint': '💡 Hint',
+  'match3.goal': 'Find matching tiles and link them to clear',
+  'match3.turnRule': 'The link can turn at most twice',
+  'match3.won': 'You cleared the board',
+  'match3.elapsed': 'Time: {time}',
+  'match3.timeUp': "Time's up",
+  'match3.cleared': 'Cleared: {count} pairs',
+  'match3.cleared_one': 'Cleared: {count} pair',
+  'match3.instructions': 'Click two matching tiles to clear them',
+
+  // ==================== Mini games: Memory & Snake ====================
+  'memory.pairs': 'Pairs: {matched}/{total}',
+  'memory.won': 'You did it!',
+  'memory.totalMoves': 'Total moves: {count}',
+  'memory.perfectMoves': 'A perfect game takes {count} moves',
+  'memory.goal': '🎯 Flip cards to find every pair',
+  'memory.tip': '💡 Remember where cards are and finish in as few moves as possible',
+  'snake.startHint': 'Use the arrow keys or swipe to steer the snake',
+  'snake.resumeHint': 'Press Space to resume',
+  'snake.controls': '🎮 Arrow keys/swipe: steer',
+  'snake.pauseKey': '⏸️ Space: pause/resume',
+
+  // ==================== Mini games: Sokoban ====================
+  'sokoban.levelBeginner': 'Beginner',
+  'sokoban.levelEasy': 'Easy',
+  'sokoban.levelMedium': 'Medium',
+  'sokoban.levelHard': 'Hard',
+  'sokoban.pushes': 'Pushes: {count}',
+  'sokoban.complete': 'Level complete! 🎉',
+  'sokoban.totalPushes': 'Pushes: {count}',
+  'sokoban.replay': 'Replay',
+  'sokoban.undo': '↶ Undo',
+  'sokoban.reset': '🔄 Reset',
+  'sokoban.controls': 'Arrow keys or WASD to move | Push every box📦 onto a target🎯',
+  'sokoban.shortcuts': 'Ctrl+Z to undo | R to reset the level',
+
+  // ==================== Mini games: Tower Defense ====================
+  'towerDefense.title': 'Tower Defense: {level}',
+  'towerDefense.level1': 'Level 1: Warm-up',
+  'towerDefense.level2': 'Level 2: Speed-up',
+  'towerDefense.level3': 'Level 3: Melee',
+  'towerDefense.basicTower': 'Basic tower',
+  'towerDefense.sniperTower': 'Sniper tower',
+  'towerDefense.wave': 'Wave: {current}/{total}',
+  'towerDefense.startWave': 'Start wave {wave}',
+  'towerDefense.spawning': 'Enemies incoming...',
+  'towerDefense.livesLeft': 'Lives left: {count}',
+  'towerDefense.goldLeft': 'Gold left: {count}',
+  'towerDefense.allCleared': '🎉 You cleared every level!',
+  'towerDefense.lost': 'Defeat',
+  'towerDefense.breached': 'Your defenses were breached',
+  'towerDefense.retry': 'Retry',
+
+  // ==================== Release Calendar ====================
+  'calendar.viewMonth': 'Month',
+  'calendar.viewAgenda': 'Agenda',
+  'calendar.prevMonth': 'Previous month',
+  'calendar.nextMonth': 'Next month',
+  'calendar.today': 'Today',
+  'calendar.allShelves': 'All shelves',
+  'calendar.export': 'Export .ics',
+  'calendar.exportTitle': 'Download a calendar file to import or subscribe to in your calendar app',
+  'calendar.exported': 'Exported {count} release dates',
+  'calendar.exported_one': 'Exported 1 release date',
+  'calendar.nothingToExport': 'No release dates to export',
+  'calendar.icsName': 'GameGallery upcoming releases',
+  'calendar.undated': 'Sometime this month',
+  'calendar.quarter': 'Q{quarter} {year}',
+  'calendar.year': '{year}',
+  'calendar.tba': 'To be announced',
+  'calendar.empty': 'No upcoming releases',
+  'calendar.slipDelayed': 'Delayed',
+  'calendar.slipAdvanced': 'Moved up',
+  'calendar.slipChanged': 'Date changed',
+  'calendar.slipFrom': 'Previously {date}',
+  'calendar.recentSlips': '{count} games changed release dates recently',
+  'calendar.recentSlips_one': '1 game changed its release date recently',
+
+  // ==================== Library Stats ====================
+  'stats.range.all': 'All time',
+  'stats.range.30d': 'Last 30 days',
+  'stats.range.90d': 'Last 90 days',
+  'stats.range.1y': 'Last year',
+  'stats.range.custom': 'Custom',
+  'stats.from': 'From',
+  'stats.to': 'To',
+  'stats.exportCsv': 'Export CSV',
+  'stats.exported': 'Statistics exported',
+  'stats.totalGames': 'Games added',
+  'stats.completedGames': 'Games completed',
+  'stats.averageScore': 'Avg. rating of completed games',
+  'stats.medianDays': 'Added to completed (median)',
+  'stats.averageDays': 'average {days}',
+  'stats.days': '{count} days',
+  'stats.days_one': '1 day',
+  'stats.byStatus': 'By shelf',
+  'stats.byGenre': 'By genre',
+  'stats.otherGenres': 'Other',
+  'stats.noGenres': 'No genre data',
+  'stats.timeline': 'Over time',
+  'stats.addedCompleted': 'Added and completed per month',
+  'stats.added': 'Added',
+  'stats.completed': 'Completed',
+  'stats.queueSize': 'Queue size (end of month)',
+  'stats.empty': 'No data in the selected range',
+  'stats.historyHint':
+    'Completion dates and queue history come from the status changes in each play journal; games without history are treated as always on their current shelf',
+
+  // ==================== Library Transfer ====================
+  'app.transfer': 'Export / Import',
+  'app.transferTitle': 'Export the library as JSON / CSV / Markdown, or import from a file',
+  'transfer.title': 'Export / import library',
+  'transfer.close': 'Close',
+  'transfer.exportSection': 'Export',
+  'transfer.exportHint':
+    'Export all {count} games, including shelves, pins, play journals and review data',
+  'transfer.libraryUnavailable':
+    "Couldn't load your full library, so export and import are unavailable. Check your connection and reopen this dialog",
+  'transfer.exportHint_one':
+    'Export {count} game, including shelves, pins, play journals and review data',
+  'transfer.exportJson': 'JSON (full backup)',
+  'transfer.exportCsv': 'CSV (spreadsheet)',
+  'transfer.exportMarkdown': 'Markdown (sharing)',
+  'transfer.exported': 'Exported {count} games',
+  'transfer.exported_one': 'Exported {count} game',
+  'transfer.importSection': 'Import',
+  'transfer.importHint':
+    'Accepts JSON / CSV exported by this app and games.json. All changes are previewed before anything is written',
+  'transfer.chooseFile': 'Choose file',
+  'transfer.invalidFile':
+    'Unrecognised file: expected JSON / CSV exported by this app, or games.json',
+  'transfer.unsupportedVersion':
+    'This file was exported by a newer version of the app. Please upgrade before importing',
+  'transfer.readFailed': 'Failed to read the file',
+  'transfer.fileSummary': '{file}: {count} records',
+  'transfer.fileSummary_one': '{file}: {count} record',
+  'transfer.action.add': 'Add',
+  'transfer.action.update': 'Update',
+  'transfer.action.unchanged': 'Unchanged',
+  'transfer.action.conflict': 'Conflict',
+  'transfer.conflict.appIdMismatch':
+    'A game with the same name but a different app_id is in the library; selecting this adds it as a new game',
+  'transfer.conflict.unknownShelf':
+    'Shelf "{shelf}" does not exist; selecting this puts it on "{target}"',
+  'transfer.change.status': 'Shelf → {shelf}',
+  'transfer.change.pinned': 'Pin',
+  'transfer.change.unpinned': 'Unpin',
+  'transfer.change.targetPrice': 'Target price',
+  'transfer.change.rating': 'Rating',
+  'transfer.change.notes': 'Notes',
+  'transfer.change.sessions': 'Play sessions',
+  'transfer.issues': '{count} records cannot be imported',
+  'transfer.issues_one': '{count} record cannot be imported',
+  'transfer.issue.invalidField': 'Record {index} ({name}): invalid {field}',
+  'transfer.issue.missingName': 'Record {index}: missing game name',
+  'transfer.issue.duplicate': 'Record {index} ({name}): duplicate of an earlier record',
+  'transfer.issue.missingAppId':
+    'Record {index} ({name}): not in the library, and cannot be added without an app_id',
+  'transfer.issue.ambiguousName':
+    'Record {index} ({name}): several games in the library share this name; add an app_id',
+  'transfer.summary':
+    '{add} to add · {update} to update · {conflict} conflicts · {unchanged} unchanged',
+  'transfer.selected': '{count} selected',
+  'transfer.noChanges': 'Nothing to import',
+  'transfer.back': 'Choose another file',
+  'transfer.apply': 'Import {count} items',
+  'transfer.apply_one': 'Import {count} item',
+  'transfer.applying': 'Importing {processed}/{total}…',
+  'transfer.finished': 'Import finished: {added} added, {updated} updated, {failed} failed',
+  'transfer.updateFailed': 'Update failed',
+  'transfer.journalFailed': 'Failed to save the play journal',
+  'transfer.done': 'Done',
+  'transfer.md.title': 'GameGallery library',
+  'transfer.md.summary': 'Exported on {date}, {count} games',
+  'transfer.md.summary_one': 'Exported on {date}, {count} game',
+  'transfer.md.otherShelf': 'Other',
+  'transfer.md.game': 'Game',
+  'transfer.md.pinned': 'Pinned',
+  'transfer.md.score': 'Positive',
+  'transfer.md.reviews': 'Reviews',
+  'transfer.md.releaseDate': 'Release date',
+  'transfer.md.rating': 'Rating',
+  'transfer.md.playtime': 'Playtime',
+  'transfer.md.notes': 'Notes',
+
+  // ==================== GitHub Sync ====================
+  'githubSync.token': 'GitHub token',
+  'githubSync.repository': 'Repository (owner / name)',
+  'githubSync.path': 'File path',
+  'githubSync.test': 'Test connection',
+  'githubSync.testSucceeded': 'Connected, settings saved',
+  'githubSync.testFailed': 'Connection failed, check the token and repository',
+  'githubSync.save': 'Save',
+  'githubSync.saved': 'Settings saved',
+  'githubSync.enable': 'Automatically sync the library with games.json',
+  'githubSync.status': 'Status',
+  'githubSync.state.disabled': 'Off',
+  'githubSync.state.idle': 'Synced',
+  'githubSync.state.syncing': 'Syncing...',
+  'githubSync.state.error': 'Sync failed',
+  'githubSync.lastSynced': 'Last synced',
+  'githubSync.never': 'Never',
+  'githubSync.lastResult': 'Last result',
+  'githubSync.result': '{pushed}, {pulled} pulled, {conflicts} conflicts, {failed} failed',
+  'githubSync.pushed': 'pushed',
+  'githubSync.notPushed': 'nothing to push',
+  'githubSync.error': 'Error',
+  'githubSync.syncNow': 'Sync now',
+  'githubSync.instructionsTitle': 'How it works',
+  'githubSync.instructionToken':
+    'The token needs read/write Contents access to the repository (fine-grained) or the repo scope (classic)',
+  'githubSync.instructionMerge':
+    'Changes on both sides are merged per game; when both changed, the more recently updated version wins',
+  'githubSync.instructionPrice':
+    'Current prices are not written to the file; the first sync after changing the repository or file only merges and never deletes games',
+  'githubSync.backendUnavailable': 'Could not read the library, the server is unreachable',
+  'githubSync.githubFailed': 'Failed to read or write the file on GitHub',
+
+  // ==================== Re-login ====================
+  'reauth.title': 'Session expired',
+  'reauth.hint':
+    'Your session has expired or is no longer valid. Sign in again to continue where you left off.',
+  'reauth.later': 'Later',
+
+  // ==================== Account ====================
+  'account.register': 'Sign up',
+  'account.toRegister': 'No account? Sign up',
+  'account.toLogin': 'Already have an account? Sign in',
+  'account.usernameHint': '{min}-{max} letters, digits, underscores or hyphens',
+  'account.passwordHint': 'At least {min} characters, including a letter and a digit',
+  'account.confirmPassword': 'Confirm password',
+  'account.registered': 'Account created, you are now signed in',
+  'account.registerFailed': 'Sign-up failed: the username may already be taken',
+  'account.changePassword': 'Change password',
+  'account.currentPassword': 'Current password',
+  'account.newPassword': 'New password',
+  'account.passwordChanged': 'Password changed. Other devices will need to sign in again',
+  'account.changePasswordFailed':
+    'Could not change password: wrong current password or network error',
+  'account.deleteAccount': 'Delete account',
+  'account.deleteWarning':
+    'Your account, library, shelves and all sessions will be permanently deleted.',
+  'account.exportBeforeDelete': 'Download a library export first (JSON, {count} games)',
+  'account.exportBeforeDelete_one': 'Download a library export first (JSON, {count} game)',
+  'account.deleteConfirm': 'Delete permanently',
+  'account.deleted': 'Your account has been deleted',
+  'account.deleteFailed': 'Could not delete account: wrong password or network error',
+  'account.deleteTypeUsername': 'Type your username {username} to confirm',
+  'account.deleteNoPasswordHint':
+    'This account was created with Steam or GitHub sign-in and has no password',
+  'account.deleteFailedNoPassword':
+    'Could not delete account: username did not match or network error',
+  'account.exportFailed':
+    "Couldn't load your full library, so the account was not deleted. Try again later or uncheck the export",
+  'account.error.usernameLength': 'Username must be {min}-{max} characters',
+  'account.error.usernameChars':
+    'Username may only contain letters, digits, underscores or hyphens',
+  'account.error.passwordLength': 'Password must be at least {min} characters',
+  'account.error.passwordWeak': 'Password must include a letter and a digit',
+  'account.error.passwordMismatch': 'Passwords do not match',
+  'account.error.passwordUnchanged': 'New password must differ from the current one',
+  'account.linkedAccounts': 'Linked accounts',
+  'account.steamId': 'SteamID: {id}',
+  'account.notLinked': 'Not linked',
+  'account.link': 'Link',
+  'account.unlink': 'Unlink',
+  'account.linked': '{provider} account linked',
+  'account.linkFailed': 'Could not link {provider}: it may already be linked to another user',
+  'account.unlinkFailed':
+    'Could not unlink: accounts without a password must keep at least one sign-in method',
+  'account.providerUnavailable': 'This sign-in method is not configured',
+  'sessions.current': 'This device',
+  'sessions.unknownDevice': 'Unknown device',
+  'sessions.lastActive': 'Last active {time}',
+  'sessions.signedIn': 'Signed in {time}',
+  'sessions.revoke': 'Sign out',
+  'sessions.refresh': 'Refresh',
+  'sessions.loadFailed': 'Could not load signed-in devices',
+  'sessions.revokeFailed': 'Could not sign out that device, please try again',
+
+  // ==================== Profiles ====================
+  'profiles.title': 'Profiles',
+  'profiles.default': 'Default',
+  'profiles.switch': 'Switch profile',
+  'profiles.add': 'New profile',
+  'profiles.namePlaceholder': 'Profile name',
+  'profiles.apiUrlPlaceholder': 'Backend URL (optional)',
+  'profiles.createHint': 'Each profile keeps its own sign-in, settings, cache and mini-game scores',
+  'profiles.createAndSwitch': 'Create and switch',
+  'profiles.delete': 'Delete profile',
+  'profiles.deleteConfirm': 'Delete profile "{name}" and all of its local data?',
+
+  // ==================== Backend ====================
+  'backend.server': 'Server',
+  'backend.preset.production': 'Production',
+  'backend.preset.local': 'Local development',
+  'backend.preset.custom': 'Custom URL',
+  'backend.customUrl': 'Backend URL',
+  'backend.current': 'Currently using: {url}',
+  'backend.invalidUrl': 'Enter a valid http(s) URL',
+  'backend.test': 'Test connection',
+  'backend.save': 'Save and reload',
+  'backend.reset': 'Reset to default',
+  'backend.resetHint': 'Use the backend URL configured at build time and reload',
+  'backend.status': 'Status',
+  'backend.reachable': 'Reachable',
+  'backend.unreachable': 'Unreachable',
+  'backend.latency': 'Latency',
+  'backend.latencyValue': '{ms} ms',
+  'backend.version': 'Version',
+  'backend.versionUnknown': 'Unknown (no health check endpoint)',
+  'backend.auth': 'Sign-in',
+  'backend.authStatus.authenticated': 'Your session is valid on this server',
+  'backend.authStatus.rejected':
+    'Your session is not valid on this server; you will need to sign in again',
+  'backend.authStatus.signedOut': 'Not signed in',
+}
+
+// ==================== Exports ====================
+
+export { en }
@@ -0,0 +1,661 @@
+/**
+ * 简体中文文案
+ * 作为文案的基准语言：其他语言必须包含这里的所有 key
+ * 参数使用 {name} 占位
+ */
+const zhCN = {
+  // ==================== Common ====================
+  'common.loading': '加载中...',
+  'common.save': '保存',
+  'common.cancel': '取消',
+  'common.close': '关闭',
+  'common.listSeparator': '，',
+  'common.requestFailed': '请求失败',
+  'common.loadingLibrary': '正在读取完整游戏库…',
+  'common.libraryIncomplete': '无法读取完整游戏库，以下只包含已加载的游戏',
+
+  // ==================== App ====================
+  'app.settings': '设置',
+  'app.tabs.steamGames': 'Steam Games',
+  'app.tabs.playground': 'Playground',
+  'app.tabs.calendar': 'Releases',
+  'app.tabs.stats': 'Stats',
+  'app.multiSelect': '多选',
+  'app.filter': '筛选',
+  'app.filterTitle': '筛选和排序',
+  'app.import': '导入',
+  'app.importTitle': '从 Steam 个人资料导入已拥有的游戏和愿望单',
+  'app.addFromSteam': '从 Steam 添加',
+  'app.noMatchingGames': '没有符合筛选条件的游戏',
+  'app.emptyShelf': '该状态下暂无游戏',
+  'app.alreadyInLibrary': '"{name}" 已经在队列中！',
+  'app.invalidSteamUrl': '无效的 Steam URL',
+  'app.addedFromSteam': '从 Steam 添加了 "{name}"',
+  'app.movedTo': '将 "{name}" 移至 {shelf}',
+  'app.removed': '移除了 "{name}"',
+  'app.pinned': '置顶 "{name}"',
+  'app.unpinned': '取消置顶 "{name}"',
+  'app.reordered': '调整了 "{name}" 的顺序',
+  'app.reorderFailed': '无法读取完整书架，顺序未保存',
+  'app.batchNoChanges': '选中的游戏无需修改',
+  'app.batchDone': '已处理 {count} 个游戏',
+  'app.batchDoneWithFailures': '已处理 {count} 个游戏，{failed} 个失败',
+  'app.exported': '已导出 {count} 个游戏',
+  'app.offlineQueued': '当前离线，修改将在网络恢复后同步',
+  'app.sessionExpiredQueued': '登录已失效，修改将在重新登录后同步',
+  'app.shelvesSyncFailed': '书架已保存在本地，同步到服务器失败',
+
+  // ==================== GameItem ====================
+  'gameItem.moveTo': '移至 {shelf}',
+  'gameItem.updateStatusFailed': '更新状态失败，请重试',
+  'gameItem.sessionTooShort': '游玩不足 1 分钟，未记录',
+  'gameItem.invalidTargetPrice': '请输入有效的目标价格',
+  'gameItem.steamClientMissing': '未检测到Steam客户端，建议安装以获得更好体验',
+  'gameItem.noSteamUrl': '该游戏尚未设置Steam链接',
+  'gameItem.confirmDelete': '确定要删除 "{name}"?',
+  'gameItem.select': '选择（Shift + 单击选择范围）',
+  'gameItem.deselect': '取消选择（Shift + 单击选择范围）',
+  'gameItem.pin': '置顶游戏',
+  'gameItem.unpin': '取消置顶',
+  'gameItem.delete': '删除游戏',
+  'gameItem.earlyAccess': '抢先体验',
+  'gameItem.unreleased': '尚未发售',
+  'steam.positive': '{percent}% 好评',
+  'steam.reviews': '{total} 条评论',
+  'steam.loadingRating': '加载好评率中...',
+  'gameItem.expectedRelease': '预计发售: {date}',
+  'gameItem.releasedOn': '发布于 {date}',
+  'gameItem.free': '免费',
+  'gameItem.historicalLow': '史低',
+  'gameItem.lowestPrice': '史低 {price}',
+  'gameItem.targetPriceTitle': '设置目标价格，低于该价格时提醒',
+  'gameItem.targetPrice': '目标 {price}',
+  'gameItem.priceAlert': '降价提醒',
+  'gameItem.targetPricePlaceholder': '目标价格，留空取消',
+  'gameItem.startTimer': '开始计时',
+  'gameItem.stopTimer': '停止计时',
+  'gameItem.updating': '更新中...',
+  'gameItem.steamUrlPlaceholder': '输入 Steam 链接...',
+  'gameItem.journal': '游玩日志',
+
+  // ==================== PlayJournal ====================
+  'playJournal.totalPlayed': '累计游玩',
+  'playJournal.startedAt': '开始游玩',
+  'playJournal.completedAt': '完成于',
+  'playJournal.daysToComplete': '（用时 {count} 天）',
+  'playJournal.rating': '评分',
+  'playJournal.ratingValue': '{count} 分',
+  'playJournal.notes': '笔记',
+  'playJournal.notesPlaceholder': '记录一下这款游戏的感想...',
+  'playJournal.sessions': '游玩记录',
+  'playJournal.hours': '小时',
+  'playJournal.minutes': '分钟',
+  'playJournal.notePlaceholder': '备注（可选）',
+  'playJournal.addSession': '添加记录',
+  'playJournal.empty': '还没有游玩记录，可以手动添加或使用计时器',
+  'playJournal.removeSession': '删除记录',
+
+  // ==================== Duration ====================
+  'duration.minutes': '{count} 分钟',
+  'duration.hours': '{count} 小时',
+  'duration.hoursMinutes': '{hours} 小时 {minutes} 分钟',
+
+  // ==================== SteamSearch ====================
+  'steamSearch.searchFailed': '搜索失败，请重试',
+  'steamSearch.addFailed': '添加游戏失败，请重试',
+  'steamSearch.title': '从 Steam 搜索游戏',
+  'steamSearch.placeholder': '输入游戏名称开始搜索...',
+  'steamSearch.searching': '正在搜索...',
+  'steamSearch.resultCount': '找到 {count} 个结果',
+  'steamSearch.noResults': '没有找到结果',
+  'steamSearch.adding': '添加中...',
+  'steamSearch.add': '添加',
+
+  // ==================== LoginButton ====================
+  'login.missingCredentials': '请输入用户名和密码',
+  'login.failed': '登录失败：用户名或密码错误',
+  'login.loggedInAs': '已登录：{username}',
+  'login.logoutFull': '退出登录',
+  'login.welcome': '欢迎，{username}',
+  'login.logout': '登出',
+  'login.username': '用户名',
+  'login.usernamePlaceholder': '请输入用户名',
+  'login.password': '密码',
+  'login.passwordPlaceholder': '请输入密码',
+  'login.submitting': '登录中...',
+  'login.submit': '登录',
+  'login.or': '或',
+  'login.withProvider': '使用 {provider} 登录',
+  'login.oauthFailed': '{provider} 登录失败或已取消',
+  'login.oauthSignedIn': '已通过 {provider} 登录：{username}',
+
+  // ==================== Settings ====================
+  'settings.title': '设置',
+  'settings.account': '账号管理',
+  'settings.backend': '后端服务器',
+  'settings.shelves': '书架管理',
+  'settings.language': '语言和地区',
+  'settings.sessions': '登录设备',
+  'settings.githubSync': 'GitHub 同步',
+  'settings.uiLanguage': '界面语言',
+  'settings.steamLanguage': 'Steam 数据语言',
+  'settings.steamCountry': 'Steam 商店地区',
+  'settings.steamRegionHint': '影响搜索结果、游戏标签和价格货币，已添加的游戏在下次刷新时更新',
+
+  // ==================== FilterPanel ====================
+  'filter.sort': '排序',
+  'filter.sortManual': '默认顺序',
+  'filter.sortScore': '好评率',
+  'filter.sortReviews': '评论数',
+  'filter.sortRelease': '发售日期',
+  'filter.sortName': '名称',
+  'filter.ascending': '升序',
+  'filter.descending': '降序',
+  'filter.any': '不限',
+  'filter.only': '仅',
+  'filter.exclude': '排除',
+  'filter.free': '免费',
+  'filter.paid': '付费',
+  'filter.genres': '类型',
+  'filter.score': '好评率 %',
+  'filter.chineseScore': '中文区好评率 %',
+  'filter.minReviews': '最少评论数',
+  'filter.releaseYear': '发售年份',
+  'filter.rangeFrom': '起',
+  'filter.rangeTo': '止',
+  'filter.earlyAccess': '抢先体验',
+  'filter.comingSoon': '尚未发售',
+  'filter.platforms': '平台',
+  'filter.price': '价格',
+  'filter.resultCount': '当前书架符合条件：{count} 款',
+  'filter.reset': '重置',
+
+  // ==================== BatchActionBar ====================
+  'batch.confirmRemove': '确定要移除选中的 {count} 个游戏?',
+  'batch.selected': '已选 {selected}/{total}',
+  'batch.selectAll': '全选',
+  'batch.deselectAll': '取消全选',
+  'batch.moveTo': '移至书架...',
+  'batch.pin': '置顶',
+  'batch.unpin': '取消置顶',
+  'batch.export': '导出',
+  'batch.remove': '移除',
+  'batch.exit': '退出多选',
+  'batch.failures': '{count} 个游戏操作失败，已恢复原状态',
+  'batch.failureItem': '"{name}"：{error}',
+
+  // ==================== SyncStatus ====================
+  'syncStatus.remove': '移除',
+  'syncStatus.journal': '游玩日志',
+  'syncStatus.status': '状态 → {status}',
+  'syncStatus.pin': '置顶',
+  'syncStatus.unpin': '取消置顶',
+  'syncStatus.order': '排序',
+  'syncStatus.targetPrice': '目标价格',
+  'syncStatus.syncing': '正在同步',
+  'syncStatus.offline': '离线模式',
+  'syncStatus.pending': '{count} 项修改待同步',
+  'syncStatus.deletedOnServer': '"{name}" 已在服务器端被删除，离线修改（{changes}）无法应用',
+  'syncStatus.rejected': '"{name}" 的离线修改（{changes}）被服务器拒绝',
+  'syncStatus.retry': '重试',
+  'syncStatus.discard': '丢弃',
+
+  // ==================== Components ====================
+  'shelfManager.newShelf': '新书架',
+  'shelfManager.emptyName': '书架名称不能为空',
+  'shelfManager.duplicateName': '书架名称不能重复',
+  'shelfManager.color': '书架颜色',
+  'shelfManager.name': '书架名称',
+  'shelfManager.actionLabel': '推进到该书架时的按钮文字',
+  'shelfManager.nextShelf': '状态推进流中的下一个书架',
+  'shelfManager.endOfFlow': '（终点）',
+  'shelfManager.moveUp': '上移',
+  'shelfManager.moveDown': '下移',
+  'shelfManager.cannotDeleteDefault': '默认书架不可删除',
+  'shelfManager.cannotDeleteNonEmpty': '请先移走书架中的游戏',
+  'shelfManager.delete': '删除',
+  'shelfManager.add': '添加书架',
+  'priceAlerts.message': '"{name}" 现价 {price}，已低于目标价 {target}',
+  'priceAlerts.messageDiscount': '"{name}" 现价 {price}（-{discount}%），已低于目标价 {target}',
+  'priceAlerts.dismiss': '关闭提醒',
+  'sortableList.dragHandle': '拖动排序（也可聚焦后使用 ↑ ↓ 键）',
+  'sortableList.dragHandleLabel': '调整 "{name}" 的顺序，当前第 {position} / {total} 位',
+  'searchBar.placeholder': '搜索游戏...',
+  'searchBar.matchedField': '{field}：',
+  'addGame.namePlaceholder': '输入要添加的游戏名称...',
+  'addGame.steamUrlPlaceholder': 'Steam 链接（可选）',
+  'addGame.submit': '添加游戏',
+
+  // ==================== SteamImport ====================
+  'steamImport.sourceOwned': '已拥有',
+  'steamImport.sourceWishlist': '愿望单',
+  'steamImport.playtime': '{hours} 小时',
+  'steamImport.close': '关闭（进度会保存）',
+  'steamImport.title': '导入 Steam 游戏库',
+  'steamImport.placeholder': 'SteamID64 或个人资料链接，如 https://steamcommunity.com/id/xxx',
+  'steamImport.load': '读取',
+  'steamImport.privacyHint': '需要在 Steam 隐私设置中公开个人资料、游戏详情和愿望单。',
+  'steamImport.summary': '共 {count} 个游戏，{newCount} 个未入库',
+  'steamImport.summaryExisting': '，{count} 个已在游戏库中',
+  'steamImport.importTo': '{source}导入到',
+  'steamImport.selected': '已选 {count}',
+  'steamImport.alreadyOnShelf': '已在「{shelf}」',
+  'steamImport.restart': '重新输入',
+  'steamImport.start': '导入 {count} 个游戏',
+  'steamImport.importing': '正在导入 {processed}/{total}…',
+  'steamImport.paused': '已暂停，已处理 {processed}/{total}',
+  'steamImport.finished': '导入完成：成功 {done} 个，跳过 {skipped} 个，失败 {failed} 个',
+  'steamImport.pause': '暂停',
+  'steamImport.discard': '放弃剩余',
+  'steamImport.resume': '继续导入',
+  'steamImport.retryFailed': '重试失败的游戏',
+  'steamImport.done': '完成',
+  'steamImport.profileNotFound': '找不到该 Steam 用户，请检查 SteamID64 或个人资料链接',
+  'steamImport.loadFailed': '读取失败，请确认个人资料、游戏详情和愿望单已设为公开',
+  'steamImport.ownedFailed': '已拥有的游戏读取失败（游戏详情可能未公开）',
+  'steamImport.wishlistFailed': '愿望单读取失败（愿望单可能未公开）',
+  'steamImport.createFailed': '创建游戏失败',
+  'steamImport.addToLibraryFailed': '添加游戏到库失败',
+  'steamImport.addFailed': '添加游戏失败',
+  'steamImport.fetchFailed': '获取游戏信息失败',
+
+  // ==================== MiniGames ====================
+  'miniGames.snake.name': '贪吃蛇',
+  'miniGames.snake.description': '经典贪吃蛇游戏，控制蛇吃食物并避免撞墙',
+  'miniGames.game2048.name': '2048',
+  'miniGames.game2048.description': '滑动方块合并相同数字，挑战达到 2048',
+  'miniGames.memory.name': '记忆翻牌',
+  'miniGames.memory.description': '翻开卡片找出所有配对，挑战你的记忆力',
+  'miniGames.tower.name': '塔防',
+  'miniGames.tower.description': '建造防御塔抵御敌人，通过三个关卡',
+  'miniGames.breakout.name': '打砖块',
+  'miniGames.breakout.description': '经典街机游戏，用挡板接球打碎砖块',
+  'miniGames.flappy.name': 'Flappy Bird',
+  'miniGames.flappy.description': '点击屏幕控制小鸟飞行，躲避管道障碍',
+  'miniGames.match3.name': '连连看',
+  'miniGames.match3.description': '找到相同图案配对消除，挑战你的眼力',
+  'miniGames.jump.name': '跳一跳',
+  'miniGames.jump.description': '长按蓄力跳跃，落在中心获得连击加分',
+  'miniGames.fruit.name': '接水果',
+  'miniGames.fruit.description': '控制篮子接住水果得分，躲避炸弹',
+  'miniGames.sokoban.name': '推箱子',
+  'miniGames.sokoban.description': '经典益智游戏，推动箱子到目标位置',
+  'miniGames.play': '开始游戏',
+
+  // ==================== Search & History ====================
+  'search.fieldName': '名称',
+  'search.fieldDeveloper': '开发商',
+  'search.fieldPublisher': '发行商',
+  'search.fieldGenre': '类型',
+  'search.fieldDescription': '简介',
+  'history.undo': '撤销',
+  'history.redo': '重做',
+  'history.undone': '已撤销：{label}',
+  'history.undoFailed': '撤销失败：{label}',
+  'history.redoFailed': '重做失败：{label}',
+
+  // ==================== Mini games ====================
+  'miniGames.start': '开始游戏',
+  'miniGames.score': '得分: {score}',
+  'miniGames.best': '最高: {score}',
+  'miniGames.lives': '生命: {lives}',
+  'miniGames.levelProgress': '关卡: {level}/{total}',
+  'miniGames.level': '关卡: {name}',
+  'miniGames.moves': '步数: {count}',
+  'miniGames.ready': '准备开始',
+  'miniGames.paused': '游戏暂停',
+  'miniGames.gameOver': '游戏结束',
+  'miniGames.finalScore': '最终得分: {score}',
+  'miniGames.thisScore': '本次得分:',
+  'miniGames.bestScore': '最高分:',
+  'miniGames.restart': '重新开始',
+  'miniGames.playAgain': '再来一次',
+  'miniGames.newRecord': '新纪录',
+  'miniGames.levelComplete': '关卡完成！',
+  'miniGames.nextLevel': '下一关',
+  'miniGames.restartAll': '重新挑战',
+  'miniGames.pause': '暂停',
+  'miniGames.resume': '继续',
+  'breakout.title': '打砖块：{level}',
+  'breakout.level1': '第一关：入门',
+  'breakout.level2': '第二关：进阶',
+  'breakout.level3': '第三关：挑战',
+  'breakout.startHint': '按空格键或触摸屏幕开始',
+  'breakout.controls': '方向键/鼠标/触摸移动挡板',
+  'breakout.pauseHint': 'P 暂停游戏',
+  'breakout.resumeHint': '按 P 键继续',
+  'breakout.allCleared': '恭喜通关所有关卡',
+  'breakout.controlsFull': '使用方向键/鼠标/触摸移动挡板',
+  'breakout.goal': '打碎所有砖块通关',
+  'breakout.pauseKey': 'P 键暂停游戏',
+
+  // ==================== Mini games: Flappy Bird & Fruit Catcher ====================
+  'miniGames.combo': '连击: {count}x',
+  'flappy.ready': '🐦 准备起飞',
+  'flappy.startHint': '触摸/点击屏幕或按空格键开始',
+  'flappy.hintHold': '💡 持续触摸/点击保持飞行高度',
+  'flappy.hintScore': '💡 通过绿色管道间隙得分',
+  'flappy.newRecord': '🎉 新纪录！',
+  'flappy.controls': '🎮 触摸/点击屏幕或按空格键控制小鸟飞行',
+  'flappy.goal': '🏆 通过管道间隙获得分数，挑战更高纪录',
+  'fruit.doubleScore': '✨ 双倍得分',
+  'fruit.slowTime': '❄️ 时间减速',
+  'fruit.controls': '使用方向键/鼠标/触摸移动篮子',
+  'fruit.goal': '接住水果得分，躲避炸弹💣',
+  'fruit.items': '⭐黄金水果 ❄️时间减速 ✨双倍得分',
+  'fruit.instructions': '方向键/鼠标/触摸移动篮子 | 接住水果得分，躲避炸弹💣',
+  'fruit.itemsInstructions': '特殊道具: ⭐+50分 | ❄️减速 | ✨双倍 | 连续接住累积连击奖励',
+
+  // ==================== Mini games: 2048, Jump Jump & Link Match ====================
+  'miniGames.playAgainShort': '再玩一次',
+  'game2048.startHint': '使用方向键或滑动屏幕移动方块',
+  'game2048.mergeHint': '相同数字的方块会合并',
+  'miniGames.spaceToStart': '按空格键或触摸屏幕开始游戏',
+  'game2048.won': '你赢了！',
+  'game2048.reached': '达到了 2048！',
+  'game2048.continue': '继续游戏',
+  'game2048.controls': '🎮 方向键/滑动: 移动方块',
+  'game2048.startKey': '⏸️ 空格键: 开始游戏',
+  'jump.combo': '{count}x 连击',
+  'jump.controls': '长按空格或屏幕蓄力，松开跳跃',
+  'jump.comboHint': '落在中心区域获得连击',
+  'jump.comboBonus': '落在中心获得连击加分',
+  'match3.remaining': '剩余: {count} 对',
+  'match3.time': '时间: {time}',
+  'match3.hint': '💡 提示',
+  'match3.goal': '找到相同的图案并连接消除',
+  'match3.turnRule': '连线最多只能拐两个弯',
+  'match3.won': '恭喜通关',
+  'match3.elapsed': '用时: {time}',
+  'match3.timeUp': '时间到',
+  'match3.cleared': '已消除: {count} 对',
+  'match3.instructions': '点击两个相同的图案进行消除',
+
+  // ==================== Mini games: Memory & Snake ====================
+  'memory.pairs': '配对: {matched}/{total}',
+  'memory.won': '恭喜通关！',
+  'memory.totalMoves': '总步数: {count}',
+  'memory.perfectMoves': '完美配对需要: {count} 步',
+  'memory.goal': '🎯 点击翻牌，找出所有配对',
+  'memory.tip': '💡 记住卡片位置，用最少步数完成',
+  'snake.startHint': '使用方向键或滑动屏幕控制蛇的移动',
+  'snake.resumeHint': '按空格键继续',
+  'snake.controls': '🎮 方向键/滑动: 控制方向',
+  'snake.pauseKey': '⏸️ 空格键: 暂停/继续',
+
+  // ==================== Mini games: Sokoban ====================
+  'sokoban.levelBeginner': '入门',
+  'sokoban.levelEasy': '初级',
+  'sokoban.levelMedium': '中级',
+  'sokoban.levelHard': '高级',
+  'sokoban.pushes': '推动: {count}',
+  'sokoban.complete': '关卡完成！🎉',
+  'sokoban.totalPushes': '推动次数: {count}',
+  'sokoban.replay': '重玩',
+  'sokoban.undo': '↶ 撤销',
+  'sokoban.reset': '🔄 重置',
+  'sokoban.controls': '方向键或WASD移动 | 推动所有箱子📦到目标点🎯',
+  'sokoban.shortcuts': 'Ctrl+Z撤销 | R重置关卡',
+
+  // ==================== Mini games: Tower Defense ====================
+  'towerDefense.title': '塔防：{level}',
+  'towerDefense.level1': '第一关：入门',
+  'towerDefense.level2': '第二关：加速',
+  'towerDefense.level3': '第三关：混战',
+  'towerDefense.basicTower': '基础塔',
+  'towerDefense.sniperTower': '狙击塔',
+  'towerDefense.wave': '波次: {current}/{total}',
+  'towerDefense.startWave': '开始第 {wave} 波',
+  'towerDefense.spawning': '敌人来袭...',
+  'towerDefense.livesLeft': '剩余生命: {count}',
+  'towerDefense.goldLeft': '剩余金币: {count}',
+  'towerDefense.allCleared': '🎉 恭喜通关所有关卡！',
+  'towerDefense.lost': '游戏失败',
+  'towerDefense.breached': '防线被攻破了',
+  'towerDefense.retry': '重试',
+
+  // ==================== Release Calendar ====================
+  'calendar.viewMonth': '月历',
+  'calendar.viewAgenda': '列表',
+  'calendar.prevMonth': '上个月',
+  'calendar.nextMonth': '下个月',
+  'calendar.today': '今天',
+  'calendar.allShelves': '全部书架',
+  'calendar.export': '导出 .ics',
+  'calendar.exportTitle': '导出为日历文件，可导入或订阅到日历应用',
+  'calendar.exported': '已导出 {count} 个发售日期',
+  'calendar.nothingToExport': '没有可导出的发售日期',
+  'calendar.icsName': 'GameGallery 即将发售',
+  'calendar.undated': '本月具体日期未定',
+  'calendar.quarter': '{year} 年第 {quarter} 季度',
+  'calendar.year': '{year} 年',
+  'calendar.tba': '待定',
+  'calendar.empty': '没有即将发售的游戏',
+  'calendar.slipDelayed': '延期',
+  'calendar.slipAdvanced': '提前',
+  'calendar.slipChanged': '日期变更',
+  'calendar.slipFrom': '原定 {date}',
+  'calendar.recentSlips': '{count} 个游戏的发售日期最近有变化',
+
+  // ==================== Library Stats ====================
+  'stats.range.all': '全部时间',
+  'stats.range.30d': '最近 30 天',
+  'stats.range.90d': '最近 90 天',
+  'stats.range.1y': '最近一年',
+  'stats.range.custom': '自定义',
+  'stats.from': '从',
+  'stats.to': '至',
+  'stats.exportCsv': '导出 CSV',
+  'stats.exported': '已导出统计数据',
+  'stats.totalGames': '加入的游戏',
+  'stats.completedGames': '完成的游戏',
+  'stats.averageScore': '已完成游戏的平均好评率',
+  'stats.medianDays': '从加入到完成（中位数）',
+  'stats.averageDays': '平均 {days}',
+  'stats.days': '{count} 天',
+  'stats.byStatus': '书架分布',
+  'stats.byGenre': '类型分布',
+  'stats.otherGenres': '其他',
+  'stats.noGenres': '暂无类型数据',
+  'stats.timeline': '时间线',
+  'stats.addedCompleted': '每月新增与完成',
+  'stats.added': '新增',
+  'stats.completed': '完成',
+  'stats.queueSize': '待玩队列规模（月末）',
+  'stats.empty': '所选时间范围内没有数据',
+  'stats.historyHint':
+    '完成时间和队列变化来自游玩日志中的状态变更记录，没有记录的游戏视为一直在当前书架',
+
+  // ==================== Library Transfer ====================
+  'app.transfer': '导出 / 导入',
+  'app.transferTitle': '将游戏库导出为 JSON / CSV / Markdown，或从文件导入',
+  'transfer.title': '导出 / 导入游戏库',
+  'transfer.close': '关闭',
+  'transfer.exportSection': '导出',
+  'transfer.exportHint': '导出全部 {count} 个游戏，包含书架、置顶、游玩日志和评价数据',
+  'transfer.libraryUnavailable': '无法读取完整游戏库，导出和导入暂不可用，请检查网络后重新打开',
+  'transfer.exportJson': 'JSON（完整备份）',
+  'transfer.exportCsv': 'CSV（表格）',
+  'transfer.exportMarkdown': 'Markdown（分享）',
+  'transfer.exported': '已导出 {count} 个游戏',
+  'transfer.importSection': '导入',
+  'transfer.importHint': '支持本应用导出的 JSON / CSV 和 games.json，写入前会先预览所有变化',
+  'transfer.chooseFile': '选择文件',
+  'transfer.invalidFile': '无法识别的文件：需要本应用导出的 JSON / CSV 或 games.json',
+  'transfer.unsupportedVersion': '该文件由更新版本的应用导出，请升级后再导入',
+  'transfer.readFailed': '读取文件失败',
+  'transfer.fileSummary': '{file}：{count} 条记录',
+  'transfer.action.add': '新增',
+  'transfer.action.update': '更新',
+  'transfer.action.unchanged': '无变化',
+  'transfer.action.conflict': '冲突',
+  'transfer.conflict.appIdMismatch': '游戏库中的同名游戏 app_id 不同，选中后作为新游戏添加',
+  'transfer.conflict.unknownShelf': '书架“{shelf}”不存在，选中后放入“{target}”',
+  'transfer.change.status': '书架 → {shelf}',
+  'transfer.change.pinned': '置顶',
+  'transfer.change.unpinned': '取消置顶',
+  'transfer.change.targetPrice': '目标价格',
+  'transfer.change.rating': '评分',
+  'transfer.change.notes': '备注',
+  'transfer.change.sessions': '游玩记录',
+  'transfer.issues': '{count} 条记录无法导入',
+  'transfer.issue.invalidField': '第 {index} 条（{name}）：字段 {field} 格式不正确',
+  'transfer.issue.missingName': '第 {index} 条：缺少游戏名称',
+  'transfer.issue.duplicate': '第 {index} 条（{name}）：与前面的记录重复',
+  'transfer.issue.missingAppId':
+    '第 {index} 条（{name}）：游戏库中没有该游戏，且缺少 app_id 无法添加',
+  'transfer.issue.ambiguousName': '第 {index} 条（{name}）：游戏库中有多个同名游戏，请补充 app_id',
+  'transfer.summary': '新增 {add} · 更新 {update} · 冲突 {conflict} · 无变化 {unchanged}',
+  'transfer.selected': '已选择 {count} 项',
+  'transfer.noChanges': '没有需要导入的变化',
+  'transfer.back': '重新选择',
+  'transfer.apply': '导入 {count} 项',
+  'transfer.applying': '正在导入 {processed}/{total}…',
+  'transfer.finished': '导入完成：新增 {added}，更新 {updated}，失败 {failed}',
+  'transfer.updateFailed': '更新失败',
+  'transfer.journalFailed': '游玩日志保存失败',
+  'transfer.done': '完成',
+  'transfer.md.title': 'GameGallery 游戏库',
+  'transfer.md.summary': '导出于 {date}，共 {count} 个游戏',
+  'transfer.md.otherShelf': '其他',
+  'transfer.md.game': '游戏',
+  'transfer.md.pinned': '置顶',
+  'transfer.md.score': '好评率',
+  'transfer.md.reviews': '评论数',
+  'transfer.md.releaseDate': '发售日期',
+  'transfer.md.rating': '评分',
+  'transfer.md.playtime': '游玩时长',
+  'transfer.md.notes': '备注',
+
+  // ==================== GitHub Sync ====================
+  'githubSync.token': 'GitHub Token',
+  'githubSync.repository': '仓库（所有者 / 名称）',
+  'githubSync.path': '文件路径',
+  'githubSync.test': '测试连接',
+  'githubSync.testSucceeded': '连接成功，配置已保存',
+  'githubSync.testFailed': '连接失败，请检查 Token 和仓库',
+  'githubSync.save': '保存',
+  'githubSync.saved': '配置已保存',
+  'githubSync.enable': '自动同步游戏库与 games.json',
+  'githubSync.status': '状态',
+  'githubSync.state.disabled': '未开启',
+  'githubSync.state.idle': '已同步',
+  'githubSync.state.syncing': '同步中...',
+  'githubSync.state.error': '同步失败',
+  'githubSync.lastSynced': '上次同步',
+  'githubSync.never': '从未同步',
+  'githubSync.lastResult': '上次结果',
+  'githubSync.result': '{pushed}，写回 {pulled} 项，冲突 {conflicts} 项，失败 {failed} 项',
+  'githubSync.pushed': '已提交',
+  'githubSync.notPushed': '无需提交',
+  'githubSync.error': '错误',
+  'githubSync.syncNow': '立即同步',
+  'githubSync.instructionsTitle': '说明',
+  'githubSync.instructionToken':
+    'Token 需要目标仓库的 Contents 读写权限（Fine-grained token）或 repo 权限（Classic token）',
+  'githubSync.instructionMerge':
+    '游戏库和文件的修改会逐个游戏合并，两边都修改过的游戏以更新时间较新的一方为准',
+  'githubSync.instructionPrice':
+    '当前价格不会写入文件，更换仓库或文件后首次同步只会合并、不会删除游戏',
+  'githubSync.backendUnavailable': '无法读取游戏库，服务器不可达',
+  'githubSync.githubFailed': '读取或写入 GitHub 文件失败',
+
+  // ==================== Re-login ====================
+  'reauth.title': '登录已过期',
+  'reauth.hint': '你的登录已过期或失效，请重新登录。登录成功后会继续刚才的操作。',
+  'reauth.later': '稍后',
+
+  // ==================== Account ====================
+  'account.register': '注册',
+  'account.toRegister': '没有账号？注册一个',
+  'account.toLogin': '已有账号？登录',
+  'account.usernameHint': '{min}-{max} 位字母、数字、下划线或连字符',
+  'account.passwordHint': '至少 {min} 位，同时包含字母和数字',
+  'account.confirmPassword': '确认密码',
+  'account.registered': '注册成功，已自动登录',
+  'account.registerFailed': '注册失败：用户名可能已被占用，请换一个再试',
+  'account.changePassword': '修改密码',
+  'account.currentPassword': '当前密码',
+  'account.newPassword': '新密码',
+  'account.passwordChanged': '密码已修改，其他设备需要重新登录',
+  'account.changePasswordFailed': '修改失败：当前密码错误或网络异常',
+  'account.deleteAccount': '删除账号',
+  'account.deleteWarning': '账号、游戏库、书架和所有登录设备将被永久删除，无法恢复。',
+  'account.exportBeforeDelete': '删除前下载游戏库导出（JSON，{count} 个游戏）',
+  'account.deleteConfirm': '永久删除',
+  'account.deleted': '账号已删除',
+  'account.deleteFailed': '删除失败：密码错误或网络异常',
+  'account.deleteTypeUsername': '输入用户名 {username} 确认',
+  'account.deleteNoPasswordHint': '该账号通过第三方登录创建，没有设置密码',
+  'account.deleteFailedNoPassword': '删除失败：用户名不匹配或网络异常',
+  'account.exportFailed': '无法读取完整游戏库，账号未删除。请稍后重试，或取消勾选导出',
+  'account.error.usernameLength': '用户名需要 {min}-{max} 位',
+  'account.error.usernameChars': '用户名只能包含字母、数字、下划线或连字符',
+  'account.error.passwordLength': '密码至少需要 {min} 位',
+  'account.error.passwordWeak': '密码需要同时包含字母和数字',
+  'account.error.passwordMismatch': '两次输入的密码不一致',
+  'account.error.passwordUnchanged': '新密码不能与当前密码相同',
+  'account.linkedAccounts': '关联账号',
+  'account.steamId': 'SteamID：{id}',
+  'account.notLinked': '未关联',
+  'account.link': '关联',
+  'account.unlink': '取消关联',
+  'account.linked': '已关联 {provider} 账号',
+  'account.linkFailed': '关联 {provider} 失败：该账号可能已关联其他用户',
+  'account.unlinkFailed': '取消关联失败：没有设置密码的账号需要至少保留一种登录方式',
+  'account.providerUnavailable': '未配置该登录方式',
+  'sessions.current': '当前设备',
+  'sessions.unknownDevice': '未知设备',
+  'sessions.lastActive': '最近活跃：{time}',
+  'sessions.signedIn': '登录于 {time}',
+  'sessions.revoke': '注销',
+  'sessions.refresh': '刷新',
+  'sessions.loadFailed': '加载登录设备失败',
+  'sessions.revokeFailed': '注销失败，请重试',
+
+  // ==================== Profiles ====================
+  'profiles.title': '配置',
+  'profiles.default': '默认',
+  'profiles.switch': '切换配置',
+  'profiles.add': '新建配置',
+  'profiles.namePlaceholder': '配置名称',
+  'profiles.apiUrlPlaceholder': '后端地址（可选）',
+  'profiles.createHint': '每个配置有独立的登录、设置、缓存和小游戏记录',
+  'profiles.createAndSwitch': '创建并切换',
+  'profiles.delete': '删除配置',
+  'profiles.deleteConfirm': '确定删除配置「{name}」及其所有本地数据吗？',
+
+  // ==================== Backend ====================
+  'backend.server': '服务器',
+  'backend.preset.production': '生产环境',
+  'backend.preset.local': '本地开发',
+  'backend.preset.custom': '自定义地址',
+  'backend.customUrl': '后端地址',
+  'backend.current': '当前使用：{url}',
+  'backend.invalidUrl': '请输入有效的 http(s) 地址',
+  'backend.test': '测试连接',
+  'backend.save': '保存并重新加载',
+  'backend.reset': '恢复默认',
+  'backend.resetHint': '使用构建时配置的后端地址并重新加载',
+  'backend.status': '连接状态',
+  'backend.reachable': '可以连接',
+  'backend.unreachable': '无法连接',
+  'backend.latency': '延迟',
+  'backend.latencyValue': '{ms} ms',
+  'backend.version': '版本',
+  'backend.versionUnknown': '未知（后端未提供健康检查接口）',
+  'backend.auth': '登录状态',
+  'backend.authStatus.authenticated': '当前登录在该服务器上有效',
+  'backend.authStatus.rejected': '当前登录在该服务器上无效，切换后需重新登录',
+  'backend.authStatus.signedOut': '未登录',
+}
+
+// ==================== Types ====================
+
+type MessageKey = keyof typeof zhCN
+type Messages = Record<MessageKey, string>
+
+// ==================== Exports ====================
+
+export type { MessageKey, Messages }
+export { zhCN }
@@ -0,0 +1,280 @@
+/**
+ * 账号接口的本地 Mock
+ * 开发时在没有后端（或后端尚未实现注册、会话管理）的情况下调试账号相关界面
+ * 在 .env.local 中设置 VITE_MOCK_AUTH=true 后由入口注入 apiClient，仅在开发模式生效
+ * 用户和会话保存在 localStorage 中（所有配置共用，相当于同一个后端），刷新页面后保留
+ */
+
+import {
+  AUTH_LOGIN_API,
+  AUTH_LOGOUT_API,
+  AUTH_PASSWORD_API,
+  AUTH_REGISTER_API,
+  AUTH_SESSIONS_API,
+  USER_ACCOUNT_API,
+} from '../constants/api'
+import type { AuthSession, Pagination } from '../types'
+import { validatePassword, validateUsername } from '../utils/credentials'
+import { deviceStorage } from '../utils/storage'
+
+// ==================== Types ====================
+
+interface MockUser {
+  id: string
+  username: string
+  password: string
+}
+
+interface MockSession extends Omit<AuthSession, 'current'> {
+  user_id: string
+  token: string
+}
+
+interface MockDatabase {
+  users: MockUser[]
+  sessions: MockSession[]
+}
+
+// ==================== Constants ====================
+
+const DATABASE_KEY = 'mock_auth_db'
+
+const SESSION_TTL_MS = 60 * 24 * 60 * 60 * 1000
+
+// 模拟网络延迟，便于观察加载状态
+const LATENCY_MS = 300
+
+// 预置账号，首次使用时可直接登录
+const DEMO_USER: MockUser = { id: 'mock-user-demo', username: 'demo', password: 'demo1234' }
+
+const EMPTY_PAGINATION: Pagination = {
+  page: 1,
+  page_size: 20,
+  total_count: 0,
+  total_pages: 0,
+  has_next: false,
+  has_prev: false,
+}
+
+// ==================== Helper Functions ====================
+
+function loadDatabase(): MockDatabase {
+  try {
+    const saved = deviceStorage.getItem(DATABASE_KEY)
+    if (saved) {
+      return JSON.parse(saved) as MockDatabase
+    }
+  } catch (error) {
+    console.error('[AuthMock] Failed to parse mock database:', error)
+  }
+
+  return { users: [DEMO_USER], sessions: [] }
+}
+
+function saveDatabase(db: MockDatabase): void {
+  deviceStorage.setItem(DATABASE_KEY, JSON.stringify(db))
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function fail(status: number, error: string, message: string): Response {
+  return json(status, { error, message })
+}
+
+/**
+ * 创建会话并返回与真实后端一致的登录响应
+ */
+function createSession(db: MockDatabase, user: MockUser, headers: Headers): Response {
+  const now = new Date()
+  const session: MockSession = {
+    id: crypto.randomUUID(),
+    user_id: user.id,
+    token: `mock-${crypto.randomUUID()}`,
+    created_at: now.toISOString(),
+    last_active_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+    user_agent: headers.get('User-Agent') ?? globalThis.navigator?.userAgent ?? null,
+    ip: '127.0.0.1',
+  }
+  db.sessions.push(session)
+  saveDatabase(db)
+
+  return json(200, {
+    data: {
+      token: session.token,
+      user: { id: user.id, username: user.username, has_password: true },
+      expires_at: session.expires_at,
+    },
+  })
+}
+
+/**
+ * 按 Bearer Token 查找有效会话，并刷新最近活跃时间
+ */
+function authenticate(db: MockDatabase, headers: Headers): MockSession | null {
+  const token = headers.get('Authorization')?.replace(/^Bearer\s+/, '')
+  const session = db.sessions.find(
+    (s) => s.token === token && new Date(s.expires_at).getTime() > Date.now()
+  )
+
+  if (session) {
+    session.last_active_at = new Date().toISOString()
+    saveDatabase(db)
+  }
+  return session ?? null
+}
+
+/**
+ * 处理账号接口请求
+ * @returns 不属于 Mock 范围的请求返回 null
+ */
+function handle(method: string, path: string, headers: Headers, body: string): Response | null {
+  const db = loadDatabase()
+  const params = (body ? JSON.parse(body) : {}) as Record<string, string>
+
+  if (method === 'POST' && path === AUTH_LOGIN_API) {
+    const user = db.users.find(
+      (u) => u.username === params.username && u.password === params.password
+    )
+    return user
+      ? createSession(db, user, headers)
+      : fail(401, 'invalid_credentials', 'Invalid username or password')
+  }
+
+  if (method === 'POST' && path === AUTH_REGISTER_API) {
+    const invalid =
+      validateUsername(params.username ?? '') ??
+      validatePassword(params.password ?? '', params.password ?? '')
+    if (invalid) {
+      return fail(400, 'validation_failed', invalid)
+    }
+    if (db.users.some((u) => u.username.toLowerCase() === params.username.toLowerCase())) {
+      return fail(409, 'username_taken', 'Username already exists')
+    }
+
+    const user = { id: crypto.randomUUID(), username: params.username, password: params.password }
+    db.users.push(user)
+    return createSession(db, user, headers)
+  }
+
+  // 以下接口都需要认证
+  const isAccountApi =
+    path.startsWith('/api/auth/') ||
+    path === USER_ACCOUNT_API ||
+    path.startsWith(`${USER_ACCOUNT_API}/`)
+  if (!isAccountApi) {
+    return null
+  }
+
+  const session = authenticate(db, headers)
+  if (!session) {
+    return fail(401, 'unauthorized', 'Invalid or expired session')
+  }
+  const user = db.users.find((u) => u.id === session.user_id)!
+
+  if (method === 'POST' && path === AUTH_LOGOUT_API) {
+    db.sessions = db.sessions.filter((s) => s.id !== session.id)
+    saveDatabase(db)
+    return json(200, { message: 'Logged out' })
+  }
+
+  if (method === 'PUT' && path === AUTH_PASSWORD_API) {
+    if (params.current_password !== user.password) {
+      return fail(400, 'invalid_password', 'Current password is incorrect')
+    }
+    const invalid = validatePassword(params.new_password ?? '', params.new_password ?? '')
+    if (invalid) {
+      return fail(400, 'validation_failed', invalid)
+    }
+
+    user.password = params.new_password
+    db.sessions = db.sessions.filter((s) => s.user_id !== user.id || s.id === session.id)
+    saveDatabase(db)
+    return json(200, { message: 'Password changed' })
+  }
+
+  if (method === 'GET' && path === AUTH_SESSIONS_API) {
+    const sessions: AuthSession[] = db.sessions
+      .filter((s) => s.user_id === user.id)
+      .map((s) => ({
+        id: s.id,
+        created_at: s.created_at,
+        last_active_at: s.last_active_at,
+        expires_at: s.expires_at,
+        user_agent: s.user_agent,
+        ip: s.ip,
+        current: s.id === session.id,
+      }))
+    return json(200, { data: sessions })
+  }
+
+  if (method === 'DELETE' && path.startsWith(`${AUTH_SESSIONS_API}/`)) {
+    const sessionId = path.slice(AUTH_SESSIONS_API.length + 1)
+    const target = db.sessions.find((s) => s.id === sessionId && s.user_id === user.id)
+    if (!target) {
+      return fail(404, 'not_found', 'Session not found')
+    }
+
+    db.sessions = db.sessions.filter((s) => s.id !== sessionId)
+    saveDatabase(db)
+    return json(200, { message: 'Session revoked' })
+  }
+
+  if (method === 'DELETE' && path === USER_ACCOUNT_API) {
+    if (params.password !== user.password) {
+      return fail(400, 'invalid_password', 'Password is incorrect')
+    }
+
+    db.users = db.users.filter((u) => u.id !== user.id)
+    db.sessions = db.sessions.filter((s) => s.user_id !== user.id)
+    saveDatabase(db)
+    return json(200, { message: 'Account deleted' })
+  }
+
+  // Mock 账号没有游戏库：读取返回空列表，写入返回 501（不会触发重新登录）
+  if (path.startsWith(`${USER_ACCOUNT_API}/`)) {
+    return method === 'GET'
+      ? json(200, { data: [], pagination: EMPTY_PAGINATION })
+      : fail(501, 'not_mocked', `${method} ${path} is not available in the auth mock`)
+  }
+
+  return fail(404, 'not_found', `${method} ${path} is not mocked`)
+}
+
+// ==================== Exports ====================
+
+/**
+ * 创建带账号接口 Mock 的 fetch
+ * 账号接口和当前用户的数据接口由 Mock 响应，其余请求（公开游戏数据、Steam、GitHub）交给 fallback
+ * @param baseUrl - 后端地址，只拦截发往该地址的请求
+ * @param fallback - 原始的 fetch
+ */
+function createAuthMockFetch(baseUrl: string, fallback: typeof fetch): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init)
+
+    // Happy Path: 不是发往后端的请求
+    if (!request.url.startsWith(baseUrl)) {
+      return fallback(input, init)
+    }
+
+    const path = request.url.slice(baseUrl.length).split('?')[0]
+    const response = handle(request.method, path, request.headers, await request.text())
+
+    // Happy Path: 不在 Mock 范围内
+    if (!response) {
+      return fallback(input, init)
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, LATENCY_MS))
+    console.log(`[AuthMock] ${request.method} ${path} -> ${response.status}`)
+    return response
+  }
+}
+
+export { createAuthMockFetch }
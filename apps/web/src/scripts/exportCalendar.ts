@@ -0,0 +1,41 @@
+#!/usr/bin/env tsx
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { GameQueueData } from '../types'
+import { createReleaseCalendar, getUpcomingReleases } from '../utils/releaseCalendar'
+
+// ==================== Constants ====================
+
+const CALENDAR_NAME = 'GameGallery 即将发售'
+
+// ==================== Main ====================
+
+/**
+ * 从 games.json 生成即将发售游戏的 .ics 文件
+ * 默认输出到 public/releases.ics，部署后可以在日历应用中通过
+ * <站点地址>/releases.ics 订阅，每次部署前重新生成即可更新订阅内容
+ */
+function main() {
+  const gamesJsonPath = process.argv[2] || path.join(process.cwd(), 'games.json')
+  const outputPath = process.argv[3] || path.join(process.cwd(), 'public', 'releases.ics')
+
+  if (!fs.existsSync(gamesJsonPath)) {
+    console.error(`❌ 错误: 找不到文件 ${gamesJsonPath}`)
+    console.error('\n使用方法:')
+    console.error('  npm run export-calendar [games.json路径] [输出路径]')
+    process.exit(1)
+  }
+
+  const data: GameQueueData = JSON.parse(fs.readFileSync(gamesJsonPath, 'utf-8'))
+  const releases = getUpcomingReleases(data.games)
+  const datedCount = releases.filter((item) => item.range).length
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true })
+  fs.writeFileSync(outputPath, createReleaseCalendar(releases, CALENDAR_NAME))
+
+  console.log(`📅 即将发售: ${releases.length} 个游戏（${datedCount} 个有日期）`)
+  console.log(`✅ 已写入 ${outputPath}`)
+}
+
+main()
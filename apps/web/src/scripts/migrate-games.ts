@@ -5,6 +5,8 @@
  * 从 GitHub games.json 迁移到后端数据库
  */
 
+import { apiClient } from '../services/apiClient'
+import { getToken, login } from '../services/auth'
 import { githubService } from '../services/github'
 import { migrateFromGitHub } from '../utils/dataMigration'
 
@@ -13,6 +15,9 @@ const GITHUB_TOKEN = process.env.GITHUB_TOKEN || ''
 const USERNAME = process.env.API_USERNAME || 'admin'
 const PASSWORD = process.env.API_PASSWORD || ''
 
+// 后端地址默认为线上环境，登录后使用返回的 token
+apiClient.configure({ baseUrl: process.env.GAME_GALLERY_API_URL, getToken })
+
 async function main() {
   console.log('=== 游戏数据迁移工具 ===\n')
 
@@ -48,7 +53,6 @@ async function main() {
 
   // 4. 登录后端
   console.log('🔐 登录后端...')
-  const { login } = await import('../services/auth')
   const user = await login({ username: USERNAME, password: PASSWORD })
 
   if (!user) {
@@ -2,349 +2,510 @@
 
 import * as fs from 'fs'
 import * as path from 'path'
+import { parseArgs } from 'util'
+import type { Game, GameQueueData, UpdateGameRequest, UpdateUserGameRequest } from '../types'
+import { apiClient } from '../services/apiClient'
+import { gameService } from '../services/game'
+import { steamImportService } from '../services/steamImport'
+import { userGameService } from '../services/userGame'
+import { runBatch } from '../utils/batch'
+import { extractAppIdFromSteamUrl, mergeGameData } from '../utils/gameDataMapper'
 
 // ==================== Types ====================
 
-interface GameJson {
-  id: string
-  name: string
-  status: 'playing' | 'queueing' | 'completion'
-  addedAt: string
-  lastUpdated: string
-  steamUrl?: string
-  coverImage?: string
-  positivePercentage?: number
-  totalReviews?: number
-  releaseDate?: string
-  comingSoon?: boolean
-  isEarlyAccess?: boolean
-  isPinned?: boolean
-  chinesePositivePercentage?: number
-  chineseTotalReviews?: number
-  genres?: Array<{
-    id: string
-    description: string
-  }>
+interface SyncOptions {
+  dryRun: boolean // 只预览变化，不写入后端
+  prune: boolean // 从游戏库中移除文件中没有的游戏
+  only: string[] // 只同步这些游戏（名称或 app_id）
+  statuses: string[] // 只同步这些状态的游戏
+  concurrency: number
+  delay: number // 每个请求完成后的等待时间（毫秒）
+  json: boolean // 输出 JSON 报告
 }
 
-interface GamesData {
-  games: GameJson[]
+/**
+ * 单个游戏的同步动作
+ * - create: 不在游戏库中，加入（后端还没有该游戏时先创建）
+ * - update: 已在游戏库中且有字段不同，更新
+ * - unchanged: 已在游戏库中且一致，不发送请求
+ * - skip: 缺少或无效的 Steam URL，无法加入
+ * - delete: 文件中没有，从游戏库中移除（--prune）
+ */
+type SyncAction = 'create' | 'update' | 'unchanged' | 'skip' | 'delete'
+
+interface FieldChange {
+  field: string
+  from: unknown
+  to: unknown
 }
 
-interface BackendGame {
-  id: string
-  app_id?: number
-  name: string
-  steam_url?: string
-  capsule_image?: string
-  status?: string
-  is_pinned?: boolean
-  created_at: string
-  updated_at: string
+interface GameSyncReport {
+  game: string
+  appId: number | null
+  action: SyncAction
+  changes: FieldChange[]
+  reason?: string // 跳过原因
+  error?: string // 写入失败原因
 }
 
 interface SyncResult {
+  dryRun: boolean
   total: number
   created: number
   updated: number
+  unchanged: number
   skipped: number
+  deleted: number
   failed: number
+  games: GameSyncReport[]
   errors: Array<{ game: string; error: string }>
 }
 
+// 同步计划中的一项
+interface SyncPlanItem {
+  report: GameSyncReport
+  game?: Game
+  existing?: Game
+}
+
+// ==================== Constants ====================
+
+const SERVER_PAGE_SIZE = 100
+const DEFAULT_CONCURRENCY = 1
+const DEFAULT_DELAY_MS = 500
+
+const USAGE = `使用方法:
+  export GAME_GALLERY_TOKEN="your_token_here"
+  export GAME_GALLERY_API_URL="http://localhost:8080"  # 可选，默认为线上后端
+  npm run sync-games -- [games.json路径] [选项]
+
+选项:
+  --dry-run            只预览每个游戏的字段变化，不写入后端
+  --prune              从游戏库中移除 games.json 中没有的游戏
+  --only <名称|app_id>  只同步指定游戏（可重复或用逗号分隔）
+  --status <状态>       只同步指定状态的游戏（playing / queueing / completion）
+  --concurrency <n>    同时进行的请求数（默认 ${DEFAULT_CONCURRENCY}）
+  --delay <ms>         每个请求完成后的等待时间（默认 ${DEFAULT_DELAY_MS}）
+  --json               输出 JSON 格式的同步报告
+  -h, --help           显示帮助`
+
 // ==================== Helper Functions ====================
 
 /**
- * 从 Steam URL 提取 App ID
+ * 解析命令行参数
+ * @returns 文件路径和选项，--help 时返回 null，参数无效时抛出异常
  */
-function extractAppIdFromSteamUrl(steamUrl: string): number | null {
-  const match = steamUrl.match(/\/app\/(\d+)/)
-  if (!match) {
+function parseOptions(argv: string[]): { gamesJsonPath: string; options: SyncOptions } | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      prune: { type: 'boolean', default: false },
+      only: { type: 'string', multiple: true, default: [] },
+      status: { type: 'string', multiple: true, default: [] },
+      concurrency: { type: 'string', default: String(DEFAULT_CONCURRENCY) },
+      delay: { type: 'string', default: String(DEFAULT_DELAY_MS) },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  // Happy Path: 显示帮助
+  if (values.help) {
     return null
   }
-  return parseInt(match[1])
-}
 
-/**
- * 获取后端所有游戏（支持分页）
- */
-async function fetchBackendGames(token: string): Promise<BackendGame[]> {
-  const allGames: BackendGame[] = []
-  let page = 1
-  let hasNext = true
-
-  while (hasNext) {
-    const response = await fetch(`https://degenerates.site/api/games?page=${page}&page_size=100`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch backend games: ${response.status} ${response.statusText}`)
-    }
+  const splitList = (list: string[]) =>
+    list
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter(Boolean)
 
-    const data = await response.json()
-    const games = data.data || []
-    allGames.push(...games)
+  const concurrency = Number(values.concurrency)
+  const delay = Number(values.delay)
 
-    // 检查是否还有下一页
-    hasNext = data.pagination?.has_next || false
-    page++
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`--concurrency 必须是正整数: ${values.concurrency}`)
+  }
+  if (!Number.isFinite(delay) || delay < 0) {
+    throw new Error(`--delay 必须是非负数: ${values.delay}`)
   }
 
-  return allGames
+  return {
+    gamesJsonPath: positionals[0] || path.join(process.cwd(), 'games.json'),
+    options: {
+      dryRun: values['dry-run'],
+      prune: values.prune,
+      only: splitList(values.only),
+      statuses: splitList(values.status),
+      concurrency,
+      delay,
+      json: values.json,
+    },
+  }
 }
 
 /**
- * 创建游戏
+ * 判断游戏是否符合 --only / --status 过滤条件
  */
-async function createGame(token: string, gameData: GameJson): Promise<boolean> {
-  if (!gameData.steamUrl) {
-    console.log(`  ⚠️  跳过 "${gameData.name}": 缺少 Steam URL`)
+function matchesFilters(
+  name: string,
+  appId: number | null | undefined,
+  status: string | undefined,
+  options: SyncOptions
+): boolean {
+  if (options.statuses.length > 0 && (!status || !options.statuses.includes(status))) {
     return false
   }
 
-  const appId = extractAppIdFromSteamUrl(gameData.steamUrl)
-  if (!appId) {
-    console.log(`  ⚠️  跳过 "${gameData.name}": 无效的 Steam URL`)
-    return false
+  if (options.only.length > 0) {
+    return options.only.some(
+      (value) => value.toLowerCase() === name.toLowerCase() || (!!appId && value === String(appId))
+    )
   }
 
-  // 注意：后端不支持存储好评率字段（positive_percentage, total_reviews 等）
-  // 只发送后端支持的字段
-  const payload = {
-    app_id: appId,
-    name: gameData.name,
-    type: 'game',
-    steam_url: gameData.steamUrl,
-    capsule_image: gameData.coverImage,
-    status: gameData.status,
-    is_pinned: gameData.isPinned || false,
-    release_date: gameData.releaseDate,
-    coming_soon: gameData.comingSoon,
-    is_early_access: gameData.isEarlyAccess,
-  }
+  return true
+}
 
-  const response = await fetch('https://degenerates.site/api/games', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  })
+// 会写入后端的字段：游戏信息通过 GameService 更新，书架和置顶通过 UserGameService 更新
+const INFO_FIELDS = {
+  name: 'name',
+  coverImage: 'capsule_image',
+  releaseDate: 'release_date',
+  comingSoon: 'coming_soon',
+  isEarlyAccess: 'is_early_access',
+} as const satisfies Partial<Record<keyof Game, keyof UpdateGameRequest>>
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Failed to create game: ${response.status} ${errorText}`)
-  }
+const LIBRARY_FIELDS = {
+  status: 'status',
+  isPinned: 'is_pinned',
+} as const satisfies Partial<Record<keyof Game, keyof UpdateUserGameRequest>>
 
-  return true
-}
+// 后端未返回时视为 false 的字段
+const BOOLEAN_FIELDS = new Set<keyof Game>(['comingSoon', 'isEarlyAccess', 'isPinned'])
 
 /**
- * 更新游戏
+ * 对比文件和游戏库的字段（只对比会写入后端的字段，文件中未填写的字段不会覆盖后端）
+ * @returns 不同的字段；不在游戏库中时返回所有将要写入的字段
  */
-async function updateGame(token: string, gameId: string, gameData: GameJson): Promise<boolean> {
-  // 注意：后端不支持存储好评率字段（positive_percentage, total_reviews 等）
-  // 只更新后端支持的字段
-  const payload = {
-    name: gameData.name,
-    capsule_image: gameData.coverImage,
-    release_date: gameData.releaseDate,
-    coming_soon: gameData.comingSoon,
-    is_early_access: gameData.isEarlyAccess,
-  }
+function diffGame(game: Game, existing?: Game): FieldChange[] {
+  const fields = [...Object.keys(INFO_FIELDS), ...Object.keys(LIBRARY_FIELDS)] as (keyof Game)[]
 
-  const response = await fetch(`https://degenerates.site/api/games/${gameId}`, {
-    method: 'PUT',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
+  return fields.flatMap((field) => {
+    const to = game[field]
+    const from = existing?.[field] ?? (existing && BOOLEAN_FIELDS.has(field) ? false : null)
+    return to !== undefined && from !== to ? [{ field, from, to }] : []
   })
+}
+
+/**
+ * 获取完整的游戏库（所有书架、所有分页）
+ */
+async function fetchLibrary(): Promise<Game[]> {
+  const games: Game[] = []
+  let page = 1
+  let hasNext = true
+
+  while (hasNext) {
+    const result = await userGameService.getUserGames({ page, page_size: SERVER_PAGE_SIZE })
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Failed to update game: ${response.status} ${errorText}`)
+    if (!result) {
+      throw new Error('获取游戏库失败，请检查 GAME_GALLERY_TOKEN 和后端地址')
+    }
+
+    games.push(...mergeGameData(result.data, null))
+    hasNext = result.pagination.has_next
+    page++
   }
 
-  return true
+  return games
 }
 
 /**
- * 更新游戏状态
+ * 按字段变化更新游戏信息和游戏库状态
  */
-async function updateGameStatus(token: string, gameId: string, status: string): Promise<boolean> {
-  const response = await fetch(`https://degenerates.site/api/games/${gameId}/status`, {
-    method: 'PATCH',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ status }),
-  })
+async function applyChanges(gameId: string, changes: FieldChange[]): Promise<void> {
+  const infoUpdates: Record<string, unknown> = {}
+  const libraryUpdates: Record<string, unknown> = {}
+
+  for (const { field, to } of changes) {
+    if (field in INFO_FIELDS) {
+      infoUpdates[INFO_FIELDS[field as keyof typeof INFO_FIELDS]] = to
+    } else if (field in LIBRARY_FIELDS) {
+      libraryUpdates[LIBRARY_FIELDS[field as keyof typeof LIBRARY_FIELDS]] = to
+    }
+  }
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Failed to update game status: ${response.status} ${errorText}`)
+  if (Object.keys(infoUpdates).length > 0) {
+    const updated = await gameService.updateGame(gameId, infoUpdates as UpdateGameRequest)
+    if (!updated) {
+      throw new Error('更新游戏信息失败')
+    }
   }
 
-  return true
+  if (Object.keys(libraryUpdates).length > 0) {
+    const updated = await userGameService.updateUserGame(
+      gameId,
+      libraryUpdates as UpdateUserGameRequest
+    )
+    if (!updated) {
+      throw new Error('更新书架或置顶失败')
+    }
+  }
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? '∅' : JSON.stringify(value)
+}
+
+const ACTION_LABELS: Record<SyncAction, string> = {
+  create: '➕ 创建游戏',
+  update: '🔄 更新游戏',
+  unchanged: '✔️  无变化',
+  skip: '⚠️  跳过',
+  delete: '🗑️  移除游戏',
 }
 
 // ==================== Main Sync Function ====================
 
-async function syncGames(token: string, gamesJsonPath: string): Promise<SyncResult> {
-  const result: SyncResult = {
-    total: 0,
-    created: 0,
-    updated: 0,
-    skipped: 0,
-    failed: 0,
-    errors: [],
+/**
+ * 对比 games.json 和游戏库，生成同步计划
+ */
+function planSync(games: Game[], library: Game[], options: SyncOptions) {
+  // 创建映射表（按 app_id 和名称）
+  const libraryByAppId = new Map<number, Game>()
+  const libraryByName = new Map<string, Game>()
+
+  for (const game of library) {
+    const appId = game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+    if (appId) {
+      libraryByAppId.set(appId, game)
+    }
+    libraryByName.set(game.name.toLowerCase(), game)
   }
 
-  // 1. 读取 games.json
-  console.log('📖 读取 games.json...')
-  const gamesData: GamesData = JSON.parse(fs.readFileSync(gamesJsonPath, 'utf-8'))
-  result.total = gamesData.games.length
-  console.log(`   找到 ${result.total} 个游戏\n`)
+  const plan: SyncPlanItem[] = []
+  // 文件中所有游戏匹配到的游戏库游戏（不受过滤条件影响，避免 --prune 误删）
+  const matchedIds = new Set<string>()
 
-  // 2. 获取后端现有游戏
-  console.log('🔍 获取后端现有游戏...')
-  const backendGames = await fetchBackendGames(token)
-  console.log(`   后端已有 ${backendGames.length} 个游戏\n`)
+  for (const game of games) {
+    const appId = game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+    const existing =
+      (appId ? libraryByAppId.get(appId) : undefined) ?? libraryByName.get(game.name.toLowerCase())
 
-  // 创建映射表（按 app_id 和名称）
-  const backendGamesByAppId = new Map<number, BackendGame>()
-  const backendGamesByName = new Map<string, BackendGame>()
+    if (existing) {
+      matchedIds.add(existing.id)
+    }
 
-  for (const game of backendGames) {
-    if (game.app_id) {
-      backendGamesByAppId.set(game.app_id, game)
+    if (!matchesFilters(game.name, appId, game.status, options)) {
+      continue
     }
-    backendGamesByName.set(game.name.toLowerCase(), game)
-  }
 
-  // 3. 同步每个游戏
-  console.log('🔄 开始同步游戏...\n')
+    const report: GameSyncReport = {
+      game: game.name,
+      appId,
+      action: 'create',
+      changes: diffGame(game, existing),
+    }
 
-  for (let i = 0; i < gamesData.games.length; i++) {
-    const game = gamesData.games[i]
-    const progress = `[${i + 1}/${result.total}]`
+    if (existing) {
+      report.action = report.changes.length > 0 ? 'update' : 'unchanged'
+    } else if (!appId) {
+      report.action = 'skip'
+      report.changes = []
+      report.reason = game.steamUrl ? '无效的 Steam URL' : '缺少 Steam URL'
+    }
 
-    try {
-      // 提取 app_id
-      const appId = game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+    plan.push({ report, game, existing })
+  }
 
-      // 查找后端是否已存在
-      let existingGame: BackendGame | undefined
+  if (options.prune) {
+    for (const existing of library) {
+      const appId = existing.steamUrl ? extractAppIdFromSteamUrl(existing.steamUrl) : null
 
-      if (appId) {
-        existingGame = backendGamesByAppId.get(appId)
+      if (
+        matchedIds.has(existing.id) ||
+        !matchesFilters(existing.name, appId, existing.status, options)
+      ) {
+        continue
       }
 
-      if (!existingGame) {
-        existingGame = backendGamesByName.get(game.name.toLowerCase())
-      }
+      plan.push({
+        report: { game: existing.name, appId, action: 'delete', changes: [] },
+        existing,
+      })
+    }
+  }
 
-      if (existingGame) {
-        // 游戏已存在，更新
-        console.log(`${progress} 🔄 更新游戏: ${game.name}`)
+  return plan
+}
 
-        await updateGame(token, existingGame.id, game)
+/**
+ * 执行同步计划中的一项
+ */
+async function executePlanItem({ report, game, existing }: SyncPlanItem): Promise<void> {
+  if (report.action === 'update') {
+    await applyChanges(existing!.id, report.changes)
+  } else if (report.action === 'delete') {
+    const removed = await userGameService.removeUserGame(existing!.id)
+    if (!removed) {
+      throw new Error('从游戏库中移除失败')
+    }
+  } else if (report.action === 'create') {
+    const added = await steamImportService.addSteamApp({
+      appId: report.appId!,
+      name: game!.name,
+      status: game!.status,
+      sortOrder: game!.sortOrder ?? 0,
+      steamUrl: game!.steamUrl,
+      coverImage: game!.coverImage,
+      positivePercentage: game!.positivePercentage,
+      totalReviews: game!.totalReviews,
+      releaseDate: game!.releaseDate,
+      comingSoon: game!.comingSoon,
+      isEarlyAccess: game!.isEarlyAccess,
+    })
 
-        // 如果状态不同，也更新状态
-        if (existingGame.status !== game.status) {
-          await updateGameStatus(token, existingGame.id, game.status)
-          console.log(`          └─ 状态: ${existingGame.status} → ${game.status}`)
-        }
+    if ('error' in added) {
+      throw new Error(added.message)
+    }
 
-        result.updated++
-      } else {
-        // 游戏不存在，尝试创建
-        console.log(`${progress} ➕ 创建游戏: ${game.name}`)
+    // 加入时默认不置顶
+    await applyChanges(
+      added.game.id,
+      diffGame(game!, added.game).filter((c) => c.field === 'isPinned')
+    )
+  }
+}
 
-        try {
-          const created = await createGame(token, game)
+async function syncGames(
+  gamesJsonPath: string,
+  options: SyncOptions,
+  log: (message: string) => void
+): Promise<SyncResult> {
+  // 1. 读取 games.json
+  log('📖 读取 games.json...')
+  const gamesData: GameQueueData = JSON.parse(fs.readFileSync(gamesJsonPath, 'utf-8'))
+  log(`   找到 ${gamesData.games.length} 个游戏\n`)
+
+  // 2. 获取游戏库
+  log(`🔍 获取游戏库（${apiClient.getBaseUrl()}）...`)
+  const library = await fetchLibrary()
+  log(`   游戏库已有 ${library.length} 个游戏\n`)
+
+  // 3. 生成同步计划
+  const plan = planSync(gamesData.games, library, options)
+  const pending = plan.filter(({ report }) =>
+    ['create', 'update', 'delete'].includes(report.action)
+  )
+
+  const printReport = (report: GameSyncReport, progress: string) => {
+    log(`${progress} ${ACTION_LABELS[report.action]}: ${report.game}`)
+    for (const change of report.changes) {
+      log(`          └─ ${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`)
+    }
+    if (report.reason) {
+      log(`          └─ ${report.reason}`)
+    }
+  }
 
-          if (created) {
-            result.created++
-          } else {
-            result.skipped++
-          }
+  if (options.dryRun) {
+    // 预览模式：只打印计划
+    log('👀 预览模式，不会写入后端\n')
+    plan.forEach(({ report }, i) => printReport(report, `[${i + 1}/${plan.length}]`))
+  } else {
+    // 4. 执行计划（无变化和跳过的游戏不发送请求）
+    log(`🔄 开始同步游戏（${pending.length} 个需要写入）...\n`)
+
+    let completed = 0
+    await runBatch(
+      pending,
+      async (item) => {
+        try {
+          await executePlanItem(item)
         } catch (error) {
-          // 如果是 409 冲突，说明游戏已存在但名称不匹配，尝试通过 app_id 查找并更新
-          if (error instanceof Error && error.message.includes('409')) {
-            console.log(`          └─ 游戏已存在（app_id 冲突），尝试查找并更新...`)
-
-            // 重新获取后端游戏列表（因为刚才可能没匹配上）
-            const freshBackendGames = await fetchBackendGames(token)
-            const matchedGame = appId
-              ? freshBackendGames.find((g) => g.app_id === appId)
-              : undefined
-
-            if (matchedGame) {
-              console.log(`          └─ 找到匹配游戏: "${matchedGame.name}"`)
-              await updateGame(token, matchedGame.id, game)
-
-              // 如果状态不同，也更新状态
-              if (matchedGame.status !== game.status) {
-                await updateGameStatus(token, matchedGame.id, game.status)
-                console.log(`          └─ 状态: ${matchedGame.status} → ${game.status}`)
-              }
-
-              result.updated++
-            } else {
-              throw error // 找不到匹配游戏，抛出原错误
-            }
-          } else {
-            throw error // 其他错误直接抛出
-          }
+          item.report.error = error instanceof Error ? error.message : String(error)
         }
-      }
-    } catch (error) {
-      console.log(`${progress} ❌ 失败: ${game.name}`)
-      console.log(`          └─ 错误: ${error instanceof Error ? error.message : String(error)}`)
-
-      result.failed++
-      result.errors.push({
-        game: game.name,
-        error: error instanceof Error ? error.message : String(error),
-      })
-    }
 
-    // 添加延迟避免请求过快
-    if (i < gamesData.games.length - 1) {
-      await new Promise((resolve) => setTimeout(resolve, 500))
-    }
+        completed++
+        const progress = `[${completed}/${pending.length}]`
+        if (item.report.error) {
+          log(`${progress} ❌ 失败: ${item.report.game}`)
+          log(`          └─ 错误: ${item.report.error}`)
+        } else {
+          printReport(item.report, progress)
+        }
+
+        // 添加延迟避免请求过快
+        await new Promise((resolve) => setTimeout(resolve, options.delay))
+        return true
+      },
+      { concurrency: options.concurrency }
+    )
   }
 
-  return result
+  // 5. 汇总结果（失败的游戏不计入对应动作）
+  const reports = plan.map(({ report }) => report)
+  const succeeded = (action: SyncAction) =>
+    reports.filter((report) => report.action === action && !report.error).length
+  const failedReports = reports.filter((report) => report.error)
+
+  return {
+    dryRun: options.dryRun,
+    total: plan.length,
+    created: succeeded('create'),
+    updated: succeeded('update'),
+    unchanged: succeeded('unchanged'),
+    skipped: succeeded('skip'),
+    deleted: succeeded('delete'),
+    failed: failedReports.length,
+    games: reports,
+    errors: failedReports.map((report) => ({ game: report.game, error: report.error! })),
+  }
 }
 
 // ==================== CLI Entry Point ====================
 
 async function main() {
-  console.log('🎮 游戏数据同步工具\n')
-  console.log('='.repeat(60) + '\n')
+  let parsed: ReturnType<typeof parseOptions>
+  try {
+    parsed = parseOptions(process.argv.slice(2))
+  } catch (error) {
+    console.error(`❌ 错误: ${error instanceof Error ? error.message : String(error)}\n`)
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  // Happy Path: 显示帮助
+  if (!parsed) {
+    console.log(USAGE)
+    return
+  }
+
+  const { gamesJsonPath, options } = parsed
+  // JSON 模式下标准输出只包含报告，服务层的日志改为输出到 stderr
+  const log = options.json ? () => {} : (message: string) => console.log(message)
+  const writeOutput = console.log
+  if (options.json) {
+    console.log = console.error
+  }
+
+  log('🎮 游戏数据同步工具\n')
+  log('='.repeat(60) + '\n')
 
   // 获取参数
   const token = process.env.GAME_GALLERY_TOKEN
-  const gamesJsonPath = process.argv[2] || path.join(process.cwd(), 'games.json')
 
   // 验证参数
   if (!token) {
     console.error('❌ 错误: 请设置环境变量 GAME_GALLERY_TOKEN')
-    console.error('\n使用方法:')
-    console.error('  export GAME_GALLERY_TOKEN="your_token_here"')
-    console.error('  npm run sync-games [games.json路径]')
+    console.error(`\n${USAGE}`)
     process.exit(1)
   }
 
+  apiClient.configure({ baseUrl: process.env.GAME_GALLERY_API_URL, getToken: () => token })
+
   if (!fs.existsSync(gamesJsonPath)) {
     console.error(`❌ 错误: 找不到文件 ${gamesJsonPath}`)
     process.exit(1)
@@ -352,26 +513,32 @@ async function main() {
 
   try {
     // 执行同步
-    const result = await syncGames(token, gamesJsonPath)
-
-    // 打印结果
-    console.log('\n' + '='.repeat(60))
-    console.log('✅ 同步完成！\n')
-    console.log(`📊 统计信息:`)
-    console.log(`   总计:   ${result.total} 个游戏`)
-    console.log(`   新增:   ${result.created} 个`)
-    console.log(`   更新:   ${result.updated} 个`)
-    console.log(`   跳过:   ${result.skipped} 个`)
-    console.log(`   失败:   ${result.failed} 个`)
-
-    if (result.errors.length > 0) {
-      console.log('\n❌ 错误详情:')
-      for (const error of result.errors) {
-        console.log(`   - ${error.game}: ${error.error}`)
+    const result = await syncGames(gamesJsonPath, options, log)
+
+    if (options.json) {
+      writeOutput(JSON.stringify(result, null, 2))
+    } else {
+      // 打印结果
+      log('\n' + '='.repeat(60))
+      log(result.dryRun ? '👀 预览完成（未写入后端）\n' : '✅ 同步完成！\n')
+      log(`📊 统计信息:`)
+      log(`   总计:   ${result.total} 个游戏`)
+      log(`   新增:   ${result.created} 个`)
+      log(`   更新:   ${result.updated} 个`)
+      log(`   无变化: ${result.unchanged} 个`)
+      log(`   跳过:   ${result.skipped} 个`)
+      log(`   移除:   ${result.deleted} 个`)
+      log(`   失败:   ${result.failed} 个`)
+
+      if (result.errors.length > 0) {
+        log('\n❌ 错误详情:')
+        for (const error of result.errors) {
+          log(`   - ${error.game}: ${error.error}`)
+        }
       }
-    }
 
-    console.log('\n' + '='.repeat(60))
+      log('\n' + '='.repeat(60))
+    }
 
     // 如果有失败，退出码为 1
     if (result.failed > 0) {
@@ -0,0 +1,120 @@
+import { BACKEND_PRESETS } from '../constants/api'
+
+// ==================== Types ====================
+
+/**
+ * API 客户端的运行环境
+ * 浏览器和 Node（CLI、迁移脚本）各自在入口处注入，服务层不直接依赖 import.meta.env 或 localStorage
+ */
+interface ApiClientOptions {
+  baseUrl: string // 后端地址，如 https://degenerates.site
+  getToken: () => string | null // 当前的 Bearer Token
+  fetch: typeof fetch
+  // 后端拒绝 Token（401/403）时调用，返回 true 表示已重新认证、可以重试原请求
+  onUnauthorized: () => Promise<boolean>
+}
+
+interface ApiRequestInit extends RequestInit {
+  auth?: boolean // 是否携带 Bearer Token 并处理认证失败，默认 true（公开接口传 false）
+}
+
+// ==================== Constants ====================
+
+const DEFAULT_API_BASE_URL = BACKEND_PRESETS.production
+
+// 表示 Token 失效的响应状态
+const UNAUTHORIZED_STATUSES = new Set([401, 403])
+
+// ==================== Main Class ====================
+
+/**
+ * 后端 API 客户端
+ * 负责拼接后端地址、添加 JSON 和认证 headers，Token 被拒绝时等待重新认证后重试一次
+ * 响应的解析和其余错误处理由各服务负责
+ */
+class ApiClient {
+  private options: ApiClientOptions = {
+    baseUrl: DEFAULT_API_BASE_URL,
+    getToken: () => null,
+    // 延迟读取全局 fetch，便于在 Node 中替换
+    fetch: (input, init) => fetch(input, init),
+    onUnauthorized: async () => false,
+  }
+
+  /**
+   * 注入运行环境，未提供（或为空）的选项保持不变
+   */
+  configure(options: Partial<ApiClientOptions>): void {
+    this.options = {
+      baseUrl: options.baseUrl?.replace(/\/+$/, '') || this.options.baseUrl,
+      getToken: options.getToken ?? this.options.getToken,
+      fetch: options.fetch ?? this.options.fetch,
+      onUnauthorized: options.onUnauthorized ?? this.options.onUnauthorized,
+    }
+  }
+
+  getBaseUrl(): string {
+    return this.options.baseUrl
+  }
+
+  /**
+   * 创建使用另一个后端地址的客户端，共享 Token 和 fetch
+   * 用于切换后端前测试连接，认证失败时不触发重新登录
+   */
+  withBaseUrl(baseUrl: string): ApiClient {
+    const client = new ApiClient()
+    client.configure({ ...this.options, baseUrl, onUnauthorized: async () => false })
+    return client
+  }
+
+  /**
+   * 拼接完整的后端地址
+   * @param path - constants/api 中的接口路径（以 / 开头，可带查询参数）
+   */
+  resolve(path: string): string {
+    return `${this.options.baseUrl}${path}`
+  }
+
+  /**
+   * 发送请求
+   * 需要认证的请求返回 401/403 时调用 onUnauthorized，重新认证成功后使用新 Token 重试一次
+   * @param path - 接口路径
+   * @param init - fetch 参数，auth 为 false 时不携带 Token
+   * @returns 原始响应（重试时为重试的响应），网络错误时抛出异常（与 fetch 一致）
+   */
+  async request(path: string, init: ApiRequestInit = {}): Promise<Response> {
+    const response = await this.send(path, init)
+
+    // Happy Path: 公开接口或不是认证失败
+    if (init.auth === false || !UNAUTHORIZED_STATUSES.has(response.status)) {
+      return response
+    }
+
+    const reauthenticated = await this.options.onUnauthorized()
+    return reauthenticated ? this.send(path, init) : response
+  }
+
+  private send(path: string, init: ApiRequestInit): Promise<Response> {
+    const { auth = true, headers, ...rest } = init
+    const requestHeaders = new Headers(headers)
+    if (!requestHeaders.has('Content-Type')) {
+      requestHeaders.set('Content-Type', 'application/json')
+    }
+
+    const token = auth ? this.options.getToken() : null
+    if (token && !requestHeaders.has('Authorization')) {
+      requestHeaders.set('Authorization', `Bearer ${token}`)
+    }
+
+    return this.options.fetch(this.resolve(path), { ...rest, headers: requestHeaders })
+  }
+}
+
+// ==================== Service Instance ====================
+
+const apiClient = new ApiClient()
+
+// ==================== Exports ====================
+
+export type { ApiClientOptions, ApiRequestInit }
+export { ApiClient, DEFAULT_API_BASE_URL, apiClient }
@@ -1,16 +1,67 @@
 /**
  * 认证服务
  * 使用 Cookie-based Session Token 认证
- * 提供密码登录、登出、Token 管理等功能
+ * 提供密码登录、第三方登录（Steam OpenID、GitHub OAuth）、注册、登出、修改密码、会话管理、删除账号和 Token 管理等功能
+ * Token 过期或被后端拒绝时，由 apiClient 调用 requestReauthentication 提示重新登录
  */
 
-import { AUTH_LOGIN_API, AUTH_LOGOUT_API } from '@/constants/api'
-import type { User, AuthResponse, LoginRequest } from '@/types'
+import {
+  AUTH_LOGIN_API,
+  AUTH_LOGOUT_API,
+  AUTH_PASSWORD_API,
+  AUTH_REGISTER_API,
+  AUTH_SESSIONS_API,
+  GITHUB_OAUTH_AUTHORIZE_URL,
+  STEAM_OPENID_LOGIN_URL,
+  USER_ACCOUNT_API,
+  getAuthOAuthCallbackApiUrl,
+  getAuthSessionApiUrl,
+  getUserIdentityApiUrl,
+} from '../constants/api'
+import type {
+  User,
+  AuthResponse,
+  AuthSession,
+  AuthSessionsResponse,
+  ChangePasswordRequest,
+  DeleteAccountRequest,
+  LoginRequest,
+  OAuthCallbackResult,
+  OAuthIntent,
+  OAuthProvider,
+  RegisterRequest,
+  UserResponse,
+} from '../types'
+import { storage } from '../utils/storage'
+import { apiClient } from './apiClient'
+import { localStore } from './localStore'
 
 // ==================== Constants ====================
 
 const TOKEN_KEY = 'session_token'
 const USER_KEY = 'auth_user'
+const EXPIRES_KEY = 'session_expires_at'
+
+// 后端未返回过期时间时使用的 Token 有效期
+const SESSION_TTL_MS = 60 * 24 * 60 * 60 * 1000
+
+// 跳转第三方登录前保存的状态（sessionStorage，只在当前标签页内有效）
+const OAUTH_PENDING_KEY = 'oauth_pending'
+
+// 回调地址上标记第三方登录的参数，值为 provider
+const OAUTH_PARAM = 'oauth'
+
+// 回调处理完成后从地址栏移除的参数（Steam 返回 openid.*，GitHub 返回 code / state / error）
+const OAUTH_CALLBACK_PARAMS = [OAUTH_PARAM, 'state', 'code', 'error', 'error_description']
+
+// 第三方登录方式的显示名称
+const OAUTH_PROVIDER_NAMES: Record<OAuthProvider, string> = {
+  steam: 'Steam',
+  github: 'GitHub',
+}
+
+// GitHub OAuth App 的 Client ID，未配置时不显示 GitHub 登录
+const GITHUB_CLIENT_ID: string | undefined = import.meta.env?.VITE_GITHUB_CLIENT_ID
 
 // ==================== Types ====================
 
@@ -19,12 +70,40 @@ interface ApiErrorResponse {
   message: string
 }
 
+interface PendingOAuth {
+  provider: OAuthProvider
+  intent: OAuthIntent
+  state: string
+  returnUrl: string // 跳转时使用的回调地址，后端校验时需要原样提供
+}
+
 // ==================== User Management ====================
 
+const authListeners = new Set<() => void>()
+
+function notifyAuthChange(): void {
+  for (const listener of authListeners) {
+    listener()
+  }
+}
+
+/**
+ * 订阅登录状态变化（登录、注册、登出、Token 失效、删除账号）
+ * 用于同步多个组件中的 useAuth 状态
+ * @returns 取消订阅函数
+ */
+function subscribeAuthChange(listener: () => void): () => void {
+  authListeners.add(listener)
+  return () => {
+    authListeners.delete(listener)
+  }
+}
+
 /**
  * 保存认证信息到本地存储
+ * @param expiresAt - Token 过期时间，未提供时按有效期计算
  */
-function saveAuthData(token: string, user: User): void {
+function saveAuthData(token: string, user: User, expiresAt?: string): void {
   if (!token || token.trim() === '') {
     console.error('[Auth] Cannot save auth data: Invalid token')
     return
@@ -35,15 +114,17 @@ function saveAuthData(token: string, user: User): void {
     return
   }
 
-  localStorage.setItem(TOKEN_KEY, token)
-  localStorage.setItem(USER_KEY, JSON.stringify(user))
+  storage.setItem(TOKEN_KEY, token)
+  storage.setItem(USER_KEY, JSON.stringify(user))
+  storage.setItem(EXPIRES_KEY, expiresAt ?? new Date(Date.now() + SESSION_TTL_MS).toISOString())
+  notifyAuthChange()
 }
 
 /**
  * 获取保存的用户信息
  */
 function getUser(): User | null {
-  const userJson = localStorage.getItem(USER_KEY)
+  const userJson = storage.getItem(USER_KEY)
 
   if (!userJson) {
     return null
@@ -57,23 +138,153 @@ function getUser(): User | null {
   }
 }
 
+/**
+ * 判断保存的 token 是否已过期
+ * 旧版本没有保存过期时间，视为未过期，由后端判断
+ */
+function isTokenExpired(): boolean {
+  const expiresAt = storage.getItem(EXPIRES_KEY)
+  return !!expiresAt && new Date(expiresAt).getTime() <= Date.now()
+}
+
 /**
  * 获取保存的 token
+ * @returns 已过期时返回 null（请求会被后端拒绝，进而提示重新登录）
  */
 function getToken(): string | null {
-  return localStorage.getItem(TOKEN_KEY)
+  return isTokenExpired() ? null : storage.getItem(TOKEN_KEY)
 }
 
 /**
  * 清除认证信息
  */
 function clearAuthData(): void {
-  localStorage.removeItem(TOKEN_KEY)
-  localStorage.removeItem(USER_KEY)
+  storage.removeItem(TOKEN_KEY)
+  storage.removeItem(USER_KEY)
+  storage.removeItem(EXPIRES_KEY)
+  notifyAuthChange()
+}
+
+// ==================== Re-authentication ====================
+
+let reauthPromise: Promise<boolean> | null = null
+let resolveReauth: ((success: boolean) => void) | null = null
+let reauthUserId: string | null = null // 会话失效前登录的用户
+const reauthListeners = new Set<(pending: boolean) => void>()
+
+function finishReauthentication(success: boolean): void {
+  resolveReauth?.(success)
+  reauthPromise = null
+  resolveReauth = null
+  reauthUserId = null
+
+  for (const listener of reauthListeners) {
+    listener(false)
+  }
+}
+
+/**
+ * 请求重新登录
+ * 后端拒绝 token（401/403）时由 apiClient 调用：清除失效的认证信息并通知界面弹出登录框
+ * 同时失败的多个请求共享同一次登录
+ * @returns 重新登录成功返回 true（请求可以重试），取消或从未登录返回 false
+ */
+function requestReauthentication(): Promise<boolean> {
+  // Happy Path: 已经在等待重新登录
+  if (reauthPromise) {
+    return reauthPromise
+  }
+
+  // Happy Path: 从未登录，不需要提示
+  const user = getUser()
+  if (!user) {
+    return Promise.resolve(false)
+  }
+
+  console.warn('[Auth] Session rejected by server, waiting for re-login')
+  reauthUserId = user.id
+  clearAuthData()
+  reauthPromise = new Promise((resolve) => {
+    resolveReauth = resolve
+  })
+
+  for (const listener of reauthListeners) {
+    listener(true)
+  }
+
+  return reauthPromise
+}
+
+/**
+ * 取消重新登录，等待中的请求按失败处理
+ */
+function cancelReauthentication(): void {
+  if (reauthPromise) {
+    finishReauthentication(false)
+  }
+}
+
+/**
+ * 订阅重新登录状态
+ * @param listener - 参数为是否正在等待重新登录
+ * @returns 取消订阅函数
+ */
+function subscribeReauthentication(listener: (pending: boolean) => void): () => void {
+  reauthListeners.add(listener)
+  return () => {
+    reauthListeners.delete(listener)
+  }
+}
+
+function isReauthenticationPending(): boolean {
+  return reauthPromise !== null
 }
 
 // ==================== API Methods ====================
 
+/**
+ * 处理登录或注册的响应：保存 token 和用户信息
+ * @param action - 日志中的操作名称
+ * @returns 成功返回用户信息，失败返回 null
+ */
+async function handleAuthResponse(response: Response, action: string): Promise<User | null> {
+  if (!response.ok) {
+    // 网关错误（502/504 等）返回的可能不是 JSON
+    try {
+      const error = (await response.json()) as ApiErrorResponse
+      console.error(`[Auth] ${action} failed: ${response.status} - ${error.message}`)
+    } catch {
+      console.error(`[Auth] ${action} failed: ${response.status} ${response.statusText}`)
+    }
+    return null
+  }
+
+  const data = (await response.json()) as AuthResponse
+
+  if (!data.data || !data.data.token || !data.data.user) {
+    console.error('[Auth] Invalid response: missing token or user')
+    return null
+  }
+
+  // 重新登录时换了一个账号：之前的请求按失败处理，并像登出一样丢弃上一个用户的游戏库镜像和待同步变更
+  // 在保存新的认证信息之前处理，避免之前的请求以新用户的身份继续执行
+  if (reauthPromise && data.data.user.id !== reauthUserId) {
+    console.warn('[Auth] Signed in as a different user, discarding pending changes')
+    finishReauthentication(false)
+    await localStore.clear()
+  }
+
+  // 保存 token 和用户信息
+  saveAuthData(data.data.token, data.data.user, data.data.expires_at)
+  console.log(`[Auth] ${action} successful, token saved`)
+
+  // 重新登录完成，重试之前被拒绝的请求
+  if (reauthPromise) {
+    finishReauthentication(true)
+  }
+  return data.data.user
+}
+
 /**
  * 密码登录
  * @param params - 登录参数（用户名和密码）
@@ -81,33 +292,35 @@ function clearAuthData(): void {
  */
 async function login(params: LoginRequest): Promise<User | null> {
   try {
-    const response = await fetch(AUTH_LOGIN_API, {
+    const response = await apiClient.request(AUTH_LOGIN_API, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      auth: false,
       body: JSON.stringify(params),
     })
 
-    if (!response.ok) {
-      const error = (await response.json()) as ApiErrorResponse
-      console.error(`[Auth] Login failed: ${response.status} - ${error.message}`)
-      return null
-    }
-
-    const data = (await response.json()) as AuthResponse
+    return await handleAuthResponse(response, 'Login')
+  } catch (error) {
+    console.error('[Auth] Error during login:', error)
+    return null
+  }
+}
 
-    if (!data.data || !data.data.token || !data.data.user) {
-      console.error('[Auth] Invalid response: missing token or user')
-      return null
-    }
+/**
+ * 注册并直接登录
+ * 用户名和密码需先通过 utils/credentials 的校验
+ * @returns 注册成功返回用户信息，失败（包括用户名已存在）返回 null
+ */
+async function register(params: RegisterRequest): Promise<User | null> {
+  try {
+    const response = await apiClient.request(AUTH_REGISTER_API, {
+      method: 'POST',
+      auth: false,
+      body: JSON.stringify({ ...params, username: params.username.trim() }),
+    })
 
-    // 保存 token 和用户信息
-    saveAuthData(data.data.token, data.data.user)
-    console.log('[Auth] Login successful, token saved')
-    return data.data.user
+    return await handleAuthResponse(response, 'Register')
   } catch (error) {
-    console.error('[Auth] Error during login:', error)
+    console.error('[Auth] Error during register:', error)
     return null
   }
 }
@@ -121,8 +334,10 @@ async function logout(): Promise<boolean> {
 
   if (token) {
     try {
-      const response = await fetch(AUTH_LOGOUT_API, {
+      // 显式携带 token，登出失败时不触发重新登录
+      const response = await apiClient.request(AUTH_LOGOUT_API, {
         method: 'POST',
+        auth: false,
         headers: {
           Authorization: `Bearer ${token}`,
         },
@@ -136,12 +351,354 @@ async function logout(): Promise<boolean> {
     }
   }
 
-  // 无论服务器响应如何，都清除本地认证信息
+  // 无论服务器响应如何，都清除本地认证信息和游戏库镜像
   clearAuthData()
+  await localStore.clear()
   console.log('[Auth] Logout successful, token cleared')
   return true
 }
 
+/**
+ * 修改密码
+ * 成功后其他设备需要重新登录，当前设备的 token 保持有效
+ * @returns 成功返回 true，当前密码错误或请求失败返回 false
+ */
+async function changePassword(params: ChangePasswordRequest): Promise<boolean> {
+  try {
+    const response = await apiClient.request(AUTH_PASSWORD_API, {
+      method: 'PUT',
+      body: JSON.stringify(params),
+    })
+
+    if (!response.ok) {
+      console.error(`[Auth] Failed to change password: ${response.status} ${response.statusText}`)
+      return false
+    }
+
+    console.log('[Auth] Password changed')
+    return true
+  } catch (error) {
+    console.error('[Auth] Error changing password:', error)
+    return false
+  }
+}
+
+/**
+ * 获取当前用户的登录会话列表
+ * @returns 成功返回会话列表（当前会话在前，其余按最近活跃排序），失败返回 null
+ */
+async function getSessions(): Promise<AuthSession[] | null> {
+  try {
+    const response = await apiClient.request(AUTH_SESSIONS_API)
+
+    if (!response.ok) {
+      console.error(`[Auth] Failed to get sessions: ${response.status} ${response.statusText}`)
+      return null
+    }
+
+    const data = (await response.json()) as AuthSessionsResponse
+
+    return [...data.data].sort(
+      (a, b) =>
+        Number(b.current) - Number(a.current) || b.last_active_at.localeCompare(a.last_active_at)
+    )
+  } catch (error) {
+    console.error('[Auth] Error getting sessions:', error)
+    return null
+  }
+}
+
+/**
+ * 注销其他设备上的登录会话
+ * 当前会话请使用 logout
+ * @returns 成功返回 true，失败返回 false
+ */
+async function revokeSession(sessionId: string): Promise<boolean> {
+  try {
+    const response = await apiClient.request(getAuthSessionApiUrl(sessionId), {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      console.error(`[Auth] Failed to revoke session: ${response.status} ${response.statusText}`)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('[Auth] Error revoking session:', error)
+    return false
+  }
+}
+
+/**
+ * 删除账号
+ * 服务器端的游戏库、书架和会话一并删除，成功后清除本地认证信息和游戏库镜像
+ * @param confirmation - 当前密码；没有密码的账号为用户名
+ * @returns 成功返回 true，确认信息错误或请求失败返回 false
+ */
+async function deleteAccount(confirmation: DeleteAccountRequest): Promise<boolean> {
+  try {
+    const response = await apiClient.request(USER_ACCOUNT_API, {
+      method: 'DELETE',
+      body: JSON.stringify(confirmation),
+    })
+
+    if (!response.ok) {
+      console.error(`[Auth] Failed to delete account: ${response.status} ${response.statusText}`)
+      return false
+    }
+  } catch (error) {
+    console.error('[Auth] Error deleting account:', error)
+    return false
+  }
+
+  clearAuthData()
+  await localStore.clear()
+  console.log('[Auth] Account deleted')
+  return true
+}
+
+// ==================== OAuth ====================
+
+let oauthCallbackPromise: Promise<OAuthCallbackResult | null> | null = null
+
+/**
+ * 更新本地保存的用户信息（关联或取消关联第三方账号后）
+ */
+function updateStoredUser(user: User): void {
+  storage.setItem(USER_KEY, JSON.stringify(user))
+  notifyAuthChange()
+}
+
+/**
+ * 第三方登录方式是否可用
+ * Steam OpenID 无需配置；GitHub 需要配置 VITE_GITHUB_CLIENT_ID
+ */
+function isOAuthAvailable(provider: OAuthProvider): boolean {
+  return provider === 'steam' || !!GITHUB_CLIENT_ID
+}
+
+/**
+ * 构建 Steam OpenID 2.0 登录地址（checkid_setup，由 Steam 选择身份）
+ */
+function buildSteamOpenIdUrl(returnUrl: string): string {
+  const params = new URLSearchParams({
+    'openid.ns': 'http://specs.openid.net/auth/2.0',
+    'openid.mode': 'checkid_setup',
+    'openid.return_to': returnUrl,
+    'openid.realm': new URL(returnUrl).origin,
+    'openid.identity': 'http://specs.openid.net/auth/2.0/identifier_select',
+    'openid.claimed_id': 'http://specs.openid.net/auth/2.0/identifier_select',
+  })
+  return `${STEAM_OPENID_LOGIN_URL}?${params}`
+}
+
+/**
+ * 构建 GitHub OAuth 授权地址
+ */
+function buildGitHubAuthorizeUrl(returnUrl: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: GITHUB_CLIENT_ID ?? '',
+    redirect_uri: returnUrl,
+    state,
+    scope: 'read:user',
+  })
+  return `${GITHUB_OAUTH_AUTHORIZE_URL}?${params}`
+}
+
+/**
+ * 跳转到第三方登录
+ * 回到当前页面后由 handleOAuthCallback 完成登录或关联
+ * @param intent - login 登录（未关联时创建账号），link 为当前账号关联
+ * @returns 未配置该登录方式时返回 false，否则页面跳转
+ */
+function startOAuth(provider: OAuthProvider, intent: OAuthIntent = 'login'): boolean {
+  if (!isOAuthAvailable(provider)) {
+    console.error(`[Auth] OAuth provider is not configured: ${provider}`)
+    return false
+  }
+
+  const state = crypto.randomUUID()
+
+  // 回到当前页面；Steam 不支持 state 参数，放在 return_to 中一并带回
+  const returnUrl = new URL(window.location.href)
+  returnUrl.hash = ''
+  returnUrl.searchParams.set(OAUTH_PARAM, provider)
+  if (provider === 'steam') {
+    returnUrl.searchParams.set('state', state)
+  }
+
+  const pending: PendingOAuth = { provider, intent, state, returnUrl: returnUrl.toString() }
+  sessionStorage.setItem(OAUTH_PENDING_KEY, JSON.stringify(pending))
+
+  window.location.assign(
+    provider === 'steam'
+      ? buildSteamOpenIdUrl(pending.returnUrl)
+      : buildGitHubAuthorizeUrl(pending.returnUrl, state)
+  )
+  return true
+}
+
+/**
+ * 读取并清除跳转前保存的状态
+ */
+function takePendingOAuth(): PendingOAuth | null {
+  const saved = sessionStorage.getItem(OAUTH_PENDING_KEY)
+  sessionStorage.removeItem(OAUTH_PENDING_KEY)
+
+  try {
+    return saved ? (JSON.parse(saved) as PendingOAuth) : null
+  } catch (error) {
+    console.error('[Auth] Failed to parse pending OAuth state:', error)
+    return null
+  }
+}
+
+/**
+ * 使用第三方账号登录
+ */
+async function loginWithOAuth(
+  provider: OAuthProvider,
+  payload: Record<string, unknown>
+): Promise<User | null> {
+  try {
+    const response = await apiClient.request(getAuthOAuthCallbackApiUrl(provider), {
+      method: 'POST',
+      auth: false,
+      body: JSON.stringify(payload),
+    })
+
+    return await handleAuthResponse(response, `${provider} login`)
+  } catch (error) {
+    console.error(`[Auth] Error during ${provider} login:`, error)
+    return null
+  }
+}
+
+/**
+ * 为当前账号关联第三方账号
+ * @returns 成功返回更新后的用户信息，已关联其他用户（409）或请求失败返回 null
+ */
+async function linkIdentity(
+  provider: OAuthProvider,
+  payload: Record<string, unknown>
+): Promise<User | null> {
+  try {
+    const response = await apiClient.request(getUserIdentityApiUrl(provider), {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    })
+
+    if (!response.ok) {
+      console.error(`[Auth] Failed to link ${provider}: ${response.status} ${response.statusText}`)
+      return null
+    }
+
+    const data = (await response.json()) as UserResponse
+    updateStoredUser(data.data)
+    return data.data
+  } catch (error) {
+    console.error(`[Auth] Error linking ${provider}:`, error)
+    return null
+  }
+}
+
+/**
+ * 取消关联第三方账号
+ * @returns 成功返回更新后的用户信息，失败返回 null（例如该账号没有密码，取消后将无法登录）
+ */
+async function unlinkIdentity(provider: OAuthProvider): Promise<User | null> {
+  try {
+    const response = await apiClient.request(getUserIdentityApiUrl(provider), {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      console.error(
+        `[Auth] Failed to unlink ${provider}: ${response.status} ${response.statusText}`
+      )
+      return null
+    }
+
+    const data = (await response.json()) as UserResponse
+    updateStoredUser(data.data)
+    return data.data
+  } catch (error) {
+    console.error(`[Auth] Error unlinking ${provider}:`, error)
+    return null
+  }
+}
+
+async function processOAuthCallback(): Promise<OAuthCallbackResult | null> {
+  // Happy Path: 不在浏览器中
+  if (typeof window === 'undefined') {
+    return null
+  }
+
+  const url = new URL(window.location.href)
+  const provider = url.searchParams.get(OAUTH_PARAM)
+
+  // Happy Path: 不是第三方登录回调
+  if (provider !== 'steam' && provider !== 'github') {
+    return null
+  }
+
+  const pending = takePendingOAuth()
+  const params = new URLSearchParams(url.search)
+
+  // 从地址栏移除回调参数，刷新页面时不会重复处理
+  for (const key of [...url.searchParams.keys()]) {
+    if (OAUTH_CALLBACK_PARAMS.includes(key) || key.startsWith('openid.')) {
+      url.searchParams.delete(key)
+    }
+  }
+  window.history.replaceState(window.history.state, '', url)
+
+  // Happy Path: 不是本标签页发起的登录（或已处理过）
+  if (!pending || pending.provider !== provider || pending.state !== params.get('state')) {
+    console.error('[Auth] OAuth state mismatch, ignoring callback')
+    return { provider, intent: pending?.intent ?? 'login', user: null }
+  }
+
+  let payload: Record<string, unknown>
+  if (provider === 'steam') {
+    // Happy Path: 用户取消了登录
+    if (params.get('openid.mode') !== 'id_res') {
+      return { provider, intent: pending.intent, user: null }
+    }
+
+    const openIdParams = [...params].filter(([key]) => key.startsWith('openid.'))
+    payload = { params: Object.fromEntries(openIdParams), return_to: pending.returnUrl }
+  } else {
+    const code = params.get('code')
+
+    // Happy Path: 用户拒绝了授权
+    if (!code) {
+      return { provider, intent: pending.intent, user: null }
+    }
+
+    payload = { code, redirect_uri: pending.returnUrl }
+  }
+
+  const user =
+    pending.intent === 'link'
+      ? await linkIdentity(provider, payload)
+      : await loginWithOAuth(provider, payload)
+
+  return { provider, intent: pending.intent, user }
+}
+
+/**
+ * 处理第三方登录回调
+ * 页面加载时调用；多次调用共享同一次处理结果
+ * @returns 当前页面不是回调时返回 null
+ */
+function handleOAuthCallback(): Promise<OAuthCallbackResult | null> {
+  oauthCallbackPromise ??= processOAuthCallback()
+  return oauthCallbackPromise
+}
+
 /**
  * 检查是否已登录
  * 通过本地是否有用户信息判断
@@ -160,4 +717,27 @@ function getCurrentUser(): User | null {
 
 // ==================== Exports ====================
 
-export { login, logout, isAuthenticated, getCurrentUser, getToken, clearAuthData }
+export {
+  OAUTH_PROVIDER_NAMES,
+  login,
+  register,
+  logout,
+  changePassword,
+  getSessions,
+  revokeSession,
+  deleteAccount,
+  isOAuthAvailable,
+  startOAuth,
+  handleOAuthCallback,
+  unlinkIdentity,
+  isAuthenticated,
+  getCurrentUser,
+  getToken,
+  isTokenExpired,
+  clearAuthData,
+  subscribeAuthChange,
+  requestReauthentication,
+  cancelReauthentication,
+  subscribeReauthentication,
+  isReauthenticationPending,
+}
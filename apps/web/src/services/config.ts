@@ -1,14 +1,69 @@
+import { AUTH_SESSIONS_API, BACKEND_PRESETS, HEALTH_API } from '../constants/api'
+import { apiClient } from './apiClient'
+import { getToken } from './auth'
+import { storage } from '../utils/storage'
+
 // ==================== Types ====================
 
+type BackendPreset = keyof typeof BACKEND_PRESETS | 'custom'
+
+/**
+ * 后端设置，按配置（profile）保存
+ */
 interface BackendConfig {
-  apiKey: string
-  apiUrl: string
+  preset: BackendPreset
+  apiUrl: string // 预设对应的地址或自定义地址
+}
+
+/**
+ * 连接测试中的登录状态
+ * - authenticated: 当前 Token 在该后端有效
+ * - rejected: 当前 Token 被该后端拒绝（过期或属于其他后端）
+ * - signedOut: 未登录，未检查
+ */
+type BackendAuthStatus = 'authenticated' | 'rejected' | 'signedOut'
+
+interface ConnectionTestResult {
+  reachable: boolean
+  latencyMs: number | null
+  version: string | null // 后端未提供健康检查接口时为 null
+  auth: BackendAuthStatus | null // 无法连接或无法判断时为 null
 }
 
 // ==================== Constants ====================
 
 const STORAGE_KEY = 'backend_config'
 
+const CONNECTION_TIMEOUT_MS = 8000
+
+// ==================== Helper Functions ====================
+
+/**
+ * 规范化后端地址：只接受 http(s) 地址，去掉末尾的斜杠
+ * @returns 无效地址返回 null
+ */
+function normalizeApiUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim())
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null
+    }
+    return `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, '')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 按地址推断预设（旧版本保存的配置没有 preset 字段）
+ */
+function detectPreset(apiUrl: string): BackendPreset {
+  const preset = (Object.keys(BACKEND_PRESETS) as (keyof typeof BACKEND_PRESETS)[]).find(
+    (key) => BACKEND_PRESETS[key] === apiUrl
+  )
+  return preset ?? 'custom'
+}
+
 // ==================== Main Class ====================
 
 class ConfigService {
@@ -19,25 +74,27 @@ class ConfigService {
   }
 
   /**
-   * 从 localStorage 加载配置
+   * 从本地存储加载配置
    * @returns 成功时返回配置对象，失败时返回 null
    */
   loadConfig(): BackendConfig | null {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY)
+      const stored = storage.getItem(STORAGE_KEY)
 
       // Happy Path: 没有配置直接返回
       if (!stored) {
         return null
       }
 
-      this.config = JSON.parse(stored)
+      const parsed = JSON.parse(stored) as Partial<BackendConfig>
+      const apiUrl = parsed.apiUrl ? normalizeApiUrl(parsed.apiUrl) : null
 
-      // Happy Path: 配置解析失败
-      if (!this.config) {
+      // Happy Path: 配置解析失败或地址无效
+      if (!apiUrl) {
         return null
       }
 
+      this.config = { preset: parsed.preset ?? detectPreset(apiUrl), apiUrl }
       return this.config
     } catch (error) {
       console.error('[ConfigService] Failed to load config:', error)
@@ -46,28 +103,38 @@ class ConfigService {
   }
 
   /**
-   * 保存配置到 localStorage
+   * 保存配置到本地存储，重新加载页面后生效
    * @param config - 配置对象
+   * @returns 地址无效时返回 false
    */
-  saveConfig(config: BackendConfig): void {
-    this.config = config
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+  saveConfig(config: BackendConfig): boolean {
+    const apiUrl = normalizeApiUrl(config.apiUrl)
+
+    // Happy Path: 地址无效
+    if (!apiUrl) {
+      console.error('[ConfigService] Invalid backend URL:', config.apiUrl)
+      return false
+    }
+
+    this.config = { preset: config.preset, apiUrl }
+    storage.setItem(STORAGE_KEY, JSON.stringify(this.config))
+    return true
   }
 
   /**
-   * 清除配置
+   * 清除配置，恢复使用构建时的后端地址
    */
   clearConfig(): void {
     this.config = null
-    localStorage.removeItem(STORAGE_KEY)
+    storage.removeItem(STORAGE_KEY)
   }
 
   /**
-   * 检查配置是否完整
-   * @returns 配置完整返回 true，否则返回 false
+   * 检查是否设置了后端地址
+   * @returns 已设置返回 true，否则返回 false
    */
   isConfigured(): boolean {
-    return this.config !== null && !!this.config.apiKey && !!this.config.apiUrl
+    return this.config !== null && !!this.config.apiUrl
   }
 
   /**
@@ -79,27 +146,77 @@ class ConfigService {
   }
 
   /**
-   * 获取 API Key
-   * @returns API Key 或 null
+   * 获取 API URL
+   * @returns API URL 或 null（使用构建时的后端地址）
    */
-  getApiKey(): string | null {
+  getApiUrl(): string | null {
     if (!this.config) {
       return null
     }
 
-    return this.config.apiKey
+    return this.config.apiUrl
   }
 
   /**
-   * 获取 API URL
-   * @returns API URL 或 null
+   * 测试后端连接
+   * 请求健康检查接口获取延迟和版本，已登录时再用当前 Token 请求会话列表检查登录状态
+   * @param apiUrl - 要测试的后端地址，不必是当前使用的地址
    */
-  getApiUrl(): string | null {
-    if (!this.config) {
-      return null
+  async testConnection(apiUrl: string): Promise<ConnectionTestResult> {
+    const result: ConnectionTestResult = {
+      reachable: false,
+      latencyMs: null,
+      version: null,
+      auth: null,
     }
+    const baseUrl = normalizeApiUrl(apiUrl)
 
-    return this.config.apiUrl
+    // Happy Path: 地址无效
+    if (!baseUrl) {
+      return result
+    }
+
+    const client = apiClient.withBaseUrl(baseUrl)
+
+    try {
+      const startedAt = performance.now()
+      const response = await client.request(HEALTH_API, {
+        auth: false,
+        signal: AbortSignal.timeout(CONNECTION_TIMEOUT_MS),
+      })
+      result.latencyMs = Math.round(performance.now() - startedAt)
+      result.reachable = true
+
+      // 旧版本后端没有健康检查接口，能收到响应即视为可连接
+      if (response.ok) {
+        const data = (await response.json()) as { version?: string }
+        result.version = data.version ?? null
+      }
+    } catch (error) {
+      console.error('[ConfigService] Connection test failed:', error)
+      return result
+    }
+
+    // Happy Path: 未登录，不检查登录状态
+    if (!getToken()) {
+      result.auth = 'signedOut'
+      return result
+    }
+
+    try {
+      const response = await client.request(AUTH_SESSIONS_API, {
+        signal: AbortSignal.timeout(CONNECTION_TIMEOUT_MS),
+      })
+      if (response.ok) {
+        result.auth = 'authenticated'
+      } else if (response.status === 401 || response.status === 403) {
+        result.auth = 'rejected'
+      }
+    } catch (error) {
+      console.error('[ConfigService] Auth check failed:', error)
+    }
+
+    return result
   }
 }
 
@@ -109,5 +226,5 @@ const configService = new ConfigService()
 
 // ==================== Exports ====================
 
-export type { BackendConfig }
-export { ConfigService, configService }
+export type { BackendConfig, BackendPreset, BackendAuthStatus, ConnectionTestResult }
+export { ConfigService, configService, normalizeApiUrl, detectPreset }
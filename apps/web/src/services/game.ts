@@ -9,7 +9,7 @@ import type {
   Pagination,
 } from '../types'
 import { GAMES_API, GAMES_SEARCH_API, getGameApiUrl } from '../constants/api'
-import { getToken } from './auth'
+import { apiClient } from './apiClient'
 
 // ==================== Main Class ====================
 
@@ -19,32 +19,6 @@ import { getToken } from './auth'
  * 游戏管理接口（POST/PUT/DELETE）需要 Bearer Token 认证
  */
 class GameService {
-  /**
-   * 获取公开接口的 headers（无需认证）
-   */
-  private getPublicHeaders(): HeadersInit {
-    return {
-      'Content-Type': 'application/json',
-    }
-  }
-
-  /**
-   * 获取需要认证的接口的 headers
-   * 使用 Bearer Token 认证
-   */
-  private getAuthHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    const token = getToken()
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    return headers
-  }
-
   /**
    * 获取所有游戏列表（公开接口，无需认证）
    * @param params - 查询参数
@@ -78,7 +52,7 @@ class GameService {
       if (params?.is_free !== undefined) queryParams.append('is_free', params.is_free.toString())
 
       const url = queryParams.toString() ? `${GAMES_API}?${queryParams.toString()}` : GAMES_API
-      const response = await fetch(url, { headers: this.getPublicHeaders() })
+      const response = await apiClient.request(url, { auth: false })
 
       // Happy Path: API 请求失败
       if (!response.ok) {
@@ -137,7 +111,7 @@ class GameService {
       if (page_size) queryParams.append('page_size', page_size.toString())
 
       const searchUrl = `${GAMES_SEARCH_API}?${queryParams.toString()}`
-      const response = await fetch(searchUrl, { headers: this.getPublicHeaders() })
+      const response = await apiClient.request(searchUrl, { auth: false })
 
       // Happy Path: API 请求失败
       if (!response.ok) {
@@ -176,7 +150,7 @@ class GameService {
 
     try {
       const gameUrl = getGameApiUrl(gameId)
-      const response = await fetch(gameUrl, { headers: this.getPublicHeaders() })
+      const response = await apiClient.request(gameUrl, { auth: false })
 
       // Happy Path: 游戏不存在
       if (response.status === 404) {
@@ -224,9 +198,8 @@ class GameService {
     }
 
     try {
-      const response = await fetch(GAMES_API, {
+      const response = await apiClient.request(GAMES_API, {
         method: 'POST',
-        headers: this.getAuthHeaders(),
         body: JSON.stringify(params),
       })
 
@@ -290,9 +263,8 @@ class GameService {
 
     try {
       const gameUrl = getGameApiUrl(gameId)
-      const response = await fetch(gameUrl, {
+      const response = await apiClient.request(gameUrl, {
         method: 'PUT',
-        headers: this.getAuthHeaders(),
         body: JSON.stringify(updates),
       })
 
@@ -346,9 +318,8 @@ class GameService {
 
     try {
       const gameUrl = getGameApiUrl(gameId)
-      const response = await fetch(gameUrl, {
+      const response = await apiClient.request(gameUrl, {
         method: 'DELETE',
-        headers: this.getAuthHeaders(),
       })
 
       // Happy Path: 未认证
@@ -385,7 +356,7 @@ class GameService {
    */
   async testConnection(): Promise<boolean> {
     try {
-      const response = await fetch(GAMES_API, { headers: this.getPublicHeaders() })
+      const response = await apiClient.request(GAMES_API, { auth: false })
 
       // Happy Path: API 请求失败
       if (!response.ok) {
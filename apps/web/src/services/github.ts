@@ -1,5 +1,6 @@
 import type { GameQueueData, Game } from '../types'
 import { GITHUB_USER_API, getGitHubRepoApiUrl, getGitHubFileApiUrl } from '../constants/api'
+import { storage } from '../utils/storage'
 
 // ==================== Types ====================
 
@@ -7,6 +8,7 @@ interface GitHubConfig {
   token: string
   owner: string
   repo: string
+  path?: string // 仓库中的文件路径，默认 games.json
 }
 
 interface GitHubFileResponse {
@@ -28,7 +30,13 @@ interface UpdateGamesResult {
 // ==================== Constants ====================
 
 const STORAGE_KEY = 'github_config'
-const FILE_PATH = 'games.json'
+const DEFAULT_OWNER = 'catalyzer-dot'
+const DEFAULT_REPO = 'game-gallery'
+const DEFAULT_FILE_PATH = 'games.json'
+
+// 写入时遇到 409（文件已被修改）的最大重试次数，每次重试前重新读取并重新应用更新
+const MAX_CONFLICT_RETRIES = 3
+const CONFLICT_RETRY_DELAY_MS = 1000
 
 class GitHubService {
   private config: GitHubConfig | null = null
@@ -39,7 +47,7 @@ class GitHubService {
 
   loadConfig(): GitHubConfig | null {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY)
+      const stored = storage.getItem(STORAGE_KEY)
 
       // Happy Path: 没有配置直接返回
       if (!stored) {
@@ -53,11 +61,11 @@ class GitHubService {
         return null
       }
 
-      // 强制修正为正确的owner和repo
-      if (this.config.owner !== 'catalyzer-dot' || this.config.repo !== 'game-gallery') {
-        this.config.owner = 'catalyzer-dot'
-        this.config.repo = 'game-gallery'
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config))
+      // 旧版本没有保存仓库信息，补全为默认仓库
+      if (!this.config.owner || !this.config.repo) {
+        this.config.owner = this.config.owner || DEFAULT_OWNER
+        this.config.repo = this.config.repo || DEFAULT_REPO
+        storage.setItem(STORAGE_KEY, JSON.stringify(this.config))
       }
 
       return this.config
@@ -69,12 +77,12 @@ class GitHubService {
 
   saveConfig(config: GitHubConfig): void {
     this.config = config
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+    storage.setItem(STORAGE_KEY, JSON.stringify(config))
   }
 
   clearConfig(): void {
     this.config = null
-    localStorage.removeItem(STORAGE_KEY)
+    storage.removeItem(STORAGE_KEY)
   }
 
   isConfigured(): boolean {
@@ -85,6 +93,13 @@ class GitHubService {
     return this.config
   }
 
+  /**
+   * 获取同步的文件路径
+   */
+  getFilePath(): string {
+    return this.config?.path?.trim() || DEFAULT_FILE_PATH
+  }
+
   private getApiUrl(path: string = ''): string | null {
     if (!this.config) {
       console.error('[GitHubService] Cannot get API URL: GitHub not configured')
@@ -118,7 +133,7 @@ class GitHubService {
       return null
     }
 
-    const apiUrl = this.getApiUrl(FILE_PATH)
+    const apiUrl = this.getApiUrl(this.getFilePath())
     const headers = this.getHeaders()
 
     // Happy Path: 无法获取 API URL 或 headers
@@ -173,9 +188,10 @@ class GitHubService {
   /**
    * 并发安全地更新 GitHub 上的游戏列表
    * 使用 SHA 进行乐观锁控制，防止并发写入时数据丢失
-   * @param updater - 更新函数，接收当前游戏列表，返回新的游戏列表
+   * 遇到 409（读取后文件被修改）时重新读取最新内容，再次调用 updater 后重试
+   * @param updater - 更新函数，接收当前游戏列表，返回新的游戏列表；返回传入的同一个数组时不写入
    * @param commitMessage - Git 提交消息
-   * @returns 成功时返回更新后的游戏列表，失败时返回 null
+   * @returns 成功时返回更新后的游戏列表（未写入时为当前列表），失败时返回 null
    */
   async concurrentUpdateGames(
     updater: (currentGames: Game[]) => Game[],
@@ -187,7 +203,33 @@ class GitHubService {
       return null
     }
 
-    const apiUrl = this.getApiUrl(FILE_PATH)
+    for (let attempt = 0; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+      if (attempt > 0) {
+        console.warn(
+          `[GitHubService] Conflict detected, retrying (${attempt}/${MAX_CONFLICT_RETRIES})`
+        )
+        await new Promise((resolve) => setTimeout(resolve, CONFLICT_RETRY_DELAY_MS * attempt))
+      }
+
+      const result = await this.tryUpdateGames(updater, commitMessage)
+      if (result !== 'conflict') {
+        return result
+      }
+    }
+
+    console.error('[GitHubService] Conflict detected: Remote file keeps changing, giving up')
+    return null
+  }
+
+  /**
+   * 读取文件、应用更新并写入（一次尝试）
+   * @returns 成功时返回游戏列表，冲突时返回 'conflict'，其他失败返回 null
+   */
+  private async tryUpdateGames(
+    updater: (currentGames: Game[]) => Game[],
+    commitMessage: string
+  ): Promise<Game[] | 'conflict' | null> {
+    const apiUrl = this.getApiUrl(this.getFilePath())
     const headers = this.getHeaders()
 
     // Happy Path: 无法获取 API URL 或 headers
@@ -221,6 +263,12 @@ class GitHubService {
 
       // 2. 应用更新函数
       const newGames = updater(currentGames)
+
+      // Happy Path: 没有变化，不产生提交
+      if (newGames === currentGames && data) {
+        return currentGames
+      }
+
       const newGameData: GameQueueData = { games: newGames }
 
       // 3. 使用 SHA 进行乐观锁保存
@@ -239,8 +287,7 @@ class GitHubService {
 
       // Happy Path: 冲突检测
       if (response.status === 409) {
-        console.error('[GitHubService] Conflict detected: Remote file has changed')
-        return null
+        return 'conflict'
       }
 
       // Happy Path: API 请求失败
@@ -252,7 +299,7 @@ class GitHubService {
         return null
       }
 
-      console.log('[GitHubService] Successfully updated games.json on GitHub')
+      console.log(`[GitHubService] Successfully updated ${this.getFilePath()} on GitHub`)
       return newGames
     } catch (error) {
       console.error('[GitHubService] Failed to update games:', error)
@@ -265,7 +312,7 @@ class GitHubService {
    * @returns 成功时返回文件数据和 SHA，失败时返回 null
    */
   private async fetchRawFile(): Promise<{ data: GitHubFileResponse | null; sha?: string } | null> {
-    const apiUrl = this.getApiUrl(FILE_PATH)
+    const apiUrl = this.getApiUrl(this.getFilePath())
     const headers = this.getHeaders()
 
     // Happy Path: 无法获取 API URL 或 headers
@@ -397,5 +444,5 @@ const githubService = new GitHubService()
 
 // ==================== Exports ====================
 
-export type { FetchGamesResult, UpdateGamesResult }
+export type { GitHubConfig, FetchGamesResult, UpdateGamesResult }
 export { GitHubService, githubService }
@@ -0,0 +1,364 @@
+import type { Game } from '../types'
+import { githubService } from './github'
+import { i18nService } from './i18n'
+import { isAuthenticated } from './auth'
+import { outboxService } from './outbox'
+import { steamImportService } from './steamImport'
+import { userGameService } from './userGame'
+import {
+  extractAppIdFromSteamUrl,
+  mergeGameData,
+  toBackendPlayJournal,
+} from '../utils/gameDataMapper'
+import {
+  diffGameLists,
+  getSyncKey,
+  getUserGameUpdate,
+  isEmptyDiff,
+  isJournalChanged,
+  mergeGameLists,
+  toSyncedGame,
+  type GameListDiff,
+} from '../utils/githubSync'
+import { storage } from '../utils/storage'
+
+// ==================== Types ====================
+
+interface GitHubSyncResult {
+  pushed: boolean // 是否向 GitHub 提交了新版本
+  pulled: number // 从文件写回游戏库的变化数
+  conflicts: number // 两边都修改过、按 lastUpdated 解决的游戏数
+  failed: number // 写回游戏库失败的变化数（下次同步重试）
+}
+
+type GitHubSyncState = 'idle' | 'syncing' | 'error'
+
+interface GitHubSyncStatus {
+  enabled: boolean
+  state: GitHubSyncState
+  lastSyncedAt: string | null
+  lastResult: GitHubSyncResult | null
+  error: string | null
+}
+
+interface StoredSyncSettings {
+  enabled: boolean
+  lastSyncedAt: string | null
+}
+
+// ==================== Constants ====================
+
+const SETTINGS_KEY = 'github_sync'
+// 上次同步后的文件内容，作为三方合并的共同祖先
+const BASE_KEY = 'github_sync_base'
+
+// ==================== Main Class ====================
+
+/**
+ * GitHub games.json 双向同步服务
+ * 游戏库的变化提交到用户配置的仓库文件，文件在外部被修改时写回游戏库
+ * 以上次同步的内容为共同祖先逐个游戏三方合并，两边都修改时取 lastUpdated 较新的版本
+ */
+class GitHubSyncService {
+  private listeners = new Set<(status: GitHubSyncStatus) => void>()
+  private syncPromise: Promise<GitHubSyncResult | null> | null = null
+  private status: GitHubSyncStatus
+
+  constructor() {
+    const settings = this.loadSettings()
+    this.status = {
+      enabled: settings.enabled,
+      state: 'idle',
+      lastSyncedAt: settings.lastSyncedAt,
+      lastResult: null,
+      error: null,
+    }
+  }
+
+  /**
+   * 订阅同步状态变化
+   * @param listener - 变化回调
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: (status: GitHubSyncStatus) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getStatus(): GitHubSyncStatus {
+    return this.status
+  }
+
+  /**
+   * 是否可以同步（已开启且已配置仓库）
+   */
+  isActive(): boolean {
+    return this.status.enabled && githubService.isConfigured()
+  }
+
+  /**
+   * 开启或关闭自动同步
+   */
+  setEnabled(enabled: boolean): void {
+    this.updateStatus({ enabled, error: null, state: 'idle' })
+  }
+
+  /**
+   * 清除同步记录
+   * 更换仓库或文件后调用，下次同步视为首次同步（不会把文件中缺少的游戏当作已删除）
+   */
+  resetBase(): void {
+    storage.removeItem(BASE_KEY)
+    this.updateStatus({ lastSyncedAt: null, lastResult: null, error: null, state: 'idle' })
+  }
+
+  /**
+   * 同步一次，正在同步时返回进行中的同步
+   * @returns 成功时返回同步结果，未开启或失败时返回 null
+   */
+  sync(): Promise<GitHubSyncResult | null> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.doSync()
+        .catch((error) => this.fail(error instanceof Error ? error.message : String(error)))
+        .finally(() => {
+          this.syncPromise = null
+        })
+    }
+    return this.syncPromise
+  }
+
+  private async doSync(): Promise<GitHubSyncResult | null> {
+    // Happy Path: 未开启、未配置或未登录
+    if (!this.isActive() || !isAuthenticated()) {
+      return null
+    }
+
+    this.updateStatus({ state: 'syncing', error: null })
+
+    // 先回放离线变更，让游戏库包含所有本地修改
+    await outboxService.flush()
+    const local = await this.fetchLibrary()
+
+    // Happy Path: 后端不可达
+    if (!local) {
+      return this.fail(i18nService.t('githubSync.backendUnavailable'))
+    }
+
+    const base = this.loadBase()
+    let conflicts = 0
+    let pushed = false
+
+    const remote = await githubService.concurrentUpdateGames((current) => {
+      // 文件为空（新建或被清空）时不把它当作删除了所有游戏
+      const merged = mergeGameLists(current.length > 0 ? base : [], local, current)
+      const next = merged.games.map(toSyncedGame)
+
+      conflicts = merged.conflicts
+      pushed = !isEmptyDiff(diffGameLists(current, next))
+      return pushed ? next : current
+    }, `Sync ${githubService.getFilePath()} from GameGallery (${local.length} games)`)
+
+    // Happy Path: 读取或写入 GitHub 失败
+    if (!remote) {
+      return this.fail(i18nService.t('githubSync.githubFailed'))
+    }
+
+    const { applied, failures } = await this.applyToLibrary(diffGameLists(local, remote))
+
+    // 写回失败的变化不计入同步记录，下次同步时重试
+    const nextBase = new Map(remote.map((game) => [getSyncKey(game), game]))
+    for (const game of failures) {
+      const key = getSyncKey(game)
+      const localGame = local.find((g) => getSyncKey(g) === key)
+      if (localGame) {
+        nextBase.set(key, toSyncedGame(localGame))
+      } else {
+        nextBase.delete(key)
+      }
+    }
+    this.saveBase([...nextBase.values()])
+
+    const result: GitHubSyncResult = {
+      pushed,
+      pulled: applied,
+      conflicts,
+      failed: failures.length,
+    }
+
+    this.updateStatus({
+      state: 'idle',
+      lastSyncedAt: new Date().toISOString(),
+      lastResult: result,
+      error: null,
+    })
+
+    return result
+  }
+
+  /**
+   * 将文件中的变化写回游戏库
+   * 只有用户库字段（书架、置顶、排序、目标价格、游玩日志）会写回，游戏信息由后端维护
+   * @returns 写回的变化数和写回失败的游戏
+   */
+  private async applyToLibrary(diff: GameListDiff): Promise<{ applied: number; failures: Game[] }> {
+    const failures: Game[] = []
+    let applied = 0
+
+    for (const game of diff.added) {
+      if (await this.addGame(game)) {
+        applied++
+      } else {
+        failures.push(game)
+      }
+    }
+
+    for (const { before, after } of diff.updated) {
+      const request = getUserGameUpdate(before, after)
+      const journalChanged = isJournalChanged(before, after)
+
+      // Happy Path: 只有游戏信息不同
+      if (!request && !journalChanged) {
+        continue
+      }
+
+      const updated = request ? await userGameService.updateUserGame(before.id, request) : true
+      const journalSaved = journalChanged
+        ? await userGameService.updateJournal(before.id, toBackendPlayJournal(after.journal!))
+        : true
+
+      if (updated && journalSaved) {
+        applied++
+      } else {
+        failures.push(before)
+      }
+    }
+
+    for (const game of diff.removed) {
+      if (await userGameService.removeUserGame(game.id)) {
+        applied++
+      } else {
+        failures.push(game)
+      }
+    }
+
+    return { applied, failures }
+  }
+
+  /**
+   * 将文件中新增的游戏加入游戏库（需要 Steam app_id）
+   * @returns 成功返回 true，失败返回 false
+   */
+  private async addGame(game: Game): Promise<boolean> {
+    const appId = game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+
+    // Happy Path: 没有 app_id 无法加入
+    if (!appId) {
+      console.warn(`[GitHubSyncService] Skipping ${game.name}: missing Steam app_id`)
+      return false
+    }
+
+    const result = await steamImportService.addSteamApp({
+      appId,
+      name: game.name,
+      status: game.status,
+      sortOrder: game.sortOrder ?? 0,
+      steamUrl: game.steamUrl,
+      coverImage: game.coverImage,
+      positivePercentage: game.positivePercentage,
+      totalReviews: game.totalReviews,
+      releaseDate: game.releaseDate,
+      comingSoon: game.comingSoon,
+      isEarlyAccess: game.isEarlyAccess,
+    })
+
+    // Happy Path: 加入失败
+    if ('error' in result) {
+      console.error(`[GitHubSyncService] Failed to add ${game.name}: ${result.message}`)
+      return false
+    }
+
+    const request = getUserGameUpdate(result.game, {
+      ...result.game,
+      isPinned: game.isPinned,
+      targetPrice: game.targetPrice,
+      targetCurrency: game.targetCurrency,
+    })
+    const updated = request ? await userGameService.updateUserGame(result.game.id, request) : true
+    const journal = game.journal ?? result.game.journal!
+    const journalSaved = await userGameService.updateJournal(
+      result.game.id,
+      toBackendPlayJournal(journal)
+    )
+
+    return !!updated && !!journalSaved
+  }
+
+  /**
+   * 读取完整的游戏库（所有书架、所有分页）
+   * @returns 成功时返回游戏列表，后端不可达时返回 null
+   */
+  private async fetchLibrary(): Promise<Game[] | null> {
+    const games = await userGameService.getAllUserGames()
+    return games ? mergeGameData(games, null) : null
+  }
+
+  private fail(error: string): null {
+    console.error(`[GitHubSyncService] Sync failed: ${error}`)
+    this.updateStatus({ state: 'error', error })
+    return null
+  }
+
+  private updateStatus(updates: Partial<GitHubSyncStatus>): void {
+    this.status = { ...this.status, ...updates }
+    this.saveSettings({ enabled: this.status.enabled, lastSyncedAt: this.status.lastSyncedAt })
+
+    for (const listener of this.listeners) {
+      listener(this.status)
+    }
+  }
+
+  private loadSettings(): StoredSyncSettings {
+    try {
+      const stored = storage.getItem(SETTINGS_KEY)
+      return stored ? JSON.parse(stored) : { enabled: false, lastSyncedAt: null }
+    } catch (error) {
+      console.error('[GitHubSyncService] Failed to load settings:', error)
+      return { enabled: false, lastSyncedAt: null }
+    }
+  }
+
+  private saveSettings(settings: StoredSyncSettings): void {
+    storage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  }
+
+  private loadBase(): Game[] {
+    try {
+      const stored = storage.getItem(BASE_KEY)
+      return stored ? JSON.parse(stored) : []
+    } catch (error) {
+      console.error('[GitHubSyncService] Failed to load sync base:', error)
+      return []
+    }
+  }
+
+  private saveBase(games: Game[]): void {
+    try {
+      storage.setItem(BASE_KEY, JSON.stringify(games))
+    } catch (error) {
+      // 超出存储配额时下次同步视为首次同步，只会多合并，不会误删
+      console.error('[GitHubSyncService] Failed to save sync base:', error)
+      storage.removeItem(BASE_KEY)
+    }
+  }
+}
+
+// ==================== Service Instance ====================
+
+const githubSyncService = new GitHubSyncService()
+
+// ==================== Exports ====================
+
+export type { GitHubSyncResult, GitHubSyncState, GitHubSyncStatus }
+export { GitHubSyncService, githubSyncService }
@@ -0,0 +1,240 @@
+import { zhCN, type MessageKey, type Messages } from '../locales/zh-CN'
+import { en } from '../locales/en'
+import { storage } from '../utils/storage'
+
+// ==================== Types ====================
+
+type Locale = 'zh-CN' | 'en'
+
+/**
+ * 语言设置
+ * 界面语言和 Steam 数据的语言/地区分开设置：例如界面使用英文，但价格按国区显示
+ */
+interface LocaleSettings {
+  locale: Locale
+  steamLanguage: string // Steam 接口的 l 参数，如 schinese、english
+  steamCountry: string // Steam 接口的 cc 参数，如 CN、US
+}
+
+type MessageParams = Record<string, string | number>
+
+// ==================== Constants ====================
+
+const STORAGE_KEY = 'locale_settings'
+
+const MESSAGES: Record<Locale, Messages & Partial<Record<`${MessageKey}_one`, string>>> = {
+  'zh-CN': zhCN,
+  en,
+}
+
+// 各语言名称使用其自身语言显示
+const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '简体中文' },
+  { id: 'en', label: 'English' },
+]
+
+const STEAM_LANGUAGES: { id: string; label: string }[] = [
+  { id: 'schinese', label: '简体中文' },
+  { id: 'tchinese', label: '繁體中文' },
+  { id: 'english', label: 'English' },
+  { id: 'japanese', label: '日本語' },
+  { id: 'koreana', label: '한국어' },
+  { id: 'german', label: 'Deutsch' },
+  { id: 'french', label: 'Français' },
+]
+
+const STEAM_COUNTRIES = ['CN', 'HK', 'TW', 'JP', 'KR', 'US', 'GB', 'DE', 'FR']
+
+// 首次使用时根据界面语言选择的 Steam 语言和地区
+const DEFAULT_STEAM_REGION: Record<
+  Locale,
+  Pick<LocaleSettings, 'steamLanguage' | 'steamCountry'>
+> = {
+  'zh-CN': { steamLanguage: 'schinese', steamCountry: 'CN' },
+  en: { steamLanguage: 'english', steamCountry: 'US' },
+}
+
+// ==================== Helper Functions ====================
+
+function detectLocale(): Locale {
+  const language = typeof navigator === 'undefined' ? 'zh-CN' : navigator.language
+  return language.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en'
+}
+
+// ==================== Main Class ====================
+
+/**
+ * 国际化服务
+ * 负责界面文案翻译、按语言格式化日期和数字，以及 Steam 数据的语言和地区
+ * 设置保存在 localStorage 中，变化时通知订阅者（组件通过 useI18n 订阅）
+ */
+class I18nService {
+  private settings: LocaleSettings
+  private listeners = new Set<() => void>()
+
+  constructor() {
+    this.settings = this.loadSettings()
+    this.applyDocumentLanguage()
+  }
+
+  /**
+   * 订阅语言设置变化
+   * @param listener - 变化回调
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * 获取当前语言设置（设置变化时返回新对象）
+   */
+  getSettings(): LocaleSettings {
+    return this.settings
+  }
+
+  getLocale(): Locale {
+    return this.settings.locale
+  }
+
+  /**
+   * 更新语言设置并通知订阅者
+   * @param updates - 要更新的字段
+   */
+  updateSettings(updates: Partial<LocaleSettings>): void {
+    this.settings = { ...this.settings, ...updates }
+    this.applyDocumentLanguage()
+
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(this.settings))
+    } catch (error) {
+      console.error('[I18nService] Failed to save locale settings:', error)
+    }
+
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+
+  /**
+   * 翻译文案
+   * 参数使用 {name} 占位；传入 count 时英文会优先使用 `${key}_one` 单数形式
+   * @param key - 文案 key
+   * @param params - 占位参数
+   * @returns 当前语言的文案，缺失时回退到简体中文
+   */
+  t(key: MessageKey, params?: MessageParams): string {
+    const messages = MESSAGES[this.settings.locale]
+
+    let message: string = messages[key] ?? zhCN[key]
+    if (params?.count !== undefined) {
+      const plural = new Intl.PluralRules(this.settings.locale).select(Number(params.count))
+      if (plural === 'one') {
+        message = messages[`${key}_one`] ?? message
+      }
+    }
+
+    // Happy Path: 没有参数
+    if (!params) {
+      return message
+    }
+
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      params[name] !== undefined ? String(params[name]) : match
+    )
+  }
+
+  /**
+   * 按当前语言格式化日期
+   * @param value - ISO 字符串、时间戳或 Date
+   * @param options - Intl.DateTimeFormat 选项，默认只显示日期
+   */
+  formatDate(
+    value: string | number | Date,
+    options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' }
+  ): string {
+    const date = value instanceof Date ? value : new Date(value)
+    return isNaN(date.getTime())
+      ? String(value)
+      : new Intl.DateTimeFormat(this.settings.locale, options).format(date)
+  }
+
+  /**
+   * 按当前语言格式化数字
+   */
+  formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    return new Intl.NumberFormat(this.settings.locale, options).format(value)
+  }
+
+  /**
+   * 按当前语言比较字符串（用于排序）
+   */
+  compare(a: string, b: string): number {
+    return a.localeCompare(b, this.settings.locale)
+  }
+
+  /**
+   * 获取地区的本地化名称，如 CN → 中国 / China
+   */
+  getRegionName(country: string): string {
+    try {
+      return new Intl.DisplayNames(this.settings.locale, { type: 'region' }).of(country) ?? country
+    } catch {
+      return country
+    }
+  }
+
+  /**
+   * Steam 接口使用的语言和地区
+   */
+  getSteamRegion(): { language: string; country: string } {
+    return { language: this.settings.steamLanguage, country: this.settings.steamCountry }
+  }
+
+  private loadSettings(): LocaleSettings {
+    const locale = detectLocale()
+    const defaults: LocaleSettings = { locale, ...DEFAULT_STEAM_REGION[locale] }
+
+    // Happy Path: 非浏览器环境（Node 脚本）
+    if (typeof localStorage === 'undefined') {
+      return defaults
+    }
+
+    try {
+      const stored = storage.getItem(STORAGE_KEY)
+
+      // Happy Path: 没有保存过设置
+      if (!stored) {
+        return defaults
+      }
+
+      const parsed = JSON.parse(stored) as Partial<LocaleSettings>
+      return {
+        ...defaults,
+        ...parsed,
+        locale: parsed.locale && parsed.locale in MESSAGES ? parsed.locale : locale,
+      }
+    } catch (error) {
+      console.error('[I18nService] Failed to load locale settings:', error)
+      return defaults
+    }
+  }
+
+  private applyDocumentLanguage(): void {
+    if (typeof document !== 'undefined') {
+      document.documentElement.lang = this.settings.locale
+    }
+  }
+}
+
+// ==================== Service Instance ====================
+
+const i18nService = new I18nService()
+
+// ==================== Exports ====================
+
+export type { Locale, LocaleSettings, MessageParams }
+export { LOCALES, STEAM_LANGUAGES, STEAM_COUNTRIES, I18nService, i18nService }
@@ -0,0 +1,48 @@
+import type { Game, GameStatus } from '../types'
+import { isAuthenticated } from './auth'
+import { outboxService } from './outbox'
+import { userGameService } from './userGame'
+import { mergeGameData } from '../utils/gameDataMapper'
+
+// ==================== Main Class ====================
+
+/**
+ * 完整游戏库服务
+ * 游戏列表按书架分页加载（每个书架先加载第一页），只包含已经滚动到的部分；
+ * 导出、导入、统计和发售日历需要完整的游戏库，由本服务逐页读取
+ */
+class LibraryService {
+  /**
+   * 读取所有书架的全部游戏
+   * 叠加尚未同步的离线变更，已加载的游戏以本地版本为准（包含乐观更新和刷新过的 Steam 数据）
+   * @param loadedGames - 当前已加载的游戏
+   * @param status - 只读取指定书架，不传时读取所有书架
+   * @returns 完整游戏库；未登录时返回已加载的游戏；后端不可达时返回 null
+   */
+  async getFullLibrary(loadedGames: Game[], status?: GameStatus): Promise<Game[] | null> {
+    // Happy Path: 未登录，没有服务器端的游戏库
+    if (!isAuthenticated()) {
+      return status ? loadedGames.filter((game) => game.status === status) : loadedGames
+    }
+
+    const userGames = await userGameService.getAllUserGames({ status })
+
+    // Happy Path: 后端不可达
+    if (!userGames) {
+      return null
+    }
+
+    const loadedById = new Map(loadedGames.map((game) => [game.id, game]))
+    const games = await outboxService.applyPending(mergeGameData(userGames, null))
+
+    return games.map((game) => loadedById.get(game.id) ?? game)
+  }
+}
+
+// ==================== Service Instance ====================
+
+const libraryService = new LibraryService()
+
+// ==================== Exports ====================
+
+export { LibraryService, libraryService }
@@ -0,0 +1,364 @@
+import type {
+  Game,
+  PlayJournal,
+  PriceHistory,
+  ReleaseHistory,
+  UpdateUserGameRequest,
+} from '../types'
+import { activeProfileId, getProfileDatabaseName } from '../utils/storage'
+
+// ==================== Types ====================
+
+/**
+ * 离线变更类型
+ * - update: 更新状态或置顶（PATCH /api/users/me/games/:id/status）
+ * - remove: 从用户库中移除（DELETE /api/users/me/games/:id）
+ * - journal: 保存游玩日志（PUT /api/users/me/games/:id/journal）
+ */
+type OutboxMutationKind = 'update' | 'remove' | 'journal'
+
+/**
+ * 冲突原因
+ * - deleted_on_server: 服务器端已删除该游戏，本地变更无法应用
+ * - rejected: 服务器多次拒绝该变更
+ */
+type OutboxConflictReason = 'deleted_on_server' | 'rejected'
+
+interface OutboxMutation {
+  id?: number
+  kind: OutboxMutationKind
+  gameId: string
+  gameName: string
+  updates?: UpdateUserGameRequest
+  journal?: PlayJournal
+  createdAt: string
+  attempts: number
+  conflict?: {
+    reason: OutboxConflictReason
+    detectedAt: string
+  }
+}
+
+// ==================== Constants ====================
+
+// 每个配置（profile）使用独立的数据库
+const DB_NAME = getProfileDatabaseName(activeProfileId, 'game-gallery')
+const DB_VERSION = 3
+const GAMES_STORE = 'games'
+const OUTBOX_STORE = 'outbox'
+const PRICES_STORE = 'prices'
+const RELEASES_STORE = 'releases'
+
+// ==================== Helper Functions ====================
+
+/**
+ * 将 IDBRequest 包装为 Promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * 等待事务完成
+ */
+function waitForTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// ==================== Main Class ====================
+
+/**
+ * 本地存储服务
+ * 使用 IndexedDB 镜像用户游戏库，保存待同步的离线变更（outbox）、价格历史和发布日期历史
+ * IndexedDB 不可用时（隐私模式、Node 环境）所有方法静默降级
+ */
+class LocalStoreService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+
+  /**
+   * 打开数据库（懒加载，只打开一次）
+   * @returns 成功时返回数据库实例，失败时返回 null
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) {
+      return this.dbPromise
+    }
+
+    this.dbPromise = new Promise((resolve) => {
+      // Happy Path: 当前环境不支持 IndexedDB
+      if (typeof indexedDB === 'undefined') {
+        console.warn('[LocalStore] IndexedDB is not available')
+        resolve(null)
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(GAMES_STORE)) {
+          db.createObjectStore(GAMES_STORE, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true })
+        }
+        if (!db.objectStoreNames.contains(PRICES_STORE)) {
+          db.createObjectStore(PRICES_STORE, { keyPath: 'gameId' })
+        }
+        if (!db.objectStoreNames.contains(RELEASES_STORE)) {
+          db.createObjectStore(RELEASES_STORE, { keyPath: 'gameId' })
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error('[LocalStore] Failed to open database:', request.error)
+        resolve(null)
+      }
+    })
+
+    return this.dbPromise
+  }
+
+  /**
+   * 读取本地镜像的游戏库
+   * @returns 游戏列表，读取失败时返回空数组
+   */
+  async getGames(): Promise<Game[]> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return []
+    }
+
+    try {
+      const store = db.transaction(GAMES_STORE, 'readonly').objectStore(GAMES_STORE)
+      return await promisifyRequest(store.getAll() as IDBRequest<Game[]>)
+    } catch (error) {
+      console.error('[LocalStore] Failed to read games:', error)
+      return []
+    }
+  }
+
+  /**
+   * 用当前游戏列表整体替换本地镜像
+   * @param games - 游戏列表
+   * @returns 成功返回 true，失败返回 false
+   */
+  async saveGames(games: Game[]): Promise<boolean> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return false
+    }
+
+    try {
+      const transaction = db.transaction(GAMES_STORE, 'readwrite')
+      const store = transaction.objectStore(GAMES_STORE)
+      store.clear()
+      for (const game of games) {
+        store.put(game)
+      }
+      await waitForTransaction(transaction)
+      return true
+    } catch (error) {
+      console.error('[LocalStore] Failed to save games:', error)
+      return false
+    }
+  }
+
+  /**
+   * 读取所有待同步的变更（按入队顺序）
+   * @returns 变更列表，读取失败时返回空数组
+   */
+  async getMutations(): Promise<OutboxMutation[]> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return []
+    }
+
+    try {
+      const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE)
+      return await promisifyRequest(store.getAll() as IDBRequest<OutboxMutation[]>)
+    } catch (error) {
+      console.error('[LocalStore] Failed to read outbox:', error)
+      return []
+    }
+  }
+
+  /**
+   * 新增或更新一条变更
+   * @param mutation - 变更（没有 id 时新增）
+   * @returns 成功时返回带 id 的变更，失败时返回 null
+   */
+  async putMutation(mutation: OutboxMutation): Promise<OutboxMutation | null> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return null
+    }
+
+    try {
+      const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE)
+      const id = await promisifyRequest(store.put(mutation))
+      return { ...mutation, id: id as number }
+    } catch (error) {
+      console.error('[LocalStore] Failed to write outbox:', error)
+      return null
+    }
+  }
+
+  /**
+   * 删除一条变更
+   * @param id - 变更 ID
+   * @returns 成功返回 true，失败返回 false
+   */
+  async deleteMutation(id: number): Promise<boolean> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return false
+    }
+
+    try {
+      const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE)
+      await promisifyRequest(store.delete(id))
+      return true
+    } catch (error) {
+      console.error('[LocalStore] Failed to delete mutation:', error)
+      return false
+    }
+  }
+
+  /**
+   * 读取所有游戏的价格历史
+   * @returns 价格历史列表，读取失败时返回空数组
+   */
+  async getPriceHistories(): Promise<PriceHistory[]> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return []
+    }
+
+    try {
+      const store = db.transaction(PRICES_STORE, 'readonly').objectStore(PRICES_STORE)
+      return await promisifyRequest(store.getAll() as IDBRequest<PriceHistory[]>)
+    } catch (error) {
+      console.error('[LocalStore] Failed to read price history:', error)
+      return []
+    }
+  }
+
+  /**
+   * 保存单个游戏的价格历史
+   * @param history - 价格历史
+   * @returns 成功返回 true，失败返回 false
+   */
+  async savePriceHistory(history: PriceHistory): Promise<boolean> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return false
+    }
+
+    try {
+      const store = db.transaction(PRICES_STORE, 'readwrite').objectStore(PRICES_STORE)
+      await promisifyRequest(store.put(history))
+      return true
+    } catch (error) {
+      console.error('[LocalStore] Failed to save price history:', error)
+      return false
+    }
+  }
+
+  /**
+   * 读取所有游戏的发布日期历史
+   * @returns 发布日期历史列表，读取失败时返回空数组
+   */
+  async getReleaseHistories(): Promise<ReleaseHistory[]> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return []
+    }
+
+    try {
+      const store = db.transaction(RELEASES_STORE, 'readonly').objectStore(RELEASES_STORE)
+      return await promisifyRequest(store.getAll() as IDBRequest<ReleaseHistory[]>)
+    } catch (error) {
+      console.error('[LocalStore] Failed to read release history:', error)
+      return []
+    }
+  }
+
+  /**
+   * 保存单个游戏的发布日期历史
+   * @param history - 发布日期历史
+   * @returns 成功返回 true，失败返回 false
+   */
+  async saveReleaseHistory(history: ReleaseHistory): Promise<boolean> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return false
+    }
+
+    try {
+      const store = db.transaction(RELEASES_STORE, 'readwrite').objectStore(RELEASES_STORE)
+      await promisifyRequest(store.put(history))
+      return true
+    } catch (error) {
+      console.error('[LocalStore] Failed to save release history:', error)
+      return false
+    }
+  }
+
+  /**
+   * 清空本地镜像和 outbox（登出时调用）
+   * 价格历史和发布日期历史与用户无关，予以保留
+   */
+  async clear(): Promise<void> {
+    const db = await this.openDatabase()
+
+    // Happy Path: 数据库不可用
+    if (!db) {
+      return
+    }
+
+    try {
+      const transaction = db.transaction([GAMES_STORE, OUTBOX_STORE], 'readwrite')
+      transaction.objectStore(GAMES_STORE).clear()
+      transaction.objectStore(OUTBOX_STORE).clear()
+      await waitForTransaction(transaction)
+    } catch (error) {
+      console.error('[LocalStore] Failed to clear local data:', error)
+    }
+  }
+}
+
+// ==================== Service Instance ====================
+
+const localStore = new LocalStoreService()
+
+// ==================== Exports ====================
+
+export type { OutboxMutation, OutboxMutationKind, OutboxConflictReason }
+export { LocalStoreService, localStore }
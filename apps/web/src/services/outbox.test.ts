@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { UserGame, UserGameWithDetails } from '../types'
+import type { OutboxMutation } from './localStore'
+import { createGame } from '../test/fixtures'
+import { createEmptyJournal } from '../utils/playJournal'
+
+// 内存中的 outbox，按自增 ID 排序，与 IndexedDB 的 getAll 顺序一致
+const store = vi.hoisted(() => {
+  const mutations = new Map<number, OutboxMutation>()
+  let nextId = 1
+
+  return {
+    mutations,
+    reset() {
+      mutations.clear()
+      nextId = 1
+    },
+    async getMutations() {
+      return [...mutations.values()].sort((a, b) => a.id! - b.id!)
+    },
+    async putMutation(mutation: OutboxMutation) {
+      const saved = { ...mutation, id: mutation.id ?? nextId++ }
+      mutations.set(saved.id, saved)
+      return saved
+    },
+    async deleteMutation(id: number) {
+      return mutations.delete(id)
+    },
+  }
+})
+
+vi.mock('./localStore', () => ({ localStore: store }))
+
+vi.mock('./auth', () => ({ isAuthenticated: vi.fn(() => true) }))
+
+vi.mock('./userGame', () => ({
+  userGameService: {
+    updateUserGame: vi.fn(),
+    updateJournal: vi.fn(),
+    removeUserGame: vi.fn(),
+    getAllUserGames: vi.fn(),
+  },
+}))
+
+const { OutboxService } = await import('./outbox')
+const { isAuthenticated } = await import('./auth')
+const { userGameService } = await import('./userGame')
+
+const serverGames = (...ids: string[]) => ids.map((id) => ({ id }) as UserGameWithDetails)
+
+describe('OutboxService', () => {
+  let outbox: InstanceType<typeof OutboxService>
+
+  beforeEach(() => {
+    store.reset()
+    vi.clearAllMocks()
+    vi.stubGlobal('navigator', { onLine: true })
+    vi.mocked(isAuthenticated).mockReturnValue(true)
+    vi.mocked(userGameService.updateUserGame).mockResolvedValue({} as UserGame)
+    vi.mocked(userGameService.removeUserGame).mockResolvedValue(true)
+    outbox = new OutboxService()
+  })
+
+  describe('enqueue', () => {
+    it('merges pending updates for the same game into one mutation', async () => {
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' })
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { is_pinned: true })
+      await outbox.enqueueUpdate(createGame({ id: 'b' }), { status: 'completion' })
+
+      const mutations = await outbox.getMutations()
+      expect(mutations).toHaveLength(2)
+      expect(mutations[0]).toMatchObject({
+        gameId: 'a',
+        updates: { status: 'playing', is_pinned: true },
+      })
+    })
+
+    it('merges updates enqueued at the same time', async () => {
+      // 如快速连续点击置顶和切换书架，后面的入队在前一次写入之前就读取了 outbox
+      await Promise.all([
+        outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' }),
+        outbox.enqueueUpdate(createGame({ id: 'a' }), { is_pinned: true }),
+        outbox.enqueueJournal(createGame({ id: 'a' }), createEmptyJournal()),
+        outbox.enqueueUpdate(createGame({ id: 'a' }), { sort_order: 1024 }),
+      ])
+
+      const mutations = await outbox.getMutations()
+      expect(mutations.map((m) => m.kind)).toEqual(['update', 'journal'])
+      expect(mutations[0].updates).toEqual({ status: 'playing', is_pinned: true, sort_order: 1024 })
+    })
+
+    it('drops pending updates when the game is removed', async () => {
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' })
+      await outbox.enqueueRemove(createGame({ id: 'a' }))
+
+      const mutations = await outbox.getMutations()
+      expect(mutations.map((m) => m.kind)).toEqual(['remove'])
+    })
+  })
+
+  describe('flush', () => {
+    it('replays mutations in enqueue order and removes them', async () => {
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' })
+      await outbox.enqueueRemove(createGame({ id: 'b' }))
+      await outbox.enqueueUpdate(createGame({ id: 'c' }), { is_pinned: true })
+
+      const calls: string[] = []
+      vi.mocked(userGameService.updateUserGame).mockImplementation(async (id) => {
+        calls.push(`update:${id}`)
+        return {} as UserGame
+      })
+      vi.mocked(userGameService.removeUserGame).mockImplementation(async (id) => {
+        calls.push(`remove:${id}`)
+        return true
+      })
+
+      const result = await outbox.flush()
+
+      expect(calls).toEqual(['update:a', 'remove:b', 'update:c'])
+      expect(result).toMatchObject({ applied: 3, conflicts: 0, offline: false })
+      expect(await outbox.getMutations()).toEqual([])
+    })
+
+    it('keeps updates made while the mutation is being sent', async () => {
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' })
+
+      vi.mocked(userGameService.updateUserGame).mockImplementationOnce(async () => {
+        await outbox.enqueueUpdate(createGame({ id: 'a' }), { is_pinned: true })
+        return {} as UserGame
+      })
+
+      await outbox.flush()
+
+      const mutations = await outbox.getMutations()
+      expect(mutations).toHaveLength(1)
+      expect(mutations[0].updates).toEqual({ is_pinned: true })
+
+      await outbox.flush()
+
+      expect(userGameService.updateUserGame).toHaveBeenLastCalledWith('a', { is_pinned: true })
+      expect(await outbox.getMutations()).toEqual([])
+    })
+
+    it('stops and reports offline when the server is unreachable', async () => {
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' })
+      await outbox.enqueueUpdate(createGame({ id: 'b' }), { status: 'playing' })
+      vi.mocked(userGameService.updateUserGame).mockResolvedValue(null)
+      vi.mocked(userGameService.getAllUserGames).mockResolvedValue(null)
+
+      const result = await outbox.flush()
+
+      expect(result).toMatchObject({ applied: 0, offline: true, unauthorized: false })
+      expect(userGameService.updateUserGame).toHaveBeenCalledTimes(1)
+      expect(await outbox.getMutations()).toHaveLength(2)
+    })
+
+    it('reports an expired session separately from offline', async () => {
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' })
+      vi.mocked(userGameService.updateUserGame).mockImplementation(async () => {
+        vi.mocked(isAuthenticated).mockReturnValue(false)
+        return null
+      })
+
+      const result = await outbox.flush()
+
+      expect(result).toMatchObject({ offline: false, unauthorized: true })
+      expect(userGameService.getAllUserGames).not.toHaveBeenCalled()
+      expect(await outbox.getMutations()).toHaveLength(1)
+    })
+
+    it('marks updates to games deleted on the server as conflicts', async () => {
+      await outbox.enqueueUpdate(createGame({ id: 'a' }), { status: 'playing' })
+      await outbox.enqueueRemove(createGame({ id: 'b' }))
+      vi.mocked(userGameService.updateUserGame).mockResolvedValue(null)
+      vi.mocked(userGameService.removeUserGame).mockResolvedValue(false)
+      vi.mocked(userGameService.getAllUserGames).mockResolvedValue(serverGames('c'))
+
+      const result = await outbox.flush()
+
+      expect(result).toMatchObject({ applied: 1, conflicts: 1 })
+      const mutations = await outbox.getMutations()
+      expect(mutations).toHaveLength(1)
+      expect(mutations[0]).toMatchObject({
+        gameId: 'a',
+        conflict: { reason: 'deleted_on_server' },
+      })
+    })
+  })
+})
@@ -0,0 +1,415 @@
+import type { Game, PlayJournal, UpdateUserGameRequest } from '../types'
+import { localStore, type OutboxMutation } from './localStore'
+import { userGameService } from './userGame'
+import { isAuthenticated } from './auth'
+import { toBackendPlayJournal } from '../utils/gameDataMapper'
+
+// ==================== Types ====================
+
+interface FlushResult {
+  applied: number
+  conflicts: number
+  offline: boolean // 服务器不可达
+  unauthorized: boolean // 登录已失效，重新登录后再回放
+}
+
+// ==================== Constants ====================
+
+// 服务器拒绝超过该次数后，变更被标记为冲突，等待用户处理
+const MAX_ATTEMPTS = 3
+
+// ==================== Main Class ====================
+
+/**
+ * 离线变更队列服务
+ * 所有状态、置顶、排序和删除操作先写入本地 outbox，再按入队顺序回放到 /api/users/me/games
+ * 网络恢复后自动重放；服务器端已删除等无法应用的变更会被标记为冲突，而不是静默丢弃
+ */
+class OutboxService {
+  private listeners = new Set<() => void>()
+  private flushPromise: Promise<FlushResult> | null = null
+  // 入队操作依次执行：读取已有变更和写入不在同一个事务中，并发执行时后写入的会覆盖先合并的结果
+  private queue: Promise<unknown> = Promise.resolve()
+  // 正在发送的变更，新的修改不能合并进去（发送成功后该变更会被删除）
+  private sendingId: number | null = null
+
+  /**
+   * 订阅 outbox 变化
+   * @param listener - 变化回调
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+
+  /**
+   * 在前一个入队操作完成后执行
+   * 前一个操作失败不影响后续操作
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  /**
+   * 获取所有变更（包括冲突）
+   */
+  async getMutations(): Promise<OutboxMutation[]> {
+    return localStore.getMutations()
+  }
+
+  /**
+   * 将状态/置顶/排序更新加入队列
+   * 同一游戏尚未发送的更新会被合并为一条；正在发送的那条不参与合并，新字段另起一条排在其后
+   * @param game - 目标游戏
+   * @param updates - 要更新的字段
+   */
+  enqueueUpdate(game: Game, updates: UpdateUserGameRequest): Promise<void> {
+    return this.serialize(async () => {
+      const mutations = await localStore.getMutations()
+      const pending = mutations.find(
+        (m) => m.gameId === game.id && m.kind === 'update' && !m.conflict && m.id !== this.sendingId
+      )
+
+      if (pending) {
+        await localStore.putMutation({ ...pending, updates: { ...pending.updates, ...updates } })
+      } else {
+        await localStore.putMutation({
+          kind: 'update',
+          gameId: game.id,
+          gameName: game.name,
+          updates,
+          createdAt: new Date().toISOString(),
+          attempts: 0,
+        })
+      }
+
+      this.notify()
+    })
+  }
+
+  /**
+   * 将游玩日志保存加入队列
+   * 日志整体替换，同一游戏尚未发送的日志只保留最新一份（正在发送的除外）
+   * @param game - 目标游戏
+   * @param journal - 完整的游玩日志
+   */
+  enqueueJournal(game: Game, journal: PlayJournal): Promise<void> {
+    return this.serialize(async () => {
+      const mutations = await localStore.getMutations()
+      const pending = mutations.find(
+        (m) =>
+          m.gameId === game.id && m.kind === 'journal' && !m.conflict && m.id !== this.sendingId
+      )
+
+      await localStore.putMutation({
+        ...(pending ?? {
+          kind: 'journal',
+          gameId: game.id,
+          gameName: game.name,
+          createdAt: new Date().toISOString(),
+          attempts: 0,
+        }),
+        journal,
+      })
+
+      this.notify()
+    })
+  }
+
+  /**
+   * 将移除操作加入队列
+   * 该游戏尚未发送的其他变更会被丢弃
+   * @param game - 目标游戏
+   */
+  enqueueRemove(game: Game): Promise<void> {
+    return this.serialize(async () => {
+      const mutations = await localStore.getMutations()
+      for (const mutation of mutations) {
+        if (mutation.gameId === game.id && mutation.id !== undefined) {
+          await localStore.deleteMutation(mutation.id)
+        }
+      }
+
+      await localStore.putMutation({
+        kind: 'remove',
+        gameId: game.id,
+        gameName: game.name,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+      })
+
+      this.notify()
+    })
+  }
+
+  /**
+   * 取消尚未发送的移除操作（用于撤销删除）
+   * 会先等待正在进行的回放结束，避免取消一条已经发出的请求
+   * @param gameId - 游戏 ID
+   * @returns 成功取消时返回 true；移除已同步到服务器时返回 false
+   */
+  async cancelRemove(gameId: string): Promise<boolean> {
+    if (this.flushPromise) {
+      await this.flushPromise
+    }
+
+    return this.serialize(async () => {
+      const mutations = await localStore.getMutations()
+      const pending = mutations.find((m) => m.gameId === gameId && m.kind === 'remove')
+
+      // Happy Path: 移除已经同步
+      if (!pending) {
+        return false
+      }
+
+      await localStore.deleteMutation(pending.id!)
+      this.notify()
+      return true
+    })
+  }
+
+  /**
+   * 丢弃一条变更（通常用于处理冲突）
+   * @param id - 变更 ID
+   */
+  async discard(id: number): Promise<void> {
+    await localStore.deleteMutation(id)
+    this.notify()
+  }
+
+  /**
+   * 清除冲突标记并重新尝试发送
+   * @param id - 变更 ID
+   */
+  async retry(id: number): Promise<FlushResult> {
+    const mutations = await localStore.getMutations()
+    const mutation = mutations.find((m) => m.id === id)
+
+    if (mutation) {
+      await localStore.putMutation({ ...mutation, conflict: undefined, attempts: 0 })
+      this.notify()
+    }
+
+    return this.flush()
+  }
+
+  /**
+   * 将尚未同步的变更叠加到游戏列表上
+   * 用于从缓存或服务器加载数据后，保持本地修改可见
+   * @param games - 游戏列表
+   * @returns 叠加变更后的游戏列表
+   */
+  async applyPending(games: Game[]): Promise<Game[]> {
+    const mutations = (await localStore.getMutations()).filter((m) => !m.conflict)
+
+    // Happy Path: 没有待同步变更
+    if (mutations.length === 0) {
+      return games
+    }
+
+    const removedIds = new Set(mutations.filter((m) => m.kind === 'remove').map((m) => m.gameId))
+    const updatesById = new Map<string, UpdateUserGameRequest>()
+    const journalsById = new Map<string, PlayJournal>()
+    for (const mutation of mutations) {
+      if (mutation.kind === 'update' && mutation.updates) {
+        updatesById.set(mutation.gameId, {
+          ...updatesById.get(mutation.gameId),
+          ...mutation.updates,
+        })
+      }
+      if (mutation.kind === 'journal' && mutation.journal) {
+        journalsById.set(mutation.gameId, mutation.journal)
+      }
+    }
+
+    return games
+      .filter((g) => !removedIds.has(g.id))
+      .map((g) => {
+        const updates = updatesById.get(g.id)
+        const journal = journalsById.get(g.id)
+        if (!updates && !journal) {
+          return g
+        }
+
+        return {
+          ...g,
+          ...(updates?.status && { status: updates.status }),
+          ...(updates?.is_pinned !== undefined && { isPinned: updates.is_pinned }),
+          ...(updates?.sort_order !== undefined && { sortOrder: updates.sort_order }),
+          ...(updates?.target_price !== undefined && {
+            targetPrice: updates.target_price,
+            targetCurrency: updates.target_currency ?? null,
+          }),
+          ...(journal && { journal }),
+        }
+      })
+  }
+
+  /**
+   * 按入队顺序回放所有待同步变更
+   * 同一时间只会有一个回放在进行，重复调用会复用同一个 Promise
+   * @returns 回放结果
+   */
+  flush(): Promise<FlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.doFlush().finally(() => {
+        this.flushPromise = null
+      })
+    }
+
+    return this.flushPromise
+  }
+
+  private async doFlush(): Promise<FlushResult> {
+    const result: FlushResult = { applied: 0, conflicts: 0, offline: false, unauthorized: false }
+
+    // Happy Path: 浏览器明确处于离线状态
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      result.offline = true
+      return result
+    }
+
+    // Happy Path: 未登录（或登录已失效），保留变更等待重新登录
+    if (!isAuthenticated()) {
+      result.unauthorized = true
+      return result
+    }
+
+    const mutations = (await localStore.getMutations()).filter((m) => !m.conflict)
+
+    for (const mutation of mutations) {
+      this.sendingId = mutation.id ?? null
+      const success = await this.send(mutation).finally(() => {
+        this.sendingId = null
+      })
+
+      if (success) {
+        await localStore.deleteMutation(mutation.id!)
+        result.applied++
+        continue
+      }
+
+      // 请求失败：区分登录失效、网络不可达、服务器端已删除和普通失败
+      // Token 被拒绝且未重新登录时登录信息已被清除，停止回放，重新登录后再继续
+      if (!isAuthenticated()) {
+        result.unauthorized = true
+        break
+      }
+
+      const serverGameIds = await this.fetchServerGameIds()
+
+      // Happy Path: 查询游戏库时登录失效
+      if (!serverGameIds && !isAuthenticated()) {
+        result.unauthorized = true
+        break
+      }
+
+      // Happy Path: 服务器不可达，停止回放，等待网络恢复
+      if (!serverGameIds) {
+        result.offline = true
+        break
+      }
+
+      if (!serverGameIds.has(mutation.gameId)) {
+        // 移除操作的目标已经不存在，视为已完成
+        if (mutation.kind === 'remove') {
+          await localStore.deleteMutation(mutation.id!)
+          result.applied++
+          continue
+        }
+
+        await this.markConflict(mutation, 'deleted_on_server')
+        result.conflicts++
+        continue
+      }
+
+      const attempts = mutation.attempts + 1
+      if (attempts >= MAX_ATTEMPTS) {
+        await this.markConflict({ ...mutation, attempts }, 'rejected')
+        result.conflicts++
+        continue
+      }
+
+      await localStore.putMutation({ ...mutation, attempts })
+    }
+
+    if (result.applied > 0 || result.conflicts > 0) {
+      console.log(
+        `[OutboxService] Flushed ${result.applied} mutation(s), ${result.conflicts} conflict(s)`
+      )
+      this.notify()
+    }
+
+    return result
+  }
+
+  /**
+   * 将单条变更发送到服务器
+   */
+  private async send(mutation: OutboxMutation): Promise<boolean> {
+    if (mutation.kind === 'remove') {
+      return userGameService.removeUserGame(mutation.gameId)
+    }
+
+    if (mutation.kind === 'journal') {
+      // Happy Path: 日志内容为空
+      if (!mutation.journal) {
+        return true
+      }
+
+      const result = await userGameService.updateJournal(
+        mutation.gameId,
+        toBackendPlayJournal(mutation.journal)
+      )
+      return result !== null
+    }
+
+    // Happy Path: 变更内容为空
+    if (!mutation.updates) {
+      return true
+    }
+
+    const result = await userGameService.updateUserGame(mutation.gameId, mutation.updates)
+    return result !== null
+  }
+
+  private async markConflict(
+    mutation: OutboxMutation,
+    reason: NonNullable<OutboxMutation['conflict']>['reason']
+  ): Promise<void> {
+    console.warn(`[OutboxService] Conflict on "${mutation.gameName}": ${reason}`)
+    await localStore.putMutation({
+      ...mutation,
+      conflict: { reason, detectedAt: new Date().toISOString() },
+    })
+  }
+
+  /**
+   * 获取服务器端用户库中所有游戏 ID
+   * @returns 成功时返回 ID 集合，服务器不可达或认证失败时返回 null
+   */
+  private async fetchServerGameIds(): Promise<Set<string> | null> {
+    const games = await userGameService.getAllUserGames()
+    return games ? new Set(games.map((game) => game.id)) : null
+  }
+}
+
+// ==================== Service Instance ====================
+
+const outboxService = new OutboxService()
+
+// ==================== Exports ====================
+
+export type { FlushResult }
+export { OutboxService, outboxService }
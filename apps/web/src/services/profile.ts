@@ -0,0 +1,209 @@
+import { detectPreset, normalizeApiUrl, type BackendConfig } from './config'
+import {
+  ACTIVE_PROFILE_KEY,
+  DEFAULT_PROFILE_ID,
+  activeProfileId,
+  deviceStorage,
+  getProfileDatabaseName,
+  getProfileKey,
+} from '../utils/storage'
+
+// ==================== Types ====================
+
+/**
+ * 本地配置（profile）
+ * 每个配置有独立的登录信息、后端地址、偏好设置、缓存数据和小游戏最高分
+ */
+interface Profile {
+  id: string
+  name: string | null // 默认配置为 null，界面显示本地化的名称
+  color: string
+  createdAt: string
+}
+
+interface CreateProfileOptions {
+  name: string
+  apiUrl?: string // 留空时使用构建时配置的后端地址
+}
+
+// ==================== Constants ====================
+
+const STORAGE_KEY = 'profiles'
+
+// 与配置数据一起删除的 IndexedDB 数据库
+const PROFILE_DATABASES = ['game-gallery']
+
+const PROFILE_COLORS = ['#646cff', '#22c55e', '#f59e0b', '#ec4899', '#06b6d4', '#a855f7']
+
+const DEFAULT_PROFILE: Profile = {
+  id: DEFAULT_PROFILE_ID,
+  name: null,
+  color: PROFILE_COLORS[0],
+  createdAt: new Date(0).toISOString(),
+}
+
+// ==================== Main Class ====================
+
+class ProfileService {
+  /**
+   * 读取配置列表，默认配置始终排在第一位
+   */
+  getProfiles(): Profile[] {
+    try {
+      const stored = deviceStorage.getItem(STORAGE_KEY)
+      const profiles = stored ? (JSON.parse(stored) as Profile[]) : []
+
+      return [DEFAULT_PROFILE, ...profiles.filter((p) => p.id !== DEFAULT_PROFILE_ID)]
+    } catch (error) {
+      console.error('[ProfileService] Failed to load profiles:', error)
+      return [DEFAULT_PROFILE]
+    }
+  }
+
+  /**
+   * 当前配置（页面加载时确定）
+   */
+  getActiveProfile(): Profile {
+    return this.getProfiles().find((p) => p.id === activeProfileId) ?? DEFAULT_PROFILE
+  }
+
+  /**
+   * 新建配置
+   * 指定后端地址时写入新配置的后端设置，切换到该配置后生效
+   * @returns 新建的配置，名称为空或后端地址无效时返回 null
+   */
+  createProfile({ name, apiUrl }: CreateProfileOptions): Profile | null {
+    const trimmed = name.trim()
+
+    const normalizedUrl = apiUrl?.trim() ? normalizeApiUrl(apiUrl) : null
+
+    // Happy Path: 名称为空或后端地址无效
+    if (!trimmed || (apiUrl?.trim() && !normalizedUrl)) {
+      return null
+    }
+
+    const profiles = this.getProfiles()
+    const profile: Profile = {
+      id: crypto.randomUUID().slice(0, 8),
+      name: trimmed,
+      color: PROFILE_COLORS[profiles.length % PROFILE_COLORS.length],
+      createdAt: new Date().toISOString(),
+    }
+
+    if (normalizedUrl) {
+      const config: BackendConfig = { preset: detectPreset(normalizedUrl), apiUrl: normalizedUrl }
+      deviceStorage.setItem(getProfileKey(profile.id, 'backend_config'), JSON.stringify(config))
+    }
+
+    this.saveProfiles([...profiles, profile])
+    return profile
+  }
+
+  /**
+   * 重命名配置（默认配置不可重命名）
+   * @returns 成功返回 true
+   */
+  renameProfile(profileId: string, name: string): boolean {
+    const trimmed = name.trim()
+    const profiles = this.getProfiles()
+    const profile = profiles.find((p) => p.id === profileId)
+
+    // Happy Path: 名称为空或配置不存在
+    if (!trimmed || !profile || profile.id === DEFAULT_PROFILE_ID) {
+      return false
+    }
+
+    this.saveProfiles(profiles.map((p) => (p.id === profileId ? { ...p, name: trimmed } : p)))
+    return true
+  }
+
+  /**
+   * 删除配置及其所有本地数据（登录信息、设置、缓存数据库）
+   * 默认配置和当前配置不可删除
+   * @returns 成功返回 true
+   */
+  async deleteProfile(profileId: string): Promise<boolean> {
+    // Happy Path: 默认配置或当前正在使用的配置
+    if (profileId === DEFAULT_PROFILE_ID || profileId === activeProfileId) {
+      return false
+    }
+
+    const profiles = this.getProfiles()
+    if (!profiles.some((p) => p.id === profileId)) {
+      return false
+    }
+
+    this.saveProfiles(profiles.filter((p) => p.id !== profileId))
+
+    // 删除带有该配置前缀的全部键
+    const prefix = getProfileKey(profileId, '')
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    keys
+      .filter((key): key is string => !!key?.startsWith(prefix))
+      .forEach((key) => localStorage.removeItem(key))
+
+    await Promise.all(
+      PROFILE_DATABASES.map(
+        (name) =>
+          new Promise<void>((resolve) => {
+            const request = indexedDB.deleteDatabase(getProfileDatabaseName(profileId, name))
+            request.onsuccess = () => resolve()
+            request.onerror = () => {
+              console.error('[ProfileService] Failed to delete database:', request.error)
+              resolve()
+            }
+            // 其他标签页仍在使用该数据库时，等其关闭后才会真正删除
+            request.onblocked = () => resolve()
+          })
+      )
+    )
+
+    return true
+  }
+
+  /**
+   * 切换到指定配置并重新加载页面
+   * 各服务在加载时读取当前配置的数据，重新加载可保证不会混用两个配置的状态
+   */
+  switchProfile(profileId: string): void {
+    // Happy Path: 已是当前配置
+    if (profileId === activeProfileId) {
+      return
+    }
+
+    if (profileId === DEFAULT_PROFILE_ID) {
+      deviceStorage.removeItem(ACTIVE_PROFILE_KEY)
+    } else {
+      deviceStorage.setItem(ACTIVE_PROFILE_KEY, profileId)
+    }
+    window.location.reload()
+  }
+
+  /**
+   * 读取配置的后端地址，未单独设置时返回 null
+   */
+  getProfileApiUrl(profileId: string): string | null {
+    try {
+      const stored = deviceStorage.getItem(getProfileKey(profileId, 'backend_config'))
+      return stored ? ((JSON.parse(stored) as BackendConfig).apiUrl ?? null) : null
+    } catch {
+      return null
+    }
+  }
+
+  private saveProfiles(profiles: Profile[]): void {
+    deviceStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(profiles.filter((p) => p.id !== DEFAULT_PROFILE_ID))
+    )
+  }
+}
+
+// ==================== Service Instance ====================
+
+const profileService = new ProfileService()
+
+// ==================== Exports ====================
+
+export type { Profile, CreateProfileOptions }
+export { ProfileService, profileService }
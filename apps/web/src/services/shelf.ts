@@ -0,0 +1,154 @@
+import type { Shelf, BackendShelf, GetUserShelvesResponse } from '../types'
+import { USER_SHELVES_API } from '../constants/api'
+import { apiClient } from './apiClient'
+import { DEFAULT_SHELVES, withDefaultShelves } from '../utils/shelves'
+import { storage } from '../utils/storage'
+
+// ==================== Constants ====================
+
+// 本地缓存，离线或后端暂不支持书架接口时使用
+const STORAGE_KEY = 'user_shelves'
+
+// ==================== Helper Functions ====================
+
+function fromBackendShelf(shelf: BackendShelf): Shelf {
+  return {
+    id: shelf.id,
+    name: shelf.name,
+    color: shelf.color,
+    order: shelf.sort_order,
+    nextShelfId: shelf.next_shelf_id,
+    actionLabel: shelf.action_label,
+    isDefault: shelf.is_default,
+  }
+}
+
+function toBackendShelf(shelf: Shelf): BackendShelf {
+  return {
+    id: shelf.id,
+    name: shelf.name,
+    color: shelf.color,
+    sort_order: shelf.order,
+    next_shelf_id: shelf.nextShelfId,
+    action_label: shelf.actionLabel,
+    is_default: shelf.isDefault ?? false,
+  }
+}
+
+// ==================== Main Class ====================
+
+/**
+ * 书架服务
+ * 书架配置保存在后端用户数据中，同时缓存到 localStorage
+ * 接口需要认证，使用 Bearer Token
+ */
+class ShelfService {
+  /**
+   * 读取本地缓存的书架
+   * @returns 书架列表（至少包含默认书架）
+   */
+  getCachedShelves(): Shelf[] {
+    try {
+      const stored = storage.getItem(STORAGE_KEY)
+
+      // Happy Path: 没有缓存
+      if (!stored) {
+        return DEFAULT_SHELVES
+      }
+
+      return withDefaultShelves(JSON.parse(stored) as Shelf[])
+    } catch (error) {
+      console.error('[ShelfService] Failed to load cached shelves:', error)
+      return DEFAULT_SHELVES
+    }
+  }
+
+  private cacheShelves(shelves: Shelf[]): void {
+    storage.setItem(STORAGE_KEY, JSON.stringify(shelves))
+  }
+
+  /**
+   * 获取当前用户的书架（需认证）
+   * @returns 书架列表；请求失败时返回本地缓存
+   */
+  async getShelves(): Promise<Shelf[]> {
+    try {
+      const response = await apiClient.request(USER_SHELVES_API)
+
+      // Happy Path: 未认证
+      if (response.status === 401) {
+        console.error('[ShelfService] Unauthorized: Please login first')
+        return this.getCachedShelves()
+      }
+
+      // Happy Path: API 请求失败
+      if (!response.ok) {
+        console.error(
+          `[ShelfService] Failed to get shelves: ${response.status} ${response.statusText}`
+        )
+        return this.getCachedShelves()
+      }
+
+      const result: GetUserShelvesResponse = await response.json()
+
+      // Happy Path: 响应数据无效
+      if (!result || !Array.isArray(result.data)) {
+        console.error('[ShelfService] Invalid response data')
+        return this.getCachedShelves()
+      }
+
+      const shelves = withDefaultShelves(result.data.map(fromBackendShelf))
+      this.cacheShelves(shelves)
+      return shelves
+    } catch (error) {
+      console.error('[ShelfService] Failed to get shelves:', error)
+      return this.getCachedShelves()
+    }
+  }
+
+  /**
+   * 保存书架列表（需认证）
+   * 无论后端是否成功，都会先更新本地缓存
+   * @param shelves - 完整的书架列表
+   * @returns 后端保存成功返回 true，失败返回 false
+   */
+  async saveShelves(shelves: Shelf[]): Promise<boolean> {
+    const normalized = withDefaultShelves(shelves)
+    this.cacheShelves(normalized)
+
+    try {
+      const response = await apiClient.request(USER_SHELVES_API, {
+        method: 'PUT',
+        body: JSON.stringify({ shelves: normalized.map(toBackendShelf) }),
+      })
+
+      // Happy Path: 未认证
+      if (response.status === 401) {
+        console.error('[ShelfService] Unauthorized: Please login first')
+        return false
+      }
+
+      // Happy Path: API 请求失败
+      if (!response.ok) {
+        console.error(
+          `[ShelfService] Failed to save shelves: ${response.status} ${response.statusText}`
+        )
+        return false
+      }
+
+      console.log(`[ShelfService] Successfully saved ${normalized.length} shelves`)
+      return true
+    } catch (error) {
+      console.error('[ShelfService] Failed to save shelves:', error)
+      return false
+    }
+  }
+}
+
+// ==================== Service Instance ====================
+
+const shelfService = new ShelfService()
+
+// ==================== Exports ====================
+
+export { ShelfService, shelfService }
@@ -1,9 +1,14 @@
+import type { PriceInfo } from '../types'
 import {
   STEAM_SEARCH_API,
   STEAM_APP_DETAILS_API,
   STEAM_REVIEWS_API_BASE,
-  CORS_PROXIES,
+  STEAM_COMMUNITY_BASE,
+  STEAM_WISHLIST_API,
+  STEAM_STORE_ITEMS_API,
 } from '../constants/api'
+import { i18nService } from './i18n'
+import { steamFetchClient } from './steamFetch'
 
 // ==================== Request Types ====================
 interface SearchGamesRequest {
@@ -22,6 +27,18 @@ interface GetGameReleaseDateRequest {
   appId: number
 }
 
+interface GetGamePriceRequest {
+  appId: number
+}
+
+interface ResolveSteamIdRequest {
+  input: string // SteamID64、个人资料链接或自定义 URL 名称
+}
+
+interface GetProfileGamesRequest {
+  steamId: string // SteamID64
+}
+
 // ==================== Response Types ====================
 interface SteamGame {
   id: number
@@ -45,6 +62,17 @@ interface GameReleaseInfo {
   genres: { id: string; description: string }[] | null
 }
 
+interface GamePriceInfo {
+  isFree: boolean
+  price: PriceInfo | null // 免费或未上架时为 null
+}
+
+interface SteamProfileGame {
+  appId: number
+  name: string
+  playtimeMinutes: number | null // 愿望单中的游戏为 null
+}
+
 interface GameReviewsInfo {
   positivePercentage: number | null // 全球好评率
   totalReviews: number | null // 全球评论数
@@ -89,6 +117,27 @@ interface SteamAppDetailsData {
     coming_soon: boolean
     date: string
   }
+  is_free?: boolean
+  price_overview?: {
+    currency: string
+    initial: number
+    final: number
+    discount_percent: number
+    initial_formatted: string
+    final_formatted: string
+  }
+}
+
+interface SteamWishlistResponse {
+  response: {
+    items?: { appid: number; priority: number; date_added: number }[]
+  }
+}
+
+interface SteamStoreItemsResponse {
+  response: {
+    store_items?: { appid: number; name?: string; success: number }[]
+  }
 }
 
 interface SteamAppDetails {
@@ -98,45 +147,31 @@ interface SteamAppDetails {
   }
 }
 
+// ==================== Constants ====================
+
+// 响应缓存时间：价格来自 appdetails，不宜缓存太久
+const APP_DETAILS_CACHE_TTL = 30 * 60 * 1000
+const REVIEWS_CACHE_TTL = 60 * 60 * 1000
+const SEARCH_CACHE_TTL = 10 * 60 * 1000
+
+// ==================== Helper Functions ====================
+
+// 从 XML 片段中读取标签内容（兼容 CDATA）
+function readXmlTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?</${tag}>`))
+  return match ? match[1].trim() : null
+}
+
 class SteamService {
   /**
-   * 通过 CORS 代理请求 URL，失败时自动重试其他代理
+   * 通过 CORS 代理请求 URL（缓存、限速和代理选择由 steamFetchClient 负责）
    * @param url 要请求的目标 URL
    * @param context 上下文信息，用于日志记录
-   * @returns 成功时返回 Response 对象，失败时返回 null
+   * @param cacheTtl 缓存时间（毫秒），不传时不缓存
+   * @returns 成功时返回响应文本，失败时返回 null
    */
-  private async fetchWithProxy(url: string, context: string): Promise<Response | null> {
-    for (let i = 0; i < CORS_PROXIES.length; i++) {
-      const proxy = CORS_PROXIES[i]
-      try {
-        const proxyUrl = `${proxy}${encodeURIComponent(url)}`
-        const response = await fetch(proxyUrl, {
-          method: 'GET',
-          headers: {
-            Accept: 'application/json',
-          },
-        })
-
-        if (!response.ok) {
-          console.warn(
-            `[SteamService] Proxy ${i + 1}/${CORS_PROXIES.length} failed for ${context}: ${response.status}`
-          )
-          continue
-        }
-
-        console.log(`[SteamService] Proxy ${i + 1}/${CORS_PROXIES.length} succeeded for ${context}`)
-        return response
-      } catch (error) {
-        console.error(
-          `[SteamService] Proxy ${i + 1}/${CORS_PROXIES.length} error for ${context}:`,
-          error
-        )
-        continue
-      }
-    }
-
-    console.error(`[SteamService] All proxies failed for ${context}`)
-    return null
+  private fetchWithProxy(url: string, context: string, cacheTtl?: number): Promise<string | null> {
+    return steamFetchClient.fetchText(url, { context, cacheTtl })
   }
 
   /**
@@ -151,15 +186,16 @@ class SteamService {
       return []
     }
 
-    const searchUrl = `${STEAM_SEARCH_API}?term=${encodeURIComponent(query)}&l=schinese&cc=CN`
-    const response = await this.fetchWithProxy(searchUrl, `search: ${query}`)
+    const { language, country } = i18nService.getSteamRegion()
+    const searchUrl = `${STEAM_SEARCH_API}?term=${encodeURIComponent(query)}&l=${language}&cc=${country}`
+    const body = await this.fetchWithProxy(searchUrl, `search: ${query}`, SEARCH_CACHE_TTL)
 
-    if (!response) {
+    if (body === null) {
       return null
     }
 
     try {
-      const data = (await response.json()) as SteamSearchResponse
+      const data = JSON.parse(body) as SteamSearchResponse
 
       if (!data.items || data.items.length === 0) {
         console.log('[SteamService] No items found in search response')
@@ -201,15 +237,20 @@ class SteamService {
    */
   async getGameDetails(params: GetGameDetailsRequest): Promise<SteamAppDetailsData | null> {
     const { appId } = params
-    const detailsUrl = `${STEAM_APP_DETAILS_API}?appids=${appId}&l=schinese&cc=CN`
-    const response = await this.fetchWithProxy(detailsUrl, `appdetails: ${appId}`)
+    const { language, country } = i18nService.getSteamRegion()
+    const detailsUrl = `${STEAM_APP_DETAILS_API}?appids=${appId}&l=${language}&cc=${country}`
+    const body = await this.fetchWithProxy(
+      detailsUrl,
+      `appdetails: ${appId}`,
+      APP_DETAILS_CACHE_TTL
+    )
 
-    if (!response) {
+    if (body === null) {
       return null
     }
 
     try {
-      const data = (await response.json()) as SteamAppDetails
+      const data = JSON.parse(body) as SteamAppDetails
 
       if (!data[appId]?.success) {
         console.warn(`[SteamService] Steam API returned unsuccessful for app ${appId}`)
@@ -251,6 +292,34 @@ class SteamService {
     }
   }
 
+  /**
+   * 获取游戏当前价格（appdetails 中的 price_overview，金额单位为分）
+   * @param params 请求参数
+   * @returns 成功时返回价格信息，失败时返回 null
+   */
+  async getGamePrice(params: GetGamePriceRequest): Promise<GamePriceInfo | null> {
+    const { appId } = params
+    const details = await this.getGameDetails({ appId })
+
+    if (!details) {
+      return null
+    }
+
+    const overview = details.price_overview
+
+    return {
+      isFree: details.is_free ?? false,
+      price: overview
+        ? {
+            currency: overview.currency,
+            initial: overview.initial,
+            final: overview.final,
+            discountPercent: overview.discount_percent,
+          }
+        : null,
+    }
+  }
+
   /**
    * 获取游戏评论统计（同时获取全球和中文评论）
    * @param params 请求参数
@@ -284,14 +353,18 @@ class SteamService {
     language: string
   ): Promise<{ positivePercentage: number | null; totalReviews: number | null }> {
     const reviewsUrl = `${STEAM_REVIEWS_API_BASE}/${appId}?json=1&language=${language}&purchase_type=all&num_per_page=0`
-    const response = await this.fetchWithProxy(reviewsUrl, `reviews: ${appId} (${language})`)
+    const body = await this.fetchWithProxy(
+      reviewsUrl,
+      `reviews: ${appId} (${language})`,
+      REVIEWS_CACHE_TTL
+    )
 
-    if (!response) {
+    if (body === null) {
       return { positivePercentage: null, totalReviews: null }
     }
 
     try {
-      const data = (await response.json()) as SteamReviewsResponse
+      const data = JSON.parse(body) as SteamReviewsResponse
 
       if (!data.query_summary) {
         console.warn(
@@ -321,6 +394,170 @@ class SteamService {
       return { positivePercentage: null, totalReviews: null }
     }
   }
+
+  /**
+   * 解析 Steam 用户标识
+   * 支持 SteamID64、/profiles/{id} 链接、/id/{vanity} 链接和自定义 URL 名称
+   * @param params 请求参数
+   * @returns 成功时返回 SteamID64，失败时返回 null
+   */
+  async resolveSteamId(params: ResolveSteamIdRequest): Promise<string | null> {
+    const input = params.input.trim().replace(/\/+$/, '')
+
+    // Happy Path: 直接输入 SteamID64 或 /profiles/ 链接
+    const idMatch = input.match(/(?:^|\/profiles\/)(\d{17})$/)
+    if (idMatch) {
+      return idMatch[1]
+    }
+
+    const vanity = input.match(/\/id\/([^/?#]+)/)?.[1] ?? input
+    if (!/^[\w-]+$/.test(vanity)) {
+      console.warn(`[SteamService] Invalid Steam profile input: ${input}`)
+      return null
+    }
+
+    const profileUrl = `${STEAM_COMMUNITY_BASE}/id/${encodeURIComponent(vanity)}?xml=1`
+    const body = await this.fetchWithProxy(profileUrl, `profile: ${vanity}`)
+
+    if (body === null) {
+      return null
+    }
+
+    try {
+      const steamId = readXmlTag(body, 'steamID64')
+
+      if (!steamId || !/^\d{17}$/.test(steamId)) {
+        console.warn(`[SteamService] Steam profile not found: ${vanity}`)
+        return null
+      }
+
+      return steamId
+    } catch (error) {
+      console.error(`[SteamService] Error parsing profile response for ${vanity}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * 获取用户已拥有的游戏（需要资料和游戏详情设为公开）
+   * @param params 请求参数
+   * @returns 成功时返回游戏列表，失败或资料未公开时返回 null
+   */
+  async getOwnedGames(params: GetProfileGamesRequest): Promise<SteamProfileGame[] | null> {
+    const { steamId } = params
+    const gamesUrl = `${STEAM_COMMUNITY_BASE}/profiles/${steamId}/games?tab=all&xml=1`
+    const xml = await this.fetchWithProxy(gamesUrl, `owned games: ${steamId}`)
+
+    if (xml === null) {
+      return null
+    }
+
+    try {
+      // Happy Path: 资料未公开时返回 <error> 而不是游戏列表
+      if (!xml.includes('<gamesList>') || readXmlTag(xml, 'error')) {
+        console.warn(`[SteamService] Owned games of ${steamId} are not public`)
+        return null
+      }
+
+      const games = [...xml.matchAll(/<game>([\s\S]*?)<\/game>/g)].flatMap(([, block]) => {
+        const appId = Number(readXmlTag(block, 'appID'))
+        const name = readXmlTag(block, 'name')
+        const hours = readXmlTag(block, 'hoursOnRecord')
+
+        if (!appId || !name) {
+          return []
+        }
+
+        return [
+          {
+            appId,
+            name,
+            playtimeMinutes: hours ? Math.round(parseFloat(hours.replace(/,/g, '')) * 60) : 0,
+          },
+        ]
+      })
+
+      console.log(`[SteamService] Found ${games.length} owned games for ${steamId}`)
+      return games
+    } catch (error) {
+      console.error(`[SteamService] Error parsing owned games for ${steamId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * 获取用户愿望单（需要愿望单设为公开）
+   * 愿望单接口只返回游戏 ID，名称通过商店批量查询接口补全
+   * @param params 请求参数
+   * @returns 成功时返回游戏列表，失败时返回 null
+   */
+  async getWishlist(params: GetProfileGamesRequest): Promise<SteamProfileGame[] | null> {
+    const { steamId } = params
+    const wishlistUrl = `${STEAM_WISHLIST_API}?steamid=${steamId}`
+    const body = await this.fetchWithProxy(wishlistUrl, `wishlist: ${steamId}`)
+
+    if (body === null) {
+      return null
+    }
+
+    let appIds: number[]
+    try {
+      const data = JSON.parse(body) as SteamWishlistResponse
+      appIds = (data.response?.items ?? [])
+        .sort((a, b) => a.priority - b.priority)
+        .map((item) => item.appid)
+    } catch (error) {
+      console.error(`[SteamService] Error parsing wishlist for ${steamId}:`, error)
+      return null
+    }
+
+    const names = await this.getAppNames(appIds)
+
+    console.log(`[SteamService] Found ${appIds.length} wishlist games for ${steamId}`)
+    return appIds.map((appId) => ({
+      appId,
+      name: names.get(appId) ?? `App ${appId}`,
+      playtimeMinutes: null,
+    }))
+  }
+
+  /**
+   * 批量获取游戏名称（每次最多查询 100 个）
+   * @param appIds 游戏 ID 列表
+   * @returns 游戏 ID → 名称，查询失败的游戏不包含在内
+   */
+  private async getAppNames(appIds: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>()
+    const chunkSize = 100
+    const { language, country } = i18nService.getSteamRegion()
+
+    for (let i = 0; i < appIds.length; i += chunkSize) {
+      const chunk = appIds.slice(i, i + chunkSize)
+      const input = {
+        ids: chunk.map((appid) => ({ appid })),
+        context: { language, country_code: country },
+      }
+      const itemsUrl = `${STEAM_STORE_ITEMS_API}?input_json=${encodeURIComponent(JSON.stringify(input))}`
+      const body = await this.fetchWithProxy(itemsUrl, `store items: ${chunk.length} apps`)
+
+      if (body === null) {
+        continue
+      }
+
+      try {
+        const data = JSON.parse(body) as SteamStoreItemsResponse
+        for (const item of data.response?.store_items ?? []) {
+          if (item.name) {
+            names.set(item.appid, item.name)
+          }
+        }
+      } catch (error) {
+        console.error('[SteamService] Error parsing store items response:', error)
+      }
+    }
+
+    return names
+  }
 }
 
 // ==================== Service Instance ====================
@@ -334,8 +571,13 @@ export type {
   GetGameDetailsRequest,
   GetGameReviewsRequest,
   GetGameReleaseDateRequest,
+  GetGamePriceRequest,
+  ResolveSteamIdRequest,
+  GetProfileGamesRequest,
   SteamGame,
+  SteamProfileGame,
   GameReleaseInfo,
+  GamePriceInfo,
   GameReviewsInfo,
 }
 
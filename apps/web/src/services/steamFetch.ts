@@ -0,0 +1,275 @@
+import { CORS_PROXIES, STEAM_PROXY_URL } from '../constants/api'
+import { deviceStorage } from '../utils/storage'
+
+// ==================== Types ====================
+
+interface FetchTextOptions {
+  context: string // 上下文信息，用于日志记录
+  cacheTtl?: number // 缓存时间（毫秒），为 0 或不传时不缓存
+}
+
+interface CacheEntry {
+  body: string
+  expiresAt: number
+}
+
+/**
+ * 代理健康状况
+ * 成功率和延迟都使用指数移动平均，最近的请求权重更高
+ */
+interface ProxyHealth {
+  successRate: number // 0 ~ 1
+  latency: number // 毫秒
+  consecutiveFailures: number
+  cooldownUntil: number // 连续失败后在该时间之前排在最后
+}
+
+// ==================== Constants ====================
+
+const HEALTH_STORAGE_KEY = 'steam_proxy_health'
+
+// 令牌桶：最多连续发出 6 个请求，之后每秒 3 个
+const BUCKET_CAPACITY = 6
+const REFILL_PER_SECOND = 3
+
+const REQUEST_TIMEOUT_MS = 10000
+const MAX_CACHE_ENTRIES = 500
+
+// 指数移动平均的权重
+const HEALTH_ALPHA = 0.3
+// 连续失败后的冷却时间：15 秒起翻倍，最长 5 分钟
+const COOLDOWN_BASE_MS = 15000
+const COOLDOWN_MAX_MS = 5 * 60 * 1000
+
+const INITIAL_HEALTH: ProxyHealth = {
+  successRate: 1,
+  latency: 1000,
+  consecutiveFailures: 0,
+  cooldownUntil: 0,
+}
+
+// ==================== Helper Functions ====================
+
+/**
+ * 代理评分：成功率为主，延迟为辅（成功率差 10% 约等于延迟差 1 秒）
+ */
+function scoreProxy(health: ProxyHealth): number {
+  return health.successRate * 1000 - Math.min(health.latency, REQUEST_TIMEOUT_MS) / 10
+}
+
+// ==================== Main Class ====================
+
+/**
+ * Steam 请求层
+ * 所有经由 CORS 代理的 Steam 请求共用同一个实例：
+ * - 响应缓存：按 URL 缓存响应内容，过期时间由调用方决定
+ * - 令牌桶限速：所有调用方共享，超出时排队等待而不是直接失败
+ * - 请求去重：同一 URL 正在请求时，后来的调用复用同一个 Promise
+ * - 代理排序：按最近的成功率和延迟排序，连续失败的代理冷却一段时间后才会优先尝试
+ * - 首选代理（自托管代理）未在冷却中时总是排在最前，公共代理只作为回退
+ */
+class SteamFetchClient {
+  private proxies: string[]
+  private primaryProxy: string | null
+  private cache = new Map<string, CacheEntry>()
+  private inFlight = new Map<string, Promise<string | null>>()
+  private health: Record<string, ProxyHealth>
+  private tokens = BUCKET_CAPACITY
+  private lastRefill = Date.now()
+
+  constructor(proxies: string[], primaryProxy: string | null = null) {
+    this.proxies = primaryProxy ? [primaryProxy, ...proxies] : proxies
+    this.primaryProxy = primaryProxy
+    this.health = this.loadHealth()
+  }
+
+  /**
+   * 请求 URL 并返回响应文本
+   * @param url - 要请求的目标 URL
+   * @param options - 日志上下文和缓存时间
+   * @returns 成功时返回响应文本，所有代理都失败时返回 null
+   */
+  async fetchText(url: string, options: FetchTextOptions): Promise<string | null> {
+    const { context, cacheTtl = 0 } = options
+
+    // Happy Path: 缓存命中
+    const cached = this.cache.get(url)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.body
+    }
+
+    // Happy Path: 同一 URL 正在请求
+    const pending = this.inFlight.get(url)
+    if (pending) {
+      return pending
+    }
+
+    const request = this.fetchThroughProxies(url, context)
+      .then((body) => {
+        if (body !== null && cacheTtl > 0) {
+          this.setCache(url, body, cacheTtl)
+        }
+        return body
+      })
+      .finally(() => {
+        this.inFlight.delete(url)
+      })
+
+    this.inFlight.set(url, request)
+    return request
+  }
+
+  /**
+   * 清除响应缓存
+   */
+  clearCache(): void {
+    this.cache.clear()
+  }
+
+  /**
+   * 按健康状况排序后的代理列表
+   */
+  getRankedProxies(): string[] {
+    const now = Date.now()
+
+    return [...this.proxies].sort((a, b) => {
+      const healthA = this.getHealth(a)
+      const healthB = this.getHealth(b)
+      const coolingA = healthA.cooldownUntil > now
+      const coolingB = healthB.cooldownUntil > now
+
+      if (coolingA !== coolingB) {
+        return coolingA ? 1 : -1
+      }
+
+      if (a === this.primaryProxy || b === this.primaryProxy) {
+        return a === this.primaryProxy ? -1 : 1
+      }
+
+      return scoreProxy(healthB) - scoreProxy(healthA)
+    })
+  }
+
+  // 按排序依次尝试代理，每次尝试都会消耗一个令牌
+  private async fetchThroughProxies(url: string, context: string): Promise<string | null> {
+    const proxies = this.getRankedProxies()
+
+    for (let i = 0; i < proxies.length; i++) {
+      const proxy = proxies[i]
+      const label = `Proxy ${i + 1}/${proxies.length} (${new URL(proxy).host})`
+
+      await this.acquireToken()
+
+      const startedAt = Date.now()
+      try {
+        const response = await fetch(`${proxy}${encodeURIComponent(url)}`, {
+          method: 'GET',
+          headers: {
+            Accept: 'application/json',
+          },
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        })
+
+        if (!response.ok) {
+          console.warn(`[SteamFetchClient] ${label} failed for ${context}: ${response.status}`)
+          this.recordResult(proxy, false, Date.now() - startedAt)
+          continue
+        }
+
+        const body = await response.text()
+        this.recordResult(proxy, true, Date.now() - startedAt)
+        console.log(`[SteamFetchClient] ${label} succeeded for ${context}`)
+        return body
+      } catch (error) {
+        console.error(`[SteamFetchClient] ${label} error for ${context}:`, error)
+        this.recordResult(proxy, false, Date.now() - startedAt)
+      }
+    }
+
+    console.error(`[SteamFetchClient] All proxies failed for ${context}`)
+    return null
+  }
+
+  /**
+   * 从令牌桶中取出一个令牌
+   * 令牌不足时预支并等待，等待时间按预支的数量计算，先到先得
+   */
+  private async acquireToken(): Promise<void> {
+    const now = Date.now()
+    this.tokens = Math.min(
+      BUCKET_CAPACITY,
+      this.tokens + ((now - this.lastRefill) / 1000) * REFILL_PER_SECOND
+    )
+    this.lastRefill = now
+    this.tokens -= 1
+
+    // Happy Path: 令牌充足
+    if (this.tokens >= 0) {
+      return
+    }
+
+    const waitMs = (-this.tokens / REFILL_PER_SECOND) * 1000
+    await new Promise((resolve) => setTimeout(resolve, waitMs))
+  }
+
+  private setCache(url: string, body: string, ttl: number): void {
+    // Map 按插入顺序遍历，超出上限时淘汰最早写入的条目
+    this.cache.delete(url)
+    this.cache.set(url, { body, expiresAt: Date.now() + ttl })
+
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      const oldestUrl = this.cache.keys().next().value
+      if (oldestUrl !== undefined) {
+        this.cache.delete(oldestUrl)
+      }
+    }
+  }
+
+  private getHealth(proxy: string): ProxyHealth {
+    return this.health[proxy] ?? INITIAL_HEALTH
+  }
+
+  private recordResult(proxy: string, success: boolean, latency: number): void {
+    const previous = this.getHealth(proxy)
+    const consecutiveFailures = success ? 0 : previous.consecutiveFailures + 1
+
+    this.health[proxy] = {
+      successRate: previous.successRate * (1 - HEALTH_ALPHA) + (success ? HEALTH_ALPHA : 0),
+      latency: previous.latency * (1 - HEALTH_ALPHA) + latency * HEALTH_ALPHA,
+      consecutiveFailures,
+      cooldownUntil: success
+        ? 0
+        : Date.now() + Math.min(COOLDOWN_BASE_MS * 2 ** (consecutiveFailures - 1), COOLDOWN_MAX_MS),
+    }
+
+    this.saveHealth()
+  }
+
+  // 代理健康状况与配置无关，保存在设备存储中，刷新页面后仍然记得哪些代理不可用
+  private loadHealth(): Record<string, ProxyHealth> {
+    try {
+      const stored = deviceStorage.getItem(HEALTH_STORAGE_KEY)
+      return stored ? (JSON.parse(stored) as Record<string, ProxyHealth>) : {}
+    } catch (error) {
+      console.error('[SteamFetchClient] Failed to load proxy health:', error)
+      return {}
+    }
+  }
+
+  private saveHealth(): void {
+    try {
+      deviceStorage.setItem(HEALTH_STORAGE_KEY, JSON.stringify(this.health))
+    } catch (error) {
+      console.error('[SteamFetchClient] Failed to save proxy health:', error)
+    }
+  }
+}
+
+// ==================== Service Instance ====================
+
+const steamFetchClient = new SteamFetchClient(CORS_PROXIES, STEAM_PROXY_URL)
+
+// ==================== Exports ====================
+
+export type { FetchTextOptions, ProxyHealth }
+export { SteamFetchClient, steamFetchClient }
@@ -0,0 +1,170 @@
+import type { Game, GameStatus } from '../types'
+import type { ImportJob } from '../utils/steamImport'
+import { gameService } from './game'
+import { i18nService } from './i18n'
+import { userGameService } from './userGame'
+import { toCreateGameRequest } from '../utils/gameDataMapper'
+import { recordTransition } from '../utils/playJournal'
+import { storage } from '../utils/storage'
+
+// ==================== Types ====================
+
+interface AddSteamAppRequest {
+  appId: number
+  name: string
+  status: GameStatus
+  sortOrder: number
+  // 创建游戏时的附加信息（从 Steam 搜索结果中获取，可选）
+  steamUrl?: string
+  coverImage?: string
+  positivePercentage?: number
+  totalReviews?: number
+  releaseDate?: string
+  comingSoon?: boolean
+  isEarlyAccess?: boolean
+}
+
+type AddSteamAppResult =
+  | { game: Game }
+  | { error: 'create_failed' | 'add_failed' | 'fetch_failed'; message: string }
+
+// ==================== Constants ====================
+
+const JOB_STORAGE_KEY = 'steam_import_job'
+
+// ==================== Main Class ====================
+
+/**
+ * Steam 游戏入库服务
+ * 负责把 Steam 游戏加入用户库（后端还没有该游戏时先创建），以及保存可恢复的批量导入任务
+ */
+class SteamImportService {
+  /**
+   * 将 Steam 游戏加入用户库
+   * 1. 直接使用 app_id 添加到用户库
+   * 2. 后端还没有该游戏时先创建，再重新添加
+   * 3. 获取完整的游戏信息，转换为前端格式
+   * @param params - 游戏信息和目标书架
+   * @returns 成功时返回新游戏，失败时返回失败原因
+   */
+  async addSteamApp(params: AddSteamAppRequest): Promise<AddSteamAppResult> {
+    const { appId, name, status, sortOrder } = params
+    const addParams = { app_id: appId, status, is_pinned: false, sort_order: sortOrder }
+
+    const addResult = await userGameService.addUserGame(addParams)
+    let gameId: string
+
+    if (addResult && 'error' in addResult && addResult.error === 'game_not_found') {
+      const createdGame = await gameService.createGame(
+        toCreateGameRequest({
+          appId,
+          name,
+          steamUrl: params.steamUrl ?? `https://store.steampowered.com/app/${appId}`,
+          coverImage:
+            params.coverImage ??
+            `https://cdn.cloudflare.steamstatic.com/steam/apps/${appId}/capsule_sm_120.jpg`,
+          type: 'game',
+          positivePercentage: params.positivePercentage,
+          totalReviews: params.totalReviews,
+          releaseDate: params.releaseDate,
+          comingSoon: params.comingSoon,
+          isEarlyAccess: params.isEarlyAccess,
+        })
+      )
+
+      // Happy Path: 创建游戏失败
+      if (!createdGame) {
+        return { error: 'create_failed', message: i18nService.t('steamImport.createFailed') }
+      }
+
+      const retryResult = await userGameService.addUserGame(addParams)
+
+      // Happy Path: 创建后仍然添加失败
+      if (!retryResult || 'error' in retryResult) {
+        return { error: 'add_failed', message: i18nService.t('steamImport.addToLibraryFailed') }
+      }
+
+      gameId = createdGame.id
+    } else if (!addResult || 'error' in addResult) {
+      return { error: 'add_failed', message: i18nService.t('steamImport.addFailed') }
+    } else {
+      gameId = addResult.game_id
+    }
+
+    const backendGame = await gameService.getGame(gameId)
+
+    // Happy Path: 获取游戏信息失败
+    if (!backendGame) {
+      return { error: 'fetch_failed', message: i18nService.t('steamImport.fetchFailed') }
+    }
+
+    return {
+      game: {
+        id: backendGame.id,
+        name: backendGame.name,
+        status,
+        isPinned: false,
+        sortOrder,
+        addedAt: backendGame.created_at,
+        lastUpdated: backendGame.updated_at,
+        steamUrl: backendGame.steam_url,
+        coverImage: backendGame.capsule_image,
+        positivePercentage: params.positivePercentage ?? backendGame.positive_percentage,
+        totalReviews: params.totalReviews ?? backendGame.total_reviews,
+        chinesePositivePercentage: undefined,
+        chineseTotalReviews: undefined,
+        releaseDate: backendGame.release_date ?? backendGame.release_date_text,
+        comingSoon: params.comingSoon ?? backendGame.categories?.includes('Coming Soon'),
+        isEarlyAccess: params.isEarlyAccess ?? backendGame.categories?.includes('Early Access'),
+        genres: backendGame.genres?.map((genre) => ({ id: genre, description: genre })),
+        developers: backendGame.developers,
+        publishers: backendGame.publishers,
+        // 记录加入游戏库的时间，作为游玩日志的第一条状态变更
+        journal: recordTransition(undefined, null, status),
+      },
+    }
+  }
+
+  /**
+   * 读取未完成的导入任务
+   * @returns 有未完成的任务时返回任务，否则返回 null
+   */
+  loadJob(): ImportJob | null {
+    try {
+      const stored = storage.getItem(JOB_STORAGE_KEY)
+
+      // Happy Path: 没有保存的任务
+      if (!stored) {
+        return null
+      }
+
+      return JSON.parse(stored) as ImportJob
+    } catch (error) {
+      console.error('[SteamImportService] Failed to load import job:', error)
+      return null
+    }
+  }
+
+  /**
+   * 保存导入任务进度
+   */
+  saveJob(job: ImportJob): void {
+    storage.setItem(JOB_STORAGE_KEY, JSON.stringify(job))
+  }
+
+  /**
+   * 清除导入任务
+   */
+  clearJob(): void {
+    storage.removeItem(JOB_STORAGE_KEY)
+  }
+}
+
+// ==================== Service Instance ====================
+
+const steamImportService = new SteamImportService()
+
+// ==================== Exports ====================
+
+export type { AddSteamAppRequest, AddSteamAppResult }
+export { SteamImportService, steamImportService }
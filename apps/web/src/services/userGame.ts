@@ -8,10 +8,24 @@ import type {
   AddUserGameErrorResponse,
   UpdateUserGameRequest,
   UpdateUserGameResponse,
+  UpdateUserGameSortOrdersRequest,
   GetUserGamesResponse,
+  BackendPlayJournal,
+  UpdateUserGameJournalResponse,
 } from '../types'
-import { USER_GAMES_API, getUserGameApiUrl, getUserGameStatusApiUrl } from '../constants/api'
-import { getToken } from './auth'
+import {
+  USER_GAMES_API,
+  USER_GAMES_SORT_ORDER_API,
+  getUserGameApiUrl,
+  getUserGameStatusApiUrl,
+  getUserGameJournalApiUrl,
+} from '../constants/api'
+import { apiClient } from './apiClient'
+
+// ==================== Constants ====================
+
+// 读取完整游戏库时的分页大小（后端上限）
+const ALL_GAMES_PAGE_SIZE = 100
 
 // ==================== Main Class ====================
 
@@ -20,35 +34,20 @@ import { getToken } from './auth'
  * 所有接口都需要认证，使用 Bearer Token
  */
 class UserGameService {
-  /**
-   * 获取请求 headers
-   * 使用 Bearer Token 认证
-   */
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    const token = getToken()
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    return headers
-  }
-
   /**
    * 获取当前用户的游戏库（需认证）
    * @param params - 查询参数
    * @param params.status - 游戏状态筛选
    * @param params.page - 页码
    * @param params.page_size - 每页数量
+   * @param params.sort_by - 排序字段（sort_order 为手动排序）
    * @returns 成功时返回用户游戏列表（包含完整游戏信息）和分页信息，失败时返回 null
    */
   async getUserGames(params?: {
     status?: GameStatus
     page?: number
     page_size?: number
+    sort_by?: 'sort_order' | 'added_at'
   }): Promise<{ data: UserGameWithDetails[]; pagination: Pagination } | null> {
     try {
       // 构建查询参数
@@ -56,14 +55,13 @@ class UserGameService {
       if (params?.status) queryParams.append('status', params.status)
       if (params?.page) queryParams.append('page', params.page.toString())
       if (params?.page_size) queryParams.append('page_size', params.page_size.toString())
+      if (params?.sort_by) queryParams.append('sort_by', params.sort_by)
 
       const url = queryParams.toString()
         ? `${USER_GAMES_API}?${queryParams.toString()}`
         : USER_GAMES_API
 
-      const response = await fetch(url, {
-        headers: this.getHeaders(),
-      })
+      const response = await apiClient.request(url)
 
       // Happy Path: 未认证
       if (response.status === 401) {
@@ -94,6 +92,39 @@ class UserGameService {
     }
   }
 
+  /**
+   * 逐页读取当前用户的完整游戏库（需认证）
+   * 游戏列表只加载每个书架已滚动到的分页，导出、导入、统计等需要完整数据时使用
+   * @param params - 查询参数
+   * @param params.status - 只读取指定书架，不传时读取所有书架
+   * @returns 成功时返回全部用户游戏，任意一页失败时返回 null
+   */
+  async getAllUserGames(params?: { status?: GameStatus }): Promise<UserGameWithDetails[] | null> {
+    const games: UserGameWithDetails[] = []
+    let page = 1
+    let hasNext = true
+
+    while (hasNext) {
+      const result = await this.getUserGames({
+        status: params?.status,
+        page,
+        page_size: ALL_GAMES_PAGE_SIZE,
+        sort_by: 'sort_order',
+      })
+
+      // Happy Path: 请求失败
+      if (!result) {
+        return null
+      }
+
+      games.push(...result.data)
+      hasNext = result.pagination.has_next
+      page++
+    }
+
+    return games
+  }
+
   /**
    * 添加游戏到用户库（需认证）
    * 支持通过 game_id 或 app_id 添加
@@ -115,9 +146,8 @@ class UserGameService {
     }
 
     try {
-      const response = await fetch(USER_GAMES_API, {
+      const response = await apiClient.request(USER_GAMES_API, {
         method: 'POST',
-        headers: this.getHeaders(),
         body: JSON.stringify(params),
       })
 
@@ -162,7 +192,7 @@ class UserGameService {
   /**
    * 更新用户游戏状态（需认证）
    * @param gameId - 游戏 ID (UUID)
-   * @param updates - 要更新的字段（status 和/或 is_pinned）
+   * @param updates - 要更新的字段（status、is_pinned、sort_order、target_price 任意组合，target_currency 随 target_price 一起更新）
    * @returns 成功时返回更新后的用户游戏关系对象，失败时返回 null
    */
   async updateUserGame(gameId: string, updates: UpdateUserGameRequest): Promise<UserGame | null> {
@@ -173,7 +203,12 @@ class UserGameService {
     }
 
     // Happy Path: 没有更新内容
-    if (!updates.status && updates.is_pinned === undefined) {
+    if (
+      !updates.status &&
+      updates.is_pinned === undefined &&
+      updates.sort_order === undefined &&
+      updates.target_price === undefined
+    ) {
       console.error('[UserGameService] No updates provided')
       return null
     }
@@ -181,9 +216,8 @@ class UserGameService {
     try {
       // 使用 /status 路径更新游戏状态
       const statusUrl = getUserGameStatusApiUrl(gameId)
-      const response = await fetch(statusUrl, {
+      const response = await apiClient.request(statusUrl, {
         method: 'PATCH',
-        headers: this.getHeaders(),
         body: JSON.stringify(updates),
       })
 
@@ -223,6 +257,109 @@ class UserGameService {
     }
   }
 
+  /**
+   * 批量更新用户游戏排序权重（需认证）
+   * 用于排序权重耗尽时一次性重新分配，避免逐条请求
+   * @param items - 游戏 ID 与新排序权重
+   * @returns 成功返回 true，失败返回 false
+   */
+  async updateSortOrders(items: { gameId: string; sortOrder: number }[]): Promise<boolean> {
+    // Happy Path: 没有需要更新的游戏
+    if (items.length === 0) {
+      return true
+    }
+
+    try {
+      const body: UpdateUserGameSortOrdersRequest = {
+        items: items.map((item) => ({ game_id: item.gameId, sort_order: item.sortOrder })),
+      }
+
+      const response = await apiClient.request(USER_GAMES_SORT_ORDER_API, {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      })
+
+      // Happy Path: 未认证
+      if (response.status === 401) {
+        console.error('[UserGameService] Unauthorized: Please login first')
+        return false
+      }
+
+      // Happy Path: API 请求失败
+      if (!response.ok) {
+        console.error(
+          `[UserGameService] Failed to update sort orders: ${response.status} ${response.statusText}`
+        )
+        return false
+      }
+
+      console.log(`[UserGameService] Successfully updated ${items.length} sort orders`)
+      return true
+    } catch (error) {
+      console.error('[UserGameService] Failed to update sort orders:', error)
+      return false
+    }
+  }
+
+  /**
+   * 保存用户游戏的游玩日志（需认证）
+   * 游玩日志整体替换，包括会话、状态变更时间、评分和笔记
+   * @param gameId - 游戏 ID (UUID)
+   * @param journal - 完整的游玩日志
+   * @returns 成功时返回保存后的游玩日志，失败时返回 null
+   */
+  async updateJournal(
+    gameId: string,
+    journal: BackendPlayJournal
+  ): Promise<BackendPlayJournal | null> {
+    // Happy Path: 游戏 ID 为空
+    if (!gameId || gameId.trim() === '') {
+      console.error('[UserGameService] Invalid game ID')
+      return null
+    }
+
+    try {
+      const response = await apiClient.request(getUserGameJournalApiUrl(gameId), {
+        method: 'PUT',
+        body: JSON.stringify(journal),
+      })
+
+      // Happy Path: 未认证
+      if (response.status === 401) {
+        console.error('[UserGameService] Unauthorized: Please login first')
+        return null
+      }
+
+      // Happy Path: 游戏不在用户库中
+      if (response.status === 404) {
+        console.warn(`[UserGameService] User game not found: ${gameId}`)
+        return null
+      }
+
+      // Happy Path: API 请求失败
+      if (!response.ok) {
+        console.error(
+          `[UserGameService] Failed to update journal: ${response.status} ${response.statusText}`
+        )
+        return null
+      }
+
+      const data: UpdateUserGameJournalResponse = await response.json()
+
+      // Happy Path: 响应数据无效
+      if (!data || !data.data) {
+        console.error('[UserGameService] Invalid response data')
+        return null
+      }
+
+      console.log(`[UserGameService] Successfully updated journal: ${gameId}`)
+      return data.data.journal
+    } catch (error) {
+      console.error('[UserGameService] Failed to update journal:', error)
+      return null
+    }
+  }
+
   /**
    * 从用户库中移除游戏（需认证）
    * @param gameId - 游戏 ID (UUID)
@@ -237,9 +374,8 @@ class UserGameService {
 
     try {
       const userGameUrl = getUserGameApiUrl(gameId)
-      const response = await fetch(userGameUrl, {
+      const response = await apiClient.request(userGameUrl, {
         method: 'DELETE',
-        headers: this.getHeaders(),
       })
 
       // Happy Path: 未认证
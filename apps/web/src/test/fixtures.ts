@@ -0,0 +1,22 @@
+import type { Game } from '../types'
+
+/**
+ * 创建测试用的游戏，只需传入与用例相关的字段
+ * 名称默认由 ID 生成，如 "Game a"
+ */
+function createGame(overrides: Partial<Game> = {}): Game {
+  const id = overrides.id ?? 'game-1'
+
+  return {
+    id,
+    name: `Game ${id}`,
+    status: 'playing',
+    addedAt: '2026-01-01T00:00:00Z',
+    lastUpdated: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+// ==================== Exports ====================
+
+export { createGame }
@@ -4,6 +4,32 @@
 interface User {
   id: string
   username: string
+  steam_id?: string | null // 关联的 SteamID64
+  github_login?: string | null // 关联的 GitHub 用户名
+  has_password?: boolean // 通过第三方登录创建的账号没有密码
+}
+
+/**
+ * 第三方登录方式
+ */
+type OAuthProvider = 'steam' | 'github'
+
+/**
+ * 第三方登录的用途：登录（未关联时创建账号）或为当前账号关联
+ */
+type OAuthIntent = 'login' | 'link'
+
+/**
+ * 第三方登录回调的处理结果
+ */
+interface OAuthCallbackResult {
+  provider: OAuthProvider
+  intent: OAuthIntent
+  user: User | null // 失败或用户取消时为 null
+}
+
+interface UserResponse {
+  data: User
 }
 
 interface LoginRequest {
@@ -14,18 +40,121 @@ interface LoginRequest {
 interface LoginResponse {
   token: string
   user: User
+  expires_at?: string // Token 过期时间（ISO 8601），未返回时按 60 天计算
 }
 
 interface AuthResponse {
   data: LoginResponse
 }
 
+interface RegisterRequest {
+  username: string
+  password: string
+}
+
+interface ChangePasswordRequest {
+  current_password: string
+  new_password: string
+}
+
+/**
+ * 删除账号时确认身份：有密码的账号提供密码，没有密码的账号（仅第三方登录）输入用户名确认
+ */
+type DeleteAccountRequest = { password: string } | { confirm_username: string }
+
+/**
+ * 登录会话（一个设备或浏览器上的一次登录）
+ */
+interface AuthSession {
+  id: string
+  created_at: string
+  last_active_at: string
+  expires_at: string
+  user_agent?: string | null
+  ip?: string | null
+  current: boolean // 是否为发起请求的当前会话
+}
+
+interface AuthSessionsResponse {
+  data: AuthSession[]
+}
+
 interface LogoutResponse {
   message: string
 }
 
 // Game Types
-type GameStatus = 'playing' | 'queueing' | 'completion'
+/**
+ * 游戏状态即所在书架的 ID
+ * 默认书架为 playing / queueing / completion，用户还可以创建自定义书架
+ */
+type GameStatus = string
+
+// Shelf Types
+interface Shelf {
+  id: string
+  name: string
+  color: string
+  order: number
+  nextShelfId: string | null // 状态推进流中的下一个书架，null 表示流程终点
+  actionLabel: string // 推进到该书架时按钮上显示的文字
+  isDefault?: boolean // 默认书架不可删除
+}
+
+// Play Journal Types
+interface PlaySession {
+  id: string
+  startedAt: string
+  endedAt: string
+  durationMinutes: number
+  note?: string
+}
+
+interface StatusTransition {
+  from: GameStatus | null // null 表示刚加入游戏库
+  to: GameStatus
+  at: string
+}
+
+interface PlayJournal {
+  sessions: PlaySession[]
+  transitions: StatusTransition[]
+  rating: number | null // 个人评分 1-10
+  notes: string
+  activeSessionStartedAt: string | null // 正在计时的会话开始时间
+}
+
+// Price Tracking Types
+// 金额均以最小货币单位（分）保存，与 Steam price_overview 一致
+interface PriceInfo {
+  currency: string
+  initial: number
+  final: number
+  discountPercent: number
+}
+
+interface PricePoint extends PriceInfo {
+  at: string
+}
+
+interface PriceHistory {
+  gameId: string
+  points: PricePoint[] // 按时间升序
+}
+
+// Release Tracking Types
+// 发布日期变化（延期或提前），from/to 均为 Steam 返回的原始文本
+interface ReleaseSlip {
+  from: string
+  to: string
+  at: string
+}
+
+interface ReleaseHistory {
+  gameId: string
+  releaseDate: string // 最近一次看到的发布日期
+  slips: ReleaseSlip[] // 按时间升序
+}
 
 interface Genre {
   id: string
@@ -48,7 +177,20 @@ interface Game {
   comingSoon?: boolean
   isEarlyAccess?: boolean
   genres?: Genre[]
+  platforms?: {
+    windows: boolean
+    mac: boolean
+    linux: boolean
+  }
+  developers?: string[]
+  publishers?: string[]
   isPinned?: boolean
+  sortOrder?: number // 手动排序权重，越小越靠前
+  journal?: PlayJournal
+  isFree?: boolean
+  price?: PriceInfo // 当前价格
+  targetPrice?: number | null // 用户设置的目标价格（分），低于该价格时提醒
+  targetCurrency?: string | null // 设置目标价格时的货币，与当前价格的货币不同时不提醒
 }
 
 interface GameQueueData {
@@ -92,6 +234,17 @@ interface BackendGame {
   updated_at: string
 }
 
+// 用户书架（GET/PUT /api/users/me/shelves）
+interface BackendShelf {
+  id: string
+  name: string
+  color: string
+  sort_order: number
+  next_shelf_id: string | null
+  action_label: string
+  is_default: boolean
+}
+
 // Pagination Types
 interface Pagination {
   page: number
@@ -109,15 +262,38 @@ interface UserGame {
   game_id: string
   status: GameStatus
   is_pinned: boolean
+  sort_order?: number
   added_at: string
   updated_at: string
 }
 
+// 用户游戏游玩日志（随用户游戏关系存储）
+interface BackendPlayJournal {
+  sessions: {
+    id: string
+    started_at: string
+    ended_at: string
+    duration_minutes: number
+    note?: string
+  }[]
+  status_transitions: {
+    from: GameStatus | null
+    to: GameStatus
+    at: string
+  }[]
+  rating: number | null
+  notes: string
+  active_session_started_at: string | null
+}
+
 // 用户游戏列表项（GET /api/users/me/games 返回，包含完整游戏信息）
 interface UserGameWithDetails extends BackendGame {
   status: GameStatus
   is_pinned: boolean
   sort_order: number
+  target_price?: number | null
+  target_currency?: string | null
+  journal?: BackendPlayJournal | null
 }
 
 // Game API Request/Response Types
@@ -208,6 +384,17 @@ interface AddUserGameErrorResponse {
 interface UpdateUserGameRequest {
   status?: GameStatus
   is_pinned?: boolean
+  sort_order?: number
+  target_price?: number | null
+  target_currency?: string | null
+}
+
+// 批量更新排序权重（PATCH /api/users/me/games/sort-order）
+interface UpdateUserGameSortOrdersRequest {
+  items: {
+    game_id: string
+    sort_order: number
+  }[]
 }
 
 interface UpdateUserGameResponse {
@@ -219,19 +406,50 @@ interface GetUserGamesResponse {
   pagination: Pagination
 }
 
+interface UpdateUserGameJournalResponse {
+  data: {
+    game_id: string
+    journal: BackendPlayJournal
+  }
+}
+
+interface GetUserShelvesResponse {
+  data: BackendShelf[]
+}
+
 // ==================== Exports ====================
 
 export type {
   User,
+  OAuthProvider,
+  OAuthIntent,
+  OAuthCallbackResult,
+  UserResponse,
   LoginRequest,
   LoginResponse,
   AuthResponse,
+  RegisterRequest,
+  ChangePasswordRequest,
+  DeleteAccountRequest,
+  AuthSession,
+  AuthSessionsResponse,
   LogoutResponse,
   GameStatus,
+  Shelf,
+  PlaySession,
+  StatusTransition,
+  PlayJournal,
+  PriceInfo,
+  PricePoint,
+  PriceHistory,
+  ReleaseSlip,
+  ReleaseHistory,
   Genre,
   Game,
   GameQueueData,
   BackendGame,
+  BackendShelf,
+  BackendPlayJournal,
   Pagination,
   UserGame,
   UserGameWithDetails,
@@ -247,5 +465,8 @@ export type {
   AddUserGameErrorResponse,
   UpdateUserGameRequest,
   UpdateUserGameResponse,
+  UpdateUserGameSortOrdersRequest,
   GetUserGamesResponse,
+  UpdateUserGameJournalResponse,
+  GetUserShelvesResponse,
 }
@@ -0,0 +1,78 @@
+import { i18nService } from '../services/i18n'
+
+// ==================== Types ====================
+
+interface BatchFailure<T> {
+  item: T
+  error: string
+}
+
+interface BatchResult<T> {
+  succeeded: T[]
+  failed: BatchFailure<T>[]
+}
+
+interface BatchProgress {
+  completed: number
+  total: number
+}
+
+// ==================== Constants ====================
+
+// 默认同时进行的请求数，避免一次性向后端发出几十个请求
+const DEFAULT_CONCURRENCY = 4
+
+// ==================== Helper Functions ====================
+
+/**
+ * 以有限并发执行批量任务
+ * 单个任务失败不会中断其他任务，失败原因逐条记录
+ * @param items - 待处理的项目
+ * @param worker - 处理单个项目，返回 false 或抛出异常都视为失败
+ * @param options.concurrency - 最大并发数
+ * @param options.onProgress - 每完成一项回调一次
+ * @returns 成功和失败的项目（保持原顺序）
+ */
+async function runBatch<T>(
+  items: T[],
+  worker: (item: T) => Promise<boolean>,
+  options: { concurrency?: number; onProgress?: (progress: BatchProgress) => void } = {}
+): Promise<BatchResult<T>> {
+  const { concurrency = DEFAULT_CONCURRENCY, onProgress } = options
+  const outcomes: (string | null)[] = new Array(items.length).fill(null)
+  let nextIndex = 0
+  let completed = 0
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+
+      try {
+        const success = await worker(items[index])
+        outcomes[index] = success ? null : i18nService.t('common.requestFailed')
+      } catch (error) {
+        outcomes[index] = error instanceof Error ? error.message : String(error)
+      }
+
+      completed++
+      onProgress?.({ completed, total: items.length })
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, runWorker)
+  )
+
+  return {
+    succeeded: items.filter((_, index) => outcomes[index] === null),
+    failed: items.flatMap((item, index) => {
+      const error = outcomes[index]
+      return error === null ? [] : [{ item, error }]
+    }),
+  }
+}
+
+// ==================== Exports ====================
+
+export type { BatchFailure, BatchResult, BatchProgress }
+export { DEFAULT_CONCURRENCY, runBatch }
@@ -0,0 +1,100 @@
+// ==================== Types ====================
+
+/**
+ * 账号信息校验错误
+ * 与后端的注册、修改密码规则一致，界面按错误码显示提示
+ */
+type CredentialsError =
+  | 'usernameLength'
+  | 'usernameChars'
+  | 'passwordLength'
+  | 'passwordWeak'
+  | 'passwordMismatch'
+  | 'passwordUnchanged'
+
+// ==================== Constants ====================
+
+const USERNAME_MIN_LENGTH = 3
+const USERNAME_MAX_LENGTH = 32
+const PASSWORD_MIN_LENGTH = 8
+const PASSWORD_MAX_LENGTH = 128
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]+$/
+
+// ==================== Validation ====================
+
+/**
+ * 校验用户名：3-32 位字母、数字、下划线或连字符
+ */
+function validateUsername(username: string): CredentialsError | null {
+  const trimmed = username.trim()
+
+  if (trimmed.length < USERNAME_MIN_LENGTH || trimmed.length > USERNAME_MAX_LENGTH) {
+    return 'usernameLength'
+  }
+
+  if (!USERNAME_PATTERN.test(trimmed)) {
+    return 'usernameChars'
+  }
+
+  return null
+}
+
+/**
+ * 校验新密码：至少 8 位，同时包含字母和数字，且两次输入一致
+ */
+function validatePassword(password: string, confirmPassword: string): CredentialsError | null {
+  if (password.length < PASSWORD_MIN_LENGTH || password.length > PASSWORD_MAX_LENGTH) {
+    return 'passwordLength'
+  }
+
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    return 'passwordWeak'
+  }
+
+  if (password !== confirmPassword) {
+    return 'passwordMismatch'
+  }
+
+  return null
+}
+
+/**
+ * 校验注册信息
+ * @returns 第一个不满足的规则，全部通过返回 null
+ */
+function validateRegistration(
+  username: string,
+  password: string,
+  confirmPassword: string
+): CredentialsError | null {
+  return validateUsername(username) ?? validatePassword(password, confirmPassword)
+}
+
+/**
+ * 校验修改密码的输入，新密码不能与当前密码相同
+ */
+function validatePasswordChange(
+  currentPassword: string,
+  newPassword: string,
+  confirmPassword: string
+): CredentialsError | null {
+  if (currentPassword === newPassword) {
+    return 'passwordUnchanged'
+  }
+
+  return validatePassword(newPassword, confirmPassword)
+}
+
+// ==================== Exports ====================
+
+export type { CredentialsError }
+export {
+  USERNAME_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+  validateUsername,
+  validatePassword,
+  validateRegistration,
+  validatePasswordChange,
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { escapeCsvValue, parseCsv, toCsv } from './csv'
+
+describe('parseCsv', () => {
+  it('splits rows and values', () => {
+    expect(parseCsv('name,status\nHades,playing\nCeleste,completed')).toEqual([
+      ['name', 'status'],
+      ['Hades', 'playing'],
+      ['Celeste', 'completed'],
+    ])
+  })
+
+  it('handles CRLF, lone CR and a trailing newline', () => {
+    expect(parseCsv('a,b\r\nc,d\re,f\r\n')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f'],
+    ])
+  })
+
+  it('keeps commas, escaped quotes and newlines inside quoted values', () => {
+    expect(parseCsv('"Hello, World","Say ""hi""","line 1\r\nline 2"\nnext,row')).toEqual([
+      ['Hello, World', 'Say "hi"', 'line 1\r\nline 2'],
+      ['next', 'row'],
+    ])
+  })
+
+  it('keeps empty values but skips blank lines', () => {
+    expect(parseCsv('a,,c\n\n,\n\nlast')).toEqual([['a', '', 'c'], ['', ''], ['last']])
+  })
+
+  it('strips a leading BOM', () => {
+    expect(parseCsv('\uFEFFname\nHades')).toEqual([['name'], ['Hades']])
+  })
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([])
+    expect(parseCsv('\uFEFF\r\n')).toEqual([])
+  })
+
+  it('reads back what toCsv writes', () => {
+    const rows = [
+      ['name', 'note'],
+      ['Hades', 'Roguelike, "great"'],
+      ['塞尔达传说', 'multi\nline'],
+      ['', ''],
+    ]
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+})
+
+describe('escapeCsvValue', () => {
+  it('quotes values only when needed', () => {
+    expect(escapeCsvValue('plain')).toBe('plain')
+    expect(escapeCsvValue('a,b')).toBe('"a,b"')
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsvValue(42)).toBe('42')
+    expect(escapeCsvValue(null)).toBe('')
+  })
+})
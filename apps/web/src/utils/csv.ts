@@ -0,0 +1,82 @@
+/**
+ * CSV 工具函数
+ */
+
+type CsvValue = string | number | boolean | null | undefined
+
+/**
+ * 转义单个值：包含逗号、引号或换行时用引号包裹
+ */
+function escapeCsvValue(value: CsvValue): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 将二维数组转换为 CSV 文本
+ * 开头带 BOM，Excel 打开时可以正确识别中文
+ * @param rows - 行数据，第一行通常为表头
+ */
+function toCsv(rows: CsvValue[][]): string {
+  return '\uFEFF' + rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * 解析 CSV 文本（RFC 4180：引号包裹的值可以包含逗号、引号和换行）
+ * 会去掉开头的 BOM 并忽略空行
+ * @param text - CSV 文本
+ * @returns 行数据，每行为字符串数组
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  const endRow = () => {
+    row.push(value)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row)
+    }
+    row = []
+    value = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        value += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(value)
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      // \r\n 只算一次换行
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      value += char
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+// ==================== Exports ====================
+
+export type { CsvValue }
+export { escapeCsvValue, toCsv, parseCsv }
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { getReleaseDateRange, getReleaseSortValue, parseReleaseDate } from './dateUtils'
+
+describe('parseReleaseDate', () => {
+  it.each([
+    ['2026 年 2 月 3 日'],
+    ['2026年2月3日'],
+    ['2026년 2월 3일'],
+    ['Feb 3, 2026'],
+    ['3 Feb, 2026'],
+    ['3. Feb. 2026'],
+    ['3 févr. 2026'],
+    ['February 3rd, 2026'],
+    ['2026-02-03'],
+  ])('parses the full date "%s"', (text) => {
+    expect(parseReleaseDate(text)).toEqual({
+      precision: 'day',
+      year: 2026,
+      quarter: 1,
+      month: 2,
+      day: 3,
+    })
+  })
+
+  it.each([['2026 年 5 月'], ['May 2026'], ['Mai 2026'], ['mai 2026'], ['2026년 5월']])(
+    'parses the month "%s"',
+    (text) => {
+      expect(parseReleaseDate(text)).toEqual({
+        precision: 'month',
+        year: 2026,
+        quarter: 2,
+        month: 5,
+        day: null,
+      })
+    }
+  )
+
+  it.each([
+    ['2026 年第二季度'],
+    ['2026 年第 2 季'],
+    ['2026年第2四半期'],
+    ['2026년 2분기'],
+    ['Q2 2026'],
+    ['T2 2026'],
+    ['2. Quartal 2026'],
+    ['2e trimestre 2026'],
+    ['2nd quarter 2026'],
+  ])('parses the quarter "%s"', (text) => {
+    expect(parseReleaseDate(text)).toEqual({
+      precision: 'quarter',
+      year: 2026,
+      quarter: 2,
+      month: null,
+      day: null,
+    })
+  })
+
+  it.each([['2026'], ['2026 年']])('parses the year "%s"', (text) => {
+    expect(parseReleaseDate(text)).toMatchObject({ precision: 'year', year: 2026 })
+  })
+
+  it.each([
+    ['即将宣布'],
+    ['Coming soon'],
+    ['To be announced'],
+    ['Demnächst'],
+    ['Prochainement'],
+    ['近日登場'],
+    ['출시 예정'],
+  ])('parses "%s" as to be announced', (text) => {
+    expect(parseReleaseDate(text)).toMatchObject({ precision: 'tba', year: null })
+  })
+
+  it('parses "1er mai 2026" with a French ordinal day', () => {
+    expect(parseReleaseDate('1er mai 2026')).toMatchObject({ precision: 'day', month: 5, day: 1 })
+  })
+
+  it('falls back to the month when the day does not exist', () => {
+    expect(parseReleaseDate('Feb 30, 2026')).toMatchObject({ precision: 'month', month: 2 })
+  })
+
+  it.each([[null], [''], ['   '], ['Feb 3'], ['sometime']])('returns null for %j', (text) => {
+    expect(parseReleaseDate(text)).toBeNull()
+  })
+})
+
+describe('getReleaseDateRange', () => {
+  it('covers the whole quarter', () => {
+    const range = getReleaseDateRange(parseReleaseDate('Q2 2026')!)
+
+    expect(range).toEqual({ start: new Date(2026, 3, 1), end: new Date(2026, 5, 30) })
+  })
+
+  it('returns null for dates to be announced', () => {
+    expect(getReleaseDateRange(parseReleaseDate('Coming soon')!)).toBeNull()
+  })
+})
+
+describe('getReleaseSortValue', () => {
+  it('sorts exact dates before vaguer dates starting on the same day', () => {
+    const [day, month, quarter, year] = ['Jan 1, 2026', 'January 2026', 'Q1 2026', '2026'].map(
+      (text) => getReleaseSortValue(text)!
+    )
+
+    expect(day).toBeLessThan(month)
+    expect(month).toBeLessThan(quarter)
+    expect(quarter).toBeLessThan(year)
+  })
+})
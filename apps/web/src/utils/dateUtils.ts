@@ -2,57 +2,293 @@
  * 日期工具函数
  */
 
+// ==================== Types ====================
+
+/**
+ * 发布日期的精度
+ * - day: 精确到日，如 "2026 年 2 月 3 日"、"Feb 3, 2026"
+ * - month: 精确到月，如 "2026 年 5 月"、"May 2026"
+ * - quarter: 季度，如 "2026 年第二季度"、"Q2 2026"
+ * - year: 只有年份，如 "2026"
+ * - tba: 待定，如 "即将宣布"、"Coming soon"
+ */
+type ReleaseDatePrecision = 'day' | 'month' | 'quarter' | 'year' | 'tba'
+
+/**
+ * 解析后的发布日期
+ * 字段按精度填写，其余为 null（月份和日期从 1 开始）
+ */
+interface ReleaseDate {
+  precision: ReleaseDatePrecision
+  year: number | null
+  quarter: number | null
+  month: number | null
+  day: number | null
+}
+
+// ==================== Constants ====================
+
+// 英语、德语、法语的月份名称和缩写（小写，去掉缩写点），按月份顺序排列
+const MONTH_NAME_LIST = [
+  'jan january januar janv janvier',
+  'feb february februar fév févr février fevr fevrier',
+  'mar march mär märz maerz mars',
+  'apr april avr avril',
+  'may mai',
+  'jun june juni juin',
+  'jul july juli juil juillet',
+  'aug august août aout',
+  'sep sept september septembre',
+  'oct october okt oktober octobre',
+  'nov november novembre',
+  'dec december dez dezember déc décembre decembre',
+]
+
+const MONTH_NAMES = new Map(
+  MONTH_NAME_LIST.flatMap((names, index) =>
+    names.split(' ').map((name): [string, number] => [name, index + 1])
+  )
+)
+
+const CHINESE_NUMERALS: Record<string, number> = { 一: 1, 二: 2, 三: 3, 四: 4 }
+
+// 各语言 Steam 商店中表示"待定"的文案（小写）
+const TBA_KEYWORDS = [
+  // 中文
+  '即将',
+  '即將',
+  '待定',
+  // 英语
+  'coming soon',
+  'to be announced',
+  'tba',
+  'tbd',
+  // 德语
+  'demnächst',
+  'wird angekündigt',
+  'bald verfügbar',
+  // 法语
+  'prochainement',
+  'à venir',
+  'à déterminer',
+  'bientôt',
+  // 日语
+  '近日',
+  '未定',
+  '発表予定',
+  // 韩语
+  '출시 예정',
+  '추후 공개',
+  '곧 출시',
+]
+
+// 中文、日语、韩语的日期格式（年月日带单位）
+const CJK_YEAR = /(\d{4})\s*[年년]/
+const CJK_MONTH = /(\d{1,2})\s*[月월]/
+const CJK_DAY = /(\d{1,2})\s*[日일]/
+// 中文 "第二季度" / "第 2 季"，日语 "第2四半期"，韩语 "2분기"
+const CJK_QUARTER = /第\s*([一二三四1-4])\s*(?:季度?|四半期)|([1-4])\s*분기/
+
+// 英语 "Q2"、法语 "T2"、德语 "2. Quartal"、法语 "2e trimestre"、英语 "2nd quarter"
+const WESTERN_QUARTER =
+  /\b[qt]([1-4])\b|\b([1-4])\.?\s*quartal|\b([1-4])(?:er|e|ème|eme)?\s*trimestre|\b([1-4])(?:st|nd|rd|th)?\s*quarter|\bquarter\s*([1-4])\b/
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})/
+
+// ==================== Helper Functions ====================
+
+function createReleaseDate(
+  precision: ReleaseDatePrecision,
+  fields: Partial<Omit<ReleaseDate, 'precision'>> = {}
+): ReleaseDate {
+  return { precision, year: null, quarter: null, month: null, day: null, ...fields }
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= new Date(year, month, 0).getDate()
+}
+
 /**
- * 解析Steam的发布日期字符串
- * 支持的格式：
- * - "2026 年 2 月 3 日"
- * - "2025年6月19日"
- * - "2016 年 2 月 26 日"
- * - "即将宣布"
- * - "2026 年第二季度"
- * - "Coming Soon"
- * @param dateString - Steam返回的日期字符串
- * @returns Date对象，如果无法解析则返回null
+ * 根据已识别的年、季度、月、日组合出发布日期
+ * 缺少年份时无法确定日期，返回 null
  */
-function parseSteamReleaseDate(dateString: string | null): Date | null {
-  if (!dateString) {
+function buildReleaseDate(
+  year: number | null,
+  quarter: number | null,
+  month: number | null,
+  day: number | null
+): ReleaseDate | null {
+  // Happy Path: 没有年份
+  if (year === null) {
     return null
   }
 
-  // 处理特殊情况
-  const lowerDate = dateString.toLowerCase()
-  if (
-    lowerDate.includes('即将') ||
-    lowerDate.includes('coming soon') ||
-    lowerDate.includes('tba') ||
-    lowerDate.includes('季度') ||
-    lowerDate.includes('quarter')
-  ) {
+  if (quarter !== null) {
+    return createReleaseDate('quarter', { year, quarter })
+  }
+
+  if (month !== null && month >= 1 && month <= 12) {
+    return day !== null && isValidDay(year, month, day)
+      ? createReleaseDate('day', { year, quarter: Math.ceil(month / 3), month, day })
+      : createReleaseDate('month', { year, quarter: Math.ceil(month / 3), month })
+  }
+
+  return createReleaseDate('year', { year })
+}
+
+/**
+ * 解析中文、日语、韩语格式，如 "2026 年 2 月 3 日"、"2026年第2四半期"、"2026년 5월"
+ */
+function parseCjkDate(text: string): ReleaseDate | null {
+  const yearMatch = text.match(CJK_YEAR)
+
+  // Happy Path: 不是 CJK 格式
+  if (!yearMatch) {
     return null
   }
 
-  // 匹配 "YYYY 年 M 月 D 日" 或 "YYYY年M月D日" 格式
-  const chineseMatch = dateString.match(/(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/)
-  if (chineseMatch) {
-    const year = parseInt(chineseMatch[1])
-    const month = parseInt(chineseMatch[2])
-    const day = parseInt(chineseMatch[3])
-    return new Date(year, month - 1, day)
+  const quarterMatch = text.match(CJK_QUARTER)
+  const quarterText = quarterMatch ? (quarterMatch[1] ?? quarterMatch[2]) : null
+  const monthMatch = text.match(CJK_MONTH)
+  const dayMatch = text.match(CJK_DAY)
+
+  return buildReleaseDate(
+    parseInt(yearMatch[1], 10),
+    quarterText ? (CHINESE_NUMERALS[quarterText] ?? parseInt(quarterText, 10)) : null,
+    monthMatch ? parseInt(monthMatch[1], 10) : null,
+    dayMatch ? parseInt(dayMatch[1], 10) : null
+  )
+}
+
+/**
+ * 解析英语、德语、法语格式
+ * 按词识别：4 位数字为年份，月份名称为月份，1-2 位数字为日期
+ * 如 "Feb 3, 2026"、"3 Feb, 2026"、"3. Feb. 2026"、"1er mai 2026"、"May 2026"、"Q2 2026"
+ */
+function parseWesternDate(text: string): ReleaseDate | null {
+  const tokens = text.replace(/[.,]/g, ' ').split(/\s+/).filter(Boolean)
+
+  let year: number | null = null
+  let month: number | null = null
+  let day: number | null = null
+
+  for (const token of tokens) {
+    if (/^\d{4}$/.test(token)) {
+      year = parseInt(token, 10)
+    } else if (MONTH_NAMES.has(token)) {
+      month = MONTH_NAMES.get(token)!
+    } else if (/^\d{1,2}(?:er|st|nd|rd|th)?$/.test(token)) {
+      day = parseInt(token, 10)
+    }
+  }
+
+  const quarterMatch = text.match(WESTERN_QUARTER)
+  const quarterText = quarterMatch?.slice(1).find((group) => group !== undefined)
+
+  // 季度格式中的数字不是日期
+  return buildReleaseDate(
+    year,
+    quarterText ? parseInt(quarterText, 10) : null,
+    month,
+    quarterText ? null : day
+  )
+}
+
+/**
+ * 解析 Steam 的发布日期字符串
+ * Steam 按商店语言返回发布日期，支持中文、英语、德语、法语、日语和韩语，例如：
+ * - 精确到日："2026 年 2 月 3 日"、"Feb 3, 2026"、"3. Feb. 2026"、"3 févr. 2026"、"2026년 2월 3일"
+ * - 精确到月："2026 年 5 月"、"May 2026"、"Mai 2026"、"mai 2026"
+ * - 季度："2026 年第二季度"、"Q2 2026"、"2. Quartal 2026"、"2e trimestre 2026"、"2026年第2四半期"、"2026년 2분기"
+ * - 年份："2026"、"2026 年"
+ * - 待定："即将宣布"、"Coming soon"、"To be announced"、"Demnächst"、"Prochainement"、"近日登場"
+ * @param dateString - Steam 返回的日期字符串
+ * @returns 解析结果，为空或无法识别时返回 null
+ */
+function parseReleaseDate(dateString: string | null): ReleaseDate | null {
+  const text = dateString?.trim().toLowerCase().normalize('NFC')
+
+  // Happy Path: 没有日期
+  if (!text) {
+    return null
   }
 
-  // 匹配英文日期格式 "MMM DD, YYYY" (如 "Feb 26, 2016")
-  const englishMatch = dateString.match(/([A-Za-z]+)\s+(\d{1,2}),\s+(\d{4})/)
-  if (englishMatch) {
-    return new Date(dateString)
+  const isoMatch = text.match(ISO_DATE)
+  if (isoMatch) {
+    return buildReleaseDate(
+      parseInt(isoMatch[1], 10),
+      null,
+      parseInt(isoMatch[2], 10),
+      parseInt(isoMatch[3], 10)
+    )
   }
 
-  // 尝试直接解析
-  const parsed = new Date(dateString)
-  if (!isNaN(parsed.getTime())) {
+  const parsed = parseCjkDate(text) ?? parseWesternDate(text)
+  if (parsed) {
     return parsed
   }
 
-  return null
+  return TBA_KEYWORDS.some((keyword) => text.includes(keyword)) ? createReleaseDate('tba') : null
+}
+
+/**
+ * 获取发布日期可能的范围（本地时间，含首尾两天）
+ * 如 "Q2 2026" → 2026-04-01 ~ 2026-06-30
+ * @returns 待定时返回 null
+ */
+function getReleaseDateRange(release: ReleaseDate): { start: Date; end: Date } | null {
+  const { precision, year, quarter, month, day } = release
+
+  switch (precision) {
+    case 'day':
+      return { start: new Date(year!, month! - 1, day!), end: new Date(year!, month! - 1, day!) }
+    case 'month':
+      return { start: new Date(year!, month! - 1, 1), end: new Date(year!, month!, 0) }
+    case 'quarter':
+      return {
+        start: new Date(year!, (quarter! - 1) * 3, 1),
+        end: new Date(year!, quarter! * 3, 0),
+      }
+    case 'year':
+      return { start: new Date(year!, 0, 1), end: new Date(year!, 11, 31) }
+    default:
+      return null
+  }
+}
+
+/**
+ * 获取用于排序的发布时间
+ * 模糊日期取范围的第一天，同一天时精确日期排在前面
+ * @returns 时间戳，待定或无法解析时返回 null
+ */
+function getReleaseSortValue(dateString: string | null): number | null {
+  const release = parseReleaseDate(dateString)
+  const range = release ? getReleaseDateRange(release) : null
+
+  // Happy Path: 待定或无法解析
+  if (!release || !range) {
+    return null
+  }
+
+  const precisionOffset = { day: 0, month: 1, quarter: 2, year: 3, tba: 4 }[release.precision]
+  return range.start.getTime() + precisionOffset
+}
+
+/**
+ * 判断发布日期是否已经过去
+ * 模糊日期需要整个范围都已过去，如 "2026 年 5 月" 在 6 月 1 日之后才算已过去
+ */
+function isReleaseDatePast(release: ReleaseDate | null): boolean | null {
+  const range = release ? getReleaseDateRange(release) : null
+
+  // Happy Path: 待定或无法解析
+  if (!range) {
+    return null
+  }
+
+  const today = new Date()
+  today.setHours(0, 0, 0, 0) // 只比较日期，忽略时间
+  return range.end <= today
 }
 
 /**
@@ -60,7 +296,7 @@ function parseSteamReleaseDate(dateString: string | null): Date | null {
  * 逻辑：
  * 1. 如果comingSoon明确为false，返回true（已发售）
  * 2. 如果comingSoon为true，但发布日期已过，返回true（已发售，Steam数据未更新）
- * 3. 如果comingSoon为true，且发布日期未到或无法解析，返回false（未发售）
+ * 3. 如果comingSoon为true，且发布日期未到、待定或无法解析，返回false（未发售）
  * 4. 如果comingSoon为null，尝试解析发布日期判断
  *
  * @param comingSoon - Steam API返回的coming_soon字段
@@ -68,36 +304,35 @@ function parseSteamReleaseDate(dateString: string | null): Date | null {
  * @returns true表示已发售，false表示未发售
  */
 function isGameReleased(comingSoon: boolean | null, releaseDate: string | null): boolean {
-  // 如果明确标记为即将发售
-  if (comingSoon === true) {
-    // 尝试解析发布日期
-    const parsedDate = parseSteamReleaseDate(releaseDate)
-    if (parsedDate) {
-      // 如果发布日期已经过去，说明Steam数据未及时更新，游戏实际已发售
-      const now = new Date()
-      now.setHours(0, 0, 0, 0) // 只比较日期，忽略时间
-      return parsedDate <= now
-    }
-    // 无法解析日期，相信Steam的标记
-    return false
-  }
-
   // 如果明确标记为非即将发售
   if (comingSoon === false) {
     return true
   }
 
-  // comingSoon为null，尝试通过发布日期判断
-  const parsedDate = parseSteamReleaseDate(releaseDate)
-  if (parsedDate) {
-    const now = new Date()
-    now.setHours(0, 0, 0, 0)
-    return parsedDate <= now
+  const release = parseReleaseDate(releaseDate)
+  const isPast = isReleaseDatePast(release)
+
+  // 如果明确标记为即将发售
+  if (comingSoon === true) {
+    // 如果发布日期已经过去，说明Steam数据未及时更新，游戏实际已发售；无法判断时相信Steam的标记
+    return isPast ?? false
+  }
+
+  // comingSoon为null，待定说明尚未发售
+  if (release?.precision === 'tba') {
+    return false
   }
 
   // 无法判断，默认为已发售（避免误显示"未发售"）
-  return true
+  return isPast ?? true
 }
 
 // ==================== Exports ====================
-export { parseSteamReleaseDate, isGameReleased }
+export type { ReleaseDate, ReleaseDatePrecision }
+export {
+  parseReleaseDate,
+  getReleaseDateRange,
+  getReleaseSortValue,
+  isReleaseDatePast,
+  isGameReleased,
+}
@@ -0,0 +1,28 @@
+/**
+ * 下载工具函数
+ */
+
+/**
+ * 将文本内容作为文件下载
+ * @param filename - 文件名
+ * @param content - 文件内容
+ * @param mimeType - MIME 类型
+ */
+function downloadFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // 等待浏览器开始下载后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// ==================== Exports ====================
+
+export { downloadFile }
@@ -0,0 +1,261 @@
+import { pinyin } from 'pinyin-pro'
+
+// ==================== Types ====================
+
+/**
+ * 预处理后的待搜索文本
+ * 拼音转换较慢，在数据变化时构建一次，输入时只做匹配
+ */
+interface SearchText {
+  text: string
+  lower: string
+  // 每个字符对应的音节：汉字为无声调拼音，其他字符为小写的字符本身
+  syllables: string[]
+  hasChinese: boolean
+}
+
+interface TextMatch {
+  score: number
+  indices: number[] // 命中的字符下标，用于高亮
+}
+
+// ==================== Constants ====================
+
+const CHINESE_CHAR = /[㐀-鿿]/
+const WORD_CHAR = /[\p{L}\p{N}]/u
+
+// 各匹配方式的基础分，越精确得分越高
+const SCORE_SUBSTRING = 100
+const SCORE_PINYIN = 80
+const SCORE_SUBSEQUENCE = 40
+const SCORE_TYPO = 30
+const MIN_SUBSEQUENCE_SCORE = 10
+// 从开头匹配的额外加分
+const PREFIX_BONUS = 20
+
+// ==================== Helper Functions ====================
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, i) => start + i)
+}
+
+/**
+ * 规范化搜索词：转小写，合并连续空白
+ */
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * 构建待搜索文本
+ */
+function createSearchText(text: string): SearchText {
+  const lower = text.toLowerCase()
+  const hasChinese = CHINESE_CHAR.test(text)
+  const syllables = hasChinese
+    ? pinyin(lower, { toneType: 'none', type: 'array', v: true }).map((s) => s.toLowerCase())
+    : [...lower]
+
+  // pinyin-pro 按字符返回结果，长度与原文不一致时（如代理对字符）退化为逐字符
+  return {
+    text,
+    lower,
+    syllables: syllables.length === lower.length ? syllables : [...lower],
+    hasChinese,
+  }
+}
+
+/**
+ * 拼音匹配（连续）
+ * 每个汉字可以用全拼、拼音前缀（首字母）或汉字本身匹配，非汉字按字符匹配
+ * 如 "艾尔登法环" 可以被 "aedfh"、"aierdeng"、"艾尔df" 匹配
+ * @returns 命中的字符下标，未匹配时返回 null
+ */
+function matchPinyin(target: SearchText, query: string): TextMatch | null {
+  const compact = query.replace(/\s/g, '')
+  const { lower, syllables } = target
+
+  // 从第 charIndex 个字符、搜索词第 queryIndex 位开始匹配，返回命中的字符下标和全拼音节数
+  const matchFrom = (
+    charIndex: number,
+    queryIndex: number
+  ): { indices: number[]; fullSyllables: number } | null => {
+    if (queryIndex === compact.length) return { indices: [], fullSyllables: 0 }
+    if (charIndex === lower.length) return null
+
+    const char = lower[charIndex]
+    const syllable = syllables[charIndex]
+    const rest = compact.slice(queryIndex)
+
+    // 空格和标点可以跳过，如 "黑神话：悟空" 可以被 "hshwk" 匹配
+    if (!WORD_CHAR.test(char) && !rest.startsWith(char)) {
+      return matchFrom(charIndex + 1, queryIndex)
+    }
+
+    // 汉字本身
+    if (rest.startsWith(char)) {
+      const next = matchFrom(charIndex + 1, queryIndex + 1)
+      if (next) return { indices: [charIndex, ...next.indices], fullSyllables: next.fullSyllables }
+    }
+
+    // Happy Path: 非汉字只能按字符匹配
+    if (!CHINESE_CHAR.test(char)) {
+      return null
+    }
+
+    // 优先尝试更长的拼音前缀（全拼 → 首字母）
+    for (let length = syllable.length; length >= 1; length--) {
+      if (!rest.startsWith(syllable.slice(0, length))) continue
+
+      const next = matchFrom(charIndex + 1, queryIndex + length)
+      if (next) {
+        return {
+          indices: [charIndex, ...next.indices],
+          fullSyllables: next.fullSyllables + (length === syllable.length ? 1 : 0),
+        }
+      }
+    }
+
+    return null
+  }
+
+  for (let start = 0; start < lower.length; start++) {
+    const result = matchFrom(start, 0)
+    if (result && result.indices.length > 0) {
+      // 全拼命中越多越精确
+      const bonus = start === 0 ? PREFIX_BONUS / 2 : 0
+      return {
+        score: SCORE_PINYIN + bonus + Math.min(result.fullSyllables, 5),
+        indices: result.indices,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * 子序列匹配：搜索词的每个字符按顺序出现在文本中即可
+ * 命中字符越分散得分越低
+ */
+function matchSubsequence(target: SearchText, query: string): TextMatch | null {
+  const compact = query.replace(/\s/g, '')
+  const indices: number[] = []
+  let queryIndex = 0
+
+  for (let i = 0; i < target.lower.length && queryIndex < compact.length; i++) {
+    if (target.lower[i] === compact[queryIndex]) {
+      indices.push(i)
+      queryIndex++
+    }
+  }
+
+  // Happy Path: 未能匹配全部字符
+  if (queryIndex < compact.length) {
+    return null
+  }
+
+  const span = indices[indices.length - 1] - indices[0] + 1
+  const score = Math.round((SCORE_SUBSEQUENCE * compact.length) / span)
+
+  // 命中字符过于分散时视为不匹配
+  return score >= MIN_SUBSEQUENCE_SCORE ? { score, indices } : null
+}
+
+/**
+ * 计算两个字符串的编辑距离（相邻字符交换计为一次编辑）
+ */
+function getEditDistance(a: string, b: string): number {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const dp: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      dp[i][j] = Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1, dp[i - 1][j - 1] + cost)
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return dp[a.length][b.length]
+}
+
+/**
+ * 容错匹配：允许少量拼写错误（漏字、多字、错字、相邻字符颠倒）
+ * 从每个词的开头（汉字为每个字）取与搜索词长度相近的音节片段比较编辑距离
+ */
+function matchTypo(target: SearchText, query: string): TextMatch | null {
+  const compact = query.replace(/\s/g, '')
+
+  // Happy Path: 搜索词太短，容错会带来大量误匹配
+  if (compact.length < 4) {
+    return null
+  }
+
+  const maxDistance = compact.length >= 7 ? 2 : 1
+  const { lower, syllables } = target
+  let best: { distance: number; indices: number[] } | null = null
+
+  for (let start = 0; start < lower.length; start++) {
+    const isWordStart =
+      WORD_CHAR.test(lower[start]) &&
+      (start === 0 || !WORD_CHAR.test(lower[start - 1]) || CHINESE_CHAR.test(lower[start]))
+    if (!isWordStart) continue
+
+    let window = ''
+    for (let end = start; end < lower.length; end++) {
+      if (!WORD_CHAR.test(lower[end])) continue
+      window += syllables[end]
+      if (window.length > compact.length + maxDistance) break
+      if (window.length < compact.length - maxDistance) continue
+
+      const distance = getEditDistance(compact, window)
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { distance, indices: range(start, end + 1).filter((i) => WORD_CHAR.test(lower[i])) }
+      }
+    }
+  }
+
+  return best ? { score: SCORE_TYPO - best.distance * 10, indices: best.indices } : null
+}
+
+/**
+ * 在文本中模糊匹配搜索词
+ * 依次尝试：子串 → 拼音（全拼 / 首字母）→ 子序列 → 容错，返回第一个成功的匹配
+ * @param target - 预处理后的文本
+ * @param query - 搜索词（需先经过 normalizeQuery）
+ * @returns 匹配得分和命中字符下标，未匹配时返回 null
+ */
+function matchText(target: SearchText, query: string): TextMatch | null {
+  // Happy Path: 空搜索词
+  if (!query) {
+    return null
+  }
+
+  const index = target.lower.indexOf(query)
+  if (index !== -1) {
+    const bonus = index === 0 ? PREFIX_BONUS : 0
+    return {
+      score: SCORE_SUBSTRING + bonus + (query.length === target.lower.length ? PREFIX_BONUS : 0),
+      indices: range(index, index + query.length),
+    }
+  }
+
+  if (target.hasChinese) {
+    const pinyinMatch = matchPinyin(target, query)
+    if (pinyinMatch) return pinyinMatch
+  }
+
+  return matchSubsequence(target, query) ?? matchTypo(target, query)
+}
+
+// ==================== Exports ====================
+
+export type { SearchText, TextMatch }
+export { normalizeQuery, createSearchText, matchText }
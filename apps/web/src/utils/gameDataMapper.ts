@@ -1,4 +1,13 @@
-import type { BackendGame, UserGame, UserGameWithDetails, Game, GameStatus, Genre } from '../types'
+import type {
+  BackendGame,
+  BackendPlayJournal,
+  UserGame,
+  UserGameWithDetails,
+  Game,
+  GameStatus,
+  Genre,
+  PlayJournal,
+} from '../types'
 
 // ==================== Helper Functions ====================
 
@@ -21,6 +30,10 @@ function mergeGameData(
         name: backendGame.name,
         status: backendGame.status!,
         isPinned: backendGame.is_pinned ?? false,
+        sortOrder: backendGame.sort_order ?? 0,
+        targetPrice: backendGame.target_price ?? null,
+        targetCurrency: backendGame.target_currency ?? null,
+        isFree: backendGame.is_free,
         addedAt: backendGame.created_at,
         lastUpdated: backendGame.updated_at,
         steamUrl: backendGame.steam_url,
@@ -37,6 +50,10 @@ function mergeGameData(
         genres: (backendGame.genres as string[] | undefined)?.map(
           (name: string): Genre => ({ id: name, description: name })
         ),
+        platforms: backendGame.platforms,
+        developers: backendGame.developers,
+        publishers: backendGame.publishers,
+        journal: backendGame.journal ? toPlayJournal(backendGame.journal) : undefined,
       }))
   }
 
@@ -61,6 +78,7 @@ function mergeGameData(
       name: backendGame.name,
       status: userGame.status,
       isPinned: userGame.is_pinned,
+      sortOrder: userGame.sort_order ?? 0,
       addedAt: userGame.added_at,
       lastUpdated: backendGame.updated_at,
       steamUrl: backendGame.steam_url,
@@ -77,6 +95,10 @@ function mergeGameData(
       genres: (backendGame.genres as string[] | undefined)?.map(
         (name: string): Genre => ({ id: name, description: name })
       ),
+      platforms: backendGame.platforms,
+      developers: backendGame.developers,
+      publishers: backendGame.publishers,
+      isFree: backendGame.is_free,
     }
 
     games.push(game)
@@ -85,6 +107,48 @@ function mergeGameData(
   return games
 }
 
+/**
+ * 将后端游玩日志转换为前端格式
+ * @param journal - 后端游玩日志
+ * @returns 前端游玩日志
+ */
+function toPlayJournal(journal: BackendPlayJournal): PlayJournal {
+  return {
+    sessions: (journal.sessions ?? []).map((s) => ({
+      id: s.id,
+      startedAt: s.started_at,
+      endedAt: s.ended_at,
+      durationMinutes: s.duration_minutes,
+      note: s.note,
+    })),
+    transitions: journal.status_transitions ?? [],
+    rating: journal.rating ?? null,
+    notes: journal.notes ?? '',
+    activeSessionStartedAt: journal.active_session_started_at ?? null,
+  }
+}
+
+/**
+ * 将前端游玩日志转换为后端格式
+ * @param journal - 前端游玩日志
+ * @returns 后端游玩日志
+ */
+function toBackendPlayJournal(journal: PlayJournal): BackendPlayJournal {
+  return {
+    sessions: journal.sessions.map((s) => ({
+      id: s.id,
+      started_at: s.startedAt,
+      ended_at: s.endedAt,
+      duration_minutes: s.durationMinutes,
+      note: s.note,
+    })),
+    status_transitions: journal.transitions,
+    rating: journal.rating,
+    notes: journal.notes,
+    active_session_started_at: journal.activeSessionStartedAt,
+  }
+}
+
 /**
  * 从 Steam URL 提取 App ID
  * @param steamUrl - Steam 商店链接
@@ -152,4 +216,10 @@ function toCreateGameRequest(game: {
 
 // ==================== Exports ====================
 
-export { mergeGameData, extractAppIdFromSteamUrl, toCreateGameRequest }
+export {
+  mergeGameData,
+  extractAppIdFromSteamUrl,
+  toCreateGameRequest,
+  toPlayJournal,
+  toBackendPlayJournal,
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+import type { Game } from '../types'
+import { createGame } from '../test/fixtures'
+import { diffGameLists, getSyncKey, getUserGameUpdate, mergeGameLists } from './githubSync'
+
+const OLD = '2026-01-01T00:00:00Z'
+const NEW = '2026-02-01T00:00:00Z'
+
+// 带 Steam 链接的游戏，按 app_id 匹配
+const steamGame = (appId: number, overrides: Partial<Game> = {}) =>
+  createGame({
+    id: `game-${appId}`,
+    name: `Game ${appId}`,
+    steamUrl: `https://store.steampowered.com/app/${appId}/`,
+    status: 'backlog',
+    lastUpdated: OLD,
+    ...overrides,
+  })
+
+describe('mergeGameLists', () => {
+  it('keeps games nobody changed', () => {
+    const base = [steamGame(1)]
+
+    expect(mergeGameLists(base, [steamGame(1)], [steamGame(1)])).toEqual({
+      games: [steamGame(1)],
+      conflicts: 0,
+    })
+  })
+
+  it('takes the side that changed', () => {
+    const base = [steamGame(1), steamGame(2)]
+    const local = [steamGame(1, { status: 'playing' }), steamGame(2)]
+    const remoteList = [steamGame(1), steamGame(2, { isPinned: true })]
+
+    expect(mergeGameLists(base, local, remoteList)).toEqual({
+      games: [steamGame(1, { status: 'playing' }), steamGame(2, { isPinned: true })],
+      conflicts: 0,
+    })
+  })
+
+  it('takes the newer version when both sides changed a game', () => {
+    const base = [steamGame(1), steamGame(2)]
+    const local = [
+      steamGame(1, { status: 'playing', lastUpdated: NEW }),
+      steamGame(2, { status: 'playing' }),
+    ]
+    const remoteList = [
+      steamGame(1, { status: 'completed' }),
+      steamGame(2, { status: 'completed', lastUpdated: NEW }),
+    ]
+
+    const result = mergeGameLists(base, local, remoteList)
+
+    expect(result.conflicts).toBe(2)
+    expect(result.games.map((g) => [g.id, g.status])).toEqual([
+      ['game-1', 'playing'],
+      ['game-2', 'completed'],
+    ])
+  })
+
+  it('prefers the local version when both changed at the same time', () => {
+    const result = mergeGameLists(
+      [steamGame(1)],
+      [steamGame(1, { status: 'playing' })],
+      [steamGame(1, { status: 'completed' })]
+    )
+
+    expect(result.games[0].status).toBe('playing')
+  })
+
+  it('does not count identical changes as a conflict', () => {
+    const result = mergeGameLists(
+      [steamGame(1)],
+      [steamGame(1, { status: 'playing' })],
+      [steamGame(1, { status: 'playing' })]
+    )
+
+    expect(result).toEqual({ games: [steamGame(1, { status: 'playing' })], conflicts: 0 })
+  })
+
+  it('applies deletions of unchanged games from either side', () => {
+    const base = [steamGame(1), steamGame(2), steamGame(3)]
+    const local = [steamGame(1), steamGame(3)]
+    const remoteList = [steamGame(2), steamGame(3)]
+
+    expect(mergeGameLists(base, local, remoteList).games).toEqual([steamGame(3)])
+  })
+
+  it('keeps a game that one side deleted and the other changed', () => {
+    const base = [steamGame(1), steamGame(2)]
+    const local = [steamGame(2, { status: 'playing' })]
+    const remoteList = [steamGame(1, { status: 'completed' })]
+
+    expect(mergeGameLists(base, local, remoteList).games.map((g) => g.status)).toEqual([
+      'playing',
+      'completed',
+    ])
+  })
+
+  it('appends games added remotely after the local order', () => {
+    const local = [steamGame(2), steamGame(1)]
+    const remoteList = [steamGame(3), steamGame(1)]
+
+    expect(mergeGameLists([steamGame(1)], local, remoteList).games.map((g) => g.id)).toEqual([
+      'game-2',
+      'game-1',
+      'game-3',
+    ])
+  })
+
+  it('merges both lists on the first sync', () => {
+    const result = mergeGameLists(
+      [],
+      [steamGame(1), steamGame(2, { lastUpdated: NEW })],
+      [steamGame(2, { status: 'completed' }), steamGame(3)]
+    )
+
+    expect(result.conflicts).toBe(1)
+    expect(result.games.map((g) => [g.id, g.status])).toEqual([
+      ['game-1', 'backlog'],
+      ['game-2', 'backlog'],
+      ['game-3', 'backlog'],
+    ])
+  })
+
+  it('does not treat backend IDs from another environment as changes', () => {
+    // 远程文件由其他环境写入，ID 与本地不同
+    const remote = (appId: number, overrides: Partial<Game> = {}) =>
+      steamGame(appId, { id: `remote-${appId}`, ...overrides })
+    const base = [remote(1), remote(2), remote(3)]
+    const local = [steamGame(1, { status: 'playing' }), steamGame(3)]
+    const remoteList = [remote(1), remote(2), remote(3, { isPinned: true })]
+
+    expect(mergeGameLists(base, local, remoteList)).toEqual({
+      games: [steamGame(1, { status: 'playing' }), steamGame(3, { isPinned: true })],
+      conflicts: 0,
+    })
+    expect(diffGameLists(local, [remote(1, { status: 'playing' }), remote(3)]).updated).toEqual([])
+  })
+
+  it('ignores current price changes', () => {
+    const result = mergeGameLists(
+      [steamGame(1)],
+      [steamGame(1, { status: 'playing' })],
+      [steamGame(1, { price: { currency: 'USD', initial: 1999, final: 999, discountPercent: 50 } })]
+    )
+
+    expect(result).toEqual({ games: [steamGame(1, { status: 'playing' })], conflicts: 0 })
+  })
+})
+
+describe('getSyncKey', () => {
+  it('matches by Steam app ID and falls back to the name', () => {
+    expect(getSyncKey(steamGame(570))).toBe('app:570')
+    expect(getSyncKey(steamGame(570, { steamUrl: undefined, name: '  Dota 2 ' }))).toBe(
+      'name:dota 2'
+    )
+  })
+})
+
+describe('diffGameLists', () => {
+  it('lists added, updated and removed games', () => {
+    const diff = diffGameLists(
+      [steamGame(1), steamGame(2)],
+      [steamGame(2, { status: 'playing' }), steamGame(3)]
+    )
+
+    expect(diff.added.map((g) => g.id)).toEqual(['game-3'])
+    expect(diff.updated.map(({ before, after }) => [before.id, after.status])).toEqual([
+      ['game-2', 'playing'],
+    ])
+    expect(diff.removed.map((g) => g.id)).toEqual(['game-1'])
+  })
+})
+
+describe('getUserGameUpdate', () => {
+  it('includes only the library fields that changed', () => {
+    const before = steamGame(1, { sortOrder: 0 })
+    const after = steamGame(1, { status: 'playing', isPinned: true, sortOrder: 0, name: 'Renamed' })
+
+    expect(getUserGameUpdate(before, after)).toEqual({ status: 'playing', is_pinned: true })
+    expect(getUserGameUpdate(before, { ...before, name: 'Renamed' })).toBeNull()
+  })
+})
@@ -0,0 +1,195 @@
+import type { Game, UpdateUserGameRequest } from '../types'
+import { extractAppIdFromSteamUrl } from './gameDataMapper'
+
+// ==================== Types ====================
+
+interface GameListMergeResult {
+  games: Game[]
+  conflicts: number // 两边都修改过、按 lastUpdated 取较新版本的游戏数
+}
+
+interface GameUpdate {
+  before: Game
+  after: Game
+}
+
+/**
+ * 两个游戏列表之间的差异（按同步键匹配）
+ */
+interface GameListDiff {
+  added: Game[]
+  updated: GameUpdate[]
+  removed: Game[]
+}
+
+// ==================== Helper Functions ====================
+
+/**
+ * 获取游戏的同步键
+ * 后端 ID 在不同环境中不一致，优先使用 Steam app_id，没有时使用名称
+ */
+function getSyncKey(game: Game): string {
+  const appId = game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+  return appId ? `app:${appId}` : `name:${game.name.trim().toLowerCase()}`
+}
+
+/**
+ * 转换为写入 games.json 的格式
+ * 当前价格变化频繁且有单独的价格历史，不写入文件，避免每次刷新价格都产生提交
+ */
+function toSyncedGame(game: Game): Game {
+  const { price: _price, ...rest } = game
+  return rest
+}
+
+/**
+ * 按键排序后序列化，用于比较内容（JSON 解析后的字段顺序可能不同）
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  )
+}
+
+/**
+ * 比较两个游戏的同步内容
+ * 后端 ID 因环境而异，不算作变化（否则其他环境写入的文件会让每个游戏都像被修改过）
+ */
+function isSameGame(a: Game | undefined, b: Game | undefined): boolean {
+  if (!a || !b) return a === b
+  return (
+    stableStringify({ ...toSyncedGame(a), id: null }) ===
+    stableStringify({ ...toSyncedGame(b), id: null })
+  )
+}
+
+function isNewer(a: Game, b: Game): boolean {
+  return new Date(a.lastUpdated).getTime() > new Date(b.lastUpdated).getTime()
+}
+
+function toKeyMap(games: Game[]): Map<string, Game> {
+  return new Map(games.map((game) => [getSyncKey(game), game]))
+}
+
+// ==================== Main Functions ====================
+
+/**
+ * 三方合并游戏列表（逐个游戏）
+ * - 只有一边修改：取修改的一边
+ * - 两边都修改：取 lastUpdated 较新的一边（相同时以本地为准）
+ * - 一边删除、另一边未修改：删除；另一边修改过：保留修改后的版本
+ * 远程版本被采用时沿用本地游戏的 ID
+ * @param base - 上次同步后的列表（首次同步为空）
+ * @param local - 当前游戏库
+ * @param remote - 当前远程文件
+ * @returns 合并后的列表（本地顺序在前，远程新增的在后）
+ */
+function mergeGameLists(base: Game[], local: Game[], remote: Game[]): GameListMergeResult {
+  const baseMap = toKeyMap(base)
+  const localMap = toKeyMap(local)
+  const remoteMap = toKeyMap(remote)
+  const keys = [...new Set([...localMap.keys(), ...remoteMap.keys()])]
+  const games: Game[] = []
+  let conflicts = 0
+
+  for (const key of keys) {
+    const baseGame = baseMap.get(key)
+    const localGame = localMap.get(key)
+    const remoteGame = remoteMap.get(key)
+    const localChanged = !isSameGame(baseGame, localGame)
+    const remoteChanged = !isSameGame(baseGame, remoteGame)
+
+    let merged: Game | undefined
+    if (!remoteChanged) {
+      merged = localGame
+    } else if (!localChanged) {
+      merged = remoteGame
+    } else if (localGame && remoteGame) {
+      if (!isSameGame(localGame, remoteGame)) conflicts++
+      merged = isNewer(remoteGame, localGame) ? remoteGame : localGame
+    } else {
+      // 一边删除、另一边修改：保留修改
+      merged = localGame ?? remoteGame
+    }
+
+    if (merged) {
+      games.push(localGame && merged !== localGame ? { ...merged, id: localGame.id } : merged)
+    }
+  }
+
+  return { games, conflicts }
+}
+
+/**
+ * 对比两个游戏列表
+ * @param from - 原列表
+ * @param to - 目标列表
+ */
+function diffGameLists(from: Game[], to: Game[]): GameListDiff {
+  const fromMap = toKeyMap(from)
+  const toMap = toKeyMap(to)
+
+  return {
+    added: to.filter((game) => !fromMap.has(getSyncKey(game))),
+    updated: from.flatMap((before) => {
+      const after = toMap.get(getSyncKey(before))
+      return after && !isSameGame(before, after) ? [{ before, after }] : []
+    }),
+    removed: from.filter((game) => !toMap.has(getSyncKey(game))),
+  }
+}
+
+/**
+ * 判断差异是否为空
+ */
+function isEmptyDiff(diff: GameListDiff): boolean {
+  return diff.added.length === 0 && diff.updated.length === 0 && diff.removed.length === 0
+}
+
+/**
+ * 生成把用户库中的游戏更新为目标版本所需的请求
+ * 只包含用户库字段（书架、置顶、排序、目标价格），游戏信息由后端维护
+ * @returns 没有变化时返回 null
+ */
+function getUserGameUpdate(before: Game, after: Game): UpdateUserGameRequest | null {
+  const request: UpdateUserGameRequest = {}
+
+  if (after.status !== before.status) request.status = after.status
+  if ((after.isPinned ?? false) !== (before.isPinned ?? false)) {
+    request.is_pinned = after.isPinned ?? false
+  }
+  if (after.sortOrder !== undefined && after.sortOrder !== before.sortOrder) {
+    request.sort_order = after.sortOrder
+  }
+  if (
+    (after.targetPrice ?? null) !== (before.targetPrice ?? null) ||
+    (after.targetCurrency ?? null) !== (before.targetCurrency ?? null)
+  ) {
+    request.target_price = after.targetPrice ?? null
+    request.target_currency = after.targetCurrency ?? null
+  }
+
+  return Object.keys(request).length > 0 ? request : null
+}
+
+/**
+ * 判断游玩日志是否变化
+ */
+function isJournalChanged(before: Game, after: Game): boolean {
+  return !!after.journal && stableStringify(after.journal) !== stableStringify(before.journal)
+}
+
+// ==================== Exports ====================
+
+export type { GameListMergeResult, GameUpdate, GameListDiff }
+export {
+  getSyncKey,
+  toSyncedGame,
+  mergeGameLists,
+  diffGameLists,
+  isEmptyDiff,
+  getUserGameUpdate,
+  isJournalChanged,
+}
@@ -0,0 +1,219 @@
+import type { Game, Shelf } from '../types'
+import { i18nService } from '../services/i18n'
+import { extractAppIdFromSteamUrl } from './gameDataMapper'
+import { formatDuration, getTotalPlayMinutes } from './playJournal'
+import type { CsvValue } from './csv'
+
+// ==================== Types ====================
+
+/**
+ * 导出文件中的游戏：完整的 Game 对象，附带 app_id 方便其他工具使用
+ */
+type LibraryExportGame = Game & { appId: number | null }
+
+/**
+ * 游戏库导出文件（JSON）
+ * format + version 用于导入时识别文件和做版本兼容
+ */
+interface LibraryExport {
+  format: typeof LIBRARY_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  shelves: Shelf[]
+  games: LibraryExportGame[]
+}
+
+type LibraryExportFormat = 'json' | 'csv' | 'markdown'
+
+// ==================== Constants ====================
+
+const LIBRARY_EXPORT_FORMAT = 'game-gallery-library'
+
+// 导出格式变化时递增，导入时拒绝比当前版本更新的文件
+const LIBRARY_EXPORT_VERSION = 1
+
+/**
+ * CSV 列（导出和导入共用）
+ * shelf 为书架名称，只用于阅读，导入时以 shelf_id 为准
+ */
+const LIBRARY_CSV_COLUMNS = [
+  'app_id',
+  'name',
+  'shelf_id',
+  'shelf',
+  'pinned',
+  'sort_order',
+  'added_at',
+  'last_updated',
+  'steam_url',
+  'cover_image',
+  'positive_percentage',
+  'total_reviews',
+  'chinese_positive_percentage',
+  'chinese_total_reviews',
+  'release_date',
+  'coming_soon',
+  'early_access',
+  'genres',
+  'rating',
+  'notes',
+  'play_minutes',
+  'target_price',
+  'target_currency',
+] as const
+
+// ==================== Helper Functions ====================
+
+function getAppId(game: Game): number | null {
+  return game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+}
+
+/**
+ * 转义 Markdown 表格单元格：竖线会拆开单元格，换行会结束表格
+ */
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
+
+/**
+ * 按书架顺序分组，已删除书架中的游戏放在最后
+ */
+function groupByShelf(games: Game[], shelves: Shelf[]): { shelf: Shelf | null; games: Game[] }[] {
+  const shelfIds = new Set(shelves.map((s) => s.id))
+  const groups = shelves.map((shelf) => ({
+    shelf: shelf as Shelf | null,
+    games: games.filter((g) => g.status === shelf.id),
+  }))
+  const orphans = games.filter((g) => !shelfIds.has(g.status))
+
+  return [...groups, { shelf: null, games: orphans }].filter((group) => group.games.length > 0)
+}
+
+// ==================== Main Functions ====================
+
+/**
+ * 创建 JSON 导出数据
+ * @param games - 游戏列表
+ * @param shelves - 书架列表
+ * @param now - 导出时间
+ */
+function createLibraryExport(games: Game[], shelves: Shelf[], now = new Date()): LibraryExport {
+  return {
+    format: LIBRARY_EXPORT_FORMAT,
+    version: LIBRARY_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    shelves,
+    games: games.map((game) => ({ ...game, appId: getAppId(game) })),
+  }
+}
+
+/**
+ * 将游戏库转换为 CSV 行，第一行为表头
+ * 游玩日志只导出评分、备注和总时长，完整日志请使用 JSON
+ * @param games - 游戏列表
+ * @param shelves - 书架列表（用于显示书架名称）
+ */
+function libraryToCsvRows(games: Game[], shelves: Shelf[]): CsvValue[][] {
+  const shelfNames = new Map(shelves.map((s) => [s.id, s.name]))
+
+  return [
+    [...LIBRARY_CSV_COLUMNS],
+    ...games.map((game) => {
+      const row: Record<(typeof LIBRARY_CSV_COLUMNS)[number], CsvValue> = {
+        app_id: getAppId(game),
+        name: game.name,
+        shelf_id: game.status,
+        shelf: shelfNames.get(game.status) ?? game.status,
+        pinned: game.isPinned ?? false,
+        sort_order: game.sortOrder,
+        added_at: game.addedAt,
+        last_updated: game.lastUpdated,
+        steam_url: game.steamUrl,
+        cover_image: game.coverImage,
+        positive_percentage: game.positivePercentage,
+        total_reviews: game.totalReviews,
+        chinese_positive_percentage: game.chinesePositivePercentage,
+        chinese_total_reviews: game.chineseTotalReviews,
+        release_date: game.releaseDate,
+        coming_soon: game.comingSoon,
+        early_access: game.isEarlyAccess,
+        genres: game.genres?.map((genre) => genre.description).join(';'),
+        rating: game.journal?.rating,
+        notes: game.journal?.notes || null,
+        play_minutes: getTotalPlayMinutes(game.journal) || null,
+        target_price: game.targetPrice,
+        target_currency: game.targetCurrency,
+      }
+      return LIBRARY_CSV_COLUMNS.map((column) => row[column])
+    }),
+  ]
+}
+
+/**
+ * 将游戏库转换为 Markdown（按书架分节的表格），方便贴到笔记或 issue 中
+ * @param games - 游戏列表
+ * @param shelves - 书架列表
+ * @param now - 导出时间
+ */
+function libraryToMarkdown(games: Game[], shelves: Shelf[], now = new Date()): string {
+  const t = i18nService.t.bind(i18nService)
+  const header = [
+    t('transfer.md.game'),
+    t('transfer.md.pinned'),
+    t('transfer.md.score'),
+    t('transfer.md.reviews'),
+    t('transfer.md.releaseDate'),
+    t('transfer.md.rating'),
+    t('transfer.md.playtime'),
+    t('transfer.md.notes'),
+  ]
+
+  const lines = [
+    `# ${t('transfer.md.title')}`,
+    '',
+    t('transfer.md.summary', {
+      date: i18nService.formatDate(now),
+      count: games.length,
+    }),
+  ]
+
+  for (const group of groupByShelf(games, shelves)) {
+    lines.push(
+      '',
+      `## ${escapeMarkdownCell(group.shelf?.name ?? t('transfer.md.otherShelf'))} (${group.games.length})`,
+      '',
+      `| ${header.join(' | ')} |`,
+      `| ${header.map(() => '---').join(' | ')} |`
+    )
+
+    for (const game of group.games) {
+      const name = escapeMarkdownCell(game.name).replace(/[[\]]/g, '\\$&')
+      const playMinutes = getTotalPlayMinutes(game.journal)
+      const cells = [
+        game.steamUrl ? `[${name}](${game.steamUrl})` : name,
+        game.isPinned ? '📌' : '',
+        game.positivePercentage !== undefined ? `${game.positivePercentage}%` : '',
+        game.totalReviews !== undefined ? i18nService.formatNumber(game.totalReviews) : '',
+        escapeMarkdownCell(game.releaseDate ?? ''),
+        game.journal?.rating ? `${game.journal.rating}/10` : '',
+        playMinutes > 0 ? formatDuration(playMinutes) : '',
+        escapeMarkdownCell(game.journal?.notes ?? ''),
+      ]
+      lines.push(`| ${cells.join(' | ')} |`)
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+// ==================== Exports ====================
+
+export type { LibraryExportGame, LibraryExport, LibraryExportFormat }
+export {
+  LIBRARY_EXPORT_FORMAT,
+  LIBRARY_EXPORT_VERSION,
+  LIBRARY_CSV_COLUMNS,
+  createLibraryExport,
+  libraryToCsvRows,
+  libraryToMarkdown,
+}
@@ -0,0 +1,346 @@
+import type { Game } from '../types'
+import { getReleaseSortValue, isGameReleased, parseReleaseDate } from './dateUtils'
+import { compareGameOrder } from './sortOrder'
+import { i18nService } from '../services/i18n'
+
+// ==================== Types ====================
+
+type Platform = 'windows' | 'mac' | 'linux'
+
+/**
+ * 三态开关
+ * - any: 不筛选
+ * - only: 只显示符合条件的游戏
+ * - exclude: 排除符合条件的游戏
+ */
+type TriState = 'any' | 'only' | 'exclude'
+
+type PriceFilter = 'any' | 'free' | 'paid'
+
+// 数值范围，null 表示不限
+interface NumberRange {
+  min: number | null
+  max: number | null
+}
+
+interface LibraryFilter {
+  genres: string[] // 包含任一所选类型即可
+  score: NumberRange // 全球好评率（%）
+  chineseScore: NumberRange // 中文区好评率（%）
+  minReviews: number | null
+  earlyAccess: TriState
+  comingSoon: TriState
+  releaseYear: NumberRange
+  platforms: Platform[] // 需支持所有所选平台
+  price: PriceFilter
+}
+
+/**
+ * 排序字段
+ * - manual: 书架内的默认顺序（置顶 → 拖动排序 → 添加时间）
+ */
+type LibrarySortField = 'manual' | 'score' | 'reviews' | 'release' | 'name'
+
+interface LibrarySort {
+  field: LibrarySortField
+  direction: 'asc' | 'desc'
+}
+
+// ==================== Constants ====================
+
+const PLATFORMS: Platform[] = ['windows', 'mac', 'linux']
+
+const DEFAULT_FILTER: LibraryFilter = {
+  genres: [],
+  score: { min: null, max: null },
+  chineseScore: { min: null, max: null },
+  minReviews: null,
+  earlyAccess: 'any',
+  comingSoon: 'any',
+  releaseYear: { min: null, max: null },
+  platforms: [],
+  price: 'any',
+}
+
+const DEFAULT_SORT: LibrarySort = { field: 'manual', direction: 'desc' }
+
+const SORT_FIELDS: LibrarySortField[] = ['manual', 'score', 'reviews', 'release', 'name']
+const TRI_STATES: TriState[] = ['any', 'only', 'exclude']
+const PRICE_FILTERS: PriceFilter[] = ['any', 'free', 'paid']
+
+// ==================== Helper Functions ====================
+
+/**
+ * 获取游戏的发售年份
+ * 季度、年份等模糊日期同样取其中的年份
+ */
+function getReleaseYear(game: Game): number | null {
+  return parseReleaseDate(game.releaseDate ?? null)?.year ?? null
+}
+
+function isInRange(value: number | null | undefined, range: NumberRange): boolean {
+  // Happy Path: 不限范围
+  if (range.min === null && range.max === null) {
+    return true
+  }
+
+  // 缺少数据的游戏在设置范围后不显示
+  if (value === null || value === undefined) {
+    return false
+  }
+
+  return (range.min === null || value >= range.min) && (range.max === null || value <= range.max)
+}
+
+function matchesTriState(value: boolean, state: TriState): boolean {
+  if (state === 'only') return value
+  if (state === 'exclude') return !value
+  return true
+}
+
+/**
+ * 判断筛选条件是否与默认值不同
+ */
+function isFilterActive(filter: LibraryFilter): boolean {
+  return countActiveFilters(filter) > 0
+}
+
+/**
+ * 统计生效的筛选条件数量（用于筛选按钮上的角标）
+ */
+function countActiveFilters(filter: LibraryFilter): number {
+  const isRangeSet = (range: NumberRange) => range.min !== null || range.max !== null
+
+  return [
+    filter.genres.length > 0,
+    isRangeSet(filter.score),
+    isRangeSet(filter.chineseScore),
+    filter.minReviews !== null,
+    filter.earlyAccess !== 'any',
+    filter.comingSoon !== 'any',
+    isRangeSet(filter.releaseYear),
+    filter.platforms.length > 0,
+    filter.price !== 'any',
+  ].filter(Boolean).length
+}
+
+/**
+ * 按筛选条件过滤游戏
+ * @param games - 游戏列表
+ * @param filter - 筛选条件
+ * @returns 符合条件的游戏（保持原顺序）
+ */
+function filterGames(games: Game[], filter: LibraryFilter): Game[] {
+  // Happy Path: 没有筛选条件
+  if (!isFilterActive(filter)) {
+    return games
+  }
+
+  return games.filter((game) => {
+    if (
+      filter.genres.length > 0 &&
+      !game.genres?.some((genre) => filter.genres.includes(genre.description))
+    ) {
+      return false
+    }
+
+    if (!isInRange(game.positivePercentage, filter.score)) return false
+    if (!isInRange(game.chinesePositivePercentage, filter.chineseScore)) return false
+    if (filter.minReviews !== null && (game.totalReviews ?? 0) < filter.minReviews) return false
+    if (!matchesTriState(game.isEarlyAccess ?? false, filter.earlyAccess)) return false
+
+    const isComingSoon = !isGameReleased(game.comingSoon ?? null, game.releaseDate ?? null)
+    if (!matchesTriState(isComingSoon, filter.comingSoon)) return false
+
+    if (!isInRange(getReleaseYear(game), filter.releaseYear)) return false
+
+    if (
+      filter.platforms.length > 0 &&
+      !filter.platforms.every((platform) => game.platforms?.[platform])
+    ) {
+      return false
+    }
+
+    if (filter.price === 'free' && !game.isFree) return false
+    if (filter.price === 'paid' && game.isFree) return false
+
+    return true
+  })
+}
+
+/**
+ * 按排序条件排序游戏
+ * 缺少排序字段数据的游戏始终排在最后
+ * @param games - 游戏列表（已按书架默认顺序排列）
+ * @param sort - 排序条件
+ * @returns 排序后的新数组
+ */
+function sortGames(games: Game[], sort: LibrarySort): Game[] {
+  // Happy Path: 书架默认顺序
+  if (sort.field === 'manual') {
+    return [...games].sort(compareGameOrder)
+  }
+
+  const getValue = (game: Game): number | string | null => {
+    switch (sort.field) {
+      case 'score':
+        return game.positivePercentage ?? null
+      case 'reviews':
+        return game.totalReviews ?? null
+      case 'release':
+        return getReleaseSortValue(game.releaseDate ?? null)
+      default:
+        return game.name
+    }
+  }
+
+  const factor = sort.direction === 'asc' ? 1 : -1
+
+  return [...games].sort((a, b) => {
+    const aValue = getValue(a)
+    const bValue = getValue(b)
+
+    if (aValue === null && bValue === null) return 0
+    if (aValue === null) return 1
+    if (bValue === null) return -1
+
+    if (typeof aValue === 'string' && typeof bValue === 'string') {
+      return i18nService.compare(aValue, bValue) * factor
+    }
+
+    return ((aValue as number) - (bValue as number)) * factor
+  })
+}
+
+/**
+ * 收集游戏列表中出现过的所有类型
+ * @returns 按出现次数倒序排列的类型名称
+ */
+function collectGenres(games: Game[]): string[] {
+  const counts = new Map<string, number>()
+  for (const game of games) {
+    for (const genre of game.genres ?? []) {
+      counts.set(genre.description, (counts.get(genre.description) ?? 0) + 1)
+    }
+  }
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name)
+}
+
+// ==================== URL Serialization ====================
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// 范围格式："min-max"，任一端可省略，如 "80-"、"-2020"
+function parseRange(value: string | null): NumberRange {
+  if (!value) return { min: null, max: null }
+  const [min, max] = value.split('-')
+  return { min: parseNumber(min ?? null), max: parseNumber(max ?? null) }
+}
+
+function formatRange(range: NumberRange): string | null {
+  if (range.min === null && range.max === null) return null
+  return `${range.min ?? ''}-${range.max ?? ''}`
+}
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : []
+}
+
+function parseEnum<T extends string>(value: string | null, options: T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback
+}
+
+/**
+ * 从 URL 查询参数解析筛选和排序条件
+ * 无效参数会被忽略，回退到默认值
+ * @param search - location.search
+ */
+function parseLibraryView(search: string): { filter: LibraryFilter; sort: LibrarySort } {
+  const params = new URLSearchParams(search)
+
+  const filter: LibraryFilter = {
+    genres: parseList(params.get('genres')),
+    score: parseRange(params.get('score')),
+    chineseScore: parseRange(params.get('cnScore')),
+    minReviews: parseNumber(params.get('reviews')),
+    earlyAccess: parseEnum(params.get('ea'), TRI_STATES, 'any'),
+    comingSoon: parseEnum(params.get('soon'), TRI_STATES, 'any'),
+    releaseYear: parseRange(params.get('year')),
+    platforms: parseList(params.get('platforms')).filter((p): p is Platform =>
+      PLATFORMS.includes(p as Platform)
+    ),
+    price: parseEnum(params.get('price'), PRICE_FILTERS, 'any'),
+  }
+
+  const sort: LibrarySort = {
+    field: parseEnum(params.get('sort'), SORT_FIELDS, DEFAULT_SORT.field),
+    direction: parseEnum(params.get('order'), ['asc', 'desc'], DEFAULT_SORT.direction),
+  }
+
+  return { filter, sort }
+}
+
+/**
+ * 将筛选和排序条件写入 URL 查询参数
+ * 与默认值相同的条件不写入，保持 URL 简短；其他无关参数保持不变
+ * @param search - 当前 location.search
+ * @returns 新的查询字符串（包含前导 "?"，没有参数时为空字符串）
+ */
+function serializeLibraryView(search: string, filter: LibraryFilter, sort: LibrarySort): string {
+  const params = new URLSearchParams(search)
+
+  const entries: Record<string, string | null> = {
+    genres: filter.genres.length > 0 ? filter.genres.join(',') : null,
+    score: formatRange(filter.score),
+    cnScore: formatRange(filter.chineseScore),
+    reviews: filter.minReviews !== null ? String(filter.minReviews) : null,
+    ea: filter.earlyAccess !== 'any' ? filter.earlyAccess : null,
+    soon: filter.comingSoon !== 'any' ? filter.comingSoon : null,
+    year: formatRange(filter.releaseYear),
+    platforms: filter.platforms.length > 0 ? filter.platforms.join(',') : null,
+    price: filter.price !== 'any' ? filter.price : null,
+    sort: sort.field !== DEFAULT_SORT.field ? sort.field : null,
+    order: sort.field !== DEFAULT_SORT.field ? sort.direction : null,
+  }
+
+  for (const [key, value] of Object.entries(entries)) {
+    if (value === null) {
+      params.delete(key)
+    } else {
+      params.set(key, value)
+    }
+  }
+
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+// ==================== Exports ====================
+
+export type {
+  Platform,
+  TriState,
+  PriceFilter,
+  NumberRange,
+  LibraryFilter,
+  LibrarySortField,
+  LibrarySort,
+}
+export {
+  PLATFORMS,
+  DEFAULT_FILTER,
+  DEFAULT_SORT,
+  getReleaseYear,
+  isFilterActive,
+  countActiveFilters,
+  filterGames,
+  sortGames,
+  collectGenres,
+  parseLibraryView,
+  serializeLibraryView,
+}
@@ -0,0 +1,556 @@
+import type { Game, GameStatus, PlayJournal, PlaySession, Shelf, StatusTransition } from '../types'
+import { parseCsv } from './csv'
+import { extractAppIdFromSteamUrl } from './gameDataMapper'
+import { LIBRARY_EXPORT_FORMAT, LIBRARY_EXPORT_VERSION } from './libraryExport'
+import { createEmptyJournal } from './playJournal'
+import { DEFAULT_SHELF_ID } from './shelves'
+import { SORT_ORDER_STEP } from './sortOrder'
+
+// ==================== Types ====================
+
+/**
+ * 可导入的文件
+ * - library: 本应用导出的 JSON（带 format / version）
+ * - gamesJson: games.json（GameQueueData）或 Game 数组
+ * - csv: 本应用导出的 CSV，至少需要 name 列
+ */
+type ImportFileFormat = 'library' | 'gamesJson' | 'csv'
+
+/**
+ * 通过校验的导入记录
+ * 未出现的字段为 undefined，导入时保留游戏库中的原值
+ */
+interface LibraryImportRecord {
+  index: number // 在文件中的序号（从 1 开始）
+  appId: number | null
+  name: string
+  status?: GameStatus
+  isPinned?: boolean
+  targetPrice?: number | null
+  targetCurrency?: string | null
+  steamUrl?: string
+  coverImage?: string
+  positivePercentage?: number
+  totalReviews?: number
+  releaseDate?: string
+  comingSoon?: boolean
+  isEarlyAccess?: boolean
+  rating?: number | null
+  notes?: string
+  sessions?: PlaySession[]
+  transitions?: StatusTransition[]
+}
+
+/**
+ * 无法导入的记录
+ * - invalidField: 字段不符合格式（field 为字段名）
+ * - missingName: 缺少游戏名称
+ * - duplicate: 与文件中前面的记录重复
+ * - missingAppId: 游戏库中没有同名游戏，且没有 app_id 无法添加
+ * - ambiguousName: 没有 app_id，且游戏库中有多个同名游戏
+ */
+type ImportIssueReason =
+  | 'invalidField'
+  | 'missingName'
+  | 'duplicate'
+  | 'missingAppId'
+  | 'ambiguousName'
+
+interface ImportIssue {
+  index: number
+  name: string | null
+  reason: ImportIssueReason
+  field?: string
+}
+
+type ParseImportResult =
+  | { format: ImportFileFormat; records: LibraryImportRecord[]; issues: ImportIssue[] }
+  | { error: 'invalidFile' | 'unsupportedVersion' }
+
+/**
+ * 预览中的操作
+ * - add: 加入游戏库
+ * - update: 更新已有游戏
+ * - unchanged: 已有游戏且没有变化
+ * - conflict: 需要确认后才会导入（默认不选中）
+ */
+type ImportAction = 'add' | 'update' | 'unchanged' | 'conflict'
+
+/**
+ * 冲突类型
+ * - appIdMismatch: 游戏库中有同名游戏但 app_id 不同，导入时作为新游戏添加
+ * - unknownShelf: 书架不存在，新游戏放入默认书架，已有游戏保持原书架
+ */
+type ImportConflict = 'appIdMismatch' | 'unknownShelf'
+
+type ImportChange = 'status' | 'isPinned' | 'targetPrice' | 'rating' | 'notes' | 'sessions'
+
+interface ImportPreviewItem {
+  record: LibraryImportRecord
+  action: ImportAction
+  conflict: ImportConflict | null
+  applyAs: 'add' | 'update' | null // 选中后实际执行的操作，null 表示没有需要写入的内容
+  existing: Game | null // 匹配到的游戏库中的游戏
+  status: GameStatus // 导入后所在的书架
+  changes: ImportChange[]
+}
+
+interface ImportPreview {
+  items: ImportPreviewItem[]
+  issues: ImportIssue[]
+}
+
+// ==================== Constants ====================
+
+// CSV 列 → 记录字段，journal. 前缀的字段写入游玩日志
+const CSV_FIELD_MAP: Record<string, string> = {
+  app_id: 'appId',
+  name: 'name',
+  shelf_id: 'status',
+  pinned: 'isPinned',
+  target_price: 'targetPrice',
+  target_currency: 'targetCurrency',
+  steam_url: 'steamUrl',
+  cover_image: 'coverImage',
+  positive_percentage: 'positivePercentage',
+  total_reviews: 'totalReviews',
+  release_date: 'releaseDate',
+  coming_soon: 'comingSoon',
+  early_access: 'isEarlyAccess',
+  rating: 'journal.rating',
+  notes: 'journal.notes',
+}
+
+// ==================== Schema ====================
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean'
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+const isDateString = (value: unknown): value is string =>
+  isString(value) && !isNaN(new Date(value).getTime())
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isSession = (value: unknown): value is PlaySession =>
+  isObject(value) &&
+  isString(value.id) &&
+  isDateString(value.startedAt) &&
+  isDateString(value.endedAt) &&
+  isCount(value.durationMinutes) &&
+  (value.note === undefined || isString(value.note))
+
+const isTransition = (value: unknown): value is StatusTransition =>
+  isObject(value) &&
+  (value.from === null || isString(value.from)) &&
+  isString(value.to) &&
+  isDateString(value.at)
+
+// 记录字段的格式，值为 undefined 时跳过（保留原值）
+const RECORD_SCHEMA: Record<string, (value: unknown) => boolean> = {
+  appId: (value) => value === null || (isCount(value) && value > 0),
+  status: (value) => isString(value) && value.trim() !== '',
+  isPinned: isBoolean,
+  targetPrice: (value) => value === null || isCount(value),
+  targetCurrency: (value) => value === null || isString(value),
+  steamUrl: isString,
+  coverImage: isString,
+  positivePercentage: (value) => typeof value === 'number' && value >= 0 && value <= 100,
+  totalReviews: isCount,
+  releaseDate: isString,
+  comingSoon: isBoolean,
+  isEarlyAccess: isBoolean,
+}
+
+const JOURNAL_SCHEMA: Record<string, (value: unknown) => boolean> = {
+  rating: (value) => value === null || (isCount(value) && value >= 1 && value <= 10),
+  notes: isString,
+  sessions: (value) => Array.isArray(value) && value.every(isSession),
+  transitions: (value) => Array.isArray(value) && value.every(isTransition),
+}
+
+// ==================== Helper Functions ====================
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function getAppId(game: Game): number | null {
+  return game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+}
+
+/**
+ * 按 schema 校验一条原始数据
+ * @param raw - JSON 中的游戏对象，或由 CSV 行转换的对象
+ * @param index - 在文件中的序号
+ * @returns 通过时返回导入记录，否则返回所有问题
+ */
+function validateRecord(
+  raw: unknown,
+  index: number
+): { record: LibraryImportRecord } | { issues: ImportIssue[] } {
+  // Happy Path: 不是对象或缺少名称
+  if (!isObject(raw) || !isString(raw.name) || !raw.name.trim()) {
+    const name = isObject(raw) && isString(raw.name) ? raw.name : null
+    return { issues: [{ index, name, reason: 'missingName' }] }
+  }
+
+  const name = raw.name.trim()
+  const journal = raw.journal === undefined ? {} : raw.journal
+  const issues: ImportIssue[] = []
+
+  for (const [field, isValid] of Object.entries(RECORD_SCHEMA)) {
+    if (raw[field] !== undefined && !isValid(raw[field])) {
+      issues.push({ index, name, reason: 'invalidField', field })
+    }
+  }
+
+  if (!isObject(journal)) {
+    issues.push({ index, name, reason: 'invalidField', field: 'journal' })
+  } else {
+    for (const [field, isValid] of Object.entries(JOURNAL_SCHEMA)) {
+      if (journal[field] !== undefined && !isValid(journal[field])) {
+        issues.push({ index, name, reason: 'invalidField', field: `journal.${field}` })
+      }
+    }
+  }
+
+  // Happy Path: 有字段不符合格式
+  if (issues.length > 0 || !isObject(journal)) {
+    return { issues }
+  }
+
+  const steamUrl = raw.steamUrl as string | undefined
+
+  return {
+    record: {
+      index,
+      appId:
+        (raw.appId as number | null | undefined) ??
+        (steamUrl ? extractAppIdFromSteamUrl(steamUrl) : null),
+      name,
+      status: (raw.status as string | undefined)?.trim(),
+      isPinned: raw.isPinned as boolean | undefined,
+      targetPrice: raw.targetPrice as number | null | undefined,
+      targetCurrency: raw.targetCurrency as string | null | undefined,
+      steamUrl,
+      coverImage: raw.coverImage as string | undefined,
+      positivePercentage: raw.positivePercentage as number | undefined,
+      totalReviews: raw.totalReviews as number | undefined,
+      releaseDate: raw.releaseDate as string | undefined,
+      comingSoon: raw.comingSoon as boolean | undefined,
+      isEarlyAccess: raw.isEarlyAccess as boolean | undefined,
+      rating: journal.rating as number | null | undefined,
+      notes: journal.notes as string | undefined,
+      sessions: journal.sessions as PlaySession[] | undefined,
+      transitions: journal.transitions as StatusTransition[] | undefined,
+    },
+  }
+}
+
+/**
+ * 转换 CSV 单元格：空值视为未填写，数字和布尔值转换为对应类型
+ * 无法识别的值保持字符串，交给 schema 报错
+ */
+function parseCsvCell(cell: string): unknown {
+  const value = cell.trim()
+
+  if (value === '') return undefined
+  if (/^(true|yes)$/i.test(value)) return true
+  if (/^(false|no)$/i.test(value)) return false
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  return value
+}
+
+/**
+ * 将 CSV 转换为原始对象（字段名与 JSON 导出一致）
+ * @returns 缺少 name 列时返回 null
+ */
+function csvToRawGames(text: string): Record<string, unknown>[] | null {
+  const [header, ...rows] = parseCsv(text)
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase())
+
+  // Happy Path: 不是游戏库 CSV
+  if (!columns.includes('name')) {
+    return null
+  }
+
+  return rows.map((row) => {
+    const raw: Record<string, unknown> = {}
+    const journal: Record<string, unknown> = {}
+
+    columns.forEach((column, i) => {
+      const field = CSV_FIELD_MAP[column]
+      // 名称和备注保持原文，不做类型转换
+      const value =
+        column === 'name' || column === 'notes' ? row[i] || undefined : parseCsvCell(row[i] ?? '')
+
+      if (!field || value === undefined) return
+      if (field.startsWith('journal.')) {
+        journal[field.slice('journal.'.length)] = value
+      } else {
+        raw[field] = value
+      }
+    })
+
+    return Object.keys(journal).length > 0 ? { ...raw, journal } : raw
+  })
+}
+
+// ==================== Main Functions ====================
+
+/**
+ * 解析导入文件并逐条校验
+ * @param text - 文件内容
+ * @param fileName - 文件名，.csv 结尾时按 CSV 解析
+ * @returns 通过校验的记录和有问题的记录；文件无法识别时返回错误
+ */
+function parseLibraryFile(text: string, fileName: string): ParseImportResult {
+  const content = text.replace(/^\uFEFF/, '').trim()
+  let format: ImportFileFormat
+  let rawGames: unknown[]
+
+  if (fileName.toLowerCase().endsWith('.csv') || !/^[[{]/.test(content)) {
+    const rows = csvToRawGames(content)
+
+    // Happy Path: 无法识别的 CSV
+    if (!rows) {
+      return { error: 'invalidFile' }
+    }
+
+    format = 'csv'
+    rawGames = rows
+  } else {
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch {
+      return { error: 'invalidFile' }
+    }
+
+    const games = Array.isArray(data) ? data : isObject(data) ? data.games : undefined
+
+    // Happy Path: 没有游戏列表
+    if (!Array.isArray(games)) {
+      return { error: 'invalidFile' }
+    }
+
+    if (isObject(data) && data.format === LIBRARY_EXPORT_FORMAT) {
+      // Happy Path: 由更新版本的应用导出
+      if (typeof data.version !== 'number' || data.version > LIBRARY_EXPORT_VERSION) {
+        return { error: 'unsupportedVersion' }
+      }
+      format = 'library'
+    } else {
+      format = 'gamesJson'
+    }
+
+    rawGames = games
+  }
+
+  const records: LibraryImportRecord[] = []
+  const issues: ImportIssue[] = []
+
+  rawGames.forEach((raw, i) => {
+    const result = validateRecord(raw, i + 1)
+    if ('record' in result) {
+      records.push(result.record)
+    } else {
+      issues.push(...result.issues)
+    }
+  })
+
+  return { format, records, issues }
+}
+
+/**
+ * 将导入记录与游戏库对比
+ * 优先按 app_id 匹配，没有 app_id 的记录按名称（忽略大小写）匹配
+ * @param records - 通过校验的记录
+ * @param library - 当前游戏库
+ * @param shelves - 当前书架
+ * @returns 预览项（保持文件顺序）和无法导入的记录
+ */
+function diffLibraryImport(
+  records: LibraryImportRecord[],
+  library: Game[],
+  shelves: Shelf[]
+): ImportPreview {
+  const shelfIds = new Set(shelves.map((s) => s.id))
+  const byAppId = new Map<number, Game>()
+  const byName = new Map<string, Game[]>()
+
+  for (const game of library) {
+    const appId = getAppId(game)
+    if (appId) byAppId.set(appId, game)
+    const key = normalizeName(game.name)
+    byName.set(key, [...(byName.get(key) ?? []), game])
+  }
+
+  const seen = new Set<string>()
+  const items: ImportPreviewItem[] = []
+  const issues: ImportIssue[] = []
+
+  for (const record of records) {
+    const issue = (reason: ImportIssueReason) =>
+      issues.push({ index: record.index, name: record.name, reason })
+    const key = record.appId ? `app:${record.appId}` : `name:${normalizeName(record.name)}`
+
+    // Happy Path: 文件中重复的记录
+    if (seen.has(key)) {
+      issue('duplicate')
+      continue
+    }
+    seen.add(key)
+
+    const nameMatches = byName.get(normalizeName(record.name)) ?? []
+    let existing = record.appId ? (byAppId.get(record.appId) ?? null) : null
+    let conflict: ImportConflict | null = null
+
+    if (!existing && record.appId) {
+      // 同名游戏没有 app_id（手动添加的游戏）时视为同一个游戏
+      existing = nameMatches.find((g) => getAppId(g) === null) ?? null
+      if (!existing && nameMatches.length > 0) {
+        conflict = 'appIdMismatch'
+      }
+    } else if (!existing) {
+      // Happy Path: 按名称无法确定是哪个游戏，或者无法添加
+      if (nameMatches.length > 1) {
+        issue('ambiguousName')
+        continue
+      }
+      if (nameMatches.length === 0) {
+        issue('missingAppId')
+        continue
+      }
+      existing = nameMatches[0]
+    }
+
+    const isKnownShelf = record.status === undefined || shelfIds.has(record.status)
+    if (!isKnownShelf && !conflict) {
+      conflict = 'unknownShelf'
+    }
+
+    // 新游戏
+    if (!existing || conflict === 'appIdMismatch') {
+      items.push({
+        record,
+        action: conflict ? 'conflict' : 'add',
+        conflict,
+        applyAs: 'add',
+        existing: conflict === 'appIdMismatch' ? nameMatches[0] : null,
+        status: record.status && shelfIds.has(record.status) ? record.status : DEFAULT_SHELF_ID,
+        changes: [],
+      })
+      continue
+    }
+
+    const journal = existing.journal
+    const sessionIds = new Set(journal?.sessions.map((s) => s.id))
+    const checks: [ImportChange, boolean][] = [
+      ['status', isKnownShelf && record.status !== undefined && record.status !== existing.status],
+      [
+        'isPinned',
+        record.isPinned !== undefined && record.isPinned !== (existing.isPinned ?? false),
+      ],
+      [
+        'targetPrice',
+        (record.targetPrice !== undefined &&
+          record.targetPrice !== (existing.targetPrice ?? null)) ||
+          (record.targetCurrency !== undefined &&
+            record.targetCurrency !== (existing.targetCurrency ?? null)),
+      ],
+      ['rating', record.rating !== undefined && record.rating !== (journal?.rating ?? null)],
+      ['notes', record.notes !== undefined && record.notes !== (journal?.notes ?? '')],
+      ['sessions', record.sessions?.some((s) => !sessionIds.has(s.id)) ?? false],
+    ]
+    const changes = checks.filter(([, changed]) => changed).map(([change]) => change)
+
+    items.push({
+      record,
+      action: changes.length === 0 ? 'unchanged' : conflict ? 'conflict' : 'update',
+      conflict: changes.length === 0 ? null : conflict,
+      applyAs: changes.length === 0 ? null : 'update',
+      existing,
+      status: isKnownShelf && record.status ? record.status : existing.status,
+      changes,
+    })
+  }
+
+  return { items, issues }
+}
+
+/**
+ * 合并导入的游玩日志
+ * 游玩记录按 ID 合并，评分和备注以导入文件为准
+ * 新加入的游戏使用文件中的状态变更记录（保留原来的加入和完成时间）
+ * @param journal - 游戏当前的日志
+ * @param record - 导入记录
+ * @param isNew - 是否为新加入的游戏
+ */
+function mergeImportedJournal(
+  journal: PlayJournal | undefined,
+  record: LibraryImportRecord,
+  isNew: boolean
+): PlayJournal {
+  const base = journal ?? createEmptyJournal()
+  const sessionIds = new Set(base.sessions.map((s) => s.id))
+  const sessions = [
+    ...base.sessions,
+    ...(record.sessions ?? []).filter((s) => !sessionIds.has(s.id)),
+  ].sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+
+  return {
+    ...base,
+    sessions,
+    transitions:
+      isNew && record.transitions && record.transitions.length > 0
+        ? record.transitions
+        : base.transitions,
+    rating: record.rating !== undefined ? record.rating : base.rating,
+    notes: record.notes ?? base.notes,
+  }
+}
+
+/**
+ * 计算新游戏的排序权重
+ * 按文件顺序依次排在目标书架未置顶游戏的最后面
+ * @param items - 要添加的预览项
+ * @param library - 当前游戏库
+ * @returns 记录序号 → 排序权重
+ */
+function planImportSortOrders(items: ImportPreviewItem[], library: Game[]): Map<number, number> {
+  const lastSortOrders = new Map<GameStatus, number>()
+  const sortOrders = new Map<number, number>()
+
+  for (const item of items) {
+    if (!lastSortOrders.has(item.status)) {
+      const orders = library
+        .filter((g) => g.status === item.status && !g.isPinned)
+        .map((g) => g.sortOrder ?? 0)
+      lastSortOrders.set(item.status, orders.length > 0 ? Math.max(...orders) : 0)
+    }
+
+    const sortOrder = lastSortOrders.get(item.status)! + SORT_ORDER_STEP
+    lastSortOrders.set(item.status, sortOrder)
+    sortOrders.set(item.record.index, sortOrder)
+  }
+
+  return sortOrders
+}
+
+// ==================== Exports ====================
+
+export type {
+  ImportFileFormat,
+  LibraryImportRecord,
+  ImportIssueReason,
+  ImportIssue,
+  ParseImportResult,
+  ImportAction,
+  ImportConflict,
+  ImportChange,
+  ImportPreviewItem,
+  ImportPreview,
+}
+export { parseLibraryFile, diffLibraryImport, mergeImportedJournal, planImportSortOrders }
@@ -0,0 +1,295 @@
+import type { Game, GameStatus, Shelf } from '../types'
+import { getLastTransitionAt } from './playJournal'
+import type { CsvValue } from './csv'
+
+// ==================== Types ====================
+
+/**
+ * 统计时间范围（本地日期 YYYY-MM-DD，包含首尾两天），null 表示不限
+ */
+interface StatsDateRange {
+  from: string | null
+  to: string | null
+}
+
+interface StatusCount {
+  status: GameStatus
+  count: number
+}
+
+interface GenreCount {
+  genre: string
+  count: number
+}
+
+/**
+ * 按月统计的时间线
+ * - added: 当月加入游戏库的数量
+ * - completed: 当月完成的数量
+ * - queued: 月末待玩书架中的游戏数量
+ */
+interface StatsTimelinePoint {
+  month: string // YYYY-MM
+  added: number
+  completed: number
+  queued: number
+}
+
+interface LibraryStats {
+  totalGames: number // 范围内加入的游戏
+  completedGames: number // 范围内完成的游戏
+  averageCompletedScore: number | null // 范围内完成的游戏的平均好评率
+  medianDaysToComplete: number | null // 从加入到完成的天数中位数
+  averageDaysToComplete: number | null
+  statusCounts: StatusCount[]
+  genreCounts: GenreCount[]
+  timeline: StatsTimelinePoint[]
+}
+
+// ==================== Constants ====================
+
+const COMPLETED_SHELF_ID = 'completion'
+const QUEUE_SHELF_ID = 'queueing'
+const DAY_MS = 24 * 60 * 60 * 1000
+// 时间线最多显示的月份数，范围更长时只显示最近的月份
+const MAX_TIMELINE_MONTHS = 60
+
+const ALL_TIME: StatsDateRange = { from: null, to: null }
+
+// ==================== Helper Functions ====================
+
+function toLocalDate(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-')
+}
+
+function toLocalMonth(date: Date): string {
+  return toLocalDate(date).slice(0, 7)
+}
+
+/**
+ * 获取时间所在的本地月份（YYYY-MM），无效时间返回 null
+ */
+function getMonthOf(at: string | null): string | null {
+  const date = at ? new Date(at) : null
+  return date && !isNaN(date.getTime()) ? toLocalMonth(date) : null
+}
+
+/**
+ * 判断时间是否在范围内（按本地日期比较）
+ */
+function isInDateRange(at: string | null, range: StatsDateRange): boolean {
+  // Happy Path: 没有时间
+  if (!at) {
+    return false
+  }
+
+  const date = new Date(at)
+  if (isNaN(date.getTime())) {
+    return false
+  }
+
+  const day = toLocalDate(date)
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to)
+}
+
+/**
+ * 获取最近 N 天的范围（包含今天）
+ */
+function getRecentDateRange(days: number, now: Date = new Date()): StatsDateRange {
+  const from = new Date(now)
+  from.setDate(from.getDate() - days + 1)
+  return { from: toLocalDate(from), to: toLocalDate(now) }
+}
+
+/**
+ * 获取游戏的完成时间
+ * 来自游玩日志中最后一次进入完成书架的记录，没有记录时返回 null
+ */
+function getCompletedAt(game: Game): string | null {
+  return game.status === COMPLETED_SHELF_ID
+    ? getLastTransitionAt(game.journal, COMPLETED_SHELF_ID)
+    : null
+}
+
+/**
+ * 获取游戏在指定时间所在的书架
+ * 有状态变更记录时按记录回放，没有记录时视为一直在当前书架
+ * @returns 书架 ID，尚未加入游戏库时返回 null
+ */
+function getStatusAt(game: Game, at: number): GameStatus | null {
+  // Happy Path: 尚未加入游戏库
+  if (new Date(game.addedAt).getTime() > at) {
+    return null
+  }
+
+  const transitions = game.journal?.transitions ?? []
+  const past = transitions.filter((t) => new Date(t.at).getTime() <= at)
+
+  if (past.length > 0) {
+    return past[past.length - 1].to
+  }
+
+  // 第一条记录之前所在的书架
+  return transitions[0]?.from ?? game.status
+}
+
+function getMedian(values: number[]): number | null {
+  // Happy Path: 没有数据
+  if (values.length === 0) {
+    return null
+  }
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function getAverage(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+/**
+ * 列出时间线包含的月份
+ * 范围未指定起点时从最早加入的游戏开始，未指定终点时到当前月份
+ */
+function getTimelineMonths(games: Game[], range: StatsDateRange, now: Date): string[] {
+  const addedTimes = games.map((g) => new Date(g.addedAt).getTime()).filter((t) => !isNaN(t))
+
+  // Happy Path: 没有游戏
+  if (addedTimes.length === 0) {
+    return []
+  }
+
+  const start = range.from ? new Date(`${range.from}T00:00:00`) : new Date(Math.min(...addedTimes))
+  const end = range.to ? new Date(`${range.to}T00:00:00`) : now
+
+  const months: string[] = []
+  const cursor = new Date(start.getFullYear(), start.getMonth(), 1)
+  while (cursor <= end) {
+    months.push(toLocalMonth(cursor))
+    cursor.setMonth(cursor.getMonth() + 1)
+  }
+
+  return months.slice(-MAX_TIMELINE_MONTHS)
+}
+
+// ==================== Main Functions ====================
+
+/**
+ * 计算游戏库统计数据
+ * 书架分布和类型分布统计范围内加入的游戏；完成相关的指标统计范围内完成的游戏
+ * 完成时间依赖游玩日志中的状态变更记录，不限范围时没有记录的已完成游戏也计入完成数量
+ * @param games - 游戏列表
+ * @param shelves - 书架列表（决定书架分布的顺序）
+ * @param range - 时间范围
+ * @param now - 当前时间
+ */
+function computeLibraryStats(
+  games: Game[],
+  shelves: Shelf[],
+  range: StatsDateRange = ALL_TIME,
+  now: Date = new Date()
+): LibraryStats {
+  const isAllTime = !range.from && !range.to
+  const addedGames = isAllTime ? games : games.filter((g) => isInDateRange(g.addedAt, range))
+  const completedGames = games.filter((game) => {
+    if (game.status !== COMPLETED_SHELF_ID) return false
+    return isAllTime || isInDateRange(getCompletedAt(game), range)
+  })
+
+  const scores = completedGames
+    .map((g) => g.positivePercentage)
+    .filter((score): score is number => score !== undefined && score !== null)
+
+  const daysToComplete = completedGames.flatMap((game) => {
+    const completedAt = getCompletedAt(game)
+    const days = completedAt
+      ? (new Date(completedAt).getTime() - new Date(game.addedAt).getTime()) / DAY_MS
+      : NaN
+    return isNaN(days) || days < 0 ? [] : [days]
+  })
+
+  // 书架分布：按书架顺序，已删除书架中的游戏追加在末尾
+  const statusMap = new Map<GameStatus, number>(shelves.map((s) => [s.id, 0]))
+  for (const game of addedGames) {
+    statusMap.set(game.status, (statusMap.get(game.status) ?? 0) + 1)
+  }
+
+  const genreMap = new Map<string, number>()
+  for (const game of addedGames) {
+    for (const genre of game.genres ?? []) {
+      genreMap.set(genre.description, (genreMap.get(genre.description) ?? 0) + 1)
+    }
+  }
+
+  const timeline = getTimelineMonths(games, range, now).map((month): StatsTimelinePoint => {
+    const [year, monthIndex] = month.split('-').map(Number)
+    const monthEnd = new Date(year, monthIndex, 1).getTime() - 1
+
+    return {
+      month,
+      added: games.filter((g) => getMonthOf(g.addedAt) === month).length,
+      completed: games.filter((g) => getMonthOf(getCompletedAt(g)) === month).length,
+      queued: games.filter((g) => getStatusAt(g, monthEnd) === QUEUE_SHELF_ID).length,
+    }
+  })
+
+  return {
+    totalGames: addedGames.length,
+    completedGames: completedGames.length,
+    averageCompletedScore: getAverage(scores),
+    medianDaysToComplete: getMedian(daysToComplete),
+    averageDaysToComplete: getAverage(daysToComplete),
+    statusCounts: [...statusMap].map(([status, count]) => ({ status, count })),
+    genreCounts: [...genreMap]
+      .map(([genre, count]) => ({ genre, count }))
+      .sort((a, b) => b.count - a.count || a.genre.localeCompare(b.genre)),
+    timeline,
+  }
+}
+
+/**
+ * 将统计数据转换为 CSV 行（长表格式：分组、项目、指标、数值）
+ * @param stats - 统计数据
+ * @param range - 时间范围，写入 summary 分组
+ * @param shelfNames - 书架 ID → 名称
+ */
+function statsToCsvRows(
+  stats: LibraryStats,
+  range: StatsDateRange,
+  shelfNames: Map<GameStatus, string>
+): CsvValue[][] {
+  const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10)
+
+  return [
+    ['section', 'label', 'metric', 'value'],
+    ['range', 'from', 'date', range.from],
+    ['range', 'to', 'date', range.to],
+    ['summary', 'games', 'added', stats.totalGames],
+    ['summary', 'games', 'completed', stats.completedGames],
+    ['summary', 'completed', 'average_positive_percentage', round(stats.averageCompletedScore)],
+    ['summary', 'completed', 'median_days_to_complete', round(stats.medianDaysToComplete)],
+    ['summary', 'completed', 'average_days_to_complete', round(stats.averageDaysToComplete)],
+    ...stats.statusCounts.map(({ status, count }) => [
+      'status',
+      shelfNames.get(status) ?? status,
+      'games',
+      count,
+    ]),
+    ...stats.genreCounts.map(({ genre, count }) => ['genre', genre, 'games', count]),
+    ...stats.timeline.flatMap((point) => [
+      ['timeline', point.month, 'added', point.added],
+      ['timeline', point.month, 'completed', point.completed],
+      ['timeline', point.month, 'queued', point.queued],
+    ]),
+  ]
+}
+
+// ==================== Exports ====================
+
+export type { StatsDateRange, StatusCount, GenreCount, StatsTimelinePoint, LibraryStats }
+export { ALL_TIME, getRecentDateRange, computeLibraryStats, statsToCsvRows }
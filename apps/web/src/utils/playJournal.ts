@@ -0,0 +1,152 @@
+import type { GameStatus, PlayJournal, PlaySession } from '../types'
+import { i18nService } from '../services/i18n'
+
+// ==================== Helper Functions ====================
+
+/**
+ * 创建空的游玩日志
+ */
+function createEmptyJournal(): PlayJournal {
+  return {
+    sessions: [],
+    transitions: [],
+    rating: null,
+    notes: '',
+    activeSessionStartedAt: null,
+  }
+}
+
+/**
+ * 记录一次状态变更
+ * @param journal - 当前日志（可为空）
+ * @param from - 原状态，null 表示刚加入游戏库
+ * @param to - 新状态
+ * @param at - 变更时间，默认当前时间
+ * @returns 新的日志对象
+ */
+function recordTransition(
+  journal: PlayJournal | undefined,
+  from: GameStatus | null,
+  to: GameStatus,
+  at: string = new Date().toISOString()
+): PlayJournal {
+  const base = journal ?? createEmptyJournal()
+  return { ...base, transitions: [...base.transitions, { from, to, at }] }
+}
+
+/**
+ * 添加一条游玩会话（按开始时间倒序保存）
+ * @param journal - 当前日志（可为空）
+ * @param session - 会话（不含 id）
+ * @returns 新的日志对象
+ */
+function addSession(
+  journal: PlayJournal | undefined,
+  session: Omit<PlaySession, 'id'>
+): PlayJournal {
+  const base = journal ?? createEmptyJournal()
+  const newSession: PlaySession = {
+    ...session,
+    id: `session-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  }
+
+  return {
+    ...base,
+    sessions: [...base.sessions, newSession].sort(
+      (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+    ),
+  }
+}
+
+/**
+ * 开始计时
+ */
+function startTimer(journal: PlayJournal | undefined): PlayJournal {
+  const base = journal ?? createEmptyJournal()
+  return { ...base, activeSessionStartedAt: new Date().toISOString() }
+}
+
+/**
+ * 停止计时，并将本次计时记录为一条会话
+ * 不足 1 分钟的计时会被丢弃
+ */
+function stopTimer(journal: PlayJournal | undefined): PlayJournal {
+  const base = journal ?? createEmptyJournal()
+
+  // Happy Path: 没有正在进行的计时
+  if (!base.activeSessionStartedAt) {
+    return base
+  }
+
+  const endedAt = new Date().toISOString()
+  const durationMinutes = Math.floor(
+    (new Date(endedAt).getTime() - new Date(base.activeSessionStartedAt).getTime()) / 60000
+  )
+  const stopped = { ...base, activeSessionStartedAt: null }
+
+  if (durationMinutes < 1) {
+    return stopped
+  }
+
+  return addSession(stopped, {
+    startedAt: base.activeSessionStartedAt,
+    endedAt,
+    durationMinutes,
+  })
+}
+
+/**
+ * 计算累计游玩时长（分钟）
+ */
+function getTotalPlayMinutes(journal: PlayJournal | undefined): number {
+  return journal?.sessions.reduce((sum, s) => sum + s.durationMinutes, 0) ?? 0
+}
+
+/**
+ * 获取第一次进入指定状态的时间
+ * @returns ISO 时间字符串，未进入过时返回 null
+ */
+function getFirstTransitionAt(journal: PlayJournal | undefined, to: GameStatus): string | null {
+  return journal?.transitions.find((t) => t.to === to)?.at ?? null
+}
+
+/**
+ * 获取最后一次进入指定状态的时间
+ * @returns ISO 时间字符串，未进入过时返回 null
+ */
+function getLastTransitionAt(journal: PlayJournal | undefined, to: GameStatus): string | null {
+  const matches = journal?.transitions.filter((t) => t.to === to) ?? []
+  return matches.length > 0 ? matches[matches.length - 1].at : null
+}
+
+/**
+ * 格式化时长
+ * @param minutes - 分钟数
+ * @returns 按当前语言格式化，如 "12 小时 30 分钟"、"45 分钟"
+ */
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+
+  if (hours === 0) {
+    return i18nService.t('duration.minutes', { count: rest })
+  }
+
+  return rest === 0
+    ? i18nService.t('duration.hours', { count: hours })
+    : i18nService.t('duration.hoursMinutes', { hours, minutes: rest })
+}
+
+// ==================== Exports ====================
+
+export {
+  createEmptyJournal,
+  recordTransition,
+  addSession,
+  startTimer,
+  stopTimer,
+  getTotalPlayMinutes,
+  getFirstTransitionAt,
+  getLastTransitionAt,
+  formatDuration,
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { createGame } from '../test/fixtures'
+import { isBelowTargetPrice } from './price'
+
+const price = (currency: string, final: number) => ({
+  currency,
+  initial: 9900,
+  final,
+  discountPercent: 0,
+})
+
+describe('isBelowTargetPrice', () => {
+  it('alerts when the price drops to the target', () => {
+    const game = createGame({ price: price('CNY', 4900), targetPrice: 5000, targetCurrency: 'CNY' })
+
+    expect(isBelowTargetPrice(game)).toBe(true)
+    expect(isBelowTargetPrice({ ...game, targetPrice: 4800 })).toBe(false)
+  })
+
+  it('does not compare prices in different currencies', () => {
+    // 目标价格以人民币设置，切换商店地区后当前价格为美元
+    const game = createGame({ price: price('USD', 1999), targetPrice: 5000, targetCurrency: 'CNY' })
+
+    expect(isBelowTargetPrice(game)).toBe(false)
+  })
+
+  it('does not alert when the target currency is unknown', () => {
+    expect(isBelowTargetPrice(createGame({ price: price('CNY', 4900), targetPrice: 5000 }))).toBe(
+      false
+    )
+  })
+})
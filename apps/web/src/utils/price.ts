@@ -0,0 +1,108 @@
+import type { Game, PriceInfo, PricePoint } from '../types'
+import { i18nService } from '../services/i18n'
+
+// ==================== Constants ====================
+
+// 每个游戏最多保留的价格记录数
+const MAX_PRICE_POINTS = 365
+// 价格记录过期时间，超过该时间后刷新时重新获取价格
+const PRICE_STALE_MS = 6 * 60 * 60 * 1000
+
+// ==================== Helper Functions ====================
+
+/**
+ * 格式化价格
+ * @param cents - 最小货币单位金额
+ * @param currency - 货币代码，如 CNY
+ * @returns 按当前语言格式化，如 "¥49.00"
+ */
+function formatPrice(cents: number, currency: string): string {
+  try {
+    return i18nService.formatNumber(cents / 100, { style: 'currency', currency })
+  } catch {
+    // 未知货币代码时退化为纯数字
+    return `${(cents / 100).toFixed(2)} ${currency}`
+  }
+}
+
+/**
+ * 判断两个价格是否相同（忽略记录时间）
+ */
+function isSamePrice(a: PriceInfo, b: PriceInfo): boolean {
+  return a.currency === b.currency && a.final === b.final && a.initial === b.initial
+}
+
+/**
+ * 将新价格追加到价格历史
+ * 价格与最后一条记录相同且在同一天时不重复记录
+ * @param points - 已有记录（按时间升序）
+ * @param price - 本次刷新获取的价格
+ * @param at - 记录时间，默认当前时间
+ * @returns 新的记录数组
+ */
+function appendPricePoint(
+  points: PricePoint[],
+  price: PriceInfo,
+  at: string = new Date().toISOString()
+): PricePoint[] {
+  const last = points[points.length - 1]
+
+  // Happy Path: 当天价格没有变化
+  if (last && isSamePrice(last, price) && last.at.slice(0, 10) === at.slice(0, 10)) {
+    return points
+  }
+
+  return [...points, { ...price, at }].slice(-MAX_PRICE_POINTS)
+}
+
+/**
+ * 判断价格记录是否需要刷新
+ */
+function isPriceStale(points: PricePoint[], now: number = Date.now()): boolean {
+  const last = points[points.length - 1]
+  return !last || now - new Date(last.at).getTime() > PRICE_STALE_MS
+}
+
+/**
+ * 获取历史最低价（只比较与当前相同货币的记录）
+ * @returns 最低价（分），没有记录时返回 null
+ */
+function getLowestPrice(points: PricePoint[], currency: string): number | null {
+  const finals = points.filter((p) => p.currency === currency).map((p) => p.final)
+  return finals.length > 0 ? Math.min(...finals) : null
+}
+
+/**
+ * 判断当前价格是否为史低
+ * 只有打折时才提示，避免原价游戏永远显示为史低
+ */
+function isHistoricalLow(price: PriceInfo, points: PricePoint[]): boolean {
+  const lowest = getLowestPrice(points, price.currency)
+  return price.discountPercent > 0 && lowest !== null && price.final <= lowest
+}
+
+/**
+ * 判断游戏当前价格是否达到用户设置的目标价格
+ * 目标价格只与相同货币的价格比较（如切换了商店地区），货币未知时不提醒
+ */
+function isBelowTargetPrice(game: Game): boolean {
+  return (
+    game.price !== undefined &&
+    game.targetPrice !== undefined &&
+    game.targetPrice !== null &&
+    game.targetCurrency === game.price.currency &&
+    game.price.final <= game.targetPrice
+  )
+}
+
+// ==================== Exports ====================
+
+export {
+  formatPrice,
+  isSamePrice,
+  appendPricePoint,
+  isPriceStale,
+  getLowestPrice,
+  isHistoricalLow,
+  isBelowTargetPrice,
+}
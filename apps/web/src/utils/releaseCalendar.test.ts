@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { Game } from '../types'
+import { createGame } from '../test/fixtures'
+import { createReleaseCalendar, getUpcomingReleases } from './releaseCalendar'
+
+const NOW = new Date('2026-01-15T08:30:00.000Z')
+
+// 导出只包含一个即将发售游戏的日历
+const exportCalendar = (name: string, releaseDate: string) =>
+  createReleaseCalendar(
+    getUpcomingReleases([createGame({ id: 'g1', name, releaseDate, comingSoon: true })]),
+    'Releases',
+    NOW
+  )
+
+// 折行拆开了代理对（如 emoji）时会留下单独的代理项
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/
+
+// 去掉续行，还原被折行的内容行
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n')
+
+describe('getUpcomingReleases', () => {
+  it('keeps unreleased games sorted by date with dates to be announced last', () => {
+    const games: Partial<Game>[] = [
+      { id: 'tba', releaseDate: 'Coming soon', comingSoon: true },
+      { id: 'q2', releaseDate: 'Q2 2099', comingSoon: true },
+      { id: 'released', releaseDate: 'Feb 3, 2020', comingSoon: false },
+      { id: 'day', releaseDate: 'Apr 1, 2099', comingSoon: true },
+    ]
+    const releases = getUpcomingReleases(games.map(createGame))
+
+    expect(releases.map((r) => r.game.id)).toEqual(['day', 'q2', 'tba'])
+  })
+})
+
+describe('createReleaseCalendar', () => {
+  it('writes an all-day event per dated release', () => {
+    const lines = unfold(exportCalendar('Exact', 'Feb 3, 2099'))
+
+    expect(lines).toContain('BEGIN:VEVENT')
+    expect(lines).toContain('UID:g1@game-gallery')
+    expect(lines).toContain('DTSTAMP:20260115T083000Z')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20990203')
+    expect(lines).toContain('DTEND;VALUE=DATE:20990204')
+    expect(lines).toContain('SUMMARY:Exact')
+  })
+
+  it('puts vague dates on the first day and keeps the original date in the title', () => {
+    const lines = unfold(exportCalendar('Vague', 'Q2 2099'))
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20990401')
+    expect(lines).toContain('SUMMARY:Vague (Q2 2099)')
+  })
+
+  it('skips releases without a date', () => {
+    const ics = exportCalendar('Someday', 'Coming soon')
+
+    expect(ics).not.toContain('BEGIN:VEVENT')
+  })
+
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    const lines = unfold(exportCalendar('A\\B; C, D\nE', 'Feb 3, 2099'))
+
+    expect(lines).toContain('SUMMARY:A\\\\B\\; C\\, D\\nE')
+  })
+
+  it('ends every line with CRLF', () => {
+    const ics = exportCalendar('Exact', 'Feb 3, 2099')
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/)
+  })
+
+  it.each([
+    ['ASCII', 'A'.repeat(200)],
+    ['multi-byte', '星之卡比'.repeat(30)],
+    ['mixed', `Game ${'ゲーム'.repeat(20)}`],
+    ['emoji', `${'A'.repeat(63)}${'🎮'.repeat(20)}`],
+  ])('folds long %s lines at 75 bytes without splitting characters', (_, name) => {
+    const ics = exportCalendar(name, 'Feb 3, 2099')
+    const encoder = new TextEncoder()
+
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75)
+      expect(line).not.toMatch(LONE_SURROGATE)
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${name}`)
+  })
+})
@@ -0,0 +1,309 @@
+import type { Game, ReleaseHistory, ReleaseSlip } from '../types'
+import {
+  getReleaseDateRange,
+  getReleaseSortValue,
+  isGameReleased,
+  parseReleaseDate,
+  type ReleaseDate,
+} from './dateUtils'
+
+// ==================== Types ====================
+
+/**
+ * 即将发售的游戏及其解析后的发布日期
+ * 待定或无法解析的日期 range 为 null
+ */
+interface UpcomingRelease {
+  game: Game
+  release: ReleaseDate
+  range: { start: Date; end: Date } | null
+}
+
+/**
+ * 发布日期变化方向
+ * - delayed: 延期
+ * - advanced: 提前
+ * - changed: 无法比较先后（如从待定变为具体日期）
+ */
+type SlipDirection = 'delayed' | 'advanced' | 'changed'
+
+// ==================== Constants ====================
+
+// 每个游戏最多保留的发布日期变化记录数
+const MAX_RELEASE_SLIPS = 20
+// 发布日期变化后在日历中高亮的时长
+const SLIP_HIGHLIGHT_MS = 14 * 24 * 60 * 60 * 1000
+// 订阅日历时客户端的刷新间隔
+const CALENDAR_REFRESH_INTERVAL = 'PT12H'
+// iCalendar 每行最多 75 个字节，超出时折行
+const ICAL_LINE_LIMIT = 75
+
+const TBA_RELEASE: ReleaseDate = {
+  precision: 'tba',
+  year: null,
+  quarter: null,
+  month: null,
+  day: null,
+}
+
+// ==================== Release List ====================
+
+/**
+ * 获取游戏库中尚未发售的游戏，按发布日期升序排列（待定排在最后）
+ * @param games - 游戏列表
+ */
+function getUpcomingReleases(games: Game[]): UpcomingRelease[] {
+  return games
+    .filter((game) => !isGameReleased(game.comingSoon ?? null, game.releaseDate ?? null))
+    .map((game) => {
+      // 标记为即将发售但日期无法识别时按待定处理
+      const release = parseReleaseDate(game.releaseDate ?? null) ?? TBA_RELEASE
+      return { game, release, range: getReleaseDateRange(release) }
+    })
+    .sort((a, b) => {
+      const aValue = getReleaseSortValue(a.game.releaseDate ?? null)
+      const bValue = getReleaseSortValue(b.game.releaseDate ?? null)
+      if (aValue === bValue) return a.game.name.localeCompare(b.game.name)
+      if (aValue === null) return 1
+      if (bValue === null) return -1
+      return aValue - bValue
+    })
+}
+
+/**
+ * 获取列表视图中的分组 key
+ * 精确到日和月的按月分组，季度、年份、待定各自成组
+ * @returns 如 "2026-05"、"2026-Q2"、"2026"、"tba"
+ */
+function getAgendaGroupKey(release: ReleaseDate): string {
+  switch (release.precision) {
+    case 'day':
+    case 'month':
+      return `${release.year}-${String(release.month).padStart(2, '0')}`
+    case 'quarter':
+      return `${release.year}-Q${release.quarter}`
+    case 'year':
+      return String(release.year)
+    default:
+      return 'tba'
+  }
+}
+
+/**
+ * 获取月历的日期网格（每周从周一开始，包含前后月份补齐的日期）
+ * @param year - 年份
+ * @param month - 月份（1-12）
+ * @returns 按周分组的日期
+ */
+function getMonthGrid(year: number, month: number): Date[][] {
+  const first = new Date(year, month - 1, 1)
+  const last = new Date(year, month, 0)
+  const start = new Date(year, month - 1, 1 - ((first.getDay() + 6) % 7))
+
+  const weeks: Date[][] = []
+  const cursor = new Date(start)
+  while (cursor <= last) {
+    const week: Date[] = []
+    for (let i = 0; i < 7; i++) {
+      week.push(new Date(cursor))
+      cursor.setDate(cursor.getDate() + 1)
+    }
+    weeks.push(week)
+  }
+
+  return weeks
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  )
+}
+
+// ==================== Release Slips ====================
+
+function isSameReleaseDate(a: ReleaseDate | null, b: ReleaseDate | null): boolean {
+  return (
+    a !== null &&
+    b !== null &&
+    a.precision === b.precision &&
+    a.year === b.year &&
+    a.quarter === b.quarter &&
+    a.month === b.month &&
+    a.day === b.day
+  )
+}
+
+/**
+ * 用最新的发布日期更新历史
+ * 只有日期本身变化才记录；切换 Steam 语言导致文本变化但日期相同时只更新文本
+ * @param history - 已有历史，首次记录时为 undefined
+ * @param gameId - 游戏 ID
+ * @param releaseDate - 最新的发布日期文本
+ * @param at - 记录时间，默认当前时间
+ * @returns 新的历史，没有变化时返回原对象
+ */
+function updateReleaseHistory(
+  history: ReleaseHistory | undefined,
+  gameId: string,
+  releaseDate: string,
+  at: string = new Date().toISOString()
+): ReleaseHistory {
+  // Happy Path: 首次记录
+  if (!history) {
+    return { gameId, releaseDate, slips: [] }
+  }
+
+  // Happy Path: 没有变化
+  if (history.releaseDate === releaseDate) {
+    return history
+  }
+
+  if (isSameReleaseDate(parseReleaseDate(history.releaseDate), parseReleaseDate(releaseDate))) {
+    return { ...history, releaseDate }
+  }
+
+  const slip: ReleaseSlip = { from: history.releaseDate, to: releaseDate, at }
+  return { ...history, releaseDate, slips: [...history.slips, slip].slice(-MAX_RELEASE_SLIPS) }
+}
+
+/**
+ * 获取最近的发布日期变化（两周内），用于在日历中高亮
+ */
+function getRecentSlip(
+  history: ReleaseHistory | undefined,
+  now: number = Date.now()
+): ReleaseSlip | null {
+  const last = history?.slips[history.slips.length - 1]
+  return last && now - new Date(last.at).getTime() <= SLIP_HIGHLIGHT_MS ? last : null
+}
+
+function getSlipDirection(slip: ReleaseSlip): SlipDirection {
+  const from = getReleaseSortValue(slip.from)
+  const to = getReleaseSortValue(slip.to)
+
+  // Happy Path: 无法比较
+  if (from === null || to === null || from === to) {
+    return 'changed'
+  }
+
+  return to > from ? 'delayed' : 'advanced'
+}
+
+// ==================== iCalendar ====================
+
+function formatICalDate(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('')
+}
+
+function formatICalTimestamp(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * 按 RFC 5545 折行：每行不超过 75 字节，续行以空格开头
+ */
+function foldICalLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let bytes = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // 续行开头的空格占 1 字节
+    const limit = parts.length === 0 ? ICAL_LINE_LIMIT : ICAL_LINE_LIMIT - 1
+    if (bytes + size > limit) {
+      parts.push(current)
+      current = ''
+      bytes = 0
+    }
+    current += char
+    bytes += size
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * 生成即将发售游戏的 iCalendar（.ics）文件内容
+ * 每个游戏为一个全天事件；只有月份、季度或年份的日期放在该范围的第一天，并在标题中注明原始日期
+ * 待定的游戏没有日期，不会导出
+ * @param releases - 即将发售的游戏
+ * @param calendarName - 日历名称
+ * @param now - 生成时间
+ */
+function createReleaseCalendar(
+  releases: UpcomingRelease[],
+  calendarName: string,
+  now: Date = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//GameGallery//Release Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendarName)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${CALENDAR_REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${CALENDAR_REFRESH_INTERVAL}`,
+  ]
+
+  for (const { game, release, range } of releases) {
+    if (!range) continue
+
+    const end = new Date(range.start)
+    end.setDate(end.getDate() + 1)
+    const summary =
+      release.precision === 'day' ? game.name : `${game.name} (${game.releaseDate ?? ''})`
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${game.id}@game-gallery`,
+      `DTSTAMP:${formatICalTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${formatICalDate(range.start)}`,
+      `DTEND;VALUE=DATE:${formatICalDate(end)}`,
+      `SUMMARY:${escapeICalText(summary)}`,
+      'TRANSP:TRANSPARENT'
+    )
+    if (game.steamUrl) {
+      lines.push(`URL:${game.steamUrl}`, `DESCRIPTION:${escapeICalText(game.steamUrl)}`)
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldICalLine).join('\r\n') + '\r\n'
+}
+
+// ==================== Exports ====================
+
+export type { UpcomingRelease, SlipDirection }
+export {
+  getUpcomingReleases,
+  getAgendaGroupKey,
+  getMonthGrid,
+  isSameDay,
+  updateReleaseHistory,
+  getRecentSlip,
+  getSlipDirection,
+  createReleaseCalendar,
+}
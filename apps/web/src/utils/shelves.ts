@@ -0,0 +1,114 @@
+import type { Shelf, GameStatus } from '../types'
+
+// ==================== Constants ====================
+
+/**
+ * 默认书架
+ * 对应旧版固定的三种状态，保证已有数据无需迁移即可继续使用
+ */
+const DEFAULT_SHELVES: Shelf[] = [
+  {
+    id: 'playing',
+    name: 'Playing',
+    color: '#34d399',
+    order: 0,
+    nextShelfId: 'completion',
+    actionLabel: 'Start Playing',
+    isDefault: true,
+  },
+  {
+    id: 'queueing',
+    name: 'Queueing',
+    color: '#fbbf24',
+    order: 1,
+    nextShelfId: 'playing',
+    actionLabel: 'Queue',
+    isDefault: true,
+  },
+  {
+    id: 'completion',
+    name: 'Completion',
+    color: '#38bdf8',
+    order: 2,
+    nextShelfId: 'queueing',
+    actionLabel: 'Mark Complete',
+    isDefault: true,
+  },
+]
+
+// 新添加的游戏默认放入的书架
+const DEFAULT_SHELF_ID: GameStatus = 'queueing'
+
+// ==================== Helper Functions ====================
+
+/**
+ * 按 order 排序书架
+ * @param shelves - 书架列表
+ * @returns 排序后的新数组
+ */
+function sortShelves(shelves: Shelf[]): Shelf[] {
+  return [...shelves].sort((a, b) => a.order - b.order)
+}
+
+/**
+ * 确保默认书架始终存在
+ * 用户保存过的默认书架（可能改过名称或颜色）优先，缺失的默认书架追加到末尾
+ * @param shelves - 用户书架列表
+ * @returns 包含所有默认书架的有序列表
+ */
+function withDefaultShelves(shelves: Shelf[]): Shelf[] {
+  const result = [...shelves]
+  const maxOrder = shelves.reduce((max, s) => Math.max(max, s.order), -1)
+
+  DEFAULT_SHELVES.forEach((defaultShelf, index) => {
+    if (!result.some((s) => s.id === defaultShelf.id)) {
+      const order = shelves.length === 0 ? defaultShelf.order : maxOrder + 1 + index
+      result.push({ ...defaultShelf, order })
+    }
+  })
+
+  return sortShelves(result.map((s) => (isDefaultShelfId(s.id) ? { ...s, isDefault: true } : s)))
+}
+
+/**
+ * 判断是否为默认书架
+ */
+function isDefaultShelfId(id: GameStatus): boolean {
+  return DEFAULT_SHELVES.some((s) => s.id === id)
+}
+
+/**
+ * 获取状态推进流中的下一个书架
+ * @param shelves - 书架列表
+ * @param status - 当前状态
+ * @returns 下一个书架，流程终点或书架不存在时返回 null
+ */
+function getNextShelf(shelves: Shelf[], status: GameStatus): Shelf | null {
+  const current = shelves.find((s) => s.id === status)
+
+  // Happy Path: 当前书架不存在或没有下一步
+  if (!current || !current.nextShelfId) {
+    return null
+  }
+
+  return shelves.find((s) => s.id === current.nextShelfId) ?? null
+}
+
+/**
+ * 生成新的书架 ID
+ */
+function createShelfId(): string {
+  return `shelf-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
+
+// ==================== Exports ====================
+
+export {
+  DEFAULT_SHELVES,
+  DEFAULT_SHELF_ID,
+  sortShelves,
+  withDefaultShelves,
+  isDefaultShelfId,
+  getNextShelf,
+  createShelfId,
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { createGame } from '../test/fixtures'
+import { compareGameOrder, moveItem, planSortOrder } from './sortOrder'
+
+// 按顺序创建一个书架中的游戏，如 shelf(['a', 0], ['b', 1024])
+const shelf = (...entries: [id: string, sortOrder?: number][]) =>
+  entries.map(([id, sortOrder]) => createGame({ id, sortOrder }))
+
+describe('planSortOrder', () => {
+  it('places a game between its neighbours', () => {
+    const ordered = shelf(['a', 0], ['moved', 5000], ['b', 1024])
+
+    expect(planSortOrder(ordered, 'moved')).toEqual({
+      kind: 'single',
+      gameId: 'moved',
+      sortOrder: 512,
+    })
+  })
+
+  it('steps past the first or last neighbour when moved to an edge', () => {
+    expect(planSortOrder(shelf(['moved', 50], ['a', 0], ['b', 1024]), 'moved')).toMatchObject({
+      sortOrder: -1024,
+    })
+    expect(planSortOrder(shelf(['a', 0], ['b', 1024], ['moved', -50]), 'moved')).toMatchObject({
+      sortOrder: 2048,
+    })
+  })
+
+  it('treats games without a sort order as 0', () => {
+    const ordered = shelf(['a'], ['moved', 9], ['b', 10])
+
+    expect(planSortOrder(ordered, 'moved')).toMatchObject({ kind: 'single', sortOrder: 5 })
+  })
+
+  it('reindexes only the games whose order changes when the gap is exhausted', () => {
+    const ordered = shelf(['a', 0], ['moved', 99], ['b', 0], ['c', 2048])
+
+    expect(planSortOrder(ordered, 'moved')).toEqual({
+      kind: 'reindex',
+      items: [
+        { gameId: 'moved', sortOrder: 1024 },
+        { gameId: 'b', sortOrder: 2048 },
+        { gameId: 'c', sortOrder: 3072 },
+      ],
+    })
+  })
+
+  it('reindexes every following game, including legacy games from later pages', () => {
+    // 旧数据的权重都是 0，'c' 和 'd' 在尚未加载的分页中，由调用方接在已加载的游戏之后
+    const ordered = shelf(['a', 0], ['moved', 0], ['b', 0], ['c', 0], ['d', 0])
+
+    expect(planSortOrder(ordered, 'moved')).toEqual({
+      kind: 'reindex',
+      items: [
+        { gameId: 'moved', sortOrder: 1024 },
+        { gameId: 'b', sortOrder: 2048 },
+        { gameId: 'c', sortOrder: 3072 },
+        { gameId: 'd', sortOrder: 4096 },
+      ],
+    })
+  })
+
+  it('returns null when the game is not in the list', () => {
+    expect(planSortOrder(shelf(['a', 0]), 'missing')).toBeNull()
+  })
+})
+
+describe('compareGameOrder', () => {
+  it('orders pinned games first, then by sort order, then newest first', () => {
+    const games = [
+      createGame({ id: 'old', sortOrder: 0, addedAt: '2026-01-01T00:00:00Z' }),
+      createGame({ id: 'late', sortOrder: 10 }),
+      createGame({ id: 'new', sortOrder: 0, addedAt: '2026-06-01T00:00:00Z' }),
+      createGame({ id: 'pinned', sortOrder: 99, isPinned: true }),
+    ]
+
+    expect([...games].sort(compareGameOrder).map((g) => g.id)).toEqual([
+      'pinned',
+      'new',
+      'old',
+      'late',
+    ])
+  })
+})
+
+describe('moveItem', () => {
+  it('moves an item without mutating the input', () => {
+    const items = ['a', 'b', 'c']
+
+    expect(moveItem(items, 0, 2)).toEqual(['b', 'c', 'a'])
+    expect(items).toEqual(['a', 'b', 'c'])
+  })
+})
@@ -0,0 +1,100 @@
+import type { Game } from '../types'
+
+// ==================== Types ====================
+
+/**
+ * 一次拖动排序需要写入的排序权重
+ * - single: 只更新被移动的游戏（取前后邻居的中间值）
+ * - reindex: 相邻权重之间已无空隙，整组重新分配（只包含权重发生变化的游戏）
+ */
+type SortOrderPlan =
+  | { kind: 'single'; gameId: string; sortOrder: number }
+  | { kind: 'reindex'; items: { gameId: string; sortOrder: number }[] }
+
+// ==================== Constants ====================
+
+// 重新分配时相邻游戏之间的间隔，留出足够空间给后续的中间值插入
+const SORT_ORDER_STEP = 1024
+// 小于该间隔时认为精度耗尽，需要整组重新分配
+const MIN_SORT_ORDER_GAP = 1e-6
+
+// ==================== Helper Functions ====================
+
+/**
+ * 比较两个游戏在书架中的顺序
+ * 置顶优先，再按排序权重升序，权重相同时按添加时间倒序（新添加的在前）
+ */
+function compareGameOrder(a: Game, b: Game): number {
+  if (a.isPinned && !b.isPinned) return -1
+  if (!a.isPinned && b.isPinned) return 1
+
+  const orderDiff = (a.sortOrder ?? 0) - (b.sortOrder ?? 0)
+  if (orderDiff !== 0) return orderDiff
+
+  return new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime()
+}
+
+/**
+ * 计算位于两个权重之间的新权重
+ * @returns 新权重；两者之间没有空隙时返回 null
+ */
+function getSortOrderBetween(before: number | undefined, after: number | undefined): number | null {
+  if (before === undefined && after === undefined) return 0
+  if (before === undefined) return after! - SORT_ORDER_STEP
+  if (after === undefined) return before + SORT_ORDER_STEP
+
+  // Happy Path: 精度耗尽
+  if (after - before < MIN_SORT_ORDER_GAP) {
+    return null
+  }
+
+  return (before + after) / 2
+}
+
+/**
+ * 根据拖动后的顺序计算需要写入的排序权重
+ * 一般情况下只写入被移动的游戏；只有权重空隙耗尽时才重新分配整组
+ * @param ordered - 拖动后的游戏顺序（同一书架、同一置顶分组）；重新分配时只会写入列表中的游戏，
+ *   列表不完整时未包含的游戏会与重新分配后的权重交错，调用方需在返回 reindex 时传入完整书架
+ * @param movedId - 被移动的游戏 ID
+ * @returns 写入计划；游戏不在列表中时返回 null
+ */
+function planSortOrder(ordered: Game[], movedId: string): SortOrderPlan | null {
+  const index = ordered.findIndex((g) => g.id === movedId)
+
+  // Happy Path: 游戏不在列表中
+  if (index === -1) {
+    return null
+  }
+
+  const before = index > 0 ? (ordered[index - 1].sortOrder ?? 0) : undefined
+  const after = index < ordered.length - 1 ? (ordered[index + 1].sortOrder ?? 0) : undefined
+  const sortOrder = getSortOrderBetween(before, after)
+
+  if (sortOrder !== null) {
+    return { kind: 'single', gameId: movedId, sortOrder }
+  }
+
+  const items = ordered
+    .map((g, i) => ({ gameId: g.id, sortOrder: i * SORT_ORDER_STEP, previous: g.sortOrder ?? 0 }))
+    .filter((item) => item.sortOrder !== item.previous)
+    .map(({ gameId, sortOrder }) => ({ gameId, sortOrder }))
+
+  return { kind: 'reindex', items }
+}
+
+/**
+ * 将游戏在列表中移动到新位置
+ * @returns 新数组
+ */
+function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  const next = [...items]
+  const [moved] = next.splice(fromIndex, 1)
+  next.splice(toIndex, 0, moved)
+  return next
+}
+
+// ==================== Exports ====================
+
+export type { SortOrderPlan }
+export { SORT_ORDER_STEP, compareGameOrder, getSortOrderBetween, planSortOrder, moveItem }
@@ -0,0 +1,151 @@
+import type { Game, GameStatus } from '../types'
+import type { SteamProfileGame } from '../services/steam'
+import { extractAppIdFromSteamUrl } from './gameDataMapper'
+import { SORT_ORDER_STEP } from './sortOrder'
+
+// ==================== Types ====================
+
+type ImportSource = 'owned' | 'wishlist'
+
+/**
+ * 导入候选：Steam 资料中的一个游戏与当前游戏库的对比结果
+ */
+interface ImportCandidate {
+  appId: number
+  name: string
+  source: ImportSource
+  playtimeMinutes: number | null
+  existing: Game | null // 已在游戏库中时为对应的游戏
+}
+
+type ImportItemState = 'pending' | 'done' | 'skipped' | 'failed'
+
+interface ImportJobItem {
+  appId: number
+  name: string
+  status: GameStatus // 目标书架
+  sortOrder: number
+  state: ImportItemState
+  error?: string
+}
+
+/**
+ * 导入任务
+ * 每处理一个游戏就保存一次，页面刷新或关闭后可以从中断处继续
+ */
+interface ImportJob {
+  steamId: string
+  createdAt: string
+  items: ImportJobItem[]
+}
+
+// ==================== Helper Functions ====================
+
+/**
+ * 将 Steam 资料中的游戏与游戏库按 app_id 对比
+ * 同时出现在已拥有和愿望单中的游戏只保留已拥有
+ * @param owned - 已拥有的游戏
+ * @param wishlist - 愿望单中的游戏
+ * @param library - 当前游戏库
+ * @returns 候选列表：未入库的在前（保持 Steam 返回的顺序），已入库的在后
+ */
+function diffSteamLibrary(
+  owned: SteamProfileGame[],
+  wishlist: SteamProfileGame[],
+  library: Game[]
+): ImportCandidate[] {
+  const libraryByAppId = new Map<number, Game>()
+  for (const game of library) {
+    const appId = game.steamUrl ? extractAppIdFromSteamUrl(game.steamUrl) : null
+    if (appId) {
+      libraryByAppId.set(appId, game)
+    }
+  }
+
+  const seen = new Set<number>()
+  const candidates: ImportCandidate[] = []
+  const sources: [ImportSource, SteamProfileGame[]][] = [
+    ['owned', owned],
+    ['wishlist', wishlist],
+  ]
+
+  for (const [source, list] of sources) {
+    for (const game of list) {
+      if (seen.has(game.appId)) continue
+      seen.add(game.appId)
+
+      candidates.push({
+        appId: game.appId,
+        name: game.name,
+        source,
+        playtimeMinutes: game.playtimeMinutes,
+        existing: libraryByAppId.get(game.appId) ?? null,
+      })
+    }
+  }
+
+  return [...candidates.filter((c) => !c.existing), ...candidates.filter((c) => c.existing)]
+}
+
+/**
+ * 创建导入任务
+ * 每个书架中导入的游戏依次排在该书架未置顶游戏的最前面，保持选择时的顺序
+ * @param steamId - SteamID64
+ * @param candidates - 选中的候选（不包含已入库的游戏）
+ * @param targetShelves - 各来源对应的目标书架
+ * @param library - 当前游戏库，用于计算排序权重
+ */
+function createImportJob(
+  steamId: string,
+  candidates: ImportCandidate[],
+  targetShelves: Record<ImportSource, GameStatus>,
+  library: Game[]
+): ImportJob {
+  const counts = new Map<GameStatus, number>()
+  for (const candidate of candidates) {
+    const status = targetShelves[candidate.source]
+    counts.set(status, (counts.get(status) ?? 0) + 1)
+  }
+
+  // 每个书架当前最小的排序权重
+  const topSortOrders = new Map<GameStatus, number>()
+  for (const status of counts.keys()) {
+    const orders = library
+      .filter((g) => g.status === status && !g.isPinned)
+      .map((g) => g.sortOrder ?? 0)
+    topSortOrders.set(status, orders.length > 0 ? Math.min(...orders) : 0)
+  }
+
+  const positions = new Map<GameStatus, number>()
+  const items = candidates.map((candidate): ImportJobItem => {
+    const status = targetShelves[candidate.source]
+    const position = positions.get(status) ?? 0
+    positions.set(status, position + 1)
+
+    return {
+      appId: candidate.appId,
+      name: candidate.name,
+      status,
+      sortOrder: topSortOrders.get(status)! - (counts.get(status)! - position) * SORT_ORDER_STEP,
+      state: 'pending',
+    }
+  })
+
+  return { steamId, createdAt: new Date().toISOString(), items }
+}
+
+/**
+ * 统计导入任务进度
+ */
+function getImportProgress(job: ImportJob): Record<ImportItemState, number> & { total: number } {
+  const progress = { pending: 0, done: 0, skipped: 0, failed: 0, total: job.items.length }
+  for (const item of job.items) {
+    progress[item.state]++
+  }
+  return progress
+}
+
+// ==================== Exports ====================
+
+export type { ImportSource, ImportCandidate, ImportItemState, ImportJobItem, ImportJob }
+export { diffSteamLibrary, createImportJob, getImportProgress }
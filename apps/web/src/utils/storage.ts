@@ -0,0 +1,84 @@
+// ==================== Types ====================
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+// ==================== Constants ====================
+
+// 当前配置（profile）的 ID，保存在设备级存储中
+const ACTIVE_PROFILE_KEY = 'active_profile'
+
+// 默认配置使用不带前缀的键，兼容多配置之前保存的数据
+const DEFAULT_PROFILE_ID = 'default'
+
+// ==================== Helper Functions ====================
+
+/**
+ * 内存存储，在没有 localStorage 的环境（Node 中运行的 CLI、迁移脚本）中使用
+ * 进程结束后数据即丢失
+ */
+function createMemoryStorage(): KeyValueStorage {
+  const items = new Map<string, string>()
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value))
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+/**
+ * 指定配置下的存储键
+ * @example getProfileKey('kid', 'session_token') → 'profile.kid.session_token'
+ */
+function getProfileKey(profileId: string, key: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `profile.${profileId}.${key}`
+}
+
+/**
+ * 指定配置的 IndexedDB 数据库名称
+ */
+function getProfileDatabaseName(profileId: string, name: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? name : `${name}-${profileId}`
+}
+
+function createScopedStorage(base: KeyValueStorage, profileId: string): KeyValueStorage {
+  return {
+    getItem: (key) => base.getItem(getProfileKey(profileId, key)),
+    setItem: (key, value) => base.setItem(getProfileKey(profileId, key), value),
+    removeItem: (key) => base.removeItem(getProfileKey(profileId, key)),
+  }
+}
+
+// ==================== Exports ====================
+
+/**
+ * 设备级存储：浏览器中为 localStorage，Node 中为内存存储
+ * 只用于与配置无关的数据（配置列表、代理健康状况等）
+ */
+const deviceStorage: KeyValueStorage =
+  typeof localStorage === 'undefined' ? createMemoryStorage() : localStorage
+
+/**
+ * 页面加载时的当前配置，切换配置后重新加载页面生效
+ */
+const activeProfileId = deviceStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID
+
+/**
+ * 持久化存储，按当前配置隔离（登录信息、偏好设置、缓存、小游戏最高分等）
+ */
+const storage: KeyValueStorage = createScopedStorage(deviceStorage, activeProfileId)
+
+export type { KeyValueStorage }
+export {
+  ACTIVE_PROFILE_KEY,
+  DEFAULT_PROFILE_ID,
+  activeProfileId,
+  deviceStorage,
+  storage,
+  getProfileKey,
+  getProfileDatabaseName,
+}